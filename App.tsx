@@ -2,11 +2,13 @@ import React, { useState, useEffect, lazy, Suspense } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Layout } from './components/Layout';
 import { Login } from './pages/Login';
+import { ResetPassword } from './pages/ResetPassword';
 import { AppView } from './types';
 import { getCurrentUser, onAuthStateChange, User } from './services/auth';
-import { performDataCleanup, hasCompletedOnboarding } from './services/storage';
+import { performDataCleanup, maintainEntryPhotos, hasCompletedOnboarding, startCloudSync, startLiveUpdates } from './services/storage';
 import { scheduleAtMidnight, hasDateChanged } from './utils/midnight';
 import { cache } from './utils/cache';
+import { getAppMode } from './services/supabase';
 
 // Lazy load pages for code-splitting
 const Dashboard = lazy(() => import('./pages/Dashboard').then(m => ({ default: m.Dashboard })));
@@ -16,6 +18,9 @@ const History = lazy(() => import('./pages/History').then(m => ({ default: m.His
 const Profile = lazy(() => import('./pages/Profile').then(m => ({ default: m.Profile })));
 const Onboarding = lazy(() => import('./pages/Onboarding').then(m => ({ default: m.Onboarding })));
 
+// Persisted cache entries belong to one account in one storage mode
+const setCacheScope = (user: User | null) => cache.setScope(user ? `${getAppMode()}:${user.id}` : null);
+
 const LoadingSpinner = () => (
   <div className="min-h-screen bg-surface flex items-center justify-center">
     <div className="w-8 h-8 border-2 border-primary-200 border-t-primary-600 rounded-full animate-spin"></div>
@@ -28,28 +33,39 @@ function App() {
   const [loading, setLoading] = useState(true);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [checkingOnboarding, setCheckingOnboarding] = useState(true);
+  // Signed in from a password reset link - ask for the new password first
+  const [recoveringPassword, setRecoveringPassword] = useState(false);
 
   useEffect(() => {
     // Initial check
     getCurrentUser().then((u) => {
+      setCacheScope(u);
       setUser(u);
       setLoading(false);
 
       // Perform rolling cleanup when a user is found
       if (u) {
         performDataCleanup().catch(err => console.error("Cleanup failed:", err));
+        maintainEntryPhotos().catch(err => console.error("Photo maintenance failed:", err));
       }
     });
 
     // Subscribe to changes (works for both Supabase and Mock)
-    const unsubscribe = onAuthStateChange((u) => {
+    const unsubscribe = onAuthStateChange((u, event) => {
+      setCacheScope(u);
       setUser(u);
       setLoading(false);
+      if (event === 'PASSWORD_RECOVERY') setRecoveringPassword(true);
+      if (event === 'SIGNED_OUT') setRecoveringPassword(false);
+
+      // Email changes and new passwords don't need the startup work again
+      if (event === 'USER_UPDATED') return;
 
       if (u) {
         performDataCleanup().catch(err => console.error("Cleanup failed:", err));
+        maintainEntryPhotos().catch(err => console.error("Photo maintenance failed:", err));
       }
-    });
+    }, (message) => alert(message));
 
     return () => unsubscribe();
   }, []);
@@ -80,6 +96,18 @@ function App() {
     };
   }, []);
 
+  // Replay queued writes and sync with other devices (cloud mode)
+  useEffect(() => {
+    if (!user) return;
+    return startCloudSync();
+  }, [user?.id]);
+
+  // Refresh pages when other tabs or devices change the user's data
+  useEffect(() => {
+    if (!user) return;
+    return startLiveUpdates(user.id);
+  }, [user?.id]);
+
   // Check onboarding status when user changes
   useEffect(() => {
     const checkOnboarding = async () => {
@@ -115,6 +143,10 @@ function App() {
     return <Login />;
   }
 
+  if (recoveringPassword) {
+    return <ResetPassword onDone={() => setRecoveringPassword(false)} />;
+  }
+
   // If user hasn't completed onboarding, show onboarding
   if (showOnboarding) {
     return (
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { Gauge } from 'lucide-react';
+import { getAIUsageByDay, getTodayAIUsage, getAIUsageCaps, saveAIUsageCaps, AIUsageDay, AI_USAGE_CHANGED_EVENT } from '../services/aiUsage';
+import { AITask, AI_TASKS, AI_TASK_LABELS } from '../services/ai';
+
+const DAYS_SHOWN = 14;
+
+const formatCost = (cost: number | null): string => {
+  if (cost === null) return '—';
+  if (cost > 0 && cost < 0.01) return '<$0.01';
+  return `$${cost.toFixed(2)}`;
+};
+
+const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const capitalize = (label: string): string => label.charAt(0).toUpperCase() + label.slice(1);
+
+/**
+ * AI calls and estimated cost per day, and the daily caps per task
+ */
+export const AIUsageCard: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [days, setDays] = useState<AIUsageDay[]>([]);
+  const [today, setToday] = useState<Partial<Record<AITask, number>>>({});
+  // Inputs as typed; blank means no cap
+  const [caps, setCaps] = useState<Record<AITask, string>>({} as Record<AITask, string>);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadUsage = () => {
+    Promise.all([getAIUsageByDay(DAYS_SHOWN), getTodayAIUsage()])
+      .then(([byDay, used]) => {
+        setDays(byDay);
+        setToday(used);
+      })
+      .catch(e => console.error('Failed to load AI usage', e));
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadUsage();
+    getAIUsageCaps().then(saved => {
+      setCaps(Object.fromEntries(AI_TASKS.map(task => [task, saved[task] === null ? '' : String(saved[task])])) as Record<AITask, string>);
+    });
+
+    window.addEventListener(AI_USAGE_CHANGED_EVENT, loadUsage);
+    return () => window.removeEventListener(AI_USAGE_CHANGED_EVENT, loadUsage);
+  }, [isOpen]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveAIUsageCaps(Object.fromEntries(AI_TASKS.map(task => {
+        const value = parseInt(caps[task]);
+        return [task, Number.isFinite(value) && value >= 0 ? value : null];
+      })));
+      alert('Daily limits saved.');
+    } catch (e: any) {
+      alert(e.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const totalCalls = days.reduce((sum, day) => sum + day.calls, 0);
+  const priced = days.filter(day => day.cost !== null);
+  const totalCost = priced.length > 0 ? priced.reduce((sum, day) => sum + (day.cost || 0), 0) : null;
+  const inputClass = "w-16 bg-secondary-50 rounded-xl px-2 py-1 text-xs font-bold text-primary-900 text-center outline-none border border-secondary-100";
+
+  return (
+    <div className="bg-white p-6 rounded-4xl border border-white/50 shadow-soft space-y-4">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-3 text-left">
+        <div className="w-10 h-10 rounded-2xl flex items-center justify-center bg-secondary-100 text-secondary-500">
+          <Gauge size={20} />
+        </div>
+        <div>
+          <p className="text-sm font-black text-primary-900">AI Usage</p>
+          <p className="text-xs text-secondary-500 font-bold">Calls, estimated cost and daily limits</p>
+        </div>
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="flex gap-3">
+            <div className="flex-1 bg-secondary-50 rounded-2xl p-3">
+              <p className="text-[11px] font-bold text-secondary-500">Calls ({DAYS_SHOWN} days)</p>
+              <p className="text-lg font-black text-primary-900">{totalCalls}</p>
+            </div>
+            <div className="flex-1 bg-secondary-50 rounded-2xl p-3">
+              <p className="text-[11px] font-bold text-secondary-500">Estimated cost</p>
+              <p className="text-lg font-black text-primary-900">{formatCost(totalCost)}</p>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex px-1 text-[11px] font-black text-secondary-400">
+              <span className="flex-1">Day</span>
+              <span className="w-14 text-right">Calls</span>
+              <span className="w-16 text-right">Tokens</span>
+              <span className="w-16 text-right">Cost</span>
+            </div>
+            {days.filter(day => day.calls > 0 || day.capped > 0).map(day => (
+              <div key={day.date} className="flex items-center px-1 text-xs font-bold text-primary-900">
+                <span className="flex-1">{day.date}</span>
+                <span className="w-14 text-right">
+                  {day.calls}
+                  {day.failed > 0 && <span className="text-rose-500"> ({day.failed}✕)</span>}
+                </span>
+                <span className="w-16 text-right text-secondary-500">{formatTokens(day.inputTokens + day.outputTokens)}</span>
+                <span className="w-16 text-right">{formatCost(day.cost)}</span>
+              </div>
+            ))}
+            {totalCalls === 0 && (
+              <p className="text-xs text-secondary-400 font-bold px-1">No AI calls in the last {DAYS_SHOWN} days.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-black text-primary-900 px-1">Daily limits</p>
+            {AI_TASKS.map(task => (
+              <label key={task} className="flex items-center justify-between px-1 text-xs font-bold text-secondary-600">
+                <span>
+                  {capitalize(AI_TASK_LABELS[task])}
+                  <span className="text-secondary-400"> · {today[task] || 0} today</span>
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="∞"
+                  value={caps[task] ?? ''}
+                  onChange={e => setCaps(prev => ({ ...prev, [task]: e.target.value }))}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+            <p className="text-[11px] text-secondary-400 font-bold px-1">
+              Leave a limit blank for no limit. Costs are estimates from list prices; local models show no cost.
+            </p>
+          </div>
+
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="w-full py-3 rounded-2xl bg-[#3D745B] text-white text-xs font-black hover:bg-[#2D5A45] disabled:opacity-50 transition-all"
+          >
+            {isSaving ? 'Saving...' : 'Save Daily Limits'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
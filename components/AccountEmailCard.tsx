@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { ExternalLink, Mail } from 'lucide-react';
+import { getCurrentUser, onAuthStateChange, changeEmail } from '../services/auth';
+
+/**
+ * The sign-in email, and changing it (confirmed from a link sent to the new address)
+ */
+export const AccountEmailCard: React.FC = () => {
+  const [email, setEmail] = useState<string | undefined>();
+  const [isEditing, setIsEditing] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // Local Mode can't send email, so the link is shown here instead
+  const [localLink, setLocalLink] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCurrentUser().then(user => setEmail(user?.email));
+    return onAuthStateChange((user, event) => {
+      setEmail(user?.email);
+      if (event === 'USER_UPDATED') {
+        setMessage(null);
+        setLocalLink(null);
+      }
+    });
+  }, []);
+
+  const close = () => {
+    setIsEditing(false);
+    setNewEmail('');
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    try {
+      const { localLink: link } = await changeEmail(newEmail);
+      setLocalLink(link || null);
+      setMessage(link
+        ? "Open the link below to confirm the new email."
+        : `Confirm the change from the links sent to ${email} and ${newEmail}.`);
+      close();
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const inputClass = "w-full bg-secondary-50 rounded-2xl px-4 py-3 text-xs font-bold text-primary-900 outline-none border border-secondary-100";
+  const optionClass = "flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl border border-secondary-200 text-primary-900 text-xs font-black hover:bg-secondary-50 disabled:opacity-50 transition-all";
+
+  return (
+    <div className="bg-white p-6 rounded-4xl border border-white/50 shadow-soft space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-2xl flex items-center justify-center bg-secondary-100 text-secondary-500">
+          <Mail size={20} />
+        </div>
+        <div className="min-w-0">
+          <p className="text-sm font-black text-primary-900">Email</p>
+          <p className="text-xs text-secondary-500 font-bold truncate">{email || 'Not set'}</p>
+        </div>
+      </div>
+
+      {message && <p className="text-[11px] text-secondary-400 font-bold px-1">{message}</p>}
+      {localLink && (
+        <button onClick={() => window.location.assign(localLink)} className={`w-full ${optionClass}`}>
+          <ExternalLink size={14} /> Open Link
+        </button>
+      )}
+
+      {isEditing ? (
+        <form onSubmit={handleSend} className="space-y-3">
+          <input
+            type="email"
+            required
+            autoFocus
+            placeholder="New email"
+            value={newEmail}
+            onChange={e => setNewEmail(e.target.value)}
+            className={inputClass}
+          />
+          <div className="flex gap-3">
+            <button type="button" onClick={close} disabled={isSending} className={optionClass}>
+              Cancel
+            </button>
+            <button
+              disabled={isSending}
+              className="flex-1 py-3 rounded-2xl bg-[#3D745B] text-white text-xs font-black hover:bg-[#2D5A45] disabled:opacity-50 transition-all"
+            >
+              {isSending ? 'Sending...' : 'Send Confirmation'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button onClick={() => setIsEditing(true)} className={`w-full ${optionClass}`}>
+          <Mail size={14} /> Change Email
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { X, Camera, AlertCircle, ChevronLeft, Sparkles, RefreshCw, ThumbsUp, ChefHat, Image as ImageIcon, Calendar, Clock, Zap, Activity, Droplets, Trash2, PlusCircle, MessageSquare, Hourglass, RotateCcw, Database, HardDrive, Users } from 'lucide-react';
-import { getCurrentDateString } from '../utils/midnight';
+import { getCurrentDateString, getTrackingDateTime } from '../utils/midnight';
 import { Button } from './ui/Button';
 import { analyzeFoodImage, calculateCaloriesFromText, calculateRecipe, RecipeResult, Ingredient } from '../services/gemini';
 import { saveEntry } from '../services/storage';
-import { FoodEntry } from '../types';
+import { FoodEntry, EntryChangeSource } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import { ScanningAnimation } from './ScanningAnimation';
 import { updateStreak } from '../services/streak';
@@ -120,6 +120,7 @@ export const AddFoodModal: React.FC<AddFoodModalProps> = ({ onClose, onSuccess,
   const [ingredients, setIngredients] = useState<Ingredient[]>(editEntry?.ingredients || []);
   const [aiConfidence, setAiConfidence] = useState<number | null>(editEntry?.confidence || null);
   const [originalAiData, setOriginalAiData] = useState<any | null>(editEntry?.originalAiResponse || null);
+  const [lastAiResult, setLastAiResult] = useState<any | null>(null);
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -171,6 +172,7 @@ export const AddFoodModal: React.FC<AddFoodModalProps> = ({ onClose, onSuccess,
     setFat(result.fat.toString());
     setIngredients(result.ingredients || []);
     setAiConfidence(result.confidence);
+    setLastAiResult(result);
   };
 
   const handleRecalculate = async () => {
@@ -210,9 +212,8 @@ export const AddFoodModal: React.FC<AddFoodModalProps> = ({ onClose, onSuccess,
     }
 
     try {
-      const [year, month, day] = entryDate.split('-').map(Number);
-      const [hours, minutes] = entryTime.split(':').map(Number);
-      const dateObj = new Date(year, month - 1, day, hours, minutes);
+      // A time before the day start happened on the next calendar day
+      const dateObj = getTrackingDateTime(entryDate, entryTime);
 
       if (isNaN(dateObj.getTime())) {
         throw new Error("Invalid date or time selected.");
@@ -226,6 +227,15 @@ export const AddFoodModal: React.FC<AddFoodModalProps> = ({ onClose, onSuccess,
 
       if (isNaN(numCalories)) throw new Error("Calories must be a valid number.");
 
+      // Credit the AI in the edit history while the values are still the ones it calculated
+      const source: EntryChangeSource = lastAiResult
+        && lastAiResult.item === foodName
+        && lastAiResult.calories === numCalories
+        && lastAiResult.protein === numProtein
+        && lastAiResult.carbs === numCarbs
+        && lastAiResult.fat === numFat
+        ? 'ai' : 'manual';
+
       const newEntry: FoodEntry = {
         id: editEntry?.id || uuidv4(),
         timestamp,
@@ -238,13 +248,16 @@ export const AddFoodModal: React.FC<AddFoodModalProps> = ({ onClose, onSuccess,
         fat: numFat,
         confidence: aiConfidence || 1.0,
         imageUrl: preview || undefined,
+        // An unchanged photo keeps its stored copy - the preview is only a display URL for it
+        imageKey: preview && preview === editEntry?.imageUrl ? editEntry?.imageKey : undefined,
         ingredients,
-        originalAiResponse: originalAiData
+        originalAiResponse: originalAiData,
+        revision: editEntry?.revision
       };
 
       setIsSaving(true);
       setError(null);
-      await saveEntry(newEntry);
+      await saveEntry(newEntry, source);
 
       // Trigger engagement system updates
       await updateStreak();
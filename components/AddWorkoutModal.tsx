@@ -4,6 +4,7 @@ import { Card } from './ui/Card';
 import { WorkoutExercise } from '../types';
 import { saveWorkoutPlan } from '../services/storage';
 import { WORKOUT_TYPES, WORKOUT_CATEGORIES, WorkoutType } from '../constants/workoutTypes';
+import { formatLocalDate } from '../utils/localDate';
 
 interface AddWorkoutModalProps {
     isOpen: boolean;
@@ -21,7 +22,7 @@ const iconMap: Record<string, LucideIcon> = {
 export const AddWorkoutModal: React.FC<AddWorkoutModalProps> = ({ isOpen, onClose, defaultDate, onSave }) => {
     const [step, setStep] = useState<'select' | 'customize'>('select');
     const [selectedType, setSelectedType] = useState<WorkoutType | null>(null);
-    const [selectedDate, setSelectedDate] = useState(defaultDate.toISOString().split('T')[0]);
+    const [selectedDate, setSelectedDate] = useState(formatLocalDate(defaultDate));
     const [exercises, setExercises] = useState<Omit<WorkoutExercise, 'id' | 'completed'>[]>([]);
     const [saving, setSaving] = useState(false);
     const [activeCategory, setActiveCategory] = useState<string>('strength');
@@ -78,7 +79,7 @@ export const AddWorkoutModal: React.FC<AddWorkoutModalProps> = ({ isOpen, onClos
             setStep('select');
             setSelectedType(null);
             setExercises([]);
-            setSelectedDate(defaultDate.toISOString().split('T')[0]);
+            setSelectedDate(formatLocalDate(defaultDate));
 
             onSave?.();
             onClose();
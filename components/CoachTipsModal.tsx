@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { X, ChevronLeft, RefreshCw, Sparkles, TrendingUp, Utensils, Dumbbell, Target, Calendar } from 'lucide-react';
 import { CoachReport } from '../types';
+import { parseLocalDate } from '../utils/localDate';
 
 interface CoachTipsModalProps {
     report: CoachReport;
@@ -18,8 +19,8 @@ export const CoachTipsModal: React.FC<CoachTipsModalProps> = ({
     isRegenerating = false
 }) => {
     const formatDateRange = () => {
-        const start = new Date(report.periodStart);
-        const end = new Date(report.periodEnd);
+        const start = parseLocalDate(report.periodStart);
+        const end = parseLocalDate(report.periodEnd);
 
         if (reportType === 'daily') {
             return start.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
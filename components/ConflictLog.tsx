@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { GitMerge, Smartphone, Cloud } from 'lucide-react';
+import { getConflicts, resolveConflict } from '../services/storage';
+import { CONFLICTS_CHANGED_EVENT, ConflictItem, ConflictChoice } from '../services/backend';
+
+const FIELD_LABELS: Record<string, string> = {
+  food_item: 'name',
+  date: 'date',
+  time: 'time',
+  title: 'title',
+  workoutTypeId: 'workout type',
+  exercises: 'exercises',
+};
+
+/**
+ * One line per version so the two can be compared at a glance
+ */
+const describeVersion = (item: ConflictItem, choice: ConflictChoice): string => {
+  if (item.kind === 'entry') {
+    const entry = choice === 'local' ? item.local : item.remote;
+    return `${entry.food_item} · ${entry.calories} kcal · ${entry.date} ${entry.time}`;
+  }
+  const plan = choice === 'local' ? item.local : item.remote;
+  const done = plan.exercises.filter(e => e.completed).length;
+  return `${plan.title} · ${plan.exercises.length} exercises (${done} done) · ${plan.date}`;
+};
+
+/**
+ * Edits made on two devices that couldn't be merged automatically.
+ * The cloud keeps the other device's version until the user picks one.
+ */
+export const ConflictLog: React.FC = () => {
+  const [conflicts, setConflicts] = useState<ConflictItem[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () => { getConflicts().then(setConflicts); };
+    load();
+    window.addEventListener(CONFLICTS_CHANGED_EVENT, load);
+    return () => window.removeEventListener(CONFLICTS_CHANGED_EVENT, load);
+  }, []);
+
+  const handleResolve = async (item: ConflictItem, choice: ConflictChoice) => {
+    setResolvingId(item.id);
+    try {
+      await resolveConflict(item.id, choice);
+    } catch (e: any) {
+      alert("Couldn't save your choice: " + e.message);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="bg-violet-50 border border-violet-100 p-5 rounded-4xl animate-in slide-in-from-top-4 shadow-soft">
+      <div className="flex items-start gap-4">
+        <div className="p-3 bg-violet-100 rounded-2xl text-violet-600">
+          <GitMerge size={24} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="text-sm font-black text-violet-900">Edit Conflicts</h3>
+          <p className="text-xs text-violet-700 mt-1 mb-3 leading-relaxed font-medium">
+            These were changed on two devices at once. Pick the version to keep.
+          </p>
+          <ul className="space-y-2">
+            {conflicts.map(item => (
+              <li key={item.id} className="bg-white rounded-2xl p-3 shadow-sm space-y-2">
+                <p className="text-[10px] font-bold text-secondary-400">
+                  {item.kind === 'entry' ? 'Meal' : 'Workout'} · different {item.fields.map(f => FIELD_LABELS[f] || f).join(', ')}
+                </p>
+                {(['local', 'remote'] as ConflictChoice[]).map(choice => (
+                  <button
+                    key={choice}
+                    onClick={() => handleResolve(item, choice)}
+                    disabled={resolvingId === item.id}
+                    className="w-full flex items-center gap-2 p-2 rounded-xl border border-secondary-100 hover:border-violet-300 hover:bg-violet-50 disabled:opacity-50 text-left transition-colors"
+                  >
+                    {choice === 'local' ? <Smartphone size={14} className="shrink-0 text-violet-500" /> : <Cloud size={14} className="shrink-0 text-violet-500" />}
+                    <div className="min-w-0">
+                      <p className="text-[10px] font-black text-violet-700">
+                        {choice === 'local' ? 'Keep this device' : 'Keep other device'}
+                      </p>
+                      <p className="text-xs font-bold text-primary-900 truncate">{describeVersion(item, choice)}</p>
+                    </div>
+                  </button>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
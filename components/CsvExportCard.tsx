@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, Download } from 'lucide-react';
+import { buildEntriesCsv, buildDailySummariesCsv, downloadCsv, csvFilename, CsvDateRange } from '../services/csvExport';
+import { getCurrentDateString } from '../utils/midnight';
+
+type CsvKind = 'meals' | 'daily-totals';
+
+/**
+ * Food diary as CSV for a chosen date range
+ */
+export const CsvExportCard: React.FC = () => {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState(getCurrentDateString());
+  const [exporting, setExporting] = useState<CsvKind | null>(null);
+
+  const handleExport = async (kind: CsvKind) => {
+    if (startDate && endDate && startDate > endDate) {
+      alert("The start date must be on or before the end date.");
+      return;
+    }
+
+    const range: CsvDateRange = { startDate: startDate || undefined, endDate: endDate || undefined };
+    setExporting(kind);
+    try {
+      const csv = kind === 'meals' ? await buildEntriesCsv(range) : await buildDailySummariesCsv(range);
+      downloadCsv(csv, csvFilename(kind, range));
+    } catch (e: any) {
+      alert("Export failed: " + e.message);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-4xl border border-white/50 shadow-soft space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-2xl flex items-center justify-center bg-secondary-100 text-secondary-500">
+          <FileSpreadsheet size={20} />
+        </div>
+        <div>
+          <p className="text-sm font-black text-primary-900">Spreadsheet Export</p>
+          <p className="text-xs text-secondary-500 font-bold">Meals or daily totals as CSV</p>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <label className="flex-1 text-[10px] font-black text-secondary-400 uppercase tracking-widest space-y-1">
+          <span>From</span>
+          <input
+            type="date"
+            value={startDate}
+            onChange={e => setStartDate(e.target.value)}
+            className="w-full bg-secondary-50 rounded-2xl px-3 py-2 text-xs font-bold text-primary-900 outline-none border border-secondary-100"
+          />
+        </label>
+        <label className="flex-1 text-[10px] font-black text-secondary-400 uppercase tracking-widest space-y-1">
+          <span>To</span>
+          <input
+            type="date"
+            value={endDate}
+            onChange={e => setEndDate(e.target.value)}
+            className="w-full bg-secondary-50 rounded-2xl px-3 py-2 text-xs font-bold text-primary-900 outline-none border border-secondary-100"
+          />
+        </label>
+      </div>
+      <p className="text-[11px] text-secondary-400 font-bold px-1">Leave "From" empty to include everything.</p>
+
+      <div className="flex gap-3">
+        {(['meals', 'daily-totals'] as CsvKind[]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => handleExport(kind)}
+            disabled={exporting !== null}
+            className="flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl border border-secondary-200 text-primary-900 text-xs font-black hover:bg-secondary-50 disabled:opacity-50 transition-all"
+          >
+            <Download size={14} />
+            {exporting === kind ? 'Exporting...' : kind === 'meals' ? 'Meals' : 'Daily Totals'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React from 'react';
 import { X, Calendar, ChefHat, Activity, TrendingUp } from 'lucide-react';
 import { DailySummary } from '../types';
+import { parseLocalDate } from '../utils/localDate';
 
 interface DailySummaryModalProps {
     summary: DailySummary;
@@ -8,7 +9,7 @@ interface DailySummaryModalProps {
 }
 
 export const DailySummaryModal: React.FC<DailySummaryModalProps> = ({ summary, onClose }) => {
-    const formattedDate = new Date(summary.date).toLocaleDateString('en-US', {
+    const formattedDate = parseLocalDate(summary.date).toLocaleDateString('en-US', {
         weekday: 'long',
         year: 'numeric',
         month: 'long',
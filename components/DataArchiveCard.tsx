@@ -0,0 +1,104 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, FileJson } from 'lucide-react';
+import { exportAccount, downloadArchive, parseArchive, importAccount, ImportMode } from '../services/archive';
+
+/**
+ * Export everything to a JSON archive, or restore one
+ */
+export const DataArchiveCard: React.FC = () => {
+  const [includeImages, setIncludeImages] = useState(false);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      downloadArchive(await exportAccount({ includeImages }));
+    } catch (e: any) {
+      alert("Export failed: " + e.message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const archive = parseArchive(await file.text());
+      const count = archive.data.entries.length;
+      const exported = new Date(archive.exportedAt).toLocaleDateString();
+      const action = importMode === 'replace' ? 'overwrite matching records' : 'keep records you already have';
+      if (!confirm(`Import ${count} meals and the rest of the data exported on ${exported}? This will ${action}.`)) return;
+
+      const result = await importAccount(archive, importMode);
+      alert(`Import complete: ${result.imported} records added${result.skipped > 0 ? `, ${result.skipped} already present` : ''}.`);
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-4xl border border-white/50 shadow-soft space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-2xl flex items-center justify-center bg-secondary-100 text-secondary-500">
+          <FileJson size={20} />
+        </div>
+        <div>
+          <p className="text-sm font-black text-primary-900">Your Data</p>
+          <p className="text-xs text-secondary-500 font-bold">Export or restore everything in one file</p>
+        </div>
+      </div>
+
+      <label className="flex items-center justify-between px-1 text-xs font-bold text-secondary-600">
+        Include meal photos (larger file)
+        <input
+          type="checkbox"
+          checked={includeImages}
+          onChange={e => setIncludeImages(e.target.checked)}
+          className="w-4 h-4 accent-[#3D745B]"
+        />
+      </label>
+
+      <div className="flex p-1 bg-secondary-50 rounded-2xl">
+        {(['merge', 'replace'] as ImportMode[]).map(mode => (
+          <button
+            key={mode}
+            onClick={() => setImportMode(mode)}
+            className={`flex-1 py-2 text-[11px] font-black rounded-xl transition-all ${importMode === mode
+              ? 'bg-white text-primary-900 shadow-sm'
+              : 'text-secondary-400 hover:text-secondary-600'
+              }`}
+          >
+            {mode === 'merge' ? 'Import: Keep Existing' : 'Import: Overwrite'}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl bg-[#3D745B] text-white text-xs font-black hover:bg-[#2D5A45] disabled:opacity-50 transition-all"
+        >
+          <Download size={14} /> {isExporting ? 'Exporting...' : 'Export'}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl border border-secondary-200 text-primary-900 text-xs font-black hover:bg-secondary-50 disabled:opacity-50 transition-all"
+        >
+          <Upload size={14} /> {isImporting ? 'Importing...' : 'Import'}
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileSelected} className="hidden" />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Download, UserX } from 'lucide-react';
+import { exportAccount, downloadArchive } from '../services/archive';
+import { deleteAccount, AccountDeletionResult } from '../services/accountDeletion';
+import { DeletedRecords } from '../services/backend';
+
+const CONFIRM_WORD = 'DELETE';
+
+const RECORD_LABELS: Record<keyof DeletedRecords, string> = {
+  entries: 'meals',
+  summaries: 'daily summaries',
+  workoutPlans: 'workouts',
+  chatMessages: 'coach messages',
+  reports: 'coach reports',
+  settings: 'settings',
+  photos: 'photos',
+  aiUsage: 'AI usage records',
+};
+
+const describeResult = ({ removed, loginRemoved }: AccountDeletionResult): string => {
+  const counts = (Object.keys(RECORD_LABELS) as (keyof DeletedRecords)[])
+    .filter(kind => removed[kind] > 0)
+    .map(kind => `${removed[kind]} ${RECORD_LABELS[kind]}`);
+  const summary = counts.length > 0 ? `Removed ${counts.join(', ')}.` : 'There was no data to remove.';
+  return loginRemoved
+    ? `Your account was deleted. ${summary}`
+    : `Your data was deleted, but the login couldn't be removed - run the latest setup SQL and try again. ${summary}`;
+};
+
+/**
+ * Permanently delete the account, with an export offered first
+ */
+export const DeleteAccountCard: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exported, setExported] = useState(false);
+  const [confirmText, setConfirmText] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const close = () => {
+    setIsOpen(false);
+    setConfirmText('');
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      downloadArchive(await exportAccount({ includeImages: true }));
+      setExported(true);
+    } catch (e: any) {
+      alert("Export failed: " + e.message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!exported && !confirm("You haven't exported your data. Delete everything anyway?")) return;
+
+    setIsDeleting(true);
+    try {
+      // Signs out when done, so this screen goes away
+      alert(describeResult(await deleteAccount()));
+    } catch (e: any) {
+      alert("Account deletion failed: " + e.message);
+      setIsDeleting(false);
+    }
+  };
+
+  const optionClass = "flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl border border-secondary-200 text-primary-900 text-xs font-black hover:bg-secondary-50 disabled:opacity-50 transition-all";
+
+  return (
+    <div className="bg-white p-6 rounded-4xl border border-white/50 shadow-soft space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-2xl flex items-center justify-center bg-red-50 text-red-500">
+          <UserX size={20} />
+        </div>
+        <div>
+          <p className="text-sm font-black text-primary-900">Delete Account</p>
+          <p className="text-xs text-secondary-500 font-bold">Remove your account and all of its data</p>
+        </div>
+      </div>
+
+      {!isOpen ? (
+        <button onClick={() => setIsOpen(true)} className={`w-full ${optionClass} text-red-500`}>
+          <UserX size={14} /> Delete My Account
+        </button>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-[11px] text-secondary-400 font-bold px-1">
+            Every meal, workout, coach conversation, report, photo and setting is removed for good. Download a copy first if you might want it later.
+          </p>
+          <button onClick={handleExport} disabled={isExporting || isDeleting} className={`w-full ${optionClass}`}>
+            <Download size={14} /> {isExporting ? 'Exporting...' : exported ? 'Exported - Download Again' : 'Export My Data'}
+          </button>
+          <input
+            type="text"
+            placeholder={`Type ${CONFIRM_WORD} to confirm`}
+            value={confirmText}
+            onChange={e => setConfirmText(e.target.value)}
+            className="w-full bg-secondary-50 rounded-2xl px-4 py-3 text-xs font-bold text-primary-900 outline-none border border-secondary-100"
+          />
+          <div className="flex gap-3">
+            <button onClick={close} disabled={isDeleting} className={optionClass}>
+              Cancel
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={confirmText !== CONFIRM_WORD || isDeleting}
+              className="flex-1 py-3 rounded-2xl bg-red-500 text-white text-xs font-black hover:bg-red-600 disabled:opacity-50 transition-all"
+            >
+              {isDeleting ? 'Deleting...' : 'Delete Forever'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
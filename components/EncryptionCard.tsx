@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { KeyRound, Lock, Unlock } from 'lucide-react';
+import {
+  isEncryptionAvailable,
+  isEncryptionEnabled,
+  enableEncryption,
+  disableEncryption,
+  changePassphrase,
+  MIN_PASSPHRASE_LENGTH,
+} from '../services/encryption';
+
+type Action = 'enable' | 'change' | 'disable';
+
+const ACTION_LABELS: Record<Action, { button: string; busy: string }> = {
+  enable: { button: 'Encrypt Device Data', busy: 'Encrypting...' },
+  change: { button: 'Change Passphrase', busy: 'Re-encrypting...' },
+  disable: { button: 'Turn Off Encryption', busy: 'Decrypting...' },
+};
+
+/**
+ * Passphrase protection for data kept on this device (Local Mode only)
+ */
+export const EncryptionCard: React.FC = () => {
+  const [enabled, setEnabled] = useState(isEncryptionEnabled);
+  const [action, setAction] = useState<Action | null>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmNext, setConfirmNext] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const reset = (nextAction: Action | null) => {
+    setAction(nextAction);
+    setCurrent('');
+    setNext('');
+    setConfirmNext('');
+  };
+
+  const needsCurrent = action === 'change' || action === 'disable';
+  const needsNext = action === 'enable' || action === 'change';
+
+  const run = async () => {
+    if (!action) return;
+    if (needsNext && next !== confirmNext) {
+      alert("The new passphrases don't match.");
+      return;
+    }
+
+    setBusy(true);
+    try {
+      if (action === 'enable') await enableEncryption(next);
+      if (action === 'change') await changePassphrase(current, next);
+      if (action === 'disable') await disableEncryption(current);
+      setEnabled(isEncryptionEnabled());
+      reset(null);
+    } catch (e: any) {
+      alert(e.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!isEncryptionAvailable()) return null;
+
+  const inputClass = "w-full bg-secondary-50 rounded-2xl px-4 py-3 text-xs font-bold text-primary-900 outline-none border border-secondary-100";
+  const optionClass = "flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl border border-secondary-200 text-primary-900 text-xs font-black hover:bg-secondary-50 disabled:opacity-50 transition-all";
+
+  return (
+    <div className="bg-white p-6 rounded-4xl border border-white/50 shadow-soft space-y-4">
+      <div className="flex items-center gap-3">
+        <div className={`w-10 h-10 rounded-2xl flex items-center justify-center ${enabled ? 'bg-[#3D745B] text-white' : 'bg-secondary-100 text-secondary-500'}`}>
+          {enabled ? <Lock size={20} /> : <Unlock size={20} />}
+        </div>
+        <div>
+          <p className="text-sm font-black text-primary-900">Encryption</p>
+          <p className="text-xs text-secondary-500 font-bold">
+            {enabled ? 'Device data is locked with your passphrase' : 'Lock device data with a passphrase'}
+          </p>
+        </div>
+      </div>
+
+      {!action && (
+        enabled ? (
+          <div className="flex gap-3">
+            <button onClick={() => reset('change')} className={optionClass}>
+              <KeyRound size={14} /> Change Passphrase
+            </button>
+            <button onClick={() => reset('disable')} className={optionClass}>
+              <Unlock size={14} /> Turn Off
+            </button>
+          </div>
+        ) : (
+          <button onClick={() => reset('enable')} className={`w-full ${optionClass}`}>
+            <Lock size={14} /> Set a Passphrase
+          </button>
+        )
+      )}
+
+      {action && (
+        <div className="space-y-3">
+          {action === 'enable' && (
+            <p className="text-[11px] text-secondary-400 font-bold px-1">
+              You'll enter it each time SnapCal opens. There is no way to recover your data without it.
+            </p>
+          )}
+          {needsCurrent && (
+            <input
+              type="password"
+              autoComplete="current-password"
+              placeholder="Current passphrase"
+              value={current}
+              onChange={e => setCurrent(e.target.value)}
+              className={inputClass}
+            />
+          )}
+          {needsNext && (
+            <>
+              <input
+                type="password"
+                autoComplete="new-password"
+                placeholder={`New passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)`}
+                value={next}
+                onChange={e => setNext(e.target.value)}
+                className={inputClass}
+              />
+              <input
+                type="password"
+                autoComplete="new-password"
+                placeholder="Repeat new passphrase"
+                value={confirmNext}
+                onChange={e => setConfirmNext(e.target.value)}
+                className={inputClass}
+              />
+            </>
+          )}
+          <div className="flex gap-3">
+            <button onClick={() => reset(null)} disabled={busy} className={optionClass}>
+              Cancel
+            </button>
+            <button
+              onClick={run}
+              disabled={busy}
+              className="flex-1 py-3 rounded-2xl bg-[#3D745B] text-white text-xs font-black hover:bg-[#2D5A45] disabled:opacity-50 transition-all"
+            >
+              {busy ? ACTION_LABELS[action].busy : ACTION_LABELS[action].button}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,6 +2,8 @@ import React from 'react';
 import { AppView } from '../types';
 import { Home, BarChart2, User, Sparkles, Dumbbell } from 'lucide-react';
 import { clsx } from 'clsx';
+import { SyncQueueBadge } from './SyncQueueBadge';
+import { UndoToast } from './UndoToast';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -21,6 +23,16 @@ export const Layout: React.FC<LayoutProps> = ({ children, currentView, onNavigat
       {/* Bottom Blur Guard - Prevents content from peeking below the pill and makes it unclickable */}
       <div className="absolute bottom-0 left-0 right-0 h-32 bg-gradient-to-t from-background via-background/90 to-transparent pointer-events-none z-40" />
 
+      {/* Offline Outbox Indicator and Undo Offer */}
+      <div className="absolute bottom-[6.5rem] left-0 right-0 z-50 flex flex-col items-center gap-2 pointer-events-none">
+        <div className="pointer-events-auto">
+          <UndoToast />
+        </div>
+        <div className="pointer-events-auto">
+          <SyncQueueBadge onClick={() => onNavigate(AppView.PROFILE)} />
+        </div>
+      </div>
+
       {/* Bottom Navigation */}
       <div className="absolute bottom-6 left-5 right-5 z-50">
         <nav className="bg-[#3D745B] rounded-full p-2 shadow-soft-lg border border-white/10 flex justify-between items-center">
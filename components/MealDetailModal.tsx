@@ -1,8 +1,34 @@
-import React, { useState } from 'react';
-import { X, Trash2, Calendar, Clock, ChefHat, Sparkles, User, PenTool, Edit2, List, ImageOff } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { X, Trash2, Calendar, Clock, ChefHat, Sparkles, User, PenTool, Edit2, List, ImageOff, History, RotateCcw, Upload } from 'lucide-react';
 import { Button } from './ui/Button';
-import { FoodEntry } from '../types';
-import { saveEntry, clearEntryImage } from '../services/storage';
+import { FoodEntry, EntryChangeSource, EntryFieldChange, EntryRevision, EntryTrackedField, Ingredient } from '../types';
+import { saveEntry, clearEntryImage, restoreEntryImage, offerUndo, getEntryHistory, revertEntry, getEntryImage } from '../services/storage';
+
+const SOURCES: Record<EntryChangeSource, { label: string; icon: React.ReactNode }> = {
+  ai: { label: 'AI recalculation', icon: <Sparkles size={12} /> },
+  manual: { label: 'Manual edit', icon: <PenTool size={12} /> },
+  import: { label: 'Import', icon: <Upload size={12} /> },
+  revert: { label: 'Reverted', icon: <RotateCcw size={12} /> },
+};
+
+const FIELD_LABELS: Record<EntryTrackedField, string> = {
+  food_item: 'Name',
+  calories: 'Calories',
+  protein: 'Protein',
+  carbs: 'Carbs',
+  fat: 'Fat',
+  ingredients: 'Ingredients',
+  date: 'Date',
+  time: 'Time',
+};
+
+const formatValue = (field: EntryTrackedField, value: EntryFieldChange['before']): string => {
+  if (field === 'ingredients') return `${(value as Ingredient[] | undefined)?.length || 0} items`;
+  if (value === undefined || value === '') return '—';
+  if (field === 'calories') return `${value} kcal`;
+  if (field === 'protein' || field === 'carbs' || field === 'fat') return `${value}g`;
+  return String(value);
+};
 
 interface MealDetailModalProps {
   entry: FoodEntry;
@@ -14,9 +40,24 @@ interface MealDetailModalProps {
 export const MealDetailModal: React.FC<MealDetailModalProps> = ({ entry, onClose, onDelete, onEdit }) => {
   const [isDeleting, setIsDeleting] = useState(false);
   const [isClearingImage, setIsClearingImage] = useState(false);
+  const [history, setHistory] = useState<EntryRevision[]>([]);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  // Lists pass a thumbnail - swap in the full photo once it's loaded
+  const [photoUrl, setPhotoUrl] = useState(entry.imageUrl);
+
+  useEffect(() => {
+    setPhotoUrl(entry.imageUrl);
+    if (entry.imageKey) {
+      getEntryImage(entry, 'original').then(url => { if (url) setPhotoUrl(url); });
+    }
+  }, [entry.id, entry.imageKey, entry.imageUrl]);
+
+  useEffect(() => {
+    getEntryHistory(entry.id).then(setHistory);
+  }, [entry.id]);
 
   const handleDelete = async () => {
-    if (confirm("Permanently remove this record?")) {
+    if (confirm("Delete this meal? You can restore it from the Trash in Profile.")) {
       setIsDeleting(true);
       await onDelete(entry.id);
       onClose();
@@ -27,9 +68,11 @@ export const MealDetailModal: React.FC<MealDetailModalProps> = ({ entry, onClose
     if (confirm("Remove the photo to save storage space? Nutritional data will be kept.")) {
       setIsClearingImage(true);
       try {
+        const photo = entry.imageKey ? { imageKey: entry.imageKey } : { imageUrl: entry.imageUrl };
         await clearEntryImage(entry.id);
         onClose();
         window.dispatchEvent(new CustomEvent('food-entry-updated'));
+        offerUndo('Photo removed', () => restoreEntryImage(entry, photo));
       } catch (err) {
         console.error("Failed to clear image", err);
         alert("Failed to clear image. Please try again.");
@@ -39,14 +82,32 @@ export const MealDetailModal: React.FC<MealDetailModalProps> = ({ entry, onClose
     }
   };
 
+  const handleRevert = async (revision: EntryRevision) => {
+    if (!confirm("Undo this edit and every later one?")) return;
+    setRevertingId(revision.id);
+    try {
+      const saved = await revertEntry(entry.id, revision.id);
+      onClose();
+      const revertRevision = saved?.history?.[saved.history.length - 1];
+      if (revertRevision) offerUndo('Meal reverted', async () => {
+          await revertEntry(entry.id, revertRevision.id);
+        });
+    } catch (err) {
+      console.error("Failed to revert entry", err);
+      alert("Failed to revert. Please try again.");
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
   return (
     <div className="fixed inset-0 z-[100] flex items-end sm:items-center justify-center bg-black/40 backdrop-blur-md p-4 animate-in fade-in duration-200">
       <div className="bg-white w-full max-w-md rounded-[40px] overflow-hidden shadow-2xl border border-white/50 animate-in slide-in-from-bottom duration-300 max-h-[95vh] overflow-y-auto no-scrollbar">
 
         <div className="relative h-64 bg-gray-100">
-          {entry.imageUrl ? (
+          {photoUrl ? (
             <>
-              <img src={entry.imageUrl} className="w-full h-full object-cover" />
+              <img src={photoUrl} className="w-full h-full object-cover" />
               <button
                 onClick={handleClearImage}
                 disabled={isClearingImage}
@@ -115,6 +176,43 @@ export const MealDetailModal: React.FC<MealDetailModalProps> = ({ entry, onClose
             </div>
           )}
 
+          {history.length > 0 && (
+            <div className="bg-gray-50 rounded-3xl p-6 border border-gray-100">
+              <h3 className="text-[10px] font-black text-gray-400 uppercase tracking-widest flex items-center gap-2 mb-4">
+                <History size={14} /> Edit History
+              </h3>
+              <div className="space-y-4">
+                {[...history].reverse().map(revision => (
+                  <div key={revision.id} className="border-b border-gray-100 pb-3 last:border-0 last:pb-0">
+                    <div className="flex justify-between items-center">
+                      <span className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-secondary-500">
+                        {SOURCES[revision.source].icon} {SOURCES[revision.source].label}
+                      </span>
+                      <button
+                        onClick={() => handleRevert(revision)}
+                        disabled={revertingId !== null}
+                        className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-primary-600 hover:text-primary-800 disabled:opacity-50"
+                      >
+                        <RotateCcw size={12} /> {revertingId === revision.id ? 'Reverting...' : 'Revert'}
+                      </button>
+                    </div>
+                    <p className="text-[10px] font-bold text-gray-400 mt-0.5">{new Date(revision.revisedAt).toLocaleString()}</p>
+                    <div className="mt-2 space-y-1">
+                      {revision.changes.map(change => (
+                        <div key={change.field} className="flex justify-between text-xs font-bold">
+                          <span className="text-gray-500">{FIELD_LABELS[change.field]}</span>
+                          <span className="text-gray-700">
+                            <span className="text-gray-400 line-through">{formatValue(change.field, change.before)}</span> → {formatValue(change.field, change.after)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="flex gap-3">
             <Button variant="ghost" className="flex-1 text-red-500 py-4 font-black" onClick={handleDelete} isLoading={isDeleting}>
               <Trash2 size={18} className="mr-2" /> Delete
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { Archive, Eye, Trash2 } from 'lucide-react';
+import { getRetentionPolicy, saveRetentionPolicy, previewDataCleanup, performDataCleanup, DEFAULT_RETENTION_POLICY, CleanupPreview } from '../services/storage';
+import { EntryRetention, RetentionPolicy } from '../types';
+
+const ENTRY_OPTIONS: { value: EntryRetention; label: string }[] = [
+  { value: 'forever', label: 'Keep All' },
+  { value: 'compact', label: 'Daily Totals' },
+  { value: 'drop_images', label: 'Drop Photos' },
+];
+
+const describePreview = (preview: CleanupPreview): string => {
+  const parts: string[] = [];
+  if (preview.entriesToCompact > 0) {
+    parts.push(`${preview.entriesToCompact} meals on ${preview.daysToCompact} days folded into daily totals`);
+  }
+  if (preview.imagesToDrop > 0) parts.push(`${preview.imagesToDrop} meal photos deleted`);
+  if (preview.chatMessagesToDelete > 0) parts.push(`${preview.chatMessagesToDelete} coach messages deleted`);
+  return parts.length > 0 ? parts.join(', ') + '.' : 'Nothing would be removed right now.';
+};
+
+/**
+ * How long meals, photos and coach chat are kept before cleanup
+ */
+export const RetentionCard: React.FC = () => {
+  const [policy, setPolicy] = useState<RetentionPolicy>(DEFAULT_RETENTION_POLICY);
+  const [preview, setPreview] = useState<CleanupPreview | null>(null);
+  const [busy, setBusy] = useState<'save' | 'preview' | 'clean' | null>(null);
+
+  useEffect(() => {
+    getRetentionPolicy().then(setPolicy);
+  }, []);
+
+  const update = (changes: Partial<RetentionPolicy>) => {
+    setPolicy(prev => ({ ...prev, ...changes }));
+    setPreview(null);
+  };
+
+  const run = async (action: 'save' | 'preview' | 'clean') => {
+    setBusy(action);
+    try {
+      if (action === 'preview') {
+        setPreview(await previewDataCleanup(policy));
+        return;
+      }
+
+      await saveRetentionPolicy(policy);
+      if (action === 'clean') {
+        const removed = await performDataCleanup({ archive: policy.archiveBeforeDelete });
+        alert(removed ? `Cleanup complete: ${describePreview(removed)}` : 'Nothing to clean up.');
+        setPreview(null);
+      }
+    } catch (e: any) {
+      alert(e.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const inputClass = "w-16 bg-secondary-50 rounded-xl px-2 py-1 text-xs font-bold text-primary-900 text-center outline-none border border-secondary-100";
+
+  return (
+    <div className="bg-white p-6 rounded-4xl border border-white/50 shadow-soft space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-2xl flex items-center justify-center bg-secondary-100 text-secondary-500">
+          <Archive size={20} />
+        </div>
+        <div>
+          <p className="text-sm font-black text-primary-900">Data Retention</p>
+          <p className="text-xs text-secondary-500 font-bold">What happens to older history</p>
+        </div>
+      </div>
+
+      <div className="flex p-1 bg-secondary-50 rounded-2xl">
+        {ENTRY_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => update({ entries: option.value })}
+            className={`flex-1 py-2 text-[11px] font-black rounded-xl transition-all ${policy.entries === option.value
+              ? 'bg-white text-primary-900 shadow-sm'
+              : 'text-secondary-400 hover:text-secondary-600'
+              }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {policy.entries !== 'forever' && (
+        <label className="flex items-center justify-between px-1 text-xs font-bold text-secondary-600">
+          {policy.entries === 'compact' ? 'Keep individual meals for (days)' : 'Keep meal photos for (days)'}
+          <input
+            type="number"
+            min={1}
+            value={policy.entryDays}
+            onChange={e => update({ entryDays: Math.max(1, parseInt(e.target.value) || 1) })}
+            className={inputClass}
+          />
+        </label>
+      )}
+
+      <label className="flex items-center justify-between px-1 text-xs font-bold text-secondary-600">
+        Keep coach chat forever
+        <input
+          type="checkbox"
+          checked={policy.chatDays === null}
+          onChange={e => update({ chatDays: e.target.checked ? null : DEFAULT_RETENTION_POLICY.chatDays })}
+          className="w-4 h-4 accent-[#3D745B]"
+        />
+      </label>
+      {policy.chatDays !== null && (
+        <label className="flex items-center justify-between px-1 text-xs font-bold text-secondary-600">
+          Keep coach chat for (days)
+          <input
+            type="number"
+            min={1}
+            value={policy.chatDays}
+            onChange={e => update({ chatDays: Math.max(1, parseInt(e.target.value) || 1) })}
+            className={inputClass}
+          />
+        </label>
+      )}
+
+      <label className="flex items-center justify-between px-1 text-xs font-bold text-secondary-600">
+        Export an archive before deleting anything
+        <input
+          type="checkbox"
+          checked={policy.archiveBeforeDelete}
+          onChange={e => update({ archiveBeforeDelete: e.target.checked })}
+          className="w-4 h-4 accent-[#3D745B]"
+        />
+      </label>
+      {policy.archiveBeforeDelete && (
+        <p className="text-[11px] text-secondary-400 font-bold px-1">
+          Automatic cleanup is paused. Use "Clean Up Now" to download an archive and then clean up.
+        </p>
+      )}
+
+      {preview && (
+        <p className="text-xs font-bold text-primary-900 bg-secondary-50 rounded-2xl p-3">{describePreview(preview)}</p>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => run('preview')}
+          disabled={busy !== null}
+          className="flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl border border-secondary-200 text-primary-900 text-xs font-black hover:bg-secondary-50 disabled:opacity-50 transition-all"
+        >
+          <Eye size={14} /> {busy === 'preview' ? 'Checking...' : 'Preview'}
+        </button>
+        <button
+          onClick={() => run('clean')}
+          disabled={busy !== null}
+          className="flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl border border-secondary-200 text-primary-900 text-xs font-black hover:bg-secondary-50 disabled:opacity-50 transition-all"
+        >
+          <Trash2 size={14} /> {busy === 'clean' ? 'Cleaning...' : 'Clean Up Now'}
+        </button>
+      </div>
+      <button
+        onClick={() => run('save')}
+        disabled={busy !== null}
+        className="w-full py-3 rounded-2xl bg-[#3D745B] text-white text-xs font-black hover:bg-[#2D5A45] disabled:opacity-50 transition-all"
+      >
+        {busy === 'save' ? 'Saving...' : 'Save Retention Settings'}
+      </button>
+    </div>
+  );
+};
@@ -3,6 +3,8 @@ import { X, Save } from 'lucide-react';
 import { Card } from './ui/Card';
 import { parseMultiDayWorkoutPlan } from '../utils/workoutParser';
 import { saveMultiDayWorkoutPlan } from '../services/storage';
+import { addDays, parseLocalDate } from '../utils/localDate';
+import { getCurrentDateString } from '../utils/midnight';
 
 interface SaveWorkoutModalProps {
     isOpen: boolean;
@@ -11,7 +13,7 @@ interface SaveWorkoutModalProps {
 }
 
 export const SaveWorkoutModal: React.FC<SaveWorkoutModalProps> = ({ isOpen, onClose, workoutText }) => {
-    const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+    const [selectedDate, setSelectedDate] = useState(getCurrentDateString());
     const [saving, setSaving] = useState(false);
     const [parsedPlan, setParsedPlan] = useState<ReturnType<typeof parseMultiDayWorkoutPlan> | null>(null);
 
@@ -50,14 +52,12 @@ export const SaveWorkoutModal: React.FC<SaveWorkoutModalProps> = ({ isOpen, onCl
     const getEndDate = () => {
         if (!parsedPlan || !parsedPlan.isMultiDay) return null;
 
-        const startDate = new Date(selectedDate);
-        const endDate = new Date(startDate);
-        endDate.setDate(endDate.getDate() + parsedPlan.days.length - 1);
+        const endDate = parseLocalDate(addDays(selectedDate, parsedPlan.days.length - 1));
 
         return endDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
     };
 
-    const startDateFormatted = new Date(selectedDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    const startDateFormatted = parseLocalDate(selectedDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
     const endDate = getEndDate();
     const dayCount = parsedPlan?.days.length || 0;
     const isMultiDay = parsedPlan?.isMultiDay || false;
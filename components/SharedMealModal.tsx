@@ -151,7 +151,7 @@ export const SharedMealModal: React.FC<SharedMealModalProps> = ({ onClose, onSuc
      * Maps normalized coordinates (0-1000) to actual pixel positions
      * Handles image fitting with letterboxing/pillarboxing
      */
-    const calculateAnchorPosition = (box: [number, number, number, number]) => {
+    const calculateAnchorPosition = (box: number[]) => {
         if (!imageRef.current) return { x: 0, y: 0 };
 
         const img = imageRef.current;
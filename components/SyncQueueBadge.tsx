@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { CloudOff, AlertCircle, GitMerge } from 'lucide-react';
+import { clsx } from 'clsx';
+import { getOutboxSummary, getConflicts } from '../services/storage';
+import { OUTBOX_CHANGED_EVENT, CONFLICTS_CHANGED_EVENT, OutboxSummary } from '../services/backend';
+
+interface SyncQueueBadgeProps {
+  onClick: () => void;
+}
+
+/**
+ * Floating pill showing how many cloud writes are waiting in the offline outbox,
+ * or how many edit conflicts need a decision
+ */
+export const SyncQueueBadge: React.FC<SyncQueueBadgeProps> = ({ onClick }) => {
+  const [summary, setSummary] = useState<OutboxSummary>({ pending: 0, failed: 0 });
+  const [conflictCount, setConflictCount] = useState(0);
+
+  useEffect(() => {
+    getOutboxSummary().then(setSummary);
+    getConflicts().then(items => setConflictCount(items.length));
+
+    const handleChange = (e: Event) => setSummary((e as CustomEvent<OutboxSummary>).detail);
+    const handleConflicts = (e: Event) => setConflictCount((e as CustomEvent<number>).detail);
+    window.addEventListener(OUTBOX_CHANGED_EVENT, handleChange);
+    window.addEventListener(CONFLICTS_CHANGED_EVENT, handleConflicts);
+    return () => {
+      window.removeEventListener(OUTBOX_CHANGED_EVENT, handleChange);
+      window.removeEventListener(CONFLICTS_CHANGED_EVENT, handleConflicts);
+    };
+  }, []);
+
+  const total = summary.pending + summary.failed;
+  if (total === 0 && conflictCount === 0) return null;
+
+  // Queued writes come first - conflicts can't be settled until they're sent
+  if (total === 0) {
+    return (
+      <button
+        onClick={onClick}
+        className="flex items-center gap-2 px-4 py-2 rounded-full text-[11px] font-black shadow-soft border animate-in fade-in slide-in-from-bottom-2 duration-300 bg-violet-50 text-violet-700 border-violet-100"
+      >
+        <GitMerge size={14} />
+        {`${conflictCount} edit${conflictCount === 1 ? '' : 's'} need${conflictCount === 1 ? 's' : ''} review`}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      onClick={onClick}
+      className={clsx(
+        "flex items-center gap-2 px-4 py-2 rounded-full text-[11px] font-black shadow-soft border animate-in fade-in slide-in-from-bottom-2 duration-300",
+        summary.failed > 0
+          ? "bg-rose-50 text-rose-700 border-rose-100"
+          : "bg-amber-50 text-amber-700 border-amber-100"
+      )}
+    >
+      {summary.failed > 0 ? <AlertCircle size={14} /> : <CloudOff size={14} />}
+      {summary.failed > 0
+        ? `${summary.failed} change${summary.failed === 1 ? '' : 's'} failed to sync`
+        : `${summary.pending} change${summary.pending === 1 ? '' : 's'} waiting to sync`}
+    </button>
+  );
+};
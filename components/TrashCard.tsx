@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2, RotateCcw, X } from 'lucide-react';
+import { getTrash, restoreFromTrash, purgeFromTrash, emptyTrash } from '../services/storage';
+import { TrashItem } from '../services/backend';
+
+const KIND_LABELS: Record<TrashItem['kind'], string> = {
+  entry: 'Meal',
+  workoutPlan: 'Workout',
+  chatMessage: 'Coach chat',
+};
+
+const describeItem = (item: TrashItem): string => {
+  switch (item.kind) {
+    case 'entry': return `${item.record.food_item} · ${item.record.calories} kcal · ${item.record.date}`;
+    case 'workoutPlan': return `${item.record.title} · ${item.record.date}`;
+    case 'chatMessage': return item.record.content;
+  }
+};
+
+/**
+ * Deleted meals, workouts and coach messages, restorable until purged
+ */
+export const TrashCard: React.FC = () => {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = () => { getTrash().then(setItems).catch(e => console.error('Failed to load trash', e)); };
+
+  useEffect(() => {
+    if (isOpen) load();
+  }, [isOpen]);
+
+  const run = async (id: string, action: () => Promise<unknown>) => {
+    setBusyId(id);
+    try {
+      await action();
+      load();
+    } catch (e: any) {
+      alert(e.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmpty = () => {
+    if (confirm(`Permanently delete ${items.length} item${items.length === 1 ? '' : 's'}? This can't be undone.`)) {
+      run('all', emptyTrash);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-4xl border border-white/50 shadow-soft space-y-4">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-3 text-left">
+        <div className="w-10 h-10 rounded-2xl flex items-center justify-center bg-secondary-100 text-secondary-500">
+          <Trash2 size={20} />
+        </div>
+        <div>
+          <p className="text-sm font-black text-primary-900">Trash</p>
+          <p className="text-xs text-secondary-500 font-bold">Restore deleted meals, workouts and chat</p>
+        </div>
+      </button>
+
+      {isOpen && (
+        items.length === 0 ? (
+          <p className="text-xs font-bold text-secondary-400 px-1">The trash is empty.</p>
+        ) : (
+          <>
+            <ul className="space-y-2 max-h-80 overflow-y-auto no-scrollbar">
+              {items.map(item => (
+                <li key={item.id} className="flex items-center gap-2 bg-secondary-50 rounded-2xl p-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[10px] font-bold text-secondary-400">
+                      {KIND_LABELS[item.kind]} · deleted {new Date(item.deletedAt).toLocaleDateString()}
+                    </p>
+                    <p className="text-xs font-bold text-primary-900 truncate">{describeItem(item)}</p>
+                  </div>
+                  <button
+                    onClick={() => run(item.id, () => restoreFromTrash(item.id))}
+                    disabled={busyId !== null}
+                    title="Restore"
+                    className="p-2 rounded-xl text-[#3D745B] hover:bg-white disabled:opacity-50 transition-colors"
+                  >
+                    <RotateCcw size={14} />
+                  </button>
+                  <button
+                    onClick={() => run(item.id, () => purgeFromTrash(item.id))}
+                    disabled={busyId !== null}
+                    title="Delete forever"
+                    className="p-2 rounded-xl text-rose-500 hover:bg-white disabled:opacity-50 transition-colors"
+                  >
+                    <X size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={handleEmpty}
+              disabled={busyId !== null}
+              className="w-full py-3 rounded-2xl border border-rose-100 text-rose-600 text-xs font-black hover:bg-rose-50 disabled:opacity-50 transition-all"
+            >
+              {busyId === 'all' ? 'Emptying...' : 'Empty Trash'}
+            </button>
+          </>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { UNDO_TOAST_EVENT, UndoToastDetail } from '../services/storage';
+
+const TOAST_DURATION_MS = 6000;
+
+/**
+ * Short-lived pill that offers to reverse the last deletion.
+ * A newer action replaces the offer.
+ */
+export const UndoToast: React.FC = () => {
+  const [toast, setToast] = useState<UndoToastDetail | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    const handleOffer = (e: Event) => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      setToast((e as CustomEvent<UndoToastDetail>).detail);
+      timerRef.current = setTimeout(() => setToast(null), TOAST_DURATION_MS);
+    };
+
+    window.addEventListener(UNDO_TOAST_EVENT, handleOffer);
+    return () => {
+      window.removeEventListener(UNDO_TOAST_EVENT, handleOffer);
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  if (!toast) return null;
+
+  const handleUndo = async () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    setIsUndoing(true);
+    try {
+      await toast.undo();
+    } catch (e: any) {
+      alert("Couldn't undo: " + e.message);
+    } finally {
+      setIsUndoing(false);
+      setToast(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 pl-4 pr-2 py-2 rounded-full bg-primary-900 text-white text-[11px] font-black shadow-soft-lg animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <span>{toast.message}</span>
+      <button
+        onClick={handleUndo}
+        disabled={isUndoing}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/15 hover:bg-white/25 disabled:opacity-50 transition-colors"
+      >
+        <RotateCcw size={12} className={isUndoing ? 'animate-spin' : ''} /> Undo
+      </button>
+    </div>
+  );
+};
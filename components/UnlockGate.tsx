@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { AlertCircle, ArrowRight, Lock } from 'lucide-react';
+import { Button } from './ui/Button';
+import { needsUnlock, unlockDevice, eraseEncryptedData } from '../services/encryption';
+
+/**
+ * Asks for the passphrase before anything renders when local data is encrypted
+ */
+export const UnlockGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locked, setLocked] = useState(needsUnlock);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  if (!locked) return <>{children}</>;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+    try {
+      await unlockDevice(passphrase);
+      setPassphrase('');
+      setLocked(false);
+    } catch (err: any) {
+      setError(err.message || "Couldn't unlock");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleErase = async () => {
+    if (!confirm("Without the passphrase your data can't be recovered. Erase all SnapCal data on this device and start over?")) return;
+    try {
+      await eraseEncryptedData();
+      setLocked(false);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#F9F7F2] to-[#F3F0E7] flex flex-col items-center justify-center p-6">
+      <div className="w-full max-w-sm">
+        <div className="text-center mb-10">
+          <div className="w-20 h-20 bg-white rounded-[24px] flex items-center justify-center mx-auto mb-6 shadow-xl shadow-primary-200/50">
+            <Lock size={36} className="text-[#3D745B]" />
+          </div>
+          <h1 className="text-3xl font-extrabold text-gray-900 tracking-tight mb-2">SnapCal is Locked</h1>
+          <p className="text-gray-500 font-medium">Your data on this device is encrypted.</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white/80 backdrop-blur-xl border border-white p-8 rounded-[40px] shadow-[0_20px_40px_-12px_rgba(0,0,0,0.05)] space-y-5">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-100 rounded-2xl flex items-center gap-3 text-red-600 text-sm font-medium">
+              <AlertCircle size={18} />
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 ml-1">Passphrase</label>
+            <input
+              type="password"
+              required
+              autoFocus
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="w-full p-4 bg-gray-50 border border-gray-100 rounded-[20px] focus:outline-none focus:ring-2 focus:ring-primary-200 focus:border-primary-400 text-gray-900 transition-all placeholder:text-gray-400 font-medium"
+              placeholder="••••••••"
+            />
+          </div>
+
+          <Button className="w-full flex justify-between items-center group py-5 bg-[#3D745B] hover:bg-[#315C49] border-none shadow-lg shadow-primary-100 text-white" isLoading={isLoading}>
+            <span>Unlock</span>
+            {!isLoading && <ArrowRight size={20} className="group-hover:translate-x-1 transition-transform" />}
+          </Button>
+        </form>
+
+        <button onClick={handleErase} className="block mx-auto text-center text-gray-400 hover:text-red-500 text-xs mt-8 font-medium">
+          Forgot your passphrase? Erase this device's data
+        </button>
+      </div>
+    </div>
+  );
+};
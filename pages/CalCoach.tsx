@@ -1,14 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, Sparkles, Loader2 } from 'lucide-react';
+import { Send, Sparkles, Loader2, Trash2 } from 'lucide-react';
 import { getCurrentDateString } from '../utils/midnight';
+import { addDays, daysBetween } from '../utils/localDate';
 import { Card } from '../components/ui/Card';
 import { sendCoachMessage, ChatMessage, buildCoachContext, CoachContext } from '../services/coach';
-import { saveChatMessage, getTodayChatMessages, getChatMessagesForDate, cleanupOldChatMessages, saveWorkoutPlan } from '../services/storage';
+import { saveChatMessage, getTodayChatMessages, getChatMessagesForDate, cleanupOldChatMessages, saveWorkoutPlan, deleteChatMessage, offerUndo, undoDelete } from '../services/storage';
 import { AppView, WorkoutExercise } from '../types';
 import { WorkoutSuggestion } from '../utils/workoutParser';
 import { SaveWorkoutModal } from '../components/SaveWorkoutModal';
 import { getWorkoutTypeById } from '../constants/workoutTypes';
 import { CoachChatMessage, CoachSuggestionCards, CoachGoalsPrompt } from '../components/coach';
+import { LIVE_EVENTS } from '../services/realtime';
 
 interface CalCoachProps {
     onNavigate: (view: AppView) => void;
@@ -72,6 +74,40 @@ export const CalCoach: React.FC<CalCoachProps> = ({ onNavigate }) => {
         initChat();
     }, []);
 
+    // Messages sent from another tab or device today
+    useEffect(() => {
+        const handleRemoteMessages = async () => {
+            const todayMessages = await getTodayChatMessages();
+            setMessages(prev => {
+                const known = new Set(prev.map(m => m.id));
+                const added = todayMessages.filter(m => !known.has(m.id));
+                return added.length > 0 ? [...prev, ...added].sort((a, b) => a.timestamp - b.timestamp) : prev;
+            });
+        };
+
+        window.addEventListener(LIVE_EVENTS.coach_messages, handleRemoteMessages);
+        return () => window.removeEventListener(LIVE_EVENTS.coach_messages, handleRemoteMessages);
+    }, []);
+
+    // Move today's conversation to the trash
+    const handleClearChat = async () => {
+        const stored = await getTodayChatMessages();
+        if (stored.length === 0 || !confirm("Clear today's conversation? You can restore it from the Trash in Profile.")) return;
+
+        try {
+            for (const message of stored) await deleteChatMessage(message.id);
+        } catch (e: any) {
+            alert("Couldn't clear the chat: " + e.message);
+            return;
+        }
+
+        const ids = new Set(stored.map(m => m.id));
+        setMessages(prev => prev.filter(m => !ids.has(m.id)));
+        offerUndo('Chat cleared', async () => {
+            for (const message of stored) await undoDelete('chatMessage', message.id);
+        });
+    };
+
     // Auto-scroll to bottom when messages change
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -197,14 +233,8 @@ export const CalCoach: React.FC<CalCoachProps> = ({ onNavigate }) => {
                 return;
             }
 
-            const prevDate = new Date(earliestDate);
-            prevDate.setDate(prevDate.getDate() - 1);
-            const prevDateStr = prevDate.toISOString().split('T')[0];
-
-            const today = new Date().toISOString().split('T')[0];
-            const daysDiff = Math.floor(
-                (new Date(today).getTime() - new Date(prevDateStr).getTime()) / (1000 * 60 * 60 * 24)
-            );
+            const prevDateStr = addDays(earliestDate, -1);
+            const daysDiff = daysBetween(prevDateStr, getCurrentDateString());
 
             if (daysDiff >= 30) {
                 setCanLoadMore(false);
@@ -273,8 +303,20 @@ export const CalCoach: React.FC<CalCoachProps> = ({ onNavigate }) => {
                         Cal Coach
                     </h1>
                 </div>
-                <div className="w-12 h-12 bg-[#3D745B] rounded-full flex items-center justify-center text-white shadow-lg shadow-primary-200/50">
-                    <Sparkles size={20} />
+                <div className="flex items-center gap-2">
+                    {messages.length > 1 && (
+                        <button
+                            onClick={handleClearChat}
+                            disabled={isLoading}
+                            title="Clear today's chat"
+                            className="w-10 h-10 rounded-full flex items-center justify-center text-secondary-400 hover:text-rose-500 hover:bg-white disabled:opacity-50 transition-colors"
+                        >
+                            <Trash2 size={18} />
+                        </button>
+                    )}
+                    <div className="w-12 h-12 bg-[#3D745B] rounded-full flex items-center justify-center text-white shadow-lg shadow-primary-200/50">
+                        <Sparkles size={20} />
+                    </div>
                 </div>
             </header>
 
@@ -2,13 +2,14 @@ import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Plus, Sparkles, User, PenTool, Edit2, AlertTriangle, Utensils, TrendingUp, Users, Flame, Target } from 'lucide-react';
 import { Card } from '../components/ui/Card';
-import { getEntries, deleteEntry, getDailyGoal, saveDailyGoal, getUserProfile, getDailySummaries } from '../services/storage';
+import { getEntries, deleteEntry, getDailyGoal, saveDailyGoal, getUserProfile, getDailySummaries, offerUndo, undoDelete } from '../services/storage';
 import { FoodEntry, DailySummary } from '../types';
 import { AddFoodModal } from '../components/AddFoodModal';
 import { EditGoalModal } from '../components/EditGoalModal';
 import { MealDetailModal } from '../components/MealDetailModal';
 import { SharedMealModal } from '../components/SharedMealModal';
 import { getCurrentDateString } from '../utils/midnight';
+import { parseLocalDate } from '../utils/localDate';
 import { Avatar } from '../components/Avatar';
 import { getStreakData, predictWeightGoal, formatPredictionMessage, WeightPrediction } from '../services/streak';
 
@@ -105,6 +106,7 @@ export const Dashboard: React.FC = () => {
 
   const handleDeleteEntry = async (id: string) => {
     await deleteEntry(id);
+    offerUndo('Meal deleted', () => undoDelete('entry', id));
     await loadData();
   };
 
@@ -157,7 +159,7 @@ export const Dashboard: React.FC = () => {
 
   const renderStatusBadge = (entry: FoodEntry) => {
     if (entry.isManual) {
-      if (entry.imageUrl) {
+      if (entry.imageUrl || entry.imageKey) {
         return (
           <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full bg-amber-50 text-amber-600 text-[10px] font-bold tracking-wide">
             <PenTool size={10} />
@@ -192,7 +194,7 @@ export const Dashboard: React.FC = () => {
       <div className="flex-shrink-0 px-6 pt-6 sm:pt-10 space-y-4 sm:space-y-8 pb-4">
         <header className="flex justify-between items-end">
           <div>
-            <p className="text-secondary-500 font-bold text-xs uppercase tracking-widest mb-2">{new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}</p>
+            <p className="text-secondary-500 font-bold text-xs uppercase tracking-widest mb-2">{parseLocalDate(getCurrentDateString()).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}</p>
             <h1 className="text-3xl sm:text-4xl font-extrabold text-primary-900 tracking-tight leading-tight sm:leading-none font-display">
               Hello {userName || 'there'}, <br />Let's Eat Well.
             </h1>
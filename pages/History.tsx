@@ -1,7 +1,7 @@
 import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { VirtualList } from '../components/VirtualList';
-import { getDailySummariesLite, getEntriesForDateLite, getEntryImage, deleteEntry, getDailyGoal } from '../services/storage';
+import { getDailySummariesLite, getEntriesForDateLite, getEntryImage, deleteEntry, getDailyGoal, offerUndo, undoDelete } from '../services/storage';
 import { DailySummary, FoodEntry, CoachReport } from '../types';
 import { Card } from '../components/ui/Card';
 import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer, Cell, ReferenceLine, ComposedChart, Area } from 'recharts';
@@ -11,8 +11,11 @@ import { AddFoodModal } from '../components/AddFoodModal';
 import { WeightCheckModal } from '../components/WeightCheckModal';
 import { CoachTipsModal } from '../components/CoachTipsModal';
 import { getOrGenerateReport, calculatePeriodDates, getReport } from '../services/reports';
-import { Calendar as CalendarIcon, Filter, ChevronDown, ChevronRight, Loader2, Info, ChevronLeft, Sparkles } from 'lucide-react';
-import { getCurrentDateString } from '../utils/midnight';
+import { AICapError } from '../services/ai';
+import { Calendar as CalendarIcon, Filter, ChevronDown, ChevronRight, Loader2, Info, ChevronLeft, Sparkles, Download } from 'lucide-react';
+import { getCurrentDateString, daysAgo } from '../utils/midnight';
+import { addDays, eachDay, parseLocalDate, startOfWeek, yearMonthOf } from '../utils/localDate';
+import { buildEntriesCsv, downloadCsv, csvFilename } from '../services/csvExport';
 
 type ViewMode = 'day' | 'week' | 'month';
 
@@ -41,21 +44,12 @@ export const History: React.FC = () => {
   const [currentReport, setCurrentReport] = useState<CoachReport | null>(null);
   const [isLoadingReport, setIsLoadingReport] = useState(false);
   const [isRegeneratingReport, setIsRegeneratingReport] = useState(false);
+  const [isExportingCsv, setIsExportingCsv] = useState(false);
 
   // New Layout States
   const [selectedDate, setSelectedDate] = useState<string>(getCurrentDateString());
-  const [selectedMonth, setSelectedMonth] = useState<string>(new Date().toISOString().substring(0, 7)); // YYYY-MM
-  const [selectedWeek, setSelectedWeek] = useState<string>(() => {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    const diffToMon = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-    const currentWeekMon = new Date(today);
-    currentWeekMon.setDate(today.getDate() + diffToMon);
-    const year = currentWeekMon.getFullYear();
-    const month = String(currentWeekMon.getMonth() + 1).padStart(2, '0');
-    const day = String(currentWeekMon.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  });
+  const [selectedMonth, setSelectedMonth] = useState<string>(() => yearMonthOf(getCurrentDateString())); // YYYY-MM
+  const [selectedWeek, setSelectedWeek] = useState<string>(() => startOfWeek(getCurrentDateString())); // Monday, YYYY-MM-DD
   const [isFullLogView, setIsFullLogView] = useState(false);
   const [expandedDays, setExpandedDays] = useState<Record<string, boolean>>({});
 
@@ -117,15 +111,15 @@ export const History: React.FC = () => {
   }, [dayEntries]);
 
   // Lazy load image for a specific entry
-  const loadImageForEntry = useCallback(async (entryId: string) => {
-    if (entryImages[entryId] !== undefined) return; // Already loaded or attempted
+  const loadImageForEntry = useCallback(async (entry: FoodEntry) => {
+    if (entryImages[entry.id] !== undefined) return; // Already loaded or attempted
 
-    setEntryImages(prev => ({ ...prev, [entryId]: null })); // Mark as loading
+    setEntryImages(prev => ({ ...prev, [entry.id]: null })); // Mark as loading
     try {
-      const imageUrl = await getEntryImage(entryId);
-      setEntryImages(prev => ({ ...prev, [entryId]: imageUrl }));
+      const imageUrl = await getEntryImage(entry, 'thumbnail');
+      setEntryImages(prev => ({ ...prev, [entry.id]: imageUrl }));
     } catch (error) {
-      console.error(`Failed to load image for entry ${entryId}`, error);
+      console.error(`Failed to load image for entry ${entry.id}`, error);
     }
   }, [entryImages]);
 
@@ -150,6 +144,7 @@ export const History: React.FC = () => {
 
   const handleDeleteEntry = async (id: string) => {
     await deleteEntry(id);
+    offerUndo('Meal deleted', () => undoDelete('entry', id));
     setDayEntries({});
     setEntryImages({});
     await loadData();
@@ -206,7 +201,7 @@ export const History: React.FC = () => {
       setShowCoachTips(true);
     } catch (error) {
       console.error('Failed to generate report:', error);
-      alert('Failed to generate AI report. Please try again.');
+      alert(error instanceof AICapError ? error.message : 'Failed to generate AI report. Please try again.');
     } finally {
       setIsLoadingReport(false);
     }
@@ -226,15 +221,32 @@ export const History: React.FC = () => {
       setCurrentReport(report);
     } catch (error) {
       console.error('Failed to regenerate report:', error);
-      alert('Failed to regenerate report. Please try again.');
+      alert(error instanceof AICapError ? error.message : 'Failed to regenerate report. Please try again.');
     } finally {
       setIsRegeneratingReport(false);
     }
   };
 
+  // Meals in the selected period as CSV
+  const handleExportCsv = async () => {
+    setIsExportingCsv(true);
+    try {
+      const reportType = viewMode === 'day' ? 'daily' : viewMode === 'week' ? 'weekly' : 'monthly';
+      const reference = viewMode === 'day' ? selectedDate : viewMode === 'week' ? selectedWeek : selectedMonth;
+      const { start, end } = calculatePeriodDates(reportType, reference);
+      const range = { startDate: start, endDate: end };
+      downloadCsv(await buildEntriesCsv(range), csvFilename('meals', range));
+    } catch (error: any) {
+      console.error('Failed to export CSV:', error);
+      alert('Export failed: ' + error.message);
+    } finally {
+      setIsExportingCsv(false);
+    }
+  };
+
   const getEntryWithImage = (entry: FoodEntry): FoodEntry => {
     if (entryImages[entry.id] === undefined) {
-      loadImageForEntry(entry.id);
+      loadImageForEntry(entry);
     }
     return { ...entry, imageUrl: entryImages[entry.id] || undefined };
   };
@@ -243,51 +255,28 @@ export const History: React.FC = () => {
   const scrollItems = useMemo(() => {
     if (viewMode === 'day') {
       // Daily: Show up to 31 days from today (going back in time)
-      const days = [];
-      const today = new Date();
-      const thirtyOneDaysAgo = new Date(today);
-      thirtyOneDaysAgo.setDate(today.getDate() - 30); // 30 days back + today = 31 days total
-
-      // Generate dates from 31 days ago to today
-      for (let d = new Date(thirtyOneDaysAgo); d <= today; d.setDate(d.getDate() + 1)) {
-        // PERMANENT FIX: Use manual local date formatting. 
-        const year = d.getFullYear();
-        const month = String(d.getMonth() + 1).padStart(2, '0');
-        const day = String(d.getDate()).padStart(2, '0');
-        const dateStr = `${year}-${month}-${day}`;
-        days.push({
+      // 30 days back + today = 31 days total
+      return eachDay(daysAgo(30), getCurrentDateString()).map(dateStr => {
+        const d = parseLocalDate(dateStr);
+        return {
           id: dateStr,
           name: d.toLocaleDateString('en-US', { weekday: 'short' }),
           label: d.getDate().toString(),
           date: dateStr,
-        });
-      }
-      return days;
+        };
+      });
     } else if (viewMode === 'week') {
       // Weekly: Show last 8 weeks (Mon-Sun ranges)
       const weeks = [];
-      const today = new Date();
-      // Find Monday of current week
-      const dayOfWeek = today.getDay(); // 0 (Sun) - 6 (Sat)
-      const diffToMon = dayOfWeek === 0 ? -6 : 1 - dayOfWeek; // Mon is 1
-      const currentWeekMon = new Date(today);
-      currentWeekMon.setDate(today.getDate() + diffToMon);
+      const currentWeekMon = startOfWeek(getCurrentDateString());
 
       for (let i = 0; i < 8; i++) {
-        const start = new Date(currentWeekMon);
-        start.setDate(currentWeekMon.getDate() - (i * 7));
-        const end = new Date(start);
-        end.setDate(start.getDate() + 6);
+        // ID is start date YYYY-MM-DD
+        const id = addDays(currentWeekMon, -i * 7);
 
         // Format label "Jan 19 - 25"
-        const startLabel = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-        const endLabel = end.toLocaleDateString('en-US', { day: 'numeric' });
-
-        // ID is start date YYYY-MM-DD
-        const year = start.getFullYear();
-        const month = String(start.getMonth() + 1).padStart(2, '0');
-        const day = String(start.getDate()).padStart(2, '0');
-        const id = `${year}-${month}-${day}`;
+        const startLabel = parseLocalDate(id).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+        const endLabel = parseLocalDate(addDays(id, 6)).toLocaleDateString('en-US', { day: 'numeric' });
 
         weeks.push({
           id: id,
@@ -337,20 +326,9 @@ export const History: React.FC = () => {
         date: '', totalCalories: 0, totalProtein: 0, totalCarbs: 0, totalFat: 0
       };
 
-      const start = new Date(selectedWeek);
-      const end = new Date(start);
-      end.setDate(start.getDate() + 6);
-
-      const startStr = selectedWeek; // YYYY-MM-DD
-      // Need end string? summaries store date as YYYY-MM-DD
-      // Filter summaries where date is >= start and <= end
-      // Simple string comparison works for ISO dates? Yes.
-
-      // Calculate end date string for comparison
-      const endYear = end.getFullYear();
-      const endMonth = String(end.getMonth() + 1).padStart(2, '0');
-      const endDay = String(end.getDate()).padStart(2, '0');
-      const endStr = `${endYear}-${endMonth}-${endDay}`;
+      // Summaries store date as YYYY-MM-DD, so string comparison works
+      const startStr = selectedWeek;
+      const endStr = addDays(selectedWeek, 6);
 
       const weekSummaries = summaries.filter(s => s.date >= startStr && s.date <= endStr);
 
@@ -389,17 +367,8 @@ export const History: React.FC = () => {
     const isInRange = (dateStr: string) => {
       if (viewMode === 'month') return dateStr.startsWith(selectedMonth);
       if (viewMode === 'week' && selectedWeek) {
-        try {
-          const [year, month, day] = selectedWeek.split('-').map(Number);
-          const start = new Date(year, month - 1, day);
-          const end = new Date(start);
-          end.setDate(start.getDate() + 6);
-
-          // Simple string comparison for YYYY-MM-DD works if formatted correctly
-          // But safer to compare timestamps or ensure formatting
-          const d = new Date(dateStr);
-          return d >= start && d <= end;
-        } catch (e) { return false; }
+        // Simple string comparison for YYYY-MM-DD
+        return dateStr >= selectedWeek && dateStr <= addDays(selectedWeek, 6);
       }
       return false;
     };
@@ -418,14 +387,7 @@ export const History: React.FC = () => {
     const isInRange = (dateStr: string) => {
       if (viewMode === 'month') return dateStr.startsWith(selectedMonth);
       if (viewMode === 'week' && selectedWeek) {
-        try {
-          const [year, month, day] = selectedWeek.split('-').map(Number);
-          const start = new Date(year, month - 1, day);
-          const end = new Date(start);
-          end.setDate(start.getDate() + 6);
-          const d = new Date(dateStr);
-          return d >= start && d <= end;
-        } catch (e) { return false; }
+        return dateStr >= selectedWeek && dateStr <= addDays(selectedWeek, 6);
       }
       return false;
     };
@@ -472,11 +434,21 @@ export const History: React.FC = () => {
 
           <div className="flex items-center justify-between mb-8">
             <h1 className="text-2xl font-black text-primary-900 tracking-tight font-display">History Log</h1>
-            <div className="text-xs font-bold text-primary-600 bg-primary-50 px-3 py-1.5 rounded-xl border border-primary-100">
-              {viewMode === 'week'
-                ? new Date(selectedDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
-                : new Date(selectedMonth + '-01').toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
-              }
+            <div className="flex items-center gap-2">
+              <div className="text-xs font-bold text-primary-600 bg-primary-50 px-3 py-1.5 rounded-xl border border-primary-100">
+                {viewMode === 'week'
+                  ? parseLocalDate(selectedDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+                  : parseLocalDate(selectedMonth + '-01').toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+                }
+              </div>
+              <button
+                onClick={handleExportCsv}
+                disabled={isExportingCsv}
+                title="Export CSV"
+                className="p-2 rounded-xl bg-primary-50 border border-primary-100 text-primary-600 hover:bg-primary-100 disabled:opacity-50 transition-colors"
+              >
+                {isExportingCsv ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+              </button>
             </div>
           </div>
 
@@ -549,7 +521,7 @@ export const History: React.FC = () => {
                             </div>
                             <div className="flex flex-col items-start">
                               <span className="text-sm font-bold text-primary-900">
-                                {new Date(date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                                {parseLocalDate(date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
                               </span>
                               <span className="text-[9px] font-medium text-secondary-400">
                                 {dayEntries.length} meal{dayEntries.length !== 1 ? 's' : ''}
@@ -668,12 +640,7 @@ export const History: React.FC = () => {
               const hasData = summaries.some(s => {
                 if (viewMode === 'day') return s.date === item.id;
                 if (viewMode === 'week') {
-                  const [year, month, day] = item.id.split('-').map(Number);
-                  const start = new Date(year, month - 1, day);
-                  const end = new Date(start);
-                  end.setDate(start.getDate() + 6);
-                  const sDate = new Date(s.date);
-                  return sDate >= start && sDate <= end;
+                  return s.date >= item.id && s.date <= addDays(item.id, 6);
                 }
                 return s.date.startsWith(item.id);
               });
@@ -1,7 +1,19 @@
-import React, { useState } from 'react';
-import { signIn, signUp } from '../services/auth';
+import React, { useEffect, useState } from 'react';
+import { signIn, signUp, requestPasswordReset, sendMagicLink, AuthEmailResult } from '../services/auth';
+import { shouldUseCloud } from '../services/supabase';
+import { listLocalProfiles, deleteLocalAccount, LocalProfile, MIN_PASSWORD_LENGTH, LOCAL_SIGN_IN_LINKS } from '../services/localAccounts';
 import { Button } from '../components/ui/Button';
-import { AlertCircle, ArrowRight, Zap, CheckCircle2 } from 'lucide-react';
+import { AlertCircle, ArrowRight, Zap, CheckCircle2, Trash2, UserRound, ExternalLink } from 'lucide-react';
+
+// Sign-in help that works by emailing a link (emulated for local accounts only in dev builds that opt in)
+const HAS_EMAIL_FLOWS = shouldUseCloud || LOCAL_SIGN_IN_LINKS;
+
+type EmailFlow = 'reset' | 'magic';
+
+const EMAIL_FLOWS: Record<EmailFlow, { button: string; sent: string; send: (email: string) => Promise<AuthEmailResult> }> = {
+  reset: { button: 'Send Reset Link', sent: 'choose a new password', send: requestPasswordReset },
+  magic: { button: 'Email Me a Sign-In Link', sent: 'sign in', send: sendMagicLink },
+};
 
 export const Login: React.FC = () => {
   const [isLogin, setIsLogin] = useState(true);
@@ -10,15 +22,72 @@ export const Login: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
+  // Device Only mode: profiles on this device, and the one being deleted
+  const [profiles, setProfiles] = useState<LocalProfile[]>([]);
+  const [deleting, setDeleting] = useState<LocalProfile | null>(null);
+  const [emailFlow, setEmailFlow] = useState<EmailFlow | null>(null);
+  // Local Mode can't send email, so the link is shown here instead
+  const [localLink, setLocalLink] = useState<string | null>(null);
+
+  const loadProfiles = () => {
+    if (shouldUseCloud) return;
+    listLocalProfiles().then(setProfiles).catch(err => console.error('Failed to list local profiles', err));
+  };
+
+  useEffect(loadProfiles, []);
+
+  const chooseEmailFlow = (flow: EmailFlow | null) => {
+    setEmailFlow(flow);
+    setLocalLink(null);
+    setError(null);
+    setMessage(null);
+  };
+
+  const pickProfile = (profile: LocalProfile) => {
+    setDeleting(null);
+    setEmailFlow(null);
+    setLocalLink(null);
+    setEmail(profile.email);
+    setPassword('');
+    setError(null);
+    setMessage(profile.hasPassword ? null : "Choose a password to protect this profile.");
+    // Profiles from before local passwords are claimed by signing up
+    setIsLogin(profile.hasPassword);
+  };
+
+  const startDelete = (profile: LocalProfile) => {
+    setDeleting(profile);
+    setEmailFlow(null);
+    setLocalLink(null);
+    setPassword('');
+    setError(null);
+    setMessage(null);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setMessage(null);
+    setLocalLink(null);
     setIsLoading(true);
 
     try {
-      if (isLogin) {
+      if (emailFlow) {
+        const { localLink: link } = await EMAIL_FLOWS[emailFlow].send(email);
+        if (link) {
+          setLocalLink(link);
+          setMessage(`Local Mode can't send email. Open the link below to ${EMAIL_FLOWS[emailFlow].sent}.`);
+        } else {
+          setMessage(`Check ${email} for a link to ${EMAIL_FLOWS[emailFlow].sent}.`);
+        }
+      } else if (deleting) {
+        if (!confirm(`Delete ${deleting.email} and all of its meals, workouts and coach chats on this device? This can't be undone.`)) return;
+        await deleteLocalAccount(deleting.email, password);
+        setMessage(`Deleted ${deleting.email}.`);
+        setDeleting(null);
+        setPassword('');
+        loadProfiles();
+      } else if (isLogin) {
         await signIn(email, password);
       } else {
         await signUp(email, password);
@@ -57,14 +126,14 @@ export const Login: React.FC = () => {
         <div className="bg-white/80 backdrop-blur-xl border border-white p-8 rounded-[40px] shadow-[0_20px_40px_-12px_rgba(0,0,0,0.05)]">
           <div className="flex p-1 bg-[#3D745B] rounded-[20px] mb-8 shadow-sm">
             <button
-              onClick={() => { setIsLogin(true); setError(null); setMessage(null); }}
+              onClick={() => { setIsLogin(true); setDeleting(null); chooseEmailFlow(null); }}
               className={`flex-1 py-3 text-sm font-bold rounded-[16px] transition-all duration-300 ${isLogin ? 'bg-white text-[#3D745B] shadow-lg' : 'text-white/70 hover:text-white'
                 }`}
             >
               Sign In
             </button>
             <button
-              onClick={() => { setIsLogin(false); setError(null); setMessage(null); }}
+              onClick={() => { setIsLogin(false); setDeleting(null); chooseEmailFlow(null); }}
               className={`flex-1 py-3 text-sm font-bold rounded-[16px] transition-all duration-300 ${!isLogin ? 'bg-white text-[#3D745B] shadow-lg' : 'text-white/70 hover:text-white'
                 }`}
             >
@@ -87,40 +156,120 @@ export const Login: React.FC = () => {
               </div>
             )}
 
+            {localLink && (
+              <button
+                type="button"
+                onClick={() => window.location.assign(localLink)}
+                className="w-full flex items-center justify-center gap-2 p-4 bg-white border border-emerald-100 rounded-2xl text-[#3D745B] text-sm font-bold hover:bg-emerald-50 transition-all"
+              >
+                <ExternalLink size={16} /> Open Link
+              </button>
+            )}
+
             <div className="space-y-4">
-              <div>
-                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 ml-1">Email</label>
-                <input
-                  type="email"
-                  required
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="w-full p-4 bg-gray-50 border border-gray-100 rounded-[20px] focus:outline-none focus:ring-2 focus:ring-primary-200 focus:border-primary-400 text-gray-900 transition-all placeholder:text-gray-400 font-medium"
-                  placeholder="hello@snapcal.ai"
-                />
-              </div>
+              {deleting ? (
+                <p className="text-sm font-medium text-gray-600 ml-1">
+                  Delete <span className="font-bold text-gray-900">{deleting.email}</span> and everything it saved on this device.
+                </p>
+              ) : (
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 ml-1">Email</label>
+                  <input
+                    type="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="w-full p-4 bg-gray-50 border border-gray-100 rounded-[20px] focus:outline-none focus:ring-2 focus:ring-primary-200 focus:border-primary-400 text-gray-900 transition-all placeholder:text-gray-400 font-medium"
+                    placeholder="hello@snapcal.ai"
+                  />
+                </div>
+              )}
 
-              <div>
-                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 ml-1">Password</label>
-                <input
-                  type="password"
-                  required
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full p-4 bg-gray-50 border border-gray-100 rounded-[20px] focus:outline-none focus:ring-2 focus:ring-primary-200 focus:border-primary-400 text-gray-900 transition-all placeholder:text-gray-400 font-medium"
-                  placeholder="••••••••"
-                  minLength={6}
-                />
-              </div>
+              {!emailFlow && (!deleting || deleting.hasPassword) && (
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 ml-1">Password</label>
+                  <input
+                    type="password"
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full p-4 bg-gray-50 border border-gray-100 rounded-[20px] focus:outline-none focus:ring-2 focus:ring-primary-200 focus:border-primary-400 text-gray-900 transition-all placeholder:text-gray-400 font-medium"
+                    placeholder="••••••••"
+                    minLength={isLogin || deleting ? undefined : MIN_PASSWORD_LENGTH}
+                  />
+                </div>
+              )}
             </div>
 
-            <Button className="w-full mt-4 flex justify-between items-center group py-5 bg-[#3D745B] hover:bg-[#315C49] border-none shadow-lg shadow-primary-100 text-white" isLoading={isLoading}>
-              <span>{isLogin ? 'Sign In' : 'Create Account'}</span>
-              {!isLoading && <ArrowRight size={20} className="group-hover:translate-x-1 transition-transform" />}
-            </Button>
+            {deleting ? (
+              <div className="flex gap-3 mt-4">
+                <Button type="button" variant="secondary" className="flex-1 py-5" onClick={() => setDeleting(null)}>
+                  Cancel
+                </Button>
+                <Button className="flex-1 py-5 bg-red-500 hover:bg-red-600 border-none text-white" isLoading={isLoading}>
+                  Delete
+                </Button>
+              </div>
+            ) : (
+              <Button className="w-full mt-4 flex justify-between items-center group py-5 bg-[#3D745B] hover:bg-[#315C49] border-none shadow-lg shadow-primary-100 text-white" isLoading={isLoading}>
+                <span>{emailFlow ? EMAIL_FLOWS[emailFlow].button : isLogin ? 'Sign In' : 'Create Account'}</span>
+                {!isLoading && <ArrowRight size={20} className="group-hover:translate-x-1 transition-transform" />}
+              </Button>
+            )}
           </form>
+
+          {isLogin && !deleting && !HAS_EMAIL_FLOWS && (
+            <p className="mt-5 text-xs font-medium text-gray-400 text-center">
+              Forgot your password? Device-only accounts can't be recovered, only deleted.
+            </p>
+          )}
+
+          {isLogin && !deleting && HAS_EMAIL_FLOWS && (
+            <div className="flex justify-between mt-5 text-xs font-bold">
+              {emailFlow ? (
+                <button onClick={() => chooseEmailFlow(null)} className="text-gray-400 hover:text-[#3D745B] transition-colors">
+                  Back to password sign in
+                </button>
+              ) : (
+                <>
+                  <button onClick={() => chooseEmailFlow('reset')} className="text-gray-400 hover:text-[#3D745B] transition-colors">
+                    Forgot password?
+                  </button>
+                  <button onClick={() => chooseEmailFlow('magic')} className="text-gray-400 hover:text-[#3D745B] transition-colors">
+                    Sign in with an email link
+                  </button>
+                </>
+              )}
+            </div>
+          )}
         </div>
 
+        {profiles.length > 0 && (
+          <div className="mt-6 space-y-2">
+            <p className="text-xs font-bold text-gray-400 uppercase tracking-wider ml-1">Profiles on this device</p>
+            {profiles.map(profile => (
+              <div key={profile.id} className="flex items-center gap-3 bg-white/80 border border-white rounded-[20px] p-3">
+                <button onClick={() => pickProfile(profile)} className="flex-1 flex items-center gap-3 text-left min-w-0">
+                  <div className="w-9 h-9 rounded-full bg-primary-50 flex items-center justify-center text-[#3D745B] shrink-0">
+                    <UserRound size={18} />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-gray-900 truncate">{profile.email}</p>
+                    {!profile.hasPassword && <p className="text-[11px] font-medium text-amber-600">No password yet</p>}
+                  </div>
+                </button>
+                <button
+                  onClick={() => startDelete(profile)}
+                  className="p-2 text-gray-300 hover:text-red-500 transition-colors"
+                  aria-label={`Delete ${profile.email}`}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         <p className="text-center text-gray-400 text-xs mt-8 font-medium">
           {isLogin ? "New here? Create an account above." : "Welcome back. Sign in above."}
         </p>
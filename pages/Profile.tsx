@@ -1,9 +1,21 @@
 import React, { useEffect, useState } from 'react';
-import { User, Ruler, Weight, Check, RefreshCw, Activity, ArrowRight, Database, LogOut, UploadCloud, AlertCircle, HardDrive, Cloud, Code, Copy, Calendar, Users, TrendingUp, Target, Dumbbell, ChevronDown, Scale } from 'lucide-react';
+import { User, Ruler, Weight, Check, RefreshCw, Activity, ArrowRight, Database, LogOut, UploadCloud, AlertCircle, HardDrive, Cloud, Code, Copy, Calendar, Users, TrendingUp, Target, Dumbbell, ChevronDown, Scale, CloudOff, RotateCcw, Trash2, Clock } from 'lucide-react';
 import { Button } from '../components/ui/Button';
-import { getUserProfile, saveUserProfile, saveDailyGoal, hasLocalData, syncLocalDataToSupabase, checkDatabaseSchema } from '../services/storage';
+import { getUserProfile, saveUserProfile, saveDailyGoal, hasLocalData, syncDeviceDataToCloud, syncNow, getLastSyncedAt, checkDatabaseSchema, getOutboxItems, flushOutbox, retryOutboxItem, discardOutboxItem } from '../services/storage';
+import { OUTBOX_CHANGED_EVENT, OutboxItem, describeMutation } from '../services/backend';
 import { isSupabaseConfigured, getAppMode, setAppMode, shouldUseCloud } from '../services/supabase';
 import { signOut } from '../services/auth';
+import { ConflictLog } from '../components/ConflictLog';
+import { DataArchiveCard } from '../components/DataArchiveCard';
+import { CsvExportCard } from '../components/CsvExportCard';
+import { RetentionCard } from '../components/RetentionCard';
+import { AIUsageCard } from '../components/AIUsageCard';
+import { TrashCard } from '../components/TrashCard';
+import { EncryptionCard } from '../components/EncryptionCard';
+import { DeleteAccountCard } from '../components/DeleteAccountCard';
+import { AccountEmailCard } from '../components/AccountEmailCard';
+import { isEncryptionEnabled } from '../services/encryption';
+import { DEFAULT_DAY_START } from '../utils/midnight';
 
 const SUPABASE_SCHEMA_SQL = `
 -- Run this in your Supabase SQL Editor
@@ -83,6 +95,131 @@ create policy "Users can all own settings" on user_settings
 -- Summaries
 create policy "Users can all own summaries" on daily_summaries
   for all using (auth.uid() = user_id);
+
+-- 7. Sync Tracking (updated_at + soft deletes, used by two-way sync)
+create or replace function set_updated_at() returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+do $$
+declare t text;
+begin
+  foreach t in array array['food_entries', 'user_profiles', 'user_settings', 'daily_summaries',
+    'coach_messages', 'workout_plans', 'user_streaks', 'user_weight_goals', 'coach_reports']
+  loop
+    if to_regclass(t) is not null then
+      execute format('alter table %I add column if not exists updated_at timestamp with time zone default now()', t);
+      execute format('alter table %I add column if not exists deleted boolean default false', t);
+      execute format('drop trigger if exists %I on %I', t || '_updated_at', t);
+      execute format('create trigger %I before insert or update on %I for each row execute function set_updated_at()', t || '_updated_at', t);
+      execute format('create index if not exists %I on %I (user_id, updated_at)', t || '_sync_idx', t);
+    end if;
+  end loop;
+end $$;
+
+-- 8. Edit Revisions (detects edits made on two devices at once)
+do $$
+declare t text;
+begin
+  foreach t in array array['food_entries', 'workout_plans']
+  loop
+    if to_regclass(t) is not null then
+      execute format('alter table %I add column if not exists revision integer not null default 0', t);
+      execute format('alter table %I add column if not exists edited_at timestamp with time zone', t);
+      execute format('alter table %I add column if not exists edited_by text', t);
+    end if;
+  end loop;
+end $$;
+
+-- 9. Data Retention (per-user cleanup policy)
+alter table user_settings add column if not exists retention_policy jsonb;
+
+-- 10. Live Updates (Supabase Realtime for open tabs on other devices)
+do $$
+declare t text;
+begin
+  foreach t in array array['food_entries', 'workout_plans', 'coach_messages']
+  loop
+    if to_regclass(t) is not null and not exists (
+      select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table %I', t);
+    end if;
+  end loop;
+end $$;
+
+-- 11. Trash (deleted rows stay restorable while deleted_at is set)
+do $$
+declare t text;
+begin
+  foreach t in array array['food_entries', 'workout_plans', 'coach_messages']
+  loop
+    if to_regclass(t) is not null then
+      execute format('alter table %I add column if not exists deleted_at timestamp with time zone', t);
+      execute format('create index if not exists %I on %I (user_id, deleted_at) where deleted_at is not null', t || '_trash_idx', t);
+    end if;
+  end loop;
+end $$;
+
+-- 12. Entry edit history (revisions appended on every edit of a meal)
+alter table food_entries add column if not exists edit_history jsonb;
+
+-- 13. Meal photos (originals and thumbnails in Storage, one folder per user)
+alter table food_entries add column if not exists image_key text;
+insert into storage.buckets (id, name, public) values ('meal-photos', 'meal-photos', false)
+on conflict (id) do nothing;
+drop policy if exists "Users can all own meal photos" on storage.objects;
+create policy "Users can all own meal photos" on storage.objects
+  for all using (bucket_id = 'meal-photos' and (storage.foldername(name))[1] = auth.uid()::text)
+  with check (bucket_id = 'meal-photos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- 14. Entry time zones (the zone each meal was logged in)
+alter table food_entries add column if not exists time_zone text;
+
+-- 15. Day start (HH:MM the tracking day rolls over at)
+alter table user_profiles add column if not exists day_starts_at text;
+
+-- 16. Account deletion (removes the signed-in user's login once their rows are gone)
+create or replace function delete_user() returns void as $$
+  delete from auth.users where id = auth.uid();
+$$ language sql security definer set search_path = public;
+revoke execute on function delete_user() from public, anon;
+grant execute on function delete_user() to authenticated;
+
+-- 17. AI Usage (per-call ledger and daily caps per task)
+create table if not exists ai_usage (
+  id uuid primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  task text not null,
+  provider text not null,
+  model text not null default '',
+  input_tokens integer not null default 0,
+  output_tokens integer not null default 0,
+  latency_ms integer not null default 0,
+  outcome text not null,
+  error text,
+  date text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now())
+);
+create index if not exists ai_usage_user_date on ai_usage (user_id, date);
+-- Recreated so tables from before cancelled streams accept them
+alter table ai_usage drop constraint if exists ai_usage_outcome_check;
+alter table ai_usage add constraint ai_usage_outcome_check check (outcome in ('success', 'error', 'rate_limited', 'capped', 'cancelled'));
+alter table ai_usage enable row level security;
+-- Records are never edited, only added and removed with the account
+drop policy if exists "Users can read own AI usage" on ai_usage;
+create policy "Users can read own AI usage" on ai_usage
+  for select using (auth.uid() = user_id);
+drop policy if exists "Users can add own AI usage" on ai_usage;
+create policy "Users can add own AI usage" on ai_usage
+  for insert with check (auth.uid() = user_id);
+drop policy if exists "Users can delete own AI usage" on ai_usage;
+create policy "Users can delete own AI usage" on ai_usage
+  for delete using (auth.uid() = user_id);
+alter table user_settings add column if not exists ai_usage_caps jsonb;
 `;
 
 export const Profile: React.FC = () => {
@@ -104,17 +241,32 @@ export const Profile: React.FC = () => {
   const [showSql, setShowSql] = useState(false);
   const [showTrainingGoals, setShowTrainingGoals] = useState(false);
   const [targetWeight, setTargetWeight] = useState('');
+  const [dayStartsAt, setDayStartsAt] = useState(DEFAULT_DAY_START);
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([]);
+  const [isFlushing, setIsFlushing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
 
   useEffect(() => {
     loadProfile();
     if (shouldUseCloud) {
-      setHasUnsyncedData(hasLocalData());
+      hasLocalData().then(setHasUnsyncedData);
+      getLastSyncedAt().then(setLastSyncedAt);
       checkDB();
     } else {
       setDbStatus('ok');
     }
   }, []);
 
+  // Offline outbox: keep the pending list in sync with the queue
+  useEffect(() => {
+    if (!shouldUseCloud) return;
+
+    const loadOutbox = () => { getOutboxItems().then(setOutboxItems); };
+    loadOutbox();
+    window.addEventListener(OUTBOX_CHANGED_EVENT, loadOutbox);
+    return () => window.removeEventListener(OUTBOX_CHANGED_EVENT, loadOutbox);
+  }, []);
+
   const checkDB = async () => {
     const res = await checkDatabaseSchema();
     if (res.missingTables) setDbStatus('missing_tables');
@@ -126,6 +278,10 @@ export const Profile: React.FC = () => {
 
   const handleModeSwitch = (mode: 'local' | 'cloud') => {
     if (mode === getAppMode()) return;
+    if (mode === 'cloud' && isEncryptionEnabled()) {
+      alert("Turn off encryption before switching to Cloud Mode - encrypted data can't be synced.");
+      return;
+    }
 
     const msg = mode === 'local'
       ? "Switching to Local Mode means your data will stay on this device only. You will be logged out of Cloud to create a local profile."
@@ -148,6 +304,7 @@ export const Profile: React.FC = () => {
       if (profile.goal) setGoal(profile.goal);
       if (profile.equipmentAccess) setEquipmentAccess(profile.equipmentAccess);
       if (profile.targetWeight) setTargetWeight(profile.targetWeight.toString());
+      if (profile.dayStartsAt) setDayStartsAt(profile.dayStartsAt);
     }
   };
 
@@ -189,7 +346,8 @@ export const Profile: React.FC = () => {
         activityLevel: activityLevel || undefined,
         goal: goal || undefined,
         equipmentAccess: equipmentAccess || undefined,
-        targetWeight: targetWeight ? parseFloat(targetWeight) : undefined
+        targetWeight: targetWeight ? parseFloat(targetWeight) : undefined,
+        dayStartsAt: dayStartsAt && dayStartsAt !== DEFAULT_DAY_START ? dayStartsAt : undefined
       });
       setSaveSuccess(true);
       setTimeout(() => setSaveSuccess(false), 2000);
@@ -227,11 +385,12 @@ export const Profile: React.FC = () => {
   };
 
   const handleSync = async () => {
-    if (!confirm("This will upload your local history to your Supabase account and clear local storage. Continue?")) return;
+    if (!confirm("This will move your device history into your Supabase account. It stays available offline on this device. Continue?")) return;
     setIsSyncing(true);
     try {
-      await syncLocalDataToSupabase();
+      await syncDeviceDataToCloud();
       setHasUnsyncedData(false);
+      setLastSyncedAt(await getLastSyncedAt());
       alert("Migration successful! Your local history is now in the cloud.");
     } catch (e: any) {
       alert("Sync failed: " + e.message);
@@ -240,6 +399,34 @@ export const Profile: React.FC = () => {
     }
   };
 
+  const handleFlushOutbox = async () => {
+    setIsFlushing(true);
+    try {
+      await flushOutbox();
+    } catch (e: any) {
+      alert("Sync failed: " + e.message);
+    } finally {
+      setIsFlushing(false);
+    }
+  };
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      await syncNow();
+      setLastSyncedAt(await getLastSyncedAt());
+    } catch (e: any) {
+      alert("Sync failed: " + e.message);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleDiscardOutboxItem = async (item: OutboxItem) => {
+    if (!confirm(`Discard "${describeMutation(item.mutation)}"? This change will never reach the cloud.`)) return;
+    await discardOutboxItem(item.seq!);
+  };
+
   const copySql = () => {
     navigator.clipboard.writeText(SUPABASE_SCHEMA_SQL);
     alert("SQL Copied to clipboard! Paste it into the Supabase SQL Editor.");
@@ -281,6 +468,70 @@ export const Profile: React.FC = () => {
         </div>
       )}
 
+      {/* Offline Outbox */}
+      {shouldUseCloud && outboxItems.length > 0 && (
+        <div className="bg-amber-50 border border-amber-100 p-5 rounded-4xl animate-in slide-in-from-top-4 shadow-soft">
+          <div className="flex items-start gap-4">
+            <div className="p-3 bg-amber-100 rounded-2xl text-amber-600">
+              <CloudOff size={24} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h3 className="text-sm font-black text-amber-900">Changes Waiting to Sync</h3>
+              <p className="text-xs text-amber-700 mt-1 mb-3 leading-relaxed font-medium">
+                These were saved while you were offline and will upload automatically when you're back online.
+              </p>
+              <ul className="space-y-2 mb-3">
+                {outboxItems.map(item => (
+                  <li key={item.seq} className="bg-white rounded-2xl p-3 shadow-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-xs font-black text-primary-900 truncate">{describeMutation(item.mutation)}</p>
+                        <p className="text-[10px] font-bold text-secondary-400">
+                          {new Date(item.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                      {item.status === 'failed' && (
+                        <div className="flex items-center gap-1 shrink-0">
+                          <button
+                            onClick={() => retryOutboxItem(item.seq!)}
+                            className="p-2 text-secondary-400 hover:text-primary-500 transition-colors"
+                            title="Retry"
+                          >
+                            <RotateCcw size={14} />
+                          </button>
+                          <button
+                            onClick={() => handleDiscardOutboxItem(item)}
+                            className="p-2 text-secondary-400 hover:text-rose-500 transition-colors"
+                            title="Discard"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    {item.status === 'failed' && item.lastError && (
+                      <p className="text-[10px] text-rose-600 font-bold mt-2 flex items-start gap-1">
+                        <AlertCircle size={12} className="shrink-0 mt-px" /> {item.lastError}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <Button
+                onClick={handleFlushOutbox}
+                isLoading={isFlushing}
+                className="py-3 px-6 text-xs bg-[#3D745B] hover:bg-[#2D5A45] shadow-lg shadow-primary-200/50 rounded-full"
+              >
+                Sync Now
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Edit Conflicts */}
+      {shouldUseCloud && <ConflictLog />}
+
       {/* Database Issue Banner */}
       {shouldUseCloud && dbStatus === 'missing_tables' && (
         <div className="bg-rose-50 border border-rose-100 p-5 rounded-[32px] animate-in slide-in-from-top-4">
@@ -531,6 +782,20 @@ export const Profile: React.FC = () => {
                   <p className="text-[10px] text-emerald-600 mt-2 ml-1 font-medium">This powers your weight prediction on the Dashboard</p>
                 </div>
               )}
+
+              <div className="mt-4">
+                <label className="block text-xs font-black text-secondary-400 uppercase tracking-wider mb-2 ml-1">Day Starts At</label>
+                <div className="relative">
+                  <input
+                    type="time"
+                    value={dayStartsAt}
+                    onChange={(e) => setDayStartsAt(e.target.value)}
+                    className="w-full p-4 pl-12 bg-secondary-50 border border-secondary-100 rounded-2xl focus:outline-none focus:ring-2 focus:ring-primary-200 focus:border-primary-400 font-bold text-primary-900 transition-all"
+                  />
+                  <Clock className="absolute left-4 top-1/2 -translate-y-1/2 text-secondary-400 pointer-events-none" size={20} />
+                </div>
+                <p className="text-[10px] text-secondary-400 mt-2 ml-1 font-medium">Meals before this time count towards the previous day - handy for night shifts and late snacks</p>
+              </div>
             </div>
           )}
         </div>
@@ -591,9 +856,36 @@ export const Profile: React.FC = () => {
               Cloud Sync
             </button>
           </div>
+
+          {shouldUseCloud && (
+            <div className="flex items-center justify-between mt-4 px-1">
+              <p className="text-[11px] text-secondary-400 font-bold">
+                {lastSyncedAt ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}` : 'Not synced on this device yet'}
+              </p>
+              <button
+                onClick={handleSyncNow}
+                disabled={isSyncing}
+                className="flex items-center gap-1.5 text-[11px] font-black text-[#3D745B] hover:text-[#2D5A45] disabled:opacity-50 transition-colors"
+              >
+                <RefreshCw size={12} className={isSyncing ? 'animate-spin' : ''} />
+                Sync Now
+              </button>
+            </div>
+          )}
         </div>
       )}
 
+      <AccountEmailCard />
+
+      {/* Export / Import */}
+      <DataArchiveCard />
+      <CsvExportCard />
+      <RetentionCard />
+      <AIUsageCard />
+      <TrashCard />
+      {!shouldUseCloud && <EncryptionCard />}
+      <DeleteAccountCard />
+
       {/* Logout Action */}
       <div className="pt-4">
         <button
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { AlertCircle, ArrowRight, KeyRound } from 'lucide-react';
+import { Button } from '../components/ui/Button';
+import { updatePassword } from '../services/auth';
+import { MIN_PASSWORD_LENGTH } from '../services/localAccounts';
+
+/**
+ * Second half of a password reset: shown after the user opens the emailed link
+ */
+export const ResetPassword: React.FC<{ onDone: () => void }> = ({ onDone }) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (password !== confirmPassword) {
+      setError("The passwords don't match.");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await updatePassword(password);
+      onDone();
+    } catch (err: any) {
+      setError(err.message || "Couldn't update the password");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClass = "w-full p-4 bg-gray-50 border border-gray-100 rounded-[20px] focus:outline-none focus:ring-2 focus:ring-primary-200 focus:border-primary-400 text-gray-900 transition-all placeholder:text-gray-400 font-medium";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#F9F7F2] to-[#F3F0E7] flex flex-col items-center justify-center p-6">
+      <div className="w-full max-w-sm">
+        <div className="text-center mb-10">
+          <div className="w-20 h-20 bg-white rounded-[24px] flex items-center justify-center mx-auto mb-6 shadow-xl shadow-primary-200/50">
+            <KeyRound size={36} className="text-[#3D745B]" />
+          </div>
+          <h1 className="text-3xl font-extrabold text-gray-900 tracking-tight mb-2">Choose a New Password</h1>
+          <p className="text-gray-500 font-medium">You'll use it the next time you sign in.</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white/80 backdrop-blur-xl border border-white p-8 rounded-[40px] shadow-[0_20px_40px_-12px_rgba(0,0,0,0.05)] space-y-5">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-100 rounded-2xl flex items-center gap-3 text-red-600 text-sm font-medium">
+              <AlertCircle size={18} />
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 ml-1">New Password</label>
+              <input
+                type="password"
+                required
+                autoFocus
+                autoComplete="new-password"
+                minLength={MIN_PASSWORD_LENGTH}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClass}
+                placeholder="••••••••"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 ml-1">Repeat Password</label>
+              <input
+                type="password"
+                required
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className={inputClass}
+                placeholder="••••••••"
+              />
+            </div>
+          </div>
+
+          <Button className="w-full flex justify-between items-center group py-5 bg-[#3D745B] hover:bg-[#315C49] border-none shadow-lg shadow-primary-100 text-white" isLoading={isLoading}>
+            <span>Save Password</span>
+            {!isLoading && <ArrowRight size={20} className="group-hover:translate-x-1 transition-transform" />}
+          </Button>
+        </form>
+
+        <button onClick={onDone} className="block mx-auto text-center text-gray-400 hover:text-gray-600 text-xs mt-8 font-medium">
+          Keep my current password
+        </button>
+      </div>
+    </div>
+  );
+};
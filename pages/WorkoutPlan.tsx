@@ -2,9 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { Dumbbell, Calendar, CheckCircle2, Circle, ChevronLeft, ChevronRight, Plus, Sparkles, Pencil, Trash2 } from 'lucide-react';
 import { Card } from '../components/ui/Card';
 import { WorkoutExercise, DailyWorkout, AppView } from '../types';
-import { getWorkoutPlansForDate, getWorkoutPlansForMonth, saveWorkoutPlan, deleteWorkoutPlanById } from '../services/storage';
+import { getWorkoutPlansForDate, getWorkoutPlansForMonth, saveWorkoutPlan, deleteWorkoutPlanById, offerUndo, undoDelete } from '../services/storage';
 import { AddWorkoutModal } from '../components/AddWorkoutModal';
 import { EditExerciseModal } from '../components/EditExerciseModal';
+import { CONFLICTS_CHANGED_EVENT } from '../services/backend';
+import { LIVE_EVENTS } from '../services/realtime';
+import { formatLocalDate } from '../utils/localDate';
 
 interface WorkoutPlanProps {
     onNavigate?: (view: AppView) => void;
@@ -30,7 +33,7 @@ export const WorkoutPlan: React.FC<WorkoutPlanProps> = ({ onNavigate }) => {
         setPlanDates(new Set(dates));
 
         // Reload current workout plans
-        const dateStr = `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`;
+        const dateStr = formatLocalDate(selectedDate);
         const plans = await getWorkoutPlansForDate(dateStr);
         setWorkoutPlans(plans);
     };
@@ -51,7 +54,7 @@ export const WorkoutPlan: React.FC<WorkoutPlanProps> = ({ onNavigate }) => {
     useEffect(() => {
         const loadWorkoutPlan = async () => {
             setLoading(true);
-            const dateStr = `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`;
+            const dateStr = formatLocalDate(selectedDate);
             const plans = await getWorkoutPlansForDate(dateStr);
             setWorkoutPlans(plans);
             setLoading(false);
@@ -60,6 +63,17 @@ export const WorkoutPlan: React.FC<WorkoutPlanProps> = ({ onNavigate }) => {
         loadWorkoutPlan();
     }, [selectedDate]);
 
+    // Plans changed in another tab or on another device, or swapped for the cloud version after a conflict
+    useEffect(() => {
+        const handleRemoteChange = () => { reloadWorkout(); };
+        window.addEventListener(CONFLICTS_CHANGED_EVENT, handleRemoteChange);
+        window.addEventListener(LIVE_EVENTS.workout_plans, handleRemoteChange);
+        return () => {
+            window.removeEventListener(CONFLICTS_CHANGED_EVENT, handleRemoteChange);
+            window.removeEventListener(LIVE_EVENTS.workout_plans, handleRemoteChange);
+        };
+    }, [selectedDate, currentMonth]);
+
     // Get calendar grid for current month
     const getMonthDays = (): (Date | null)[] => {
         const year = currentMonth.getFullYear();
@@ -127,7 +141,7 @@ export const WorkoutPlan: React.FC<WorkoutPlanProps> = ({ onNavigate }) => {
         );
 
         // Save to storage to persist the completion status
-        const dateStr = `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`;
+        const dateStr = formatLocalDate(selectedDate);
         await saveWorkoutPlan(dateStr, workout.title, updatedExercises, workoutId);
     };
 
@@ -154,7 +168,7 @@ export const WorkoutPlan: React.FC<WorkoutPlanProps> = ({ onNavigate }) => {
             );
 
             // Save to storage
-            const dateStr = `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`;
+            const dateStr = formatLocalDate(selectedDate);
             await saveWorkoutPlan(dateStr, workout.title, updatedExercises, workoutId);
         }
     };
@@ -162,6 +176,7 @@ export const WorkoutPlan: React.FC<WorkoutPlanProps> = ({ onNavigate }) => {
     const handleDeleteWorkout = async (workoutId: string) => {
         if (confirm('Are you sure you want to delete this entire workout plan?')) {
             await deleteWorkoutPlanById(workoutId);
+            offerUndo('Workout deleted', () => undoDelete('workoutPlan', workoutId));
             await reloadWorkout();
         }
     };
@@ -186,7 +201,7 @@ export const WorkoutPlan: React.FC<WorkoutPlanProps> = ({ onNavigate }) => {
         );
 
         // Save to storage
-        const dateStr = `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`;
+        const dateStr = formatLocalDate(selectedDate);
         await saveWorkoutPlan(dateStr, workout.title, updatedExercises, editingWorkoutId);
 
         setShowEditModal(false);
@@ -266,7 +281,7 @@ export const WorkoutPlan: React.FC<WorkoutPlanProps> = ({ onNavigate }) => {
                             const isSelected = isSameDay(date, selectedDate);
                             const isToday = isSameDay(date, today);
                             // Use local timezone to avoid one-day offset
-                            const dateStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+                            const dateStr = formatLocalDate(date);
                             const hasPlan = planDates.has(dateStr);
 
                             return (
@@ -0,0 +1,79 @@
+/**
+ * Caller Verification
+ * Cloud users send their Supabase access token; Supabase tells us whose it
+ * is. Local Mode users have no account on any server, so they're only served
+ * when anonymous access is on - and then limited by IP instead.
+ */
+
+import { IncomingMessage } from 'node:http';
+import { ServerConfig } from './config';
+
+export interface Caller {
+  /** Rate-limit key: the user id, or the IP for anonymous callers */
+  key: string;
+  anonymous: boolean;
+}
+
+// Verified tokens are trusted this long, so a chat isn't one Supabase call per message
+const TOKEN_CACHE_MS = 60 * 1000;
+const MAX_CACHED_TOKENS = 1000;
+
+const verifiedTokens = new Map<string, { userId: string; expiresAt: number }>();
+
+const bearerToken = (req: IncomingMessage): string | null => {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  return match ? match[1].trim() : null;
+};
+
+export const clientIp = (req: IncomingMessage, config: ServerConfig): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  // The client can write anything into the header; only the last entry, appended by our proxy, is trustworthy
+  const last = [forwarded].flat().join(',').split(',').pop()?.trim();
+  return (config.trustProxy && last) || req.socket.remoteAddress || 'unknown';
+};
+
+const fetchUserId = async (token: string, config: ServerConfig): Promise<string | null> => {
+  const response = await fetch(`${config.supabaseUrl}/auth/v1/user`, {
+    headers: { apikey: config.supabaseAnonKey, Authorization: `Bearer ${token}` },
+  });
+  if (response.status === 401 || response.status === 403) return null;
+  if (!response.ok) throw new Error(`Supabase auth check failed: ${response.status}`);
+
+  const user: { id?: string } = await response.json();
+  return user.id || null;
+};
+
+const verifyToken = async (token: string, config: ServerConfig): Promise<string | null> => {
+  const now = Date.now();
+  const cached = verifiedTokens.get(token);
+  if (cached && cached.expiresAt > now) return cached.userId;
+
+  const userId = await fetchUserId(token, config);
+  if (!userId) return null;
+
+  if (verifiedTokens.size >= MAX_CACHED_TOKENS) {
+    verifiedTokens.forEach((entry, key) => {
+      if (entry.expiresAt <= now) verifiedTokens.delete(key);
+    });
+    // Still full of live tokens - drop the oldest
+    if (verifiedTokens.size >= MAX_CACHED_TOKENS) verifiedTokens.delete(verifiedTokens.keys().next().value!);
+  }
+  verifiedTokens.set(token, { userId, expiresAt: now + TOKEN_CACHE_MS });
+  return userId;
+};
+
+/**
+ * Who is calling, or null when they may not
+ */
+export const identifyCaller = async (req: IncomingMessage, config: ServerConfig): Promise<Caller | null> => {
+  // Without Supabase settings there's no checking a token, so its caller is anonymous
+  const token = config.supabaseUrl && config.supabaseAnonKey ? bearerToken(req) : null;
+  if (token) {
+    const userId = await verifyToken(token, config);
+    return userId ? { key: `user:${userId}`, anonymous: false } : null;
+  }
+  if (config.allowAnonymous) {
+    return { key: `ip:${clientIp(req, config)}`, anonymous: true };
+  }
+  return null;
+};
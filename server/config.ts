@@ -0,0 +1,61 @@
+/**
+ * Proxy Server Configuration
+ * From process.env. The AI provider settings are the app's without the VITE_
+ * prefix (AI_PROVIDER, GEMINI_API_KEY, AI_MODEL_<TASK>, ...), plus:
+ *
+ *   PORT                       port to listen on (default 8787)
+ *   SUPABASE_URL               project whose users may call the proxy
+ *   SUPABASE_ANON_KEY          its anon key, used to verify access tokens
+ *   AI_PROXY_ALLOWED_ORIGINS   comma-separated origins of the app (default *)
+ *   AI_PROXY_ALLOW_ANONYMOUS   true to also serve Local Mode users, limited per IP
+ *   AI_PROXY_TRUST_PROXY       true when behind one load balancer that appends to X-Forwarded-For
+ *   AI_RATE_LIMIT_PER_MINUTE   requests per user per minute (default 10)
+ *   AI_RATE_LIMIT_PER_DAY      requests per user per UTC day (default 200)
+ */
+
+import { loadAIConfig, AIConfig } from '../services/ai/config';
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_PER_MINUTE = 10;
+const DEFAULT_PER_DAY = 200;
+
+export interface ServerConfig {
+  port: number;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  allowedOrigins: string[];
+  allowAnonymous: boolean;
+  trustProxy: boolean;
+  perMinute: number;
+  perDay: number;
+  ai: AIConfig;
+}
+
+const env = (name: string): string => process.env[name]?.trim() || '';
+
+const positive = (name: string, fallback: number): number => {
+  const value = Number(env(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const loadServerConfig = (): ServerConfig => {
+  const config: ServerConfig = {
+    port: positive('PORT', DEFAULT_PORT),
+    supabaseUrl: env('SUPABASE_URL').replace(/\/+$/, ''),
+    supabaseAnonKey: env('SUPABASE_ANON_KEY'),
+    allowedOrigins: (env('AI_PROXY_ALLOWED_ORIGINS') || '*').split(',').map(origin => origin.trim()).filter(Boolean),
+    allowAnonymous: env('AI_PROXY_ALLOW_ANONYMOUS') === 'true',
+    trustProxy: env('AI_PROXY_TRUST_PROXY') === 'true',
+    perMinute: positive('AI_RATE_LIMIT_PER_MINUTE', DEFAULT_PER_MINUTE),
+    perDay: positive('AI_RATE_LIMIT_PER_DAY', DEFAULT_PER_DAY),
+    ai: loadAIConfig(process.env, ''),
+  };
+
+  if (!config.allowAnonymous && !(config.supabaseUrl && config.supabaseAnonKey)) {
+    throw new Error('Set SUPABASE_URL and SUPABASE_ANON_KEY to verify users, or AI_PROXY_ALLOW_ANONYMOUS=true');
+  }
+  if (config.ai.provider === 'gemini' && !config.ai.geminiApiKey) {
+    throw new Error('GEMINI_API_KEY is not set');
+  }
+  return config;
+};
@@ -0,0 +1,177 @@
+/**
+ * AI Proxy Server
+ * Holds the model keys so they aren't shipped to browsers. The app points
+ * VITE_AI_PROXY_URL here and sends only the user's part of each request;
+ * system instructions and schemas come from services/ai/tasks.ts, so the
+ * proxy can't be used as a general-purpose model.
+ *
+ *   POST /api/ai/:task   { prompt, image?, stream? } -> { text, model, usage }
+ *                        (coachChat with stream: true answers in plain text chunks)
+ *   GET  /health
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AIProvider, AITask, AI_TASKS, AIImage } from '../services/ai/types';
+import { GeminiProvider } from '../services/ai/geminiProvider';
+import { OpenAICompatibleProvider } from '../services/ai/openAiCompatibleProvider';
+import { MockProvider } from '../services/ai/mockProvider';
+import { AI_TASK_SPECS, textRequest, jsonRequest } from '../services/ai/tasks';
+import { isQuotaError, describeAIError } from '../services/ai/errors';
+import type { ProxyRequestBody } from '../services/ai/proxyProvider';
+import { loadServerConfig } from './config';
+import { identifyCaller } from './auth';
+import { RateLimiter } from './rateLimit';
+
+// Photos arrive base64-encoded; the app compresses them well below this
+const MAX_BODY_BYTES = 8 * 1024 * 1024;
+const MAX_PROMPT_CHARS = 50000;
+
+const IMAGE_TASKS: AITask[] = ['foodImage', 'sharedMeal'];
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+const config = loadServerConfig();
+const limiter = new RateLimiter(config.perMinute, config.perDay);
+
+const createProvider = (): AIProvider => {
+  const { ai } = config;
+  if (ai.provider === 'mock') return new MockProvider(ai.mockDelayMs, ai.mockFailure);
+  return ai.provider === 'openai'
+    ? new OpenAICompatibleProvider(ai.baseUrl, ai.apiKey, ai.models)
+    : new GeminiProvider(ai.geminiApiKey, ai.models);
+};
+
+const provider = createProvider();
+
+const corsHeaders = (req: IncomingMessage): Record<string, string> => {
+  const origin = req.headers.origin;
+  const allowAll = config.allowedOrigins.includes('*');
+  if (!origin || !(allowAll || config.allowedOrigins.includes(origin))) return {};
+  return {
+    'Access-Control-Allow-Origin': allowAll ? '*' : origin,
+    'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    // Lets the app see how long a rate limit lasts
+    'Access-Control-Expose-Headers': 'Retry-After',
+    'Access-Control-Max-Age': '600',
+    ...(allowAll ? {} : { Vary: 'Origin' }),
+  };
+};
+
+const sendJson = (req: IncomingMessage, res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { ...corsHeaders(req), ...headers, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = async (req: IncomingMessage): Promise<ProxyRequestBody> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request is too large');
+    chunks.push(chunk);
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch (e) {
+    throw new HttpError(400, 'Body must be JSON');
+  }
+
+  if (typeof body?.prompt !== 'string' || !body.prompt.trim()) throw new HttpError(400, 'prompt is required');
+  if (body.prompt.length > MAX_PROMPT_CHARS) throw new HttpError(413, 'prompt is too long');
+  const image: AIImage | undefined = body.image;
+  if (image !== undefined && (typeof image?.data !== 'string' || !/^image\/[\w.+-]+$/.test(image?.mimeType))) {
+    throw new HttpError(400, 'image must have an image mimeType and base64 data');
+  }
+  return { prompt: body.prompt, image, stream: body.stream === true };
+};
+
+const handleTask = async (req: IncomingMessage, res: ServerResponse, task: AITask) => {
+  const caller = await identifyCaller(req, config);
+  if (!caller) throw new HttpError(401, 'Sign in to use AI features');
+
+  const body = await readBody(req);
+  if (IMAGE_TASKS.includes(task) !== !!body.image) {
+    throw new HttpError(400, IMAGE_TASKS.includes(task) ? `${task} needs an image` : `${task} doesn't take an image`);
+  }
+
+  const limit = limiter.take(caller.key);
+  if (!limit.allowed) {
+    throw new HttpError(429, limit.reason, { 'Retry-After': String(limit.retryAfterSec) });
+  }
+
+  if (AI_TASK_SPECS[task].schema) {
+    sendJson(req, res, 200, await provider.generateJson(jsonRequest(task, body.prompt, body.image)));
+    return;
+  }
+  if (!body.stream) {
+    sendJson(req, res, 200, await provider.generateText(textRequest(task, body.prompt)));
+    return;
+  }
+
+  // Wait for the first chunk so a failing model still gets a proper status
+  const stream = provider.streamText(textRequest(task, body.prompt));
+  const first = await stream.next();
+  res.writeHead(200, { ...corsHeaders(req), 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache' });
+  if (!first.done) res.write(first.value);
+  try {
+    for await (const chunk of stream) res.write(chunk);
+  } catch (error) {
+    console.error(`Stream for ${task} failed:`, error);
+  }
+  res.end();
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders(req));
+    res.end();
+    return;
+  }
+  if (req.method === 'GET' && path === '/health') {
+    sendJson(req, res, 200, { ok: true, provider: config.ai.provider });
+    return;
+  }
+
+  const task = /^\/api\/ai\/(\w+)$/.exec(path)?.[1] as AITask | undefined;
+  if (!task || !AI_TASKS.includes(task)) throw new HttpError(404, 'Not found');
+  if (req.method !== 'POST') throw new HttpError(405, 'Use POST', { Allow: 'POST' });
+  await handleTask(req, res, task);
+};
+
+const server = createServer((req, res) => {
+  const startedAt = Date.now();
+  handle(req, res)
+    .catch(error => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (error instanceof HttpError) {
+        sendJson(req, res, error.status, { error: error.message }, error.headers);
+        return;
+      }
+      console.error('AI request failed:', error);
+      // Upstream quota problems are rate limits to the app, so it backs off
+      sendJson(req, res, isQuotaError(error) ? 429 : 502, { error: describeAIError(error) });
+    })
+    .finally(() => {
+      console.log(`${req.method} ${req.url} ${res.statusCode} ${Date.now() - startedAt}ms`);
+    });
+});
+
+// Forget yesterday's counts once an hour
+setInterval(() => limiter.prune(), 60 * 60 * 1000).unref();
+
+server.listen(config.port, () => {
+  console.log(`🔐 AI proxy (${config.ai.provider}) listening on port ${config.port}`);
+  if (config.allowAnonymous) console.warn('Anonymous callers are allowed, limited per IP');
+});
@@ -0,0 +1,62 @@
+/**
+ * Rate Limits
+ * Per-caller request counts in fixed windows: one per minute and one per UTC
+ * day. Kept in memory, so each server instance counts on its own.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+interface Usage {
+  minute: number;       // Start of the current minute window
+  minuteCount: number;
+  day: number;          // Start of the current UTC day
+  dayCount: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; reason: string; retryAfterSec: number };
+
+export class RateLimiter {
+  private usage = new Map<string, Usage>();
+
+  constructor(private perMinute: number, private perDay: number) {}
+
+  /**
+   * Count a request for `key`, unless it's over a limit
+   */
+  take(key: string, now = Date.now()): RateLimitResult {
+    const minute = now - (now % MINUTE_MS);
+    const day = now - (now % DAY_MS);
+    const previous = this.usage.get(key);
+    const usage: Usage = {
+      minute,
+      minuteCount: previous && previous.minute === minute ? previous.minuteCount : 0,
+      day,
+      dayCount: previous && previous.day === day ? previous.dayCount : 0,
+    };
+
+    if (usage.dayCount >= this.perDay) {
+      return { allowed: false, reason: `Daily limit of ${this.perDay} AI requests reached`, retryAfterSec: Math.ceil((day + DAY_MS - now) / 1000) };
+    }
+    if (usage.minuteCount >= this.perMinute) {
+      return { allowed: false, reason: `Limit of ${this.perMinute} AI requests per minute reached`, retryAfterSec: Math.ceil((minute + MINUTE_MS - now) / 1000) };
+    }
+
+    usage.minuteCount++;
+    usage.dayCount++;
+    this.usage.set(key, usage);
+    return { allowed: true };
+  }
+
+  /**
+   * Forget callers with nothing left to count today
+   */
+  prune(now = Date.now()): void {
+    const day = now - (now % DAY_MS);
+    this.usage.forEach((usage, key) => {
+      if (usage.day !== day) this.usage.delete(key);
+    });
+  }
+}
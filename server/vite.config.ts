@@ -0,0 +1,13 @@
+import { defineConfig } from 'vite';
+
+// Bundles the AI proxy and the shared services/ai code it imports into one
+// Node module. Dependencies stay in node_modules.
+export default defineConfig({
+  build: {
+    ssr: 'server/index.ts',
+    outDir: 'dist-server',
+    target: 'node20',
+    emptyOutDir: true,
+    sourcemap: false,
+  },
+});
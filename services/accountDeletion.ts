@@ -0,0 +1,72 @@
+/**
+ * Account Deletion
+ * Removes everything the signed-in user has stored - every backend record,
+ * their photos, the device copies and bookkeeping - then signs them out.
+ * In cloud mode the login itself is removed too (needs the setup SQL's
+ * delete_user function).
+ */
+
+import { supabase, shouldUseCloud } from './supabase';
+import { getCurrentUser, signOut } from './auth';
+import { getBackend, clearQuarantinedRecords, vault, DeletedRecords } from './backend';
+import { forgetLocalAccount } from './localAccounts';
+import { forgetPhotoMigration } from './media';
+import { clearLastLogTimestamp } from './avatar';
+import { cache } from '../utils/cache';
+import { setDayStart } from '../utils/midnight';
+
+export interface AccountDeletionResult {
+  removed: DeletedRecords;
+  /** False when the cloud login couldn't be removed (data is gone either way) */
+  loginRemoved: boolean;
+}
+
+/**
+ * Remove the cloud login. Older setups may not have the delete_user function yet.
+ */
+const deleteCloudLogin = async (): Promise<boolean> => {
+  const { error } = await supabase.rpc('delete_user');
+  if (error) {
+    console.error("Couldn't delete the cloud login:", error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Device state that outlives the backend records
+ */
+const clearDeviceState = (userId: string): void => {
+  forgetPhotoMigration(userId);
+  clearQuarantinedRecords(userId);
+  // Encrypted data is migrated, and quarantined, inside the vault
+  if (vault.isUnlocked) clearQuarantinedRecords(userId, vault);
+  clearLastLogTimestamp();
+  setDayStart();
+};
+
+/**
+ * Delete the signed-in account and everything in it. There is no undo -
+ * offer an export first.
+ */
+export const deleteAccount = async (): Promise<AccountDeletionResult> => {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("Not signed in.");
+
+  const removed = await getBackend().deleteUserData(user.id);
+  const loginRemoved = shouldUseCloud ? await deleteCloudLogin() : true;
+  if (!shouldUseCloud) forgetLocalAccount(user.id);
+
+  clearDeviceState(user.id);
+  cache.clear();
+
+  try {
+    await signOut();
+  } catch (e) {
+    // The session's user no longer exists - drop the session on this device only
+    if (shouldUseCloud) await supabase.auth.signOut({ scope: 'local' });
+  }
+
+  console.log(`🗑️ Deleted account ${user.id}`);
+  return { removed, loginRemoved };
+};
@@ -0,0 +1,131 @@
+/**
+ * AI Configuration
+ * Which provider to use and which model runs each task, from VITE_* env vars:
+ *
+ *   VITE_AI_PROXY_URL      AI proxy server (see server/); when set, requests go
+ *                          there and the settings below apply to the server
+ *   VITE_AI_PROVIDER       gemini (default), openai or mock
+ *   VITE_GEMINI_API_KEY    key for gemini
+ *   VITE_AI_BASE_URL       OpenAI-compatible server (default: Ollama on localhost)
+ *   VITE_AI_API_KEY        bearer token for that server, if it needs one
+ *   VITE_AI_MODEL          model for every task
+ *   VITE_AI_MODEL_<TASK>   model for one task, e.g. VITE_AI_MODEL_COACH_CHAT
+ *
+ * Offline development:
+ *   VITE_AI_RECORD         true to keep every real response for the mock provider
+ *   VITE_AI_MOCK_FAILURE   rate_limit, timeout or malformed - optionally with a
+ *                          count (rate_limit:2 fails the next two calls only)
+ *   VITE_AI_MOCK_DELAY_MS  simulated latency of mock responses (default 400)
+ *
+ * The proxy server reads the same variables without the VITE_ prefix.
+ * With VITE_AI_PROXY_URL set the key variables are ignored, and left out of the bundle.
+ */
+
+import { ModelProviderKind, AITask, AI_TASKS } from './types';
+
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MOCK_DELAY_MS = 400;
+
+const DEFAULT_MODELS: Record<ModelProviderKind, Record<AITask, string>> = {
+  gemini: {
+    foodImage: 'gemini-3-flash-preview',
+    foodText: 'gemini-3-flash-preview',
+    recipe: 'gemini-3-flash-preview',
+    coachChat: 'gemini-3-flash-preview',
+    coachReport: 'gemini-3-flash-preview',
+    sharedMeal: 'gemini-3-flash-preview',
+  },
+  // Ollama model names; image tasks need a vision model
+  openai: {
+    foodImage: 'llama3.2-vision',
+    foodText: 'llama3.2',
+    recipe: 'llama3.2',
+    coachChat: 'llama3.2',
+    coachReport: 'llama3.2',
+    sharedMeal: 'llama3.2-vision',
+  },
+  mock: {
+    foodImage: 'mock',
+    foodText: 'mock',
+    recipe: 'mock',
+    coachChat: 'mock',
+    coachReport: 'mock',
+    sharedMeal: 'mock',
+  },
+};
+
+type EnvSource = Record<string, string | boolean | undefined>;
+
+export interface AIConfig {
+  provider: ModelProviderKind;
+  proxyUrl: string;
+  geminiApiKey: string;
+  baseUrl: string;
+  apiKey: string;
+  models: Record<AITask, string>;
+  record: boolean;
+  mockFailure: string;
+  mockDelayMs: number;
+}
+
+// coachChat -> COACH_CHAT
+const taskEnvName = (task: AITask): string => `AI_MODEL_${task.replace(/[A-Z]/g, c => `_${c}`).toUpperCase()}`;
+
+const parseProvider = (value: string): ModelProviderKind => {
+  if (!value || value === 'gemini') return 'gemini';
+  if (value === 'openai' || value === 'mock') return value;
+  console.warn(`Unknown AI provider "${value}" - using gemini`);
+  return 'gemini';
+};
+
+/**
+ * The app's VITE_* variables. Vite inlines every variable of an
+ * `import.meta.env` passed around whole, so each one is read by name. Behind
+ * the proxy the keys are never read, so a build can't ship them.
+ */
+const appEnv = (): EnvSource => ({
+  VITE_AI_PROXY_URL: import.meta.env.VITE_AI_PROXY_URL,
+  VITE_AI_PROVIDER: import.meta.env.VITE_AI_PROVIDER,
+  VITE_GEMINI_API_KEY: import.meta.env.VITE_AI_PROXY_URL ? '' : import.meta.env.VITE_GEMINI_API_KEY,
+  VITE_AI_BASE_URL: import.meta.env.VITE_AI_BASE_URL,
+  VITE_AI_API_KEY: import.meta.env.VITE_AI_PROXY_URL ? '' : import.meta.env.VITE_AI_API_KEY,
+  VITE_AI_MODEL: import.meta.env.VITE_AI_MODEL,
+  VITE_AI_MODEL_FOOD_IMAGE: import.meta.env.VITE_AI_MODEL_FOOD_IMAGE,
+  VITE_AI_MODEL_FOOD_TEXT: import.meta.env.VITE_AI_MODEL_FOOD_TEXT,
+  VITE_AI_MODEL_RECIPE: import.meta.env.VITE_AI_MODEL_RECIPE,
+  VITE_AI_MODEL_COACH_CHAT: import.meta.env.VITE_AI_MODEL_COACH_CHAT,
+  VITE_AI_MODEL_COACH_REPORT: import.meta.env.VITE_AI_MODEL_COACH_REPORT,
+  VITE_AI_MODEL_SHARED_MEAL: import.meta.env.VITE_AI_MODEL_SHARED_MEAL,
+  VITE_AI_RECORD: import.meta.env.VITE_AI_RECORD,
+  VITE_AI_MOCK_FAILURE: import.meta.env.VITE_AI_MOCK_FAILURE,
+  VITE_AI_MOCK_DELAY_MS: import.meta.env.VITE_AI_MOCK_DELAY_MS,
+});
+
+/**
+ * Read the config from the app's env, or - on the proxy server - from
+ * process.env with an empty prefix
+ */
+export const loadAIConfig = (source: EnvSource = appEnv(), prefix = 'VITE_'): AIConfig => {
+  const env = (name: string): string => {
+    const value = source[`${prefix}${name}`];
+    return typeof value === 'string' ? value.trim() : '';
+  };
+
+  const provider = parseProvider(env('AI_PROVIDER').toLowerCase());
+  const models = {} as Record<AITask, string>;
+  AI_TASKS.forEach(task => {
+    models[task] = env(taskEnvName(task)) || env('AI_MODEL') || DEFAULT_MODELS[provider][task];
+  });
+
+  return {
+    provider,
+    proxyUrl: env('AI_PROXY_URL').replace(/\/+$/, ''),
+    geminiApiKey: env('GEMINI_API_KEY'),
+    baseUrl: (env('AI_BASE_URL') || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, ''),
+    apiKey: env('AI_API_KEY'),
+    models,
+    record: env('AI_RECORD') === 'true',
+    mockFailure: env('AI_MOCK_FAILURE'),
+    mockDelayMs: Number(env('AI_MOCK_DELAY_MS')) || DEFAULT_MOCK_DELAY_MS,
+  };
+};
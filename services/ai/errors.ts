@@ -0,0 +1,88 @@
+/**
+ * AI Error Handling
+ * Retry on rate limits, and turn provider errors into messages for the user.
+ */
+
+import { AITask, AI_TASK_LABELS } from './types';
+
+/**
+ * The user's own daily cap for a task is used up. Not a rate limit - retrying
+ * won't help until tomorrow.
+ */
+export class AICapError extends Error {
+  constructor(public task: AITask, public cap: number) {
+    super(`You've reached today's limit for ${AI_TASK_LABELS[task]} (${cap}). You can raise it under Profile > AI Usage.`);
+    this.name = 'AICapError';
+  }
+}
+
+/**
+ * A failed request with its HTTP status, and how long the server asked us to
+ * wait (Retry-After) when it said
+ */
+export class AIRequestError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'AIRequestError';
+  }
+}
+
+export const isQuotaError = (error: any): boolean => {
+  if (error instanceof AICapError) return false;
+  if (error instanceof AIRequestError) return error.status === 429;
+  const message = error?.message || "";
+  return message.includes("429") || message.toLowerCase().includes("quota");
+};
+
+// "about 40 seconds", "about 3 minutes", "about 5 hours"
+const describeWait = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 90) return `about ${seconds} seconds`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 90) return `about ${minutes} minutes`;
+  return `about ${Math.round(minutes / 60)} hours`;
+};
+
+/**
+ * Normalizes common AI error messages to user-friendly ones.
+ */
+export const describeAIError = (error: any): string => {
+  if (error instanceof AICapError) return error.message;
+  const message = error?.message || String(error) || "";
+  const lowMsg = message.toLowerCase();
+
+  if (error instanceof AIRequestError && error.status === 429 && error.retryAfterMs !== undefined) {
+    return lowMsg.includes("daily")
+      ? `Daily AI Limit Reached: You've used today's AI requests. Try again in ${describeWait(error.retryAfterMs)}.`
+      : `AI Limit Reached: You've sent too many requests. Please wait ${describeWait(error.retryAfterMs)}.`;
+  }
+  if (message.includes("429") || lowMsg.includes("quota") || lowMsg.includes("limit") || lowMsg.includes("exhausted")) {
+    return "AI Limit Reached: You've sent too many requests. Please wait about 60 seconds for the quota to reset.";
+  }
+  if (lowMsg.includes("api key")) {
+    return "Configuration Error: Invalid API key. Please check your settings.";
+  }
+  if (lowMsg.includes("network") || lowMsg.includes("fetch")) {
+    return "Connection Error: Please check your internet connection and try again.";
+  }
+  return message || "An unexpected AI error occurred.";
+};
+
+/**
+ * Utility to retry a function if it fails with a quota error.
+ * A server that asks for a longer wait than the backoff isn't retried - the
+ * retry would only count against its limit again.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, retries = 2, delayMs = 2000): Promise<T> {
+  try {
+    return await fn();
+  } catch (error: any) {
+    const waitTooLong = error instanceof AIRequestError && (error.retryAfterMs ?? 0) > delayMs;
+    if (isQuotaError(error) && retries > 0 && !waitTooLong) {
+      console.warn(`AI quota hit. Retrying in ${delayMs}ms... (${retries} retries left)`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      return withRetry(fn, retries - 1, delayMs * 2);
+    }
+    throw error;
+  }
+}
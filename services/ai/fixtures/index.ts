@@ -0,0 +1,80 @@
+/**
+ * Mock AI Fixtures
+ * Responses for the mock provider. recorded.json holds responses keyed by
+ * fixture key (see recording.ts) - paste the snapcal_ai_recordings_v1
+ * localStorage value into it to share recordings. Requests without one get
+ * the default for their task.
+ */
+
+import { AITask } from '../types';
+import recorded from './recorded.json';
+
+export const RECORDED_FIXTURES: Record<string, string> = recorded;
+
+const ANALYSIS = {
+  item: 'Grilled Chicken Salad',
+  calories: 420,
+  protein: 38,
+  carbs: 18,
+  fat: 22,
+  confidence: 0.86,
+  ingredients: [
+    { name: 'Grilled chicken breast', grams: 120, calories: 198 },
+    { name: 'Mixed greens', grams: 80, calories: 16 },
+    { name: 'Cherry tomatoes', grams: 60, calories: 11 },
+    { name: 'Avocado', grams: 50, calories: 80 },
+    { name: 'Olive oil dressing', grams: 15, calories: 115 },
+  ],
+};
+
+const RECIPE = {
+  totalCalories: 1840,
+  caloriesPerServing: 460,
+  proteinPerServing: 32,
+  carbsPerServing: 48,
+  fatPerServing: 15,
+  ingredients: [
+    { name: 'Spaghetti (dry)', grams: 320, calories: 1136 },
+    { name: 'Lean ground beef', grams: 250, calories: 500 },
+    { name: 'Tomato passata', grams: 400, calories: 128 },
+    { name: 'Olive oil', grams: 9, calories: 76 },
+  ],
+};
+
+const COACH_REPLY = `✅ **Solid Day**
+You're on track with calories and close on protein.
+
+**Key Points:**
+• About 400 kcal left for today
+• Protein is 20g short of your goal
+• Two meals logged so far
+
+**Action Steps:**
+1. Make dinner protein-first (chicken, fish or tofu)
+2. Add a side of vegetables to stay full`;
+
+const REPORT = {
+  summary: 'You tracked consistently and stayed close to your calorie goal on most days. Protein dipped on the weekend, which is the easiest win for next week.',
+  tips: [
+    { emoji: '🥗', title: 'Plan weekend meals', description: 'Prep two protein-rich lunches on Friday so the weekend stays on track.' },
+    { emoji: '💪', title: 'Add one strength session', description: 'A short full-body workout mid-week supports your goal without extra planning.' },
+    { emoji: '💧', title: 'Drink before meals', description: 'A glass of water before dinner makes portions easier to judge.' },
+  ],
+};
+
+const SHARED_MEAL = {
+  dishes: [
+    { dish_name: 'Margherita Pizza', bounding_box: [120, 80, 560, 480], estimated_total_calories: 1080, confidence_score: 0.91 },
+    { dish_name: 'Caesar Salad', bounding_box: [180, 540, 520, 920], estimated_total_calories: 360, confidence_score: 0.84 },
+    { dish_name: 'Garlic Bread', bounding_box: [600, 300, 880, 700], estimated_total_calories: 420, confidence_score: 0.78 },
+  ],
+};
+
+export const DEFAULT_FIXTURES: Record<AITask, string> = {
+  foodImage: JSON.stringify(ANALYSIS),
+  foodText: JSON.stringify(ANALYSIS),
+  recipe: JSON.stringify(RECIPE),
+  coachChat: COACH_REPLY,
+  coachReport: JSON.stringify(REPORT),
+  sharedMeal: JSON.stringify(SHARED_MEAL),
+};
@@ -0,0 +1,81 @@
+/**
+ * Gemini Provider
+ * Google's models through @google/genai.
+ */
+
+import { GoogleGenAI, GenerateContentConfig, GenerateContentResponse, Part } from "@google/genai";
+import { AIProvider, AIRequest, AIResponse, AITask, AIImage, VisionRequest, JsonRequest } from './types';
+
+export class GeminiProvider implements AIProvider {
+  readonly kind = 'gemini' as const;
+  private client: GoogleGenAI | null = null;
+
+  constructor(private apiKey: string, private models: Record<AITask, string>) {}
+
+  private getClient(): GoogleGenAI {
+    if (!this.apiKey) {
+      console.error("VITE_GEMINI_API_KEY is not set in environment variables");
+    }
+    if (!this.client) this.client = new GoogleGenAI({ apiKey: this.apiKey });
+    return this.client;
+  }
+
+  private parts(prompt: string, image?: AIImage): Part[] {
+    return image
+      ? [{ inlineData: { mimeType: image.mimeType, data: image.data } }, { text: prompt }]
+      : [{ text: prompt }];
+  }
+
+  private config(request: AIRequest): GenerateContentConfig {
+    return {
+      systemInstruction: request.systemInstruction,
+      temperature: request.temperature,
+      topP: request.topP,
+    };
+  }
+
+  private toResponse(response: GenerateContentResponse, model: string): AIResponse {
+    const usage = response.usageMetadata;
+    return {
+      text: response.text || '',
+      model,
+      usage: usage ? { inputTokens: usage.promptTokenCount || 0, outputTokens: usage.candidatesTokenCount || 0 } : undefined,
+    };
+  }
+
+  private async generate(request: AIRequest, image?: AIImage, extra: GenerateContentConfig = {}): Promise<AIResponse> {
+    const model = this.models[request.task];
+    const response = await this.getClient().models.generateContent({
+      model,
+      contents: [{ parts: this.parts(request.prompt, image) }],
+      config: { ...this.config(request), ...extra },
+    });
+    return this.toResponse(response, model);
+  }
+
+  async generateText(request: AIRequest): Promise<AIResponse> {
+    return this.generate(request);
+  }
+
+  async generateVision(request: VisionRequest): Promise<AIResponse> {
+    return this.generate(request, request.image);
+  }
+
+  async generateJson(request: JsonRequest): Promise<AIResponse> {
+    return this.generate(request, request.image, {
+      responseMimeType: "application/json",
+      responseJsonSchema: request.schema,
+    });
+  }
+
+  async *streamText(request: AIRequest): AsyncGenerator<string> {
+    const stream = await this.getClient().models.generateContentStream({
+      model: this.models[request.task],
+      contents: [{ parts: this.parts(request.prompt) }],
+      config: this.config(request),
+    });
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+}
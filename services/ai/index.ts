@@ -0,0 +1,69 @@
+/**
+ * AI Provider Adapter
+ * Single point where the model backend is chosen. Services call
+ * getAIProvider() instead of creating SDK clients themselves.
+ */
+
+import { AIProvider } from './types';
+import { loadAIConfig } from './config';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAICompatibleProvider } from './openAiCompatibleProvider';
+import { MockProvider } from './mockProvider';
+import { ProxyProvider } from './proxyProvider';
+import { RecordingProvider } from './recording';
+import { UsageTrackingProvider } from './usage';
+import { getAccessToken } from '../auth';
+import { aiUsageLedger } from '../aiUsage';
+
+export * from './types';
+export { loadAIConfig } from './config';
+export type { AIConfig } from './config';
+export { GeminiProvider } from './geminiProvider';
+export { OpenAICompatibleProvider } from './openAiCompatibleProvider';
+export { MockProvider } from './mockProvider';
+export type { MockFailure } from './mockProvider';
+export { ProxyProvider } from './proxyProvider';
+export type { ProxyRequestBody } from './proxyProvider';
+export { RecordingProvider, fixtureKey, readRecordings, clearRecordings } from './recording';
+export { UsageTrackingProvider } from './usage';
+export type { AIUsageLedger, AIUsageEntry } from './usage';
+export { estimateCost } from './pricing';
+export { withRetry, describeAIError, isQuotaError, AICapError, AIRequestError } from './errors';
+export { AI_TASK_SPECS, textRequest, jsonRequest } from './tasks';
+export type { AITaskSpec } from './tasks';
+
+const createModelProvider = (): AIProvider => {
+  const config = loadAIConfig();
+  if (config.proxyUrl) {
+    // The server picks the provider and models
+    const proxy = new ProxyProvider(config.proxyUrl, getAccessToken);
+    return config.record ? new RecordingProvider(proxy) : proxy;
+  }
+
+  if (config.provider === 'mock') {
+    console.log("🧪 Using the mock AI provider");
+    return new MockProvider(config.mockDelayMs, config.mockFailure);
+  }
+
+  const provider = config.provider === 'openai'
+    ? new OpenAICompatibleProvider(config.baseUrl, config.apiKey, config.models)
+    : new GeminiProvider(config.geminiApiKey, config.models);
+  return config.record ? new RecordingProvider(provider) : provider;
+};
+
+// Every call goes through the usage ledger and the user's daily caps
+const createProvider = (): AIProvider => {
+  const config = loadAIConfig();
+  // Failed calls have no response to name the model; behind the proxy only the server knows it
+  return new UsageTrackingProvider(createModelProvider(), aiUsageLedger, config.proxyUrl ? {} : config.models);
+};
+
+let provider: AIProvider | null = null;
+
+/**
+ * Get the configured AI provider
+ */
+export const getAIProvider = (): AIProvider => {
+  if (!provider) provider = createProvider();
+  return provider;
+};
@@ -0,0 +1,118 @@
+/**
+ * Mock Provider
+ * Deterministic responses for offline development (VITE_AI_PROVIDER=mock):
+ * a recording on this device, else a recorded fixture, else the task's
+ * default. It can also fail on purpose - rate limits, timeouts and malformed
+ * output - to exercise the error paths.
+ */
+
+import { AIProvider, AIRequest, AIResponse, AIImage, VisionRequest, JsonRequest } from './types';
+import { fixtureKey, readRecordings } from './recording';
+import { RECORDED_FIXTURES, DEFAULT_FIXTURES } from './fixtures';
+
+// Overrides VITE_AI_MOCK_FAILURE when set (e.g. from the console, then reload)
+const MOCK_FAILURE_KEY = 'snapcal_ai_mock_failure';
+
+const TIMEOUT_MS = 15000;
+
+export type MockFailure = 'rate_limit' | 'timeout' | 'malformed';
+
+const FAILURES: MockFailure[] = ['rate_limit', 'timeout', 'malformed'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * JSON is cut mid-value, like a response that hit its token limit. Text is
+ * cut mid-word and ends in undecodable bytes, so it can't pass for a short answer.
+ */
+const malform = (text: string, json: boolean): string => {
+  const half = text.slice(0, Math.floor(text.length / 2));
+  return json ? half : `${half}\uFFFD\uFFFD\uFFFD`;
+};
+
+// Rough count, for the usage figures
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export class MockProvider implements AIProvider {
+  readonly kind = 'mock' as const;
+  private failure: MockFailure | null = null;
+  private failuresLeft = Infinity;
+
+  constructor(private delayMs: number, failure: string = '') {
+    // No localStorage when the proxy server runs the mock
+    const override = typeof localStorage === 'undefined' ? null : localStorage.getItem(MOCK_FAILURE_KEY);
+    this.simulateFailure(override ?? failure);
+  }
+
+  /**
+   * Fail the next `count` calls (all of them without a count), e.g. "rate_limit:2".
+   * A count that isn't a positive whole number is ignored with a warning.
+   * An empty spec turns failures off.
+   */
+  simulateFailure(spec: string): void {
+    const [name, count] = spec.trim().split(':');
+    if (name && !FAILURES.includes(name as MockFailure)) {
+      console.warn(`Unknown mock AI failure "${name}" - expected ${FAILURES.join(', ')}`);
+    }
+    this.failure = FAILURES.includes(name as MockFailure) ? name as MockFailure : null;
+
+    const limit = count === undefined ? Infinity : Number(count);
+    const valid = limit === Infinity || (Number.isInteger(limit) && limit > 0);
+    if (!valid) {
+      console.warn(`Invalid mock AI failure count "${count}" - expected a positive whole number, failing every call`);
+    }
+    this.failuresLeft = valid ? limit : Infinity;
+  }
+
+  private takeFailure(): MockFailure | null {
+    if (!this.failure || this.failuresLeft <= 0) return null;
+    this.failuresLeft--;
+    return this.failure;
+  }
+
+  private lookup(request: AIRequest, image?: AIImage): string {
+    const key = fixtureKey(request, image);
+    return readRecordings()[key] ?? RECORDED_FIXTURES[key] ?? DEFAULT_FIXTURES[request.task];
+  }
+
+  private async respond(request: AIRequest, image?: AIImage, json = false): Promise<AIResponse> {
+    const failure = this.takeFailure();
+    if (failure === 'rate_limit') {
+      await sleep(this.delayMs);
+      throw new Error("429 Too Many Requests: RESOURCE_EXHAUSTED (mock)");
+    }
+    if (failure === 'timeout') {
+      await sleep(TIMEOUT_MS);
+      throw new Error("Network request timed out (mock)");
+    }
+
+    await sleep(this.delayMs);
+    const text = this.lookup(request, image);
+    return {
+      text: failure === 'malformed' ? malform(text, json) : text,
+      model: 'mock',
+      usage: { inputTokens: estimateTokens(`${request.systemInstruction || ''}${request.prompt}`), outputTokens: estimateTokens(text) },
+    };
+  }
+
+  generateText(request: AIRequest): Promise<AIResponse> {
+    return this.respond(request);
+  }
+
+  generateVision(request: VisionRequest): Promise<AIResponse> {
+    return this.respond(request, request.image);
+  }
+
+  generateJson(request: JsonRequest): Promise<AIResponse> {
+    return this.respond(request, request.image, true);
+  }
+
+  async *streamText(request: AIRequest): AsyncGenerator<string> {
+    const { text } = await this.respond(request);
+    // Word by word, like a model typing
+    for (const word of text.match(/\S+\s*/g) || []) {
+      await sleep(20);
+      yield word;
+    }
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * OpenAI-Compatible Provider
+ * Any server speaking the OpenAI chat completions API - a local Ollama or
+ * llama.cpp server, or a hosted one. Uses fetch only, so no SDK is bundled.
+ */
+
+import { AIProvider, AIRequest, AIResponse, AITask, AIImage, VisionRequest, JsonRequest } from './types';
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: string | ContentPart[];
+}
+
+interface ChatCompletion {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly kind = 'openai' as const;
+
+  constructor(private baseUrl: string, private apiKey: string, private models: Record<AITask, string>) {}
+
+  private messages(request: AIRequest, image?: AIImage): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+    if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+    messages.push({
+      role: 'user',
+      content: image
+        ? [
+          { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+          { type: 'text', text: request.prompt },
+        ]
+        : request.prompt,
+    });
+    return messages;
+  }
+
+  private async post(request: AIRequest, body: Record<string, unknown>): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.models[request.task],
+        temperature: request.temperature,
+        top_p: request.topP,
+        ...body,
+      }),
+    });
+
+    if (!response.ok) {
+      // Status first, so 429s are recognized as rate limits
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+    }
+    return response;
+  }
+
+  private async complete(request: AIRequest, image?: AIImage, extra: Record<string, unknown> = {}): Promise<AIResponse> {
+    const response = await this.post(request, { messages: this.messages(request, image), ...extra });
+    const completion: ChatCompletion = await response.json();
+    return {
+      text: completion.choices?.[0]?.message?.content || '',
+      model: completion.model || this.models[request.task],
+      usage: completion.usage
+        ? { inputTokens: completion.usage.prompt_tokens || 0, outputTokens: completion.usage.completion_tokens || 0 }
+        : undefined,
+    };
+  }
+
+  async generateText(request: AIRequest): Promise<AIResponse> {
+    return this.complete(request);
+  }
+
+  async generateVision(request: VisionRequest): Promise<AIResponse> {
+    return this.complete(request, request.image);
+  }
+
+  async generateJson(request: JsonRequest): Promise<AIResponse> {
+    return this.complete(request, request.image, {
+      response_format: { type: 'json_schema', json_schema: { name: request.task, schema: request.schema } },
+    });
+  }
+
+  /**
+   * Reads the server-sent events of a streamed completion
+   */
+  async *streamText(request: AIRequest): AsyncGenerator<string> {
+    const response = await this.post(request, { messages: this.messages(request), stream: true });
+    if (!response.body) throw new Error("Streaming isn't supported by this server.");
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffered += value;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';  // Keep a partial line for the next read
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.slice('data:'.length).trim();
+        if (payload === '[DONE]') return;
+
+        const chunk: ChatCompletionChunk = JSON.parse(payload);
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  }
+}
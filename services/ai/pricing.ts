@@ -0,0 +1,39 @@
+/**
+ * Model Prices
+ * List prices in USD per million tokens, for the usage screen's cost
+ * estimate. Models that aren't listed (local ones) have no cost shown.
+ */
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  mock: { input: 0, output: 0 },
+};
+
+// Servers report dated names (gpt-4o-mini-2024-07-18) - the longest listed prefix wins
+const priceOf = (model: string): ModelPrice | null => {
+  const match = Object.keys(MODEL_PRICES)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICES[match] : null;
+};
+
+/**
+ * Estimated cost of a call in USD, or null when the model's price is unknown
+ */
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number): number | null => {
+  const price = priceOf(model);
+  if (!price) return null;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
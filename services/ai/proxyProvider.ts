@@ -0,0 +1,75 @@
+/**
+ * Proxy Provider
+ * Sends requests to the AI proxy server (server/), which holds the model
+ * keys so they never reach the browser. Only the task, prompt and image are
+ * sent - the server adds the task's system instruction and schema itself.
+ */
+
+import { AIProvider, AIRequest, AIResponse, AIImage, VisionRequest, JsonRequest } from './types';
+import { AIRequestError } from './errors';
+
+export interface ProxyRequestBody {
+  prompt: string;
+  image?: AIImage;
+  /** Answer with the text as plain chunks instead of JSON */
+  stream?: boolean;
+}
+
+export class ProxyProvider implements AIProvider {
+  readonly kind = 'proxy' as const;
+
+  constructor(private baseUrl: string, private getAccessToken: () => Promise<string | null>) {}
+
+  private async post(request: AIRequest, body: ProxyRequestBody): Promise<Response> {
+    const token = await this.getAccessToken();
+    const response = await fetch(`${this.baseUrl}/api/ai/${request.task}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      // Status first, so 429s are recognized as rate limits
+      const detail = await response.json().then(json => json?.error as string | undefined).catch(() => undefined);
+      const retryAfterSec = Number(response.headers.get('Retry-After'));
+      throw new AIRequestError(
+        `${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`,
+        response.status,
+        retryAfterSec > 0 ? retryAfterSec * 1000 : undefined
+      );
+    }
+    return response;
+  }
+
+  private async complete(request: AIRequest, image?: AIImage): Promise<AIResponse> {
+    const response = await this.post(request, { prompt: request.prompt, image });
+    return response.json();
+  }
+
+  generateText(request: AIRequest): Promise<AIResponse> {
+    return this.complete(request);
+  }
+
+  generateVision(request: VisionRequest): Promise<AIResponse> {
+    return this.complete(request, request.image);
+  }
+
+  generateJson(request: JsonRequest): Promise<AIResponse> {
+    return this.complete(request, request.image);
+  }
+
+  async *streamText(request: AIRequest): AsyncGenerator<string> {
+    const response = await this.post(request, { prompt: request.prompt, stream: true });
+    if (!response.body) throw new Error("Streaming isn't supported by this browser.");
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      if (value) yield value;
+    }
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * AI Recordings
+ * Real responses kept on this device (VITE_AI_RECORD=true) so the mock
+ * provider can replay them offline. Each is keyed by its task and a hash of
+ * the image - or of the prompts when there is no image - so the same photo
+ * or question gets the same answer.
+ */
+
+import { AIProvider, AIRequest, AIResponse, AIImage, VisionRequest, JsonRequest } from './types';
+
+const RECORDINGS_KEY = 'snapcal_ai_recordings_v1';
+
+// Recorded photos are large prompts - keep the newest only
+const MAX_RECORDINGS = 100;
+
+/**
+ * FNV-1a: small, synchronous and stable across browsers and Node
+ */
+const hash = (value: string): string => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Fixture key of a request, e.g. "foodImage:9c1d2e4f"
+ */
+export const fixtureKey = (request: AIRequest, image?: AIImage): string =>
+  `${request.task}:${hash(image ? image.data : `${request.systemInstruction || ''}\n${request.prompt}`)}`;
+
+export const readRecordings = (): Record<string, string> => {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    const recordings = JSON.parse(localStorage.getItem(RECORDINGS_KEY) || '{}');
+    return recordings && typeof recordings === 'object' ? recordings : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+const saveRecording = (key: string, text: string): void => {
+  const recordings = { ...readRecordings() };
+  delete recordings[key];  // Re-inserting moves it to the end (newest)
+  recordings[key] = text;
+
+  const kept = Object.entries(recordings).slice(-MAX_RECORDINGS);
+  try {
+    localStorage.setItem(RECORDINGS_KEY, JSON.stringify(Object.fromEntries(kept)));
+  } catch (e) {
+    console.warn('Failed to save AI recording:', e);
+  }
+};
+
+export const clearRecordings = (): void => {
+  localStorage.removeItem(RECORDINGS_KEY);
+};
+
+/**
+ * Passes requests to a real provider and records what comes back
+ */
+export class RecordingProvider implements AIProvider {
+  constructor(private inner: AIProvider) {}
+
+  get kind() {
+    return this.inner.kind;
+  }
+
+  private async record(key: string, call: Promise<AIResponse>): Promise<AIResponse> {
+    const response = await call;
+    saveRecording(key, response.text);
+    return response;
+  }
+
+  generateText(request: AIRequest): Promise<AIResponse> {
+    return this.record(fixtureKey(request), this.inner.generateText(request));
+  }
+
+  generateVision(request: VisionRequest): Promise<AIResponse> {
+    return this.record(fixtureKey(request, request.image), this.inner.generateVision(request));
+  }
+
+  generateJson(request: JsonRequest): Promise<AIResponse> {
+    return this.record(fixtureKey(request, request.image), this.inner.generateJson(request));
+  }
+
+  async *streamText(request: AIRequest): AsyncGenerator<string> {
+    let text = '';
+    for await (const chunk of this.inner.streamText(request)) {
+      text += chunk;
+      yield chunk;
+    }
+    saveRecording(fixtureKey(request), text);
+  }
+}
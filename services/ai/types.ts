@@ -0,0 +1,119 @@
+/**
+ * AI Provider Types
+ * The contract every model backend implements. Services describe what they
+ * need (a task, prompts, an optional image or response schema) and never
+ * touch a vendor SDK directly.
+ */
+
+/** Backends that run a model (or stand in for one) */
+export type ModelProviderKind = 'gemini' | 'openai' | 'mock';
+
+/** 'proxy' forwards requests to the AI proxy server, which holds the model keys */
+export type AIProviderKind = ModelProviderKind | 'proxy';
+
+/**
+ * What a request is for. Each task can run on its own model.
+ */
+export type AITask = 'foodImage' | 'foodText' | 'recipe' | 'coachChat' | 'coachReport' | 'sharedMeal';
+
+export const AI_TASKS: AITask[] = ['foodImage', 'foodText', 'recipe', 'coachChat', 'coachReport', 'sharedMeal'];
+
+// Plural, for "20 photo scans a day"
+export const AI_TASK_LABELS: Record<AITask, string> = {
+  foodImage: 'photo scans',
+  foodText: 'text estimates',
+  recipe: 'recipe calculations',
+  coachChat: 'coach messages',
+  coachReport: 'coach reports',
+  sharedMeal: 'shared meal scans',
+};
+
+/**
+ * The subset of JSON Schema used for structured output
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  [keyword: string]: unknown;
+}
+
+export interface AIImage {
+  mimeType: string;
+  data: string;       // base64, without the data: prefix
+}
+
+export interface AIRequest {
+  task: AITask;
+  systemInstruction?: string;
+  prompt: string;
+  temperature?: number;
+  topP?: number;
+}
+
+export interface VisionRequest extends AIRequest {
+  image: AIImage;
+}
+
+export interface JsonRequest extends AIRequest {
+  schema: JsonSchema;
+  image?: AIImage;
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIResponse {
+  text: string;
+  model: string;
+  /** Token counts, when the provider reports them */
+  usage?: AIUsage;
+}
+
+// --- Usage Ledger ---
+
+/**
+ * How a call ended. 'capped' calls were refused by the user's daily cap and
+ * never reached a model; 'cancelled' streams were stopped before they finished.
+ */
+export type AIUsageOutcome = 'success' | 'error' | 'rate_limited' | 'capped' | 'cancelled';
+
+/**
+ * One AI call, as kept in the usage ledger
+ */
+export interface AIUsageRecord {
+  id: string;
+  task: AITask;
+  provider: AIProviderKind;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  outcome: AIUsageOutcome;
+  error?: string;
+  date: string;       // YYYY-MM-DD, the user's day
+  createdAt: string;  // ISO
+}
+
+/**
+ * Calls allowed per task per day. Null lifts the default cap.
+ */
+export type AIUsageCaps = Partial<Record<AITask, number | null>>;
+
+/**
+ * A model backend (Gemini, any server speaking the OpenAI chat API, canned
+ * responses, or the AI proxy)
+ */
+export interface AIProvider {
+  readonly kind: AIProviderKind;
+
+  generateText(request: AIRequest): Promise<AIResponse>;
+  generateVision(request: VisionRequest): Promise<AIResponse>;
+  /** Response text is JSON matching `schema` (still to be validated by the caller) */
+  generateJson(request: JsonRequest): Promise<AIResponse>;
+  /** Text as it's generated, chunk by chunk */
+  streamText(request: AIRequest): AsyncGenerator<string>;
+}
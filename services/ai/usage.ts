@@ -0,0 +1,110 @@
+/**
+ * Usage Tracking
+ * Wraps a provider so every call is checked against the user's daily caps
+ * and written to the usage ledger - task, model, tokens, latency and outcome.
+ * The ledger itself (storage, caps) lives in services/aiUsage.ts.
+ */
+
+import { AIProvider, AIRequest, AIResponse, AITask, AIUsageRecord, VisionRequest, JsonRequest } from './types';
+import { AICapError, isQuotaError } from './errors';
+
+export type AIUsageEntry = Omit<AIUsageRecord, 'id' | 'date' | 'createdAt'>;
+
+export interface AIUsageLedger {
+  /** Throws AICapError when the task's daily cap is used up */
+  checkCap(task: AITask): Promise<void>;
+  record(entry: AIUsageEntry): Promise<void>;
+}
+
+export class UsageTrackingProvider implements AIProvider {
+  constructor(private inner: AIProvider, private ledger: AIUsageLedger, private models: Partial<Record<AITask, string>> = {}) {}
+
+  get kind() {
+    return this.inner.kind;
+  }
+
+  private async record(entry: AIUsageEntry): Promise<void> {
+    try {
+      await this.ledger.record(entry);
+    } catch (e) {
+      // The ledger must never cost the user their answer
+      console.warn('Failed to record AI usage:', e);
+    }
+  }
+
+  private async checkCap(task: AITask): Promise<void> {
+    try {
+      await this.ledger.checkCap(task);
+    } catch (error) {
+      if (error instanceof AICapError) {
+        await this.record(this.entry(task, 0, 'capped', { error: error.message }));
+      }
+      throw error;
+    }
+  }
+
+  private entry(task: AITask, latencyMs: number, outcome: AIUsageEntry['outcome'], extra: Partial<AIUsageEntry> = {}): AIUsageEntry {
+    return {
+      task,
+      provider: this.inner.kind,
+      model: this.models[task] || '',
+      inputTokens: 0,
+      outputTokens: 0,
+      latencyMs,
+      outcome,
+      ...extra,
+    };
+  }
+
+  private async track(request: AIRequest, call: () => Promise<AIResponse>): Promise<AIResponse> {
+    await this.checkCap(request.task);
+    const startedAt = Date.now();
+    try {
+      const response = await call();
+      await this.record(this.entry(request.task, Date.now() - startedAt, 'success', {
+        model: response.model,
+        inputTokens: response.usage?.inputTokens || 0,
+        outputTokens: response.usage?.outputTokens || 0,
+      }));
+      return response;
+    } catch (error: any) {
+      await this.record(this.entry(request.task, Date.now() - startedAt, isQuotaError(error) ? 'rate_limited' : 'error', {
+        error: (error?.message || String(error)).slice(0, 300),
+      }));
+      throw error;
+    }
+  }
+
+  generateText(request: AIRequest): Promise<AIResponse> {
+    return this.track(request, () => this.inner.generateText(request));
+  }
+
+  generateVision(request: VisionRequest): Promise<AIResponse> {
+    return this.track(request, () => this.inner.generateVision(request));
+  }
+
+  generateJson(request: JsonRequest): Promise<AIResponse> {
+    return this.track(request, () => this.inner.generateJson(request));
+  }
+
+  /**
+   * Streams don't report token counts - only the call, latency and outcome are recorded.
+   * A consumer that stops reading early still used the call, so it's recorded as cancelled.
+   */
+  async *streamText(request: AIRequest): AsyncGenerator<string> {
+    await this.checkCap(request.task);
+    const startedAt = Date.now();
+    let entry: AIUsageEntry | null = null;
+    try {
+      yield* this.inner.streamText(request);
+      entry = this.entry(request.task, Date.now() - startedAt, 'success');
+    } catch (error: any) {
+      entry = this.entry(request.task, Date.now() - startedAt, isQuotaError(error) ? 'rate_limited' : 'error', {
+        error: (error?.message || String(error)).slice(0, 300),
+      });
+      throw error;
+    } finally {
+      await this.record(entry || this.entry(request.task, Date.now() - startedAt, 'cancelled'));
+    }
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * AI Usage Ledger
+ * Every AI call is recorded for the signed-in user - task, model, tokens,
+ * latency and outcome - on the device in local mode and in Supabase in cloud
+ * mode. Daily caps per task are checked against the ledger before each call.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getCurrentUser } from './auth';
+import { getBackend } from './backend';
+import { AITask, AI_TASKS, AIUsageCaps, AIUsageRecord } from './ai/types';
+import { AIUsageLedger } from './ai/usage';
+import { AICapError } from './ai/errors';
+import { estimateCost } from './ai/pricing';
+import { cache, withCache, CACHE_KEYS } from '../utils/cache';
+import { getCurrentDateString, daysAgo } from '../utils/midnight';
+import { eachDay } from '../utils/localDate';
+
+export const AI_USAGE_CHANGED_EVENT = 'ai-usage-changed';
+
+/**
+ * Generous for normal use, low enough to stop a runaway loop
+ */
+export const DEFAULT_AI_USAGE_CAPS: Record<AITask, number> = {
+  foodImage: 50,
+  foodText: 100,
+  recipe: 30,
+  coachChat: 100,
+  coachReport: 10,
+  sharedMeal: 20,
+};
+
+export interface AIUsageDay {
+  date: string;
+  calls: number;          // Calls that reached a model
+  failed: number;
+  capped: number;         // Refused by a daily cap
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null;    // USD; null when no model used that day has a known price
+  tasks: Partial<Record<AITask, number>>;  // Calls per task
+}
+
+// Rate-limited and capped calls were turned away - they don't use up a cap
+const countsTowardCap = (record: AIUsageRecord): boolean =>
+  record.outcome === 'success' || record.outcome === 'error' || record.outcome === 'cancelled';
+
+export const getAIUsageCaps = async (): Promise<Record<AITask, number | null>> => {
+  return withCache(CACHE_KEYS.AI_USAGE_CAPS, async () => {
+    const user = await getCurrentUser();
+    if (!user) return DEFAULT_AI_USAGE_CAPS;
+
+    const saved = await getBackend().getAIUsageCaps(user.id);
+    return { ...DEFAULT_AI_USAGE_CAPS, ...saved };
+  }, 30 * 60 * 1000, { staleWhileRevalidate: true });
+};
+
+export const saveAIUsageCaps = async (caps: AIUsageCaps): Promise<void> => {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("Not logged in");
+
+  await getBackend().saveAIUsageCaps(user.id, caps);
+
+  cache.invalidate(CACHE_KEYS.AI_USAGE_CAPS);
+};
+
+/**
+ * Calls, tokens and estimated cost per day for the last `days` days, newest first
+ */
+export const getAIUsageByDay = async (days: number = 14): Promise<AIUsageDay[]> => {
+  const user = await getCurrentUser();
+  if (!user) return [];
+
+  const startDate = daysAgo(days - 1);
+  const endDate = getCurrentDateString();
+  const records = await getBackend().listAIUsage(user.id, { startDate, endDate });
+
+  const byDate = new Map<string, AIUsageDay>(eachDay(startDate, endDate).map(date => [date, {
+    date, calls: 0, failed: 0, capped: 0, inputTokens: 0, outputTokens: 0, cost: null, tasks: {},
+  }]));
+
+  records.forEach(record => {
+    const day = byDate.get(record.date);
+    if (!day) return;
+    if (record.outcome === 'capped') {
+      day.capped++;
+      return;
+    }
+    day.calls++;
+    if (record.outcome === 'error' || record.outcome === 'rate_limited') day.failed++;
+    day.inputTokens += record.inputTokens;
+    day.outputTokens += record.outputTokens;
+    day.tasks[record.task] = (day.tasks[record.task] || 0) + 1;
+
+    const cost = estimateCost(record.model, record.inputTokens, record.outputTokens);
+    if (cost !== null) day.cost = (day.cost || 0) + cost;
+  });
+
+  return Array.from(byDate.values()).reverse();
+};
+
+/**
+ * Calls per task today that count toward the caps
+ */
+export const getTodayAIUsage = async (): Promise<Record<AITask, number>> => {
+  const counts = Object.fromEntries(AI_TASKS.map(task => [task, 0])) as Record<AITask, number>;
+  const user = await getCurrentUser();
+  if (!user) return counts;
+
+  const records = await getBackend().listAIUsage(user.id, { date: getCurrentDateString() });
+  records.filter(countsTowardCap).forEach(record => counts[record.task]++);
+  return counts;
+};
+
+/**
+ * The ledger behind every AI call (see services/ai/usage.ts)
+ */
+export const aiUsageLedger: AIUsageLedger = {
+  async checkCap(task) {
+    const cap = (await getAIUsageCaps())[task];
+    if (cap === null || cap === undefined) return;
+
+    const used = (await getTodayAIUsage())[task];
+    if (used >= cap) throw new AICapError(task, cap);
+  },
+
+  async record(entry) {
+    // Signed out (e.g. the login page) - nobody to bill
+    const user = await getCurrentUser();
+    if (!user) return;
+
+    await getBackend().saveAIUsage(user.id, {
+      ...entry,
+      id: uuidv4(),
+      date: getCurrentDateString(),
+      createdAt: new Date().toISOString(),
+    });
+    window.dispatchEvent(new CustomEvent(AI_USAGE_CHANGED_EVENT));
+  },
+};
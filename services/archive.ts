@@ -0,0 +1,233 @@
+/**
+ * Account Archive Service
+ * Exports everything belonging to the signed-in user as one versioned JSON
+ * archive, and imports such an archive back in local or cloud mode.
+ */
+
+import { v5 as uuidv5 } from 'uuid';
+import { getCurrentUser } from './auth';
+import { getBackend } from './backend';
+import { cache } from '../utils/cache';
+import { getCurrentDateString } from '../utils/midnight';
+import { withRevision } from '../utils/entryHistory';
+import { readEntryPhotoData, migrateEntryPhotos } from './media';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, ArchiveHeaderSchema, ArchiveSchema, ArchiveInput, SnapCalArchive } from '../utils/archiveSchemas';
+import { FoodEntry } from '../types';
+
+// Namespace for re-keying records imported from another account
+const IMPORT_ID_NAMESPACE = '6f1c2b0e-4d1a-4c39-9a57-2f0d3c8e7b41';
+
+export interface ExportOptions {
+    /** Include meal photos (base64) - makes the file much larger */
+    includeImages?: boolean;
+}
+
+/**
+ * merge: records already in the account win
+ * replace: records from the archive overwrite ones with the same id (or date/period)
+ */
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportResult {
+    imported: number;
+    skipped: number;
+}
+
+// --- Export ---
+
+/**
+ * Collect the signed-in user's data into an archive
+ */
+export const exportAccount = async (options: ExportOptions = {}): Promise<SnapCalArchive> => {
+    const user = await getCurrentUser();
+    if (!user) throw new Error("User must be logged in to export.");
+
+    const backend = getBackend();
+    const includeImages = options.includeImages === true;
+
+    const [entries, summaries, workoutPlans, coachMessages, coachReports, streak, weightGoal, profile, dailyGoal, onboardingComplete] = await Promise.all([
+        backend.listEntries(user.id, { projection: 'full' }),
+        backend.listSummaries(user.id),
+        backend.listWorkoutPlans(user.id),
+        backend.listAllChatMessages(user.id),
+        backend.listReports(user.id),
+        backend.getStreak(user.id),
+        backend.getWeightGoal(user.id),
+        backend.getProfile(user.id),
+        backend.getDailyGoal(user.id),
+        backend.getOnboardingComplete(user.id),
+    ]);
+
+    // Photos go into the file inline - media keys only mean something to this account
+    const exportedEntries = await Promise.all(entries.map(async ({ imageKey, ...entry }) => ({
+        ...entry,
+        imageUrl: includeImages ? await readEntryPhotoData(user.id, { imageKey, imageUrl: entry.imageUrl }) : undefined,
+    })));
+
+    const archive: ArchiveInput = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        userId: user.id,
+        includesImages: includeImages,
+        data: {
+            entries: exportedEntries,
+            summaries,
+            workoutPlans: workoutPlans.filter((p): p is typeof p & { id: string } => !!p.id),
+            coachMessages,
+            coachReports,
+            streak,
+            weightGoal,
+            profile,
+            settings: { dailyGoal, onboardingComplete },
+        },
+    };
+
+    // Parsing normalizes nulls and drops internal fields (user ids, revisions),
+    // and guarantees the file can be imported again
+    return ArchiveSchema.parse(archive);
+};
+
+/**
+ * Save an archive through the browser's download prompt
+ */
+export const downloadArchive = (archive: SnapCalArchive): void => {
+    const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `snapcal-export-${getCurrentDateString()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// --- Import ---
+
+/**
+ * Validate an archive file. Throws a readable error naming the first bad field.
+ */
+export const parseArchive = (json: string): SnapCalArchive => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch (e) {
+        throw new Error("Import Failed: This file isn't valid JSON.");
+    }
+
+    const header = ArchiveHeaderSchema.safeParse(raw);
+    if (!header.success) {
+        throw new Error("Import Failed: This isn't a SnapCal export file.");
+    }
+    if (header.data.version > ARCHIVE_VERSION) {
+        throw new Error("Import Failed: This export was made by a newer version of SnapCal. Please update the app and try again.");
+    }
+
+    const result = ArchiveSchema.safeParse(raw);
+    if (!result.success) {
+        const issue = result.error.issues[0];
+        console.warn('[Zod Validation] Archive had invalid fields:', result.error.issues);
+        throw new Error(`Import Failed: Invalid value at ${issue.path.join('.') || 'archive'} (${issue.message}).`);
+    }
+    return result.data;
+};
+
+/**
+ * Write an archive into the signed-in account
+ *
+ * Archives from another account get fresh IDs (stable per account, so importing
+ * the same file twice doesn't duplicate anything) - the originals may still
+ * exist in the cloud under their first owner.
+ */
+export const importAccount = async (archive: SnapCalArchive, mode: ImportMode = 'merge'): Promise<ImportResult> => {
+    const user = await getCurrentUser();
+    if (!user) throw new Error("User must be logged in to import.");
+
+    const backend = getBackend();
+    const { data } = archive;
+    const replace = mode === 'replace';
+    const recordId = (id: string) =>
+        archive.userId === user.id ? id : uuidv5(`${user.id}:${archive.userId}:${id}`, IMPORT_ID_NAMESPACE);
+
+    const result: ImportResult = { imported: 0, skipped: 0 };
+    const keep = <T>(records: T[], exists: (record: T) => boolean): T[] => {
+        const kept = replace ? records : records.filter(r => !exists(r));
+        result.imported += kept.length;
+        result.skipped += records.length - kept.length;
+        return kept;
+    };
+
+    const [entryIds, summaryDates, planIds, messageIds, reportPeriods] = await Promise.all([
+        backend.listEntries(user.id, { projection: 'aggregate' }).then(rows => new Set(rows.map(r => r.id))),
+        backend.listSummaries(user.id).then(rows => new Set(rows.map(r => r.date))),
+        backend.listWorkoutPlans(user.id).then(rows => new Set(rows.map(r => r.id))),
+        backend.listAllChatMessages(user.id).then(rows => new Set(rows.map(r => r.id))),
+        backend.listReports(user.id).then(rows => new Set(rows.map(r => `${r.reportType}:${r.periodStart}:${r.periodEnd}`))),
+    ]);
+
+    // --- Entries ---
+    const entries: FoodEntry[] = keep(
+        data.entries.map(e => ({ ...e, id: recordId(e.id) })),
+        e => entryIds.has(e.id)
+    );
+    // Replacing an existing entry is recorded in its edit history
+    const importedAt = new Date().toISOString();
+    for (let i = 0; i < entries.length; i++) {
+        if (!entryIds.has(entries[i].id)) continue;
+        const previous = await backend.getEntry(user.id, entries[i].id);
+        entries[i] = withRevision(previous, {
+            ...entries[i],
+            // Replacing an entry from a photo-less export shouldn't drop its photo
+            ...(archive.includesImages ? {} : { imageUrl: previous?.imageUrl, imageKey: previous?.imageKey }),
+        }, 'import', importedAt);
+    }
+    if (entries.length > 0) await backend.saveEntries(user.id, entries);
+    if (archive.includesImages) {
+        // Archive photos arrive inline - move them to the media store in the background
+        migrateEntryPhotos(user.id, { force: true }).catch(err => console.error("Photo migration failed:", err));
+    }
+
+    for (const summary of keep(data.summaries, s => summaryDates.has(s.date))) {
+        await backend.saveSummary(user.id, summary);
+    }
+
+    for (const plan of keep(data.workoutPlans.map(p => ({ ...p, id: recordId(p.id) })), p => planIds.has(p.id))) {
+        await backend.saveWorkoutPlan(user.id, plan);
+    }
+
+    for (const message of keep(data.coachMessages.map(m => ({ ...m, id: recordId(m.id) })), m => messageIds.has(m.id))) {
+        await backend.saveChatMessage(user.id, message);
+    }
+
+    const reports = keep(
+        data.coachReports.map(r => ({ ...r, id: recordId(r.id), userId: user.id })),
+        r => reportPeriods.has(`${r.reportType}:${r.periodStart}:${r.periodEnd}`)
+    );
+    for (const report of reports) {
+        await backend.saveReport(user.id, report);
+    }
+
+    // --- One-per-user values: merge only fills in what's missing ---
+    if (data.profile && (replace || !(await backend.getProfile(user.id)))) {
+        await backend.saveProfile(user.id, data.profile);
+    }
+    if (data.settings.dailyGoal && (replace || (await backend.getDailyGoal(user.id)) === null)) {
+        await backend.saveDailyGoal(user.id, data.settings.dailyGoal);
+    }
+    if (data.settings.onboardingComplete) {
+        await backend.setOnboardingComplete(user.id);
+    }
+    if (data.streak && (replace || !(await backend.getStreak(user.id)))) {
+        await backend.saveStreak(user.id, data.streak);
+    }
+    if (data.weightGoal && (replace || !(await backend.getWeightGoal(user.id)))) {
+        await backend.saveWeightGoal(user.id, data.weightGoal);
+    }
+
+    // Everything on screen may have changed
+    cache.clear();
+    window.dispatchEvent(new CustomEvent('food-entry-updated'));
+    window.dispatchEvent(new CustomEvent('streak-updated'));
+
+    console.log(`📦 Imported ${result.imported} records (${result.skipped} already present)`);
+    return result;
+};
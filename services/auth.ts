@@ -1,17 +1,51 @@
 import { supabase, shouldUseCloud } from './supabase';
+import {
+  createLocalAccount,
+  verifyLocalAccount,
+  setLocalPassword,
+  createSignInLink,
+  createEmailChangeLink,
+  redeemLocalLink,
+  LocalLinkType,
+  LOCAL_LINK_PARAM,
+} from './localAccounts';
 
 // Mock Auth Config
 const MOCK_SESSION_KEY = 'snapcal_mock_session';
 const MOCK_EVENT_KEY = 'snapcal_auth_change';
 
-// Helper to simulate network delay for realism
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 export interface User {
   id: string;
   email?: string;
 }
 
+/**
+ * Why the auth state changed. PASSWORD_RECOVERY means the user arrived from a
+ * reset link and should choose a new password.
+ */
+export type AuthEvent = 'SIGNED_IN' | 'SIGNED_OUT' | 'PASSWORD_RECOVERY' | 'USER_UPDATED';
+
+/**
+ * Outcome of a flow that sends an email
+ */
+export interface AuthEmailResult {
+  /** Local Mode has no email - this is the link to open instead */
+  localLink?: string;
+}
+
+const emitMockEvent = (event: AuthEvent) => {
+  window.dispatchEvent(new CustomEvent(MOCK_EVENT_KEY, { detail: event }));
+};
+
+const startMockSession = (mockUser: User, event: AuthEvent = 'SIGNED_IN') => {
+  localStorage.setItem(MOCK_SESSION_KEY, JSON.stringify(mockUser));
+  emitMockEvent(event);
+  return { user: mockUser };
+};
+
+// Where emailed links send the user back to
+const redirectUrl = () => `${window.location.origin}${window.location.pathname}`;
+
 export const signIn = async (email: string, pass: string) => {
   if (shouldUseCloud) {
     const { data, error } = await supabase.auth.signInWithPassword({
@@ -22,14 +56,7 @@ export const signIn = async (email: string, pass: string) => {
     return { user: { id: data.user?.id || '', email: data.user?.email } };
   } else {
     // --- Mock Auth Implementation ---
-    await delay(600);
-    const mockUser: User = {
-      id: btoa(email.toLowerCase()), 
-      email
-    };
-    localStorage.setItem(MOCK_SESSION_KEY, JSON.stringify(mockUser));
-    window.dispatchEvent(new Event(MOCK_EVENT_KEY));
-    return { user: mockUser };
+    return startMockSession(await verifyLocalAccount(email, pass));
   }
 };
 
@@ -42,7 +69,7 @@ export const signUp = async (email: string, pass: string) => {
     if (error) throw new Error(error.message);
     return { user: { id: data.user?.id || '', email: data.user?.email } };
   } else {
-    return signIn(email, pass);
+    return startMockSession(await createLocalAccount(email, pass));
   }
 };
 
@@ -52,7 +79,93 @@ export const signOut = async () => {
     if (error) throw error;
   } else {
     localStorage.removeItem(MOCK_SESSION_KEY);
-    window.dispatchEvent(new Event(MOCK_EVENT_KEY));
+    emitMockEvent('SIGNED_OUT');
+  }
+};
+
+/**
+ * Email a link for setting a new password
+ */
+export const requestPasswordReset = async (email: string): Promise<AuthEmailResult> => {
+  if (shouldUseCloud) {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo: redirectUrl() });
+    if (error) throw new Error(error.message);
+    return {};
+  } else {
+    return { localLink: await createSignInLink('recovery', email) };
+  }
+};
+
+/**
+ * Set a new password for the signed-in user (completes a reset)
+ */
+export const updatePassword = async (password: string): Promise<void> => {
+  if (shouldUseCloud) {
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) throw new Error(error.message);
+  } else {
+    const user = await getCurrentUser();
+    if (!user) throw new Error("Your reset session has ended. Request a new link.");
+    await setLocalPassword(user.id, password);
+    emitMockEvent('USER_UPDATED');
+  }
+};
+
+/**
+ * Email a link that signs in without a password
+ */
+export const sendMagicLink = async (email: string): Promise<AuthEmailResult> => {
+  if (shouldUseCloud) {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectUrl(), shouldCreateUser: false },
+    });
+    if (error) throw new Error(error.message);
+    return {};
+  } else {
+    return { localLink: await createSignInLink('magiclink', email) };
+  }
+};
+
+/**
+ * Move the signed-in account to a new email. Takes effect once the emailed link is opened.
+ */
+export const changeEmail = async (newEmail: string): Promise<AuthEmailResult> => {
+  if (shouldUseCloud) {
+    const { error } = await supabase.auth.updateUser({ email: newEmail }, { emailRedirectTo: redirectUrl() });
+    if (error) throw new Error(error.message);
+    return {};
+  } else {
+    const user = await getCurrentUser();
+    if (!user) throw new Error("Not signed in.");
+    return { localLink: await createEmailChangeLink(user.id, newEmail) };
+  }
+};
+
+// --- Local Links ---
+
+const LINK_EVENTS: Record<LocalLinkType, AuthEvent> = {
+  recovery: 'PASSWORD_RECOVERY',
+  magiclink: 'SIGNED_IN',
+  email_change: 'USER_UPDATED',
+};
+
+/**
+ * Open a local link in the URL hash, as Supabase does with the tokens in its links
+ */
+const redeemLinkInUrl = async (onError: (message: string) => void) => {
+  const token = new URLSearchParams(window.location.hash.slice(1)).get(LOCAL_LINK_PARAM);
+  if (!token) return;
+  // Drop the token first, so a reload doesn't try it again
+  window.history.replaceState(null, '', redirectUrl());
+
+  try {
+    // Like Supabase's links, reset and sign-in links sign in the account they were sent for
+    const user = await getCurrentUser();
+    const { type, account } = await redeemLocalLink(token, user?.id);
+    startMockSession(account, LINK_EVENTS[type]);
+  } catch (err: any) {
+    onError(err.message);
   }
 };
 
@@ -69,30 +182,52 @@ export const getCurrentUser = async (): Promise<User | null> => {
   }
 };
 
+/**
+ * Token that proves who the user is to our own services (the AI proxy).
+ * Local Mode accounts only exist on this device, so there is none.
+ */
+export const getAccessToken = async (): Promise<string | null> => {
+  if (!shouldUseCloud) return null;
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? null;
+};
+
 // Abstracted listener for Auth State Changes
-export const onAuthStateChange = (callback: (user: User | null) => void) => {
+// `onLinkError` hears about local links that couldn't be used (expired, already used)
+export const onAuthStateChange = (
+  callback: (user: User | null, event: AuthEvent) => void,
+  onLinkError: (message: string) => void = console.error
+) => {
   if (shouldUseCloud) {
     const { data } = supabase.auth.onAuthStateChange((event, session) => {
+      const authEvent: AuthEvent = event === 'PASSWORD_RECOVERY' || event === 'USER_UPDATED'
+        ? event
+        : session?.user ? 'SIGNED_IN' : 'SIGNED_OUT';
       if (session?.user) {
-        callback({ id: session.user.id, email: session.user.email });
+        callback({ id: session.user.id, email: session.user.email }, authEvent);
       } else {
-        callback(null);
+        callback(null, authEvent);
       }
     });
     return () => data.subscription.unsubscribe();
   } else {
     // Listener for Mock events
-    const handler = () => {
+    const handler = (e: Event) => {
        const stored = localStorage.getItem(MOCK_SESSION_KEY);
-       callback(stored ? JSON.parse(stored) : null);
+       const event: AuthEvent = (e as CustomEvent).detail || (stored ? 'SIGNED_IN' : 'SIGNED_OUT');
+       callback(stored ? JSON.parse(stored) : null, event);
     };
+    const linkHandler = () => { redeemLinkInUrl(onLinkError); };
     
     window.addEventListener(MOCK_EVENT_KEY, handler);
     window.addEventListener('storage', handler);
+    window.addEventListener('hashchange', linkHandler);
+    linkHandler();
     
     return () => {
       window.removeEventListener(MOCK_EVENT_KEY, handler);
       window.removeEventListener('storage', handler);
+      window.removeEventListener('hashchange', linkHandler);
     };
   }
 };
\ No newline at end of file
@@ -48,6 +48,11 @@ export const updateLastLogTimestamp = (): void => {
     }
 };
 
+export const clearLastLogTimestamp = (): void => {
+    localStorage.removeItem(LS_LAST_LOG_KEY);
+    window.dispatchEvent(new CustomEvent('avatar-state-changed'));
+};
+
 /**
  * Calculate hours since last food log
  */
@@ -97,6 +102,7 @@ export const getAvatarStatus = async (): Promise<AvatarStatus> => {
     const mealsLogged = todayStats.count;
 
     // Get last log timestamp - prefer data from stats if available
+    // (today is the tracking day, so a snack after midnight but before the day start still counts)
     const lastLogTimestamp = todayStats.latestTimestamp || getLastLogTimestamp();
     const hoursSinceLastLog = calculateHoursSinceLastLog(lastLogTimestamp);
 
@@ -0,0 +1,271 @@
+/**
+ * Conflict Resolution
+ * Entries and workout plans carry a revision that goes up with every cloud
+ * write. A save names the revision it was based on; when the cloud copy has
+ * moved on because another device edited it, the two versions are merged:
+ *
+ * - Workout plans: exercise `completed` flags are ORed together
+ * - Entries: the macros of the most recently edited copy win
+ *
+ * When other fields were changed differently on both devices the cloud copy
+ * is left alone and the pair goes into the conflict log for the user to pick.
+ */
+
+import { supabase } from '../supabase';
+import { FoodEntry, DailyWorkout, WorkoutExercise } from '../../types';
+import { DeviceStorageBackend, ConflictItem, ConflictKind, ConflictChoice, SyncTable, isSyncableDevice } from './types';
+import { mapRowToEntry, mapEntryToRow, mapRowToPlan, mapPlanToRow } from './supabaseMappers';
+import { mergeHistories } from '../../utils/entryHistory';
+
+export const CONFLICTS_CHANGED_EVENT = 'conflicts-changed';
+
+const DEVICE_ID_KEY = 'snapcal_device_id';
+
+// Another device writing between our read and write is rare - give up after a few rounds
+const MAX_WRITE_ATTEMPTS = 3;
+
+type StoredWorkoutPlan = DailyWorkout & { id: string };
+
+type MergeResult<T> = { merged: T } | { fields: string[] };
+
+interface RevisionedTable<T extends { id: string; revision?: number }> {
+  name: string;                     // Supabase table
+  kind: ConflictKind;
+  store: SyncTable;                 // Device store holding the replica
+  columns: string;
+  toRow: (userId: string, record: T) => Record<string, unknown>;
+  fromRow: (row: any) => T;
+  merge: (local: T, remote: T) => MergeResult<T>;
+}
+
+/**
+ * Stable per-browser ID stored as `edited_by`, so a device never conflicts
+ * with its own earlier writes
+ */
+export const getDeviceId = (): string => {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+};
+
+const differs = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) !== JSON.stringify(b ?? null);
+
+const newerOf = <T extends { editedAt?: string }>(local: T, remote: T): T =>
+  (local.editedAt || '') >= (remote.editedAt || '') ? local : remote;
+
+// Fields that only one side may change - the macros are settled by edit time
+const ENTRY_CONTENT_FIELDS: (keyof FoodEntry)[] = ['food_item', 'date', 'time'];
+
+/**
+ * Same meal on both devices: the most recent edit's macros win
+ */
+export const mergeEntry = (local: FoodEntry, remote: FoodEntry): MergeResult<FoodEntry> => {
+  const fields = ENTRY_CONTENT_FIELDS.filter(f => differs(local[f], remote[f]));
+  if (fields.length > 0) return { fields };
+  return { merged: { ...newerOf(local, remote), history: mergeHistories(local.history, remote.history) } };
+};
+
+const PLAN_FIELDS: (keyof DailyWorkout)[] = ['title', 'date', 'workoutTypeId'];
+
+const exerciseShape = ({ id, name, sets, reps, rest }: WorkoutExercise) => ({ id, name, sets, reps, rest });
+
+/**
+ * An exercise ticked off on either device stays ticked off
+ */
+const orCompleted = (exercises: WorkoutExercise[], other: WorkoutExercise[]): WorkoutExercise[] =>
+  exercises.map(e => ({ ...e, completed: e.completed || other.some(o => o.id === e.id && o.completed) }));
+
+/**
+ * Same plan on both devices: completion merges, anything else must match
+ */
+export const mergeWorkoutPlan = (local: StoredWorkoutPlan, remote: StoredWorkoutPlan): MergeResult<StoredWorkoutPlan> => {
+  const fields: string[] = PLAN_FIELDS.filter(f => differs(local[f], remote[f]));
+  if (differs(local.exercises.map(exerciseShape), remote.exercises.map(exerciseShape))) fields.push('exercises');
+  if (fields.length > 0) return { fields };
+
+  const newer = newerOf(local, remote);
+  const older = newer === local ? remote : local;
+  return { merged: { ...newer, exercises: orCompleted(newer.exercises, older.exercises) } };
+};
+
+const ENTRIES: RevisionedTable<FoodEntry> = {
+  name: 'food_entries',
+  kind: 'entry',
+  store: 'entries',
+  columns: 'id, user_id, timestamp, date, time, time_zone, food_item, calories, protein, carbs, fat, confidence, image_url, image_key, is_manual, ingredients, original_ai_response, edit_history, revision, edited_at, edited_by, deleted',
+  toRow: mapEntryToRow,
+  fromRow: mapRowToEntry,
+  merge: mergeEntry,
+};
+
+const WORKOUT_PLANS: RevisionedTable<StoredWorkoutPlan> = {
+  name: 'workout_plans',
+  kind: 'workoutPlan',
+  store: 'workout_plans',
+  columns: 'id, user_id, date, title, workout_type_id, exercises, revision, edited_at, edited_by, deleted',
+  toRow: mapPlanToRow,
+  fromRow: row => ({ ...mapRowToPlan(row), id: row.id }),
+  merge: mergeWorkoutPlan,
+};
+
+export class ConflictResolver {
+  constructor(private readonly device: DeviceStorageBackend) { }
+
+  /**
+   * Write an entry to Supabase, merging with edits from other devices.
+   * Resolves with the version now stored in the cloud. Supabase errors are thrown as-is.
+   */
+  saveEntry(userId: string, entry: FoodEntry): Promise<FoodEntry> {
+    return this.save(userId, ENTRIES, entry);
+  }
+
+  saveWorkoutPlan(userId: string, plan: StoredWorkoutPlan): Promise<StoredWorkoutPlan> {
+    return this.save(userId, WORKOUT_PLANS, plan);
+  }
+
+  async list(userId?: string): Promise<ConflictItem[]> {
+    const items = await this.device.listConflicts();
+    return userId ? items.filter(i => i.userId === userId) : items;
+  }
+
+  /**
+   * Keep one side of a conflict. Completed exercises from the other side carry over.
+   */
+  async resolve(id: string, choice: ConflictChoice): Promise<void> {
+    const item = (await this.device.listConflicts()).find(c => c.id === id);
+    if (!item) return;
+
+    await this.device.deleteConflict(id);
+    const editedAt = new Date().toISOString();
+
+    if (item.kind === 'entry') {
+      const kept = choice === 'local' ? item.local : item.remote;
+      await this.save(item.userId, ENTRIES, { ...kept, revision: item.remote.revision, editedAt });
+    } else {
+      const [kept, other] = choice === 'local' ? [item.local, item.remote] : [item.remote, item.local];
+      const exercises = orCompleted(kept.exercises, other.exercises);
+      await this.save(item.userId, WORKOUT_PLANS, { ...kept, exercises, revision: item.remote.revision, editedAt });
+    }
+
+    await this.notify();
+  }
+
+  private async save<T extends { id: string; revision?: number }>(userId: string, table: RevisionedTable<T>, record: T): Promise<T> {
+    let candidate = record;
+    let base = record.revision;
+
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const written = await this.write(userId, table, candidate, base);
+      if (written) {
+        await this.replicate(userId, table, written);
+        return written;
+      }
+
+      const row = await this.fetchRemote(userId, table, record.id);
+      if (!row) {
+        // Gone from the cloud (compacted) - write it back fresh
+        base = undefined;
+        continue;
+      }
+
+      const remote = table.fromRow(row);
+      base = remote.revision ?? 0;
+
+      // Our own earlier write, or a deleted row being revived - nothing to merge with
+      if (row.deleted || row.edited_by === getDeviceId()) {
+        candidate = record;
+        continue;
+      }
+
+      const result = table.merge(record, remote);
+      if ('merged' in result) {
+        candidate = result.merged;
+        continue;
+      }
+
+      console.warn(`Edit conflict on ${table.kind} ${record.id}: ${result.fields.join(', ')}`);
+      // The table definition ties T to its kind's record type
+      const conflict = {
+        id: `${table.kind}:${record.id}`,
+        userId,
+        recordId: record.id,
+        kind: table.kind,
+        local: record,
+        remote,
+        fields: result.fields,
+        detectedAt: new Date().toISOString(),
+      } as unknown as ConflictItem;
+      await this.device.putConflict(conflict);
+      await this.replicate(userId, table, remote);
+      await this.notify();
+      return remote;
+    }
+
+    throw new Error('This record kept changing on another device. Please try again.');
+  }
+
+  /**
+   * Insert (no base revision) or update only if the cloud is still at the base revision.
+   * Resolves with the written record, or null when the cloud copy has moved on.
+   */
+  private async write<T extends { id: string; revision?: number }>(userId: string, table: RevisionedTable<T>, record: T, base: number | undefined): Promise<T | null> {
+    const revision = (base ?? 0) + 1;
+    const row = { ...table.toRow(userId, record), revision, edited_by: getDeviceId() };
+
+    if (base === undefined) {
+      const { error } = await supabase.from(table.name).insert(row);
+      if (!error) return { ...record, revision };
+      // Duplicate key - another device (or an earlier attempt) created it first
+      if (error.code === '23505') return null;
+      throw error;
+    }
+
+    const { data, error } = await supabase
+      .from(table.name)
+      .update(row)
+      .eq('id', record.id)
+      .eq('user_id', userId)
+      .eq('revision', base)
+      .select('id');
+
+    if (error) throw error;
+    return data && data.length > 0 ? { ...record, revision } : null;
+  }
+
+  private async fetchRemote(userId: string, table: RevisionedTable<any>, id: string): Promise<any | null> {
+    const { data, error } = await supabase
+      .from(table.name)
+      .select(table.columns)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Keep the device replica at the version the cloud now holds
+   */
+  private async replicate(userId: string, table: RevisionedTable<any>, record: any): Promise<void> {
+    try {
+      if (isSyncableDevice(this.device)) {
+        await this.device.storeSyncedRecords(table.store, [{ ...record, user_id: userId }]);
+      } else if (table.kind === 'workoutPlan') {
+        // The localStorage fallback only mirrors workout plans
+        await this.device.saveWorkoutPlan(userId, record);
+      }
+    } catch (e) {
+      console.warn('Failed to update device replica:', e);
+    }
+  }
+
+  private async notify(): Promise<void> {
+    if (typeof window === 'undefined') return;
+    const detail = (await this.device.listConflicts()).length;
+    window.dispatchEvent(new CustomEvent<number>(CONFLICTS_CHANGED_EVENT, { detail }));
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Date range helpers shared by the device backends
+ */
+
+import { DateRangeQuery } from './types';
+
+/**
+ * Check a YYYY-MM-DD date against a range query
+ */
+export const matchesDateRange = (date: string, query: DateRangeQuery = {}): boolean => {
+  if (query.date && date !== query.date) return false;
+  if (query.startDate && date < query.startDate) return false;
+  if (query.endDate && date > query.endDate) return false;
+  if (query.beforeDate && date >= query.beforeDate) return false;
+  return true;
+};
+
+/**
+ * Build an IndexedDB key range over a [user_id, date] compound index.
+ * The range is a superset when both endDate and beforeDate are set -
+ * callers still filter with matchesDateRange.
+ */
+export const userDateKeyRange = (userId: string, query: DateRangeQuery = {}): IDBKeyRange => {
+  if (query.date) return IDBKeyRange.only([userId, query.date]);
+
+  const lower = query.startDate || '';
+  if (query.beforeDate) {
+    return IDBKeyRange.bound([userId, lower], [userId, query.beforeDate], false, true);
+  }
+  // '\uffff' sorts after any date string
+  return IDBKeyRange.bound([userId, lower], [userId, query.endDate || '\uffff']);
+};
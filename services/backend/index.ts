@@ -0,0 +1,118 @@
+/**
+ * Storage Backend Adapter
+ * Single point where the active persistence backend is chosen.
+ * Services call getBackend() instead of branching on shouldUseCloud.
+ */
+
+import { shouldUseCloud } from '../supabase';
+import { cache } from '../../utils/cache';
+import { isIndexedDbAvailable } from '../../utils/indexedDb';
+import { StorageBackend, DeviceStorageBackend, MediaStore, isSyncableDevice, isMediaStore } from './types';
+import { LocalStorageBackend } from './localStorageBackend';
+import { IndexedDbBackend } from './indexedDbBackend';
+import { SupabaseBackend } from './supabaseBackend';
+import { SupabaseMediaStore } from './supabaseMedia';
+import { Outbox } from './outbox';
+import { ConflictResolver } from './conflicts';
+import { SyncEngine } from './syncEngine';
+import { runLocalStorageMigrations } from './localStorageMigrations';
+import { vault, isVaultEnabled } from './vault';
+
+export * from './types';
+export { LocalStorageBackend } from './localStorageBackend';
+export { IndexedDbBackend } from './indexedDbBackend';
+export { SupabaseBackend, handleStorageError } from './supabaseBackend';
+export { SupabaseMediaStore, MEDIA_BUCKET } from './supabaseMedia';
+export { Outbox, OUTBOX_CHANGED_EVENT, describeMutation } from './outbox';
+export type { OutboxSummary } from './outbox';
+export { SyncEngine } from './syncEngine';
+export { ConflictResolver, CONFLICTS_CHANGED_EVENT, mergeEntry, mergeWorkoutPlan, getDeviceId } from './conflicts';
+export { LOCAL_SCHEMA_VERSION, getLocalSchemaVersion, runLocalStorageMigrations, listQuarantinedRecords, clearQuarantinedRecords } from './localStorageMigrations';
+export type { QuarantinedRecord } from './localStorageMigrations';
+export { Vault, vault, isVaultEnabled } from './vault';
+
+// Record shapes must be current before either device backend reads localStorage
+runLocalStorageMigrations();
+
+// Encrypted local data lives in the vault; nothing can be read until it's unlocked
+const encrypted = !shouldUseCloud && isVaultEnabled();
+cache.setPersistent(!encrypted);
+
+/**
+ * Device storage is always available - cloud mode mirrors some records into it.
+ * IndexedDB is preferred; localStorage is the fallback for browsers without it.
+ * With encryption on, local mode keeps the localStorage layout in the vault.
+ */
+export let localBackend: DeviceStorageBackend = encrypted
+  ? new LocalStorageBackend(vault)
+  : isIndexedDbAvailable()
+    ? new IndexedDbBackend()
+    : new LocalStorageBackend();
+
+let activeBackend: StorageBackend = shouldUseCloud
+  ? new SupabaseBackend(localBackend)
+  : localBackend;
+
+/**
+ * Get the backend for the current app mode
+ */
+export const getBackend = (): StorageBackend => activeBackend;
+
+/**
+ * Swap the active backend (e.g. an in-memory backend for tests)
+ * Clears cached reads so nothing from the previous backend leaks through
+ */
+export const setBackend = (backend: StorageBackend): void => {
+  activeBackend = backend;
+  cache.clear();
+};
+
+/**
+ * Replace the device backend (encryption turned on or off in local mode)
+ */
+export const setDeviceBackend = (backend: DeviceStorageBackend): void => {
+  localBackend = backend;
+  if (activeBackend.kind === 'local') setBackend(backend);
+};
+
+/**
+ * Offline outbox of the active backend
+ * Null in local mode - device writes don't depend on connectivity
+ */
+export const getOutbox = (): Outbox | null =>
+  activeBackend instanceof SupabaseBackend ? activeBackend.outbox : null;
+
+/**
+ * Conflict log of the active backend
+ * Null in local mode - there is only one copy of each record
+ */
+export const getConflictResolver = (): ConflictResolver | null =>
+  activeBackend instanceof SupabaseBackend ? activeBackend.conflicts : null;
+
+// Replication needs record-level change tracking, which only IndexedDB provides
+const syncEngine = isSyncableDevice(localBackend) ? new SyncEngine(localBackend) : null;
+
+/**
+ * Sync engine for the active backend
+ * Null in local mode, and on browsers falling back to localStorage
+ */
+export const getSyncEngine = (): SyncEngine | null =>
+  activeBackend.kind === 'cloud' ? syncEngine : null;
+
+const cloudMedia = shouldUseCloud ? new SupabaseMediaStore() : null;
+
+/**
+ * Media store for meal photos of the active backend: Supabase Storage in
+ * cloud mode, IndexedDB on the device. Null on browsers falling back to
+ * localStorage - photos stay inline on the entry there.
+ */
+export const getMediaStore = (): MediaStore | null => {
+  if (activeBackend.kind === 'cloud') return cloudMedia;
+  return isMediaStore(localBackend) ? localBackend : null;
+};
+
+/**
+ * Photos kept on this device, even in cloud mode (Device Only mode uploads)
+ */
+export const getDeviceMediaStore = (): MediaStore | null =>
+  isMediaStore(localBackend) ? localBackend : null;
@@ -0,0 +1,934 @@
+/**
+ * IndexedDB Backend
+ * Device storage with per-record writes and indexed queries.
+ * Meal photos live in their own object stores so list reads never touch them:
+ * uploaded photos as blobs in the media store, older inline ones in images.
+ * Every write is stamped for the sync engine; deletions, cleanup included,
+ * leave tombstones.
+ * Entries, workout plans and chat messages the user deletes stay in their
+ * store as restorable trash until purged.
+ */
+
+import { FoodEntry, UserProfile, DailyWorkout, StreakData, WeightGoal, CoachReport, RetentionPolicy } from '../../types';
+import type { ChatMessage } from '../coach';
+import type { AIUsageRecord, AIUsageCaps } from '../ai/types';
+import { openDatabase, deleteDatabase, promisifyRequest, transactionDone, iterateCursor } from '../../utils/indexedDb';
+import {
+  DeviceStorageBackend,
+  DeviceSnapshot,
+  DeletedRecords,
+  noDeletedRecords,
+  DBCheckResult,
+  EntryQuery,
+  DateRangeQuery,
+  DailyTotals,
+  ReportType,
+  StoredChatMessage,
+  OutboxItem,
+  ConflictItem,
+  SyncableDevice,
+  SyncFields,
+  SyncState,
+  SyncTable,
+  TrashItem,
+  TrashKind,
+  parseTrashItemId,
+  trashItemId,
+  MediaStore,
+  MediaVariant,
+  StoredMedia,
+} from './types';
+import { matchesDateRange, userDateKeyRange } from './dateRange';
+import { DB_NAME, DB_VERSION, STORES, INDEXES, SYNCED_STORES, upgradeSchema, UserRecord, UserRecordKind, ImageRecord, MediaRecord } from './indexedDbSchema';
+import { migrateLegacyLocalStorage } from './legacyMigration';
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+const isQuotaError = (error: any): boolean =>
+  error?.name === 'QuotaExceededError' || String(error).toLowerCase().includes('quota');
+
+const SYNC_STATE_PREFIX = 'sync_state:';
+
+const REVISIONED_STORES: SyncTable[] = [STORES.ENTRIES, STORES.WORKOUT_PLANS];
+
+const TRASH_STORES: Record<TrashKind, StoreName> = {
+  entry: STORES.ENTRIES,
+  workoutPlan: STORES.WORKOUT_PLANS,
+  chatMessage: STORES.COACH_MESSAGES,
+};
+
+const stripEntryForList = (entry: FoodEntry): FoodEntry => ({ ...entry, imageUrl: undefined, originalAiResponse: undefined, history: undefined });
+
+// Keep internal sync flags out of app-facing entries
+const toFoodEntry = ({ dirty, deleted, ...entry }: any): FoodEntry => entry;
+
+/**
+ * Stamp a record as changed on this device
+ */
+const tracked = <T extends object>(record: T): T & SyncFields => ({
+  ...record,
+  updated_at: new Date().toISOString(),
+  dirty: 1,
+});
+
+/**
+ * Deletion marker for the sync engine. It has no date, so it drops out of
+ * the [user_id, date] indexes and reads never see it.
+ */
+const tombstone = (id: string, userId: string) => tracked({ id, user_id: userId, deleted: true });
+
+/**
+ * A tombstone that keeps the deleted record under `trashed` so it can be
+ * restored. Entry photos stay in the images store until the purge.
+ */
+const trashed = ({ dirty, deleted, deleted_at, updated_at, ...record }: any, deletedAt = new Date().toISOString()) =>
+  tracked({ id: record.id, user_id: record.user_id, deleted: true, deleted_at: deletedAt, trashed: record });
+
+const isTrashed = (row: any): boolean => row?.deleted === true && !!row.trashed;
+
+const keyOf = (store: IDBObjectStore, record: any): IDBValidKey =>
+  Array.isArray(store.keyPath) ? store.keyPath.map(k => record[k]) : record[store.keyPath as string];
+
+/**
+ * Move a record to another owner, fixing up keys derived from the user ID
+ */
+const reassignOwner = (store: SyncTable, record: any, userId: string): any => {
+  const moved = { ...record, user_id: userId };
+  if (store === STORES.SUMMARIES) moved.id = `${userId}_${record.date}`;
+  if (store === STORES.REPORTS) moved.userId = userId;
+  return moved;
+};
+
+const toDailyTotals = (row: any): DailyTotals => ({
+  date: row.date,
+  totalCalories: row.totalCalories || 0,
+  totalProtein: row.totalProtein || 0,
+  totalCarbs: row.totalCarbs || 0,
+  totalFat: row.totalFat || 0
+});
+
+const toDailyWorkout = (row: any): DailyWorkout => ({
+  id: row.id,
+  date: row.date,
+  title: row.title,
+  workoutTypeId: row.workoutTypeId,
+  exercises: row.exercises || [],
+  revision: row.revision,
+  editedAt: row.editedAt
+});
+
+const toTrashItem = (kind: TrashKind, row: any): TrashItem => {
+  const base = { id: trashItemId(kind, row.id), userId: row.user_id, recordId: row.id, deletedAt: row.deleted_at };
+  const { id, role, content, timestamp, date } = row.trashed;
+  switch (kind) {
+    case 'entry': return { ...base, kind, record: toFoodEntry(row.trashed) };
+    case 'workoutPlan': return { ...base, kind, record: { ...toDailyWorkout(row.trashed), id } };
+    case 'chatMessage': return { ...base, kind, record: { id, role, content, timestamp, date } };
+  }
+};
+
+export class IndexedDbBackend implements DeviceStorageBackend, SyncableDevice, MediaStore {
+  readonly kind = 'local' as const;
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // Object URLs handed out for media blobs, revoked when the media is deleted
+  private mediaUrls = new Map<string, string>();
+
+  /**
+   * Open the database lazily; the legacy migration runs before first use
+   */
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, upgradeSchema).then(async db => {
+        await migrateLegacyLocalStorage(db);
+        return db;
+      });
+      // Allow a retry on the next call if opening failed
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Run a write transaction and translate quota failures into a readable error
+   */
+  private async write(stores: StoreName[], fn: (tx: IDBTransaction) => void | Promise<void>): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction(stores, 'readwrite');
+    const done = transactionDone(tx);
+    try {
+      try {
+        await fn(tx);
+      } catch (error) {
+        done.catch(() => undefined);
+        try { tx.abort(); } catch (e) { /* already finished */ }
+        throw error;
+      }
+      await done;
+    } catch (error: any) {
+      if (isQuotaError(error)) {
+        throw new Error("Browser Storage Full: This device has run out of space for SnapCal data. Please delete some old entries in the History tab or connect to Supabase for unlimited cloud storage.");
+      }
+      throw error;
+    }
+  }
+
+  private async read<T>(store: StoreName, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.db();
+    return promisifyRequest(fn(db.transaction(store, 'readonly').objectStore(store)));
+  }
+
+  private async getUserRecord<T>(userId: string, kind: UserRecordKind): Promise<T | null> {
+    const record = await this.read<UserRecord<T> | undefined>(STORES.USER_RECORDS, s => s.get([userId, kind]));
+    return record ? record.value : null;
+  }
+
+  private async putUserRecord<T>(userId: string, kind: UserRecordKind, value: T): Promise<void> {
+    const record: UserRecord<T> = tracked({ user_id: userId, kind, value });
+    await this.write([STORES.USER_RECORDS], tx => {
+      tx.objectStore(STORES.USER_RECORDS).put(record);
+    });
+  }
+
+  /**
+   * Replace every record in a [user_id, date] index range with a tombstone
+   */
+  private tombstoneInRange(tx: IDBTransaction, store: StoreName, range: IDBKeyRange, onDelete?: (value: any) => void): Promise<void> {
+    const index = tx.objectStore(store).index(INDEXES.BY_USER_DATE);
+    return iterateCursor(index.openCursor(range), cursor => {
+      onDelete?.(cursor.value);
+      cursor.update(tombstone(cursor.value.id, cursor.value.user_id));
+    });
+  }
+
+  /**
+   * Move every record in a [user_id, date] index range to the trash
+   */
+  private trashInRange(tx: IDBTransaction, store: StoreName, range: IDBKeyRange): Promise<void> {
+    const index = tx.objectStore(store).index(INDEXES.BY_USER_DATE);
+    const deletedAt = new Date().toISOString();
+    return iterateCursor(index.openCursor(range), cursor => {
+      cursor.update(trashed(cursor.value, deletedAt));
+    });
+  }
+
+  /**
+   * Move one of the user's live records to the trash
+   */
+  private async trashRecord(store: StoreName, userId: string, id: string): Promise<void> {
+    const existing = await this.read<any>(store, s => s.get(id));
+    if (!existing || existing.user_id !== userId || existing.deleted) return;
+
+    await this.write([store], tx => {
+      tx.objectStore(store).put(trashed(existing));
+    });
+  }
+
+  /**
+   * Write the entry row and its photo in the same transaction
+   */
+  private putEntry(tx: IDBTransaction, userId: string, entry: FoodEntry & SyncFields): void {
+    const { imageUrl, ...row } = entry;
+    tx.objectStore(STORES.ENTRIES).put({ ...row, user_id: userId });
+
+    // Undefined image means "no photo", same as the cloud backend writing NULL
+    if (imageUrl) {
+      const image: ImageRecord = { entry_id: entry.id, user_id: userId, data_url: imageUrl };
+      tx.objectStore(STORES.IMAGES).put(image);
+    } else {
+      tx.objectStore(STORES.IMAGES).delete(entry.id);
+    }
+  }
+
+  async checkSchema(): Promise<DBCheckResult> {
+    try {
+      await this.db();
+      return { ok: true };
+    } catch (e: any) {
+      return { ok: false, error: e?.message || String(e) };
+    }
+  }
+
+  // --- Food Entries ---
+
+  async saveEntry(userId: string, entry: FoodEntry): Promise<void> {
+    await this.write([STORES.ENTRIES, STORES.IMAGES], tx => this.putEntry(tx, userId, tracked(entry)));
+  }
+
+  async saveEntries(userId: string, entries: FoodEntry[]): Promise<void> {
+    await this.write([STORES.ENTRIES, STORES.IMAGES], tx => {
+      entries.forEach(entry => this.putEntry(tx, userId, tracked(entry)));
+    });
+  }
+
+  async listEntries(userId: string, query: EntryQuery = {}): Promise<FoodEntry[]> {
+    const db = await this.db();
+    const tx = db.transaction([STORES.ENTRIES, STORES.IMAGES], 'readonly');
+    const rows: FoodEntry[] = await promisifyRequest(
+      tx.objectStore(STORES.ENTRIES).index(INDEXES.BY_USER_DATE).getAll(userDateKeyRange(userId, query))
+    );
+
+    let entries = rows
+      .filter(e => matchesDateRange(e.date, query))
+      .map(toFoodEntry)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    if (query.limit) entries = entries.slice(0, query.limit);
+
+    if (query.projection && query.projection !== 'full') {
+      return entries.map(stripEntryForList);
+    }
+
+    // Full projection: join photos from the images store
+    const imageStore = tx.objectStore(STORES.IMAGES);
+    const images = await Promise.all(
+      entries.map(e => promisifyRequest<ImageRecord | undefined>(imageStore.get(e.id)))
+    );
+    return entries.map((e, i) => ({ ...e, imageUrl: images[i]?.data_url }));
+  }
+
+  async getEntry(userId: string, entryId: string): Promise<FoodEntry | null> {
+    const db = await this.db();
+    const tx = db.transaction([STORES.ENTRIES, STORES.IMAGES], 'readonly');
+    const [row, image] = await Promise.all([
+      promisifyRequest<any>(tx.objectStore(STORES.ENTRIES).get(entryId)),
+      promisifyRequest<ImageRecord | undefined>(tx.objectStore(STORES.IMAGES).get(entryId)),
+    ]);
+    if (!row || row.user_id !== userId || row.deleted) return null;
+    return { ...toFoodEntry(row), imageUrl: image?.data_url };
+  }
+
+  async countEntries(userId: string, date: string): Promise<number> {
+    const db = await this.db();
+    const index = db.transaction(STORES.ENTRIES, 'readonly').objectStore(STORES.ENTRIES).index(INDEXES.BY_USER_DATE);
+    return promisifyRequest(index.count(IDBKeyRange.only([userId, date])));
+  }
+
+  async getEntryImage(userId: string, entryId: string): Promise<string | null> {
+    const image = await this.read<ImageRecord | undefined>(STORES.IMAGES, s => s.get(entryId));
+    return image && image.user_id === userId ? image.data_url : null;
+  }
+
+  async clearEntryImage(userId: string, entryId: string): Promise<void> {
+    const [entry, image] = await Promise.all([
+      this.read<any>(STORES.ENTRIES, s => s.get(entryId)),
+      this.read<ImageRecord | undefined>(STORES.IMAGES, s => s.get(entryId)),
+    ]);
+    const keyed = !!entry && entry.user_id === userId && !entry.deleted && !!entry.imageKey;
+    const inline = !!image && image.user_id === userId;
+    if (!keyed && !inline) return;
+
+    await this.write([STORES.ENTRIES, STORES.IMAGES], tx => {
+      if (inline) tx.objectStore(STORES.IMAGES).delete(entryId);
+      // The blob stays in the media store until unreferenced media is pruned
+      if (keyed) {
+        const { imageKey, ...row } = entry;
+        tx.objectStore(STORES.ENTRIES).put(tracked(row));
+      }
+    });
+  }
+
+  async deleteEntry(userId: string, entryId: string): Promise<void> {
+    await this.trashRecord(STORES.ENTRIES, userId, entryId);
+  }
+
+  /**
+   * Compaction - the day's summary replaces the rows, so they skip the trash
+   */
+  async deleteEntriesForDate(userId: string, date: string): Promise<void> {
+    await this.write([STORES.ENTRIES, STORES.IMAGES], tx =>
+      this.tombstoneInRange(tx, STORES.ENTRIES, IDBKeyRange.only([userId, date]), entry => {
+        tx.objectStore(STORES.IMAGES).delete(entry.id);
+      })
+    );
+  }
+
+  // --- Compacted Daily Summaries ---
+
+  async listSummaries(userId: string, query: DateRangeQuery = {}): Promise<DailyTotals[]> {
+    const rows = await this.read<any[]>(STORES.SUMMARIES, s =>
+      s.index(INDEXES.BY_USER_DATE).getAll(userDateKeyRange(userId, query))
+    );
+    return rows.filter(r => matchesDateRange(r.date, query)).map(toDailyTotals);
+  }
+
+  async saveSummary(userId: string, summary: DailyTotals): Promise<void> {
+    await this.write([STORES.SUMMARIES], tx => {
+      tx.objectStore(STORES.SUMMARIES).put(tracked({ ...summary, id: `${userId}_${summary.date}`, user_id: userId }));
+    });
+  }
+
+  // --- Settings & Profile ---
+
+  async getDailyGoal(userId: string): Promise<number | null> {
+    return (await this.getUserRecord<number>(userId, 'daily_goal')) || null;
+  }
+
+  async saveDailyGoal(userId: string, goal: number): Promise<void> {
+    await this.putUserRecord(userId, 'daily_goal', goal);
+  }
+
+  async getProfile(userId: string): Promise<UserProfile | null> {
+    return this.getUserRecord<UserProfile>(userId, 'profile');
+  }
+
+  async saveProfile(userId: string, profile: UserProfile): Promise<void> {
+    await this.putUserRecord(userId, 'profile', profile);
+  }
+
+  async getOnboardingComplete(userId: string): Promise<boolean> {
+    return (await this.getUserRecord<boolean>(userId, 'onboarding')) === true;
+  }
+
+  async setOnboardingComplete(userId: string): Promise<void> {
+    await this.putUserRecord(userId, 'onboarding', true);
+  }
+
+  async getRetentionPolicy(userId: string): Promise<RetentionPolicy | null> {
+    return this.getUserRecord<RetentionPolicy>(userId, 'retention');
+  }
+
+  async saveRetentionPolicy(userId: string, policy: RetentionPolicy): Promise<void> {
+    await this.putUserRecord(userId, 'retention', policy);
+  }
+
+  // --- Coach Chat ---
+
+  async saveChatMessage(userId: string, message: StoredChatMessage): Promise<void> {
+    try {
+      await this.write([STORES.COACH_MESSAGES], tx => {
+        tx.objectStore(STORES.COACH_MESSAGES).put(tracked({ ...message, user_id: userId }));
+      });
+    } catch (error) {
+      console.error('Failed to save chat message to IndexedDB:', error);
+    }
+  }
+
+  async listChatMessages(userId: string, date: string): Promise<ChatMessage[]> {
+    const rows = await this.read<any[]>(STORES.COACH_MESSAGES, s =>
+      s.index(INDEXES.BY_USER_DATE).getAll(IDBKeyRange.only([userId, date]))
+    );
+    return rows
+      .map(({ id, role, content, timestamp }) => ({ id, role, content, timestamp }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async listAllChatMessages(userId: string): Promise<StoredChatMessage[]> {
+    const rows = await this.read<any[]>(STORES.COACH_MESSAGES, s =>
+      s.index(INDEXES.BY_USER_DATE).getAll(userDateKeyRange(userId))
+    );
+    return rows
+      .map(({ id, role, content, timestamp, date }) => ({ id, role, content, timestamp, date }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async deleteChatMessage(userId: string, messageId: string): Promise<void> {
+    await this.trashRecord(STORES.COACH_MESSAGES, userId, messageId);
+  }
+
+  async deleteChatMessagesBefore(userId: string, date: string): Promise<void> {
+    await this.write([STORES.COACH_MESSAGES], tx =>
+      this.tombstoneInRange(tx, STORES.COACH_MESSAGES, userDateKeyRange(userId, { beforeDate: date }))
+    );
+  }
+
+  // --- Workout Plans ---
+
+  async saveWorkoutPlan(userId: string, plan: DailyWorkout & { id: string }): Promise<void> {
+    await this.write([STORES.WORKOUT_PLANS], tx => {
+      tx.objectStore(STORES.WORKOUT_PLANS).put(tracked({ ...toDailyWorkout(plan), user_id: userId }));
+    });
+  }
+
+  async listWorkoutPlans(userId: string, query: DateRangeQuery = {}): Promise<DailyWorkout[]> {
+    const rows = await this.read<any[]>(STORES.WORKOUT_PLANS, s =>
+      s.index(INDEXES.BY_USER_DATE).getAll(userDateKeyRange(userId, query))
+    );
+    return rows.filter(r => matchesDateRange(r.date, query)).map(toDailyWorkout);
+  }
+
+  async deleteWorkoutPlan(userId: string, planId: string): Promise<void> {
+    await this.trashRecord(STORES.WORKOUT_PLANS, userId, planId);
+  }
+
+  async deleteWorkoutPlansForDate(userId: string, date: string): Promise<void> {
+    await this.write([STORES.WORKOUT_PLANS], tx =>
+      this.trashInRange(tx, STORES.WORKOUT_PLANS, IDBKeyRange.only([userId, date]))
+    );
+  }
+
+  // --- Engagement ---
+
+  async getStreak(userId: string): Promise<StreakData | null> {
+    return this.getUserRecord<StreakData>(userId, 'streak');
+  }
+
+  async saveStreak(userId: string, data: StreakData): Promise<void> {
+    try {
+      await this.putUserRecord(userId, 'streak', data);
+    } catch (e) {
+      console.error('Failed to save streak data:', e);
+    }
+  }
+
+  async getWeightGoal(userId: string): Promise<WeightGoal | null> {
+    return this.getUserRecord<WeightGoal>(userId, 'weight_goal');
+  }
+
+  async saveWeightGoal(userId: string, goal: WeightGoal): Promise<void> {
+    try {
+      await this.putUserRecord(userId, 'weight_goal', goal);
+    } catch (e) {
+      console.error('Failed to save weight goal:', e);
+    }
+  }
+
+  // --- Coach Reports ---
+
+  async getReport(userId: string, reportType: ReportType, periodStart: string, periodEnd: string): Promise<CoachReport | null> {
+    const row = await this.read<any>(STORES.REPORTS, s =>
+      s.index(INDEXES.BY_USER_PERIOD).get([userId, reportType, periodStart, periodEnd])
+    );
+    if (!row) return null;
+    const { user_id, dirty, deleted, updated_at, ...report } = row;
+    return report as CoachReport;
+  }
+
+  async saveReport(userId: string, report: CoachReport): Promise<void> {
+    await this.write([STORES.REPORTS], async tx => {
+      const store = tx.objectStore(STORES.REPORTS);
+      // Replace any existing report for the same period
+      const existingKeys = await promisifyRequest(
+        store.index(INDEXES.BY_USER_PERIOD).getAllKeys([userId, report.reportType, report.periodStart, report.periodEnd])
+      );
+      existingKeys.forEach(key => store.delete(key));
+      store.put(tracked({ ...report, userId, user_id: userId }));
+    });
+  }
+
+  async listReports(userId: string): Promise<CoachReport[]> {
+    const rows = await this.read<any[]>(STORES.REPORTS, s =>
+      s.index(INDEXES.BY_USER_PERIOD).getAll(IDBKeyRange.bound([userId], [userId, []]))
+    );
+    return rows
+      .map(({ user_id, dirty, deleted, updated_at, ...report }) => report as CoachReport)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // --- AI Usage ---
+
+  async saveAIUsage(userId: string, record: AIUsageRecord): Promise<void> {
+    await this.write([STORES.AI_USAGE], tx => {
+      tx.objectStore(STORES.AI_USAGE).put({ ...record, user_id: userId });
+    });
+  }
+
+  async listAIUsage(userId: string, query?: DateRangeQuery): Promise<AIUsageRecord[]> {
+    const rows = await this.read<any[]>(STORES.AI_USAGE, s =>
+      s.index(INDEXES.BY_USER_DATE).getAll(userDateKeyRange(userId, query))
+    );
+    return rows
+      .filter(r => matchesDateRange(r.date, query))
+      .map(({ user_id, ...record }) => record as AIUsageRecord)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getAIUsageCaps(userId: string): Promise<AIUsageCaps | null> {
+    return this.getUserRecord<AIUsageCaps>(userId, 'ai_caps');
+  }
+
+  async saveAIUsageCaps(userId: string, caps: AIUsageCaps): Promise<void> {
+    await this.putUserRecord(userId, 'ai_caps', caps);
+  }
+
+  // --- Trash ---
+
+  async listTrash(userId: string): Promise<TrashItem[]> {
+    const db = await this.db();
+    const kinds = Object.keys(TRASH_STORES) as TrashKind[];
+    const tx = db.transaction(kinds.map(kind => TRASH_STORES[kind]), 'readonly');
+    // Trashed records have no date, so the [user_id, date] index can't find them
+    const rows = await Promise.all(
+      kinds.map(kind => promisifyRequest<any[]>(tx.objectStore(TRASH_STORES[kind]).getAll()))
+    );
+
+    return kinds
+      .flatMap((kind, i) => rows[i].filter(r => r.user_id === userId && isTrashed(r)).map(r => toTrashItem(kind, r)))
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  async restoreFromTrash(userId: string, itemId: string): Promise<void> {
+    const { kind, recordId } = parseTrashItemId(itemId);
+    const store = TRASH_STORES[kind];
+
+    await this.write([store], async tx => {
+      const row = await promisifyRequest<any>(tx.objectStore(store).get(recordId));
+      if (!isTrashed(row) || row.user_id !== userId) return;
+      tx.objectStore(store).put(tracked(row.trashed));
+    });
+  }
+
+  async purgeFromTrash(userId: string, itemId: string): Promise<void> {
+    const { kind, recordId } = parseTrashItemId(itemId);
+    const store = TRASH_STORES[kind];
+    const stores: StoreName[] = kind === 'entry' ? [store, STORES.IMAGES] : [store];
+
+    await this.write(stores, async tx => {
+      const row = await promisifyRequest<any>(tx.objectStore(store).get(recordId));
+      if (!isTrashed(row) || row.user_id !== userId) return;
+      tx.objectStore(store).put(tombstone(recordId, userId));
+      if (kind === 'entry') tx.objectStore(STORES.IMAGES).delete(recordId);
+    });
+  }
+
+  // --- Account Deletion ---
+
+  async deleteUserData(userId: string): Promise<DeletedRecords> {
+    const removed = noDeletedRecords();
+    const counted: Record<typeof SYNCED_STORES[number], keyof DeletedRecords> = {
+      [STORES.ENTRIES]: 'entries',
+      [STORES.SUMMARIES]: 'summaries',
+      [STORES.COACH_MESSAGES]: 'chatMessages',
+      [STORES.WORKOUT_PLANS]: 'workoutPlans',
+      [STORES.REPORTS]: 'reports',
+      [STORES.USER_RECORDS]: 'settings',
+    };
+
+    await this.write([...SYNCED_STORES, STORES.IMAGES, STORES.MEDIA, STORES.AI_USAGE, STORES.OUTBOX, STORES.CONFLICTS, STORES.META], async tx => {
+      for (const name of SYNCED_STORES) {
+        await iterateCursor(tx.objectStore(name).openCursor(), cursor => {
+          if (cursor.value.user_id !== userId) return;
+          // Plain tombstones were already deleted as far as the user is concerned
+          if (!cursor.value.deleted || isTrashed(cursor.value)) removed[counted[name]]++;
+          cursor.delete();
+        });
+      }
+
+      await iterateCursor(tx.objectStore(STORES.IMAGES).openCursor(), cursor => {
+        if (cursor.value.user_id !== userId) return;
+        removed.photos++;
+        cursor.delete();
+      });
+      await iterateCursor(tx.objectStore(STORES.MEDIA).openCursor(), cursor => {
+        const media = cursor.value as MediaRecord;
+        if (media.user_id !== userId) return;
+        if (media.variant === 'original') removed.photos++;
+        const url = this.mediaUrls.get(`${media.key}:${media.variant}`);
+        if (url) URL.revokeObjectURL(url);
+        this.mediaUrls.delete(`${media.key}:${media.variant}`);
+        cursor.delete();
+      });
+      await iterateCursor(tx.objectStore(STORES.AI_USAGE).openCursor(), cursor => {
+        if (cursor.value.user_id !== userId) return;
+        removed.aiUsage++;
+        cursor.delete();
+      });
+
+      for (const name of [STORES.OUTBOX, STORES.CONFLICTS]) {
+        await iterateCursor(tx.objectStore(name).openCursor(), cursor => {
+          if (cursor.value.userId === userId) cursor.delete();
+        });
+      }
+      tx.objectStore(STORES.META).delete(SYNC_STATE_PREFIX + userId);
+    });
+
+    return removed;
+  }
+
+  // --- Migration Helpers ---
+
+  async readDeviceSnapshot(): Promise<DeviceSnapshot> {
+    const db = await this.db();
+    const tx = db.transaction([STORES.ENTRIES, STORES.IMAGES, STORES.USER_RECORDS], 'readonly');
+    const [rows, images, records] = await Promise.all([
+      promisifyRequest<FoodEntry[]>(tx.objectStore(STORES.ENTRIES).getAll()),
+      promisifyRequest<ImageRecord[]>(tx.objectStore(STORES.IMAGES).getAll()),
+      promisifyRequest<UserRecord[]>(tx.objectStore(STORES.USER_RECORDS).getAll()),
+    ]);
+
+    const imageById = new Map(images.map(i => [i.entry_id, i.data_url]));
+    const goalRecord = records.find(r => r.kind === 'daily_goal');
+    const profileRecord = records.find(r => r.kind === 'profile');
+
+    return {
+      entries: rows.filter((e: any) => !e.deleted).map(e => ({ ...toFoodEntry(e), imageUrl: imageById.get(e.id) })),
+      dailyGoal: (goalRecord?.value as number) || null,
+      profile: (profileRecord?.value as UserProfile) || null,
+    };
+  }
+
+  async clearDeviceSnapshot(): Promise<void> {
+    await this.write([STORES.ENTRIES, STORES.IMAGES, STORES.SUMMARIES, STORES.USER_RECORDS], tx => {
+      tx.objectStore(STORES.ENTRIES).clear();
+      tx.objectStore(STORES.IMAGES).clear();
+      tx.objectStore(STORES.SUMMARIES).clear();
+      return iterateCursor(tx.objectStore(STORES.USER_RECORDS).openCursor(), cursor => {
+        const kind = (cursor.value as UserRecord).kind;
+        if (kind === 'daily_goal' || kind === 'profile') cursor.delete();
+      });
+    });
+  }
+
+  async listDeviceUsers(): Promise<string[]> {
+    const db = await this.db();
+    const tx = db.transaction([...SYNCED_STORES], 'readonly');
+    const users = new Set<string>();
+    for (const name of SYNCED_STORES) {
+      await iterateCursor(tx.objectStore(name).openCursor(), cursor => {
+        if (cursor.value.user_id) users.add(cursor.value.user_id);
+      });
+    }
+    return Array.from(users);
+  }
+
+  async clearDevice(): Promise<void> {
+    if (this.dbPromise) (await this.dbPromise).close();
+    this.dbPromise = null;
+    this.mediaUrls.forEach(url => URL.revokeObjectURL(url));
+    this.mediaUrls.clear();
+    await deleteDatabase(DB_NAME);
+  }
+
+  // --- Offline Outbox ---
+
+  async listOutbox(): Promise<OutboxItem[]> {
+    // Keys are auto-increment, so getAll already returns replay order
+    return this.read<OutboxItem[]>(STORES.OUTBOX, s => s.getAll());
+  }
+
+  async putOutboxItem(item: OutboxItem): Promise<OutboxItem> {
+    let seq = item.seq;
+    await this.write([STORES.OUTBOX], async tx => {
+      seq = await promisifyRequest(tx.objectStore(STORES.OUTBOX).put(item)) as number;
+    });
+    return { ...item, seq };
+  }
+
+  async deleteOutboxItem(seq: number): Promise<void> {
+    await this.write([STORES.OUTBOX], tx => {
+      tx.objectStore(STORES.OUTBOX).delete(seq);
+    });
+  }
+
+  // --- Conflict Log ---
+
+  async listConflicts(): Promise<ConflictItem[]> {
+    return this.read<ConflictItem[]>(STORES.CONFLICTS, s => s.getAll());
+  }
+
+  async putConflict(item: ConflictItem): Promise<void> {
+    await this.write([STORES.CONFLICTS], tx => {
+      tx.objectStore(STORES.CONFLICTS).put(item);
+    });
+  }
+
+  async deleteConflict(id: string): Promise<void> {
+    await this.write([STORES.CONFLICTS], tx => {
+      tx.objectStore(STORES.CONFLICTS).delete(id);
+    });
+  }
+
+  // --- Media ---
+
+  async putMedia(userId: string, key: string, variant: MediaVariant, blob: Blob): Promise<void> {
+    const record: MediaRecord = { key, variant, user_id: userId, blob, created_at: new Date().toISOString() };
+    await this.write([STORES.MEDIA], tx => {
+      tx.objectStore(STORES.MEDIA).put(record);
+    });
+  }
+
+  async readMedia(userId: string, key: string, variant: MediaVariant): Promise<Blob | null> {
+    const record = await this.read<MediaRecord | undefined>(STORES.MEDIA, s => s.get([key, variant]));
+    return record && record.user_id === userId ? record.blob : null;
+  }
+
+  async getMediaUrl(userId: string, key: string, variant: MediaVariant): Promise<string | null> {
+    const cached = this.mediaUrls.get(`${key}:${variant}`);
+    if (cached) return cached;
+
+    const blob = await this.readMedia(userId, key, variant);
+    if (!blob) return null;
+    const url = URL.createObjectURL(blob);
+    this.mediaUrls.set(`${key}:${variant}`, url);
+    return url;
+  }
+
+  async listMedia(userId: string): Promise<StoredMedia[]> {
+    const records = await this.read<MediaRecord[]>(STORES.MEDIA, s => s.index(INDEXES.BY_USER).getAll(userId));
+    // Both variants share a key - list it once
+    const byKey = new Map(records.map(r => [r.key, { key: r.key, createdAt: r.created_at }]));
+    return Array.from(byKey.values());
+  }
+
+  async deleteMedia(userId: string, keys: string[]): Promise<void> {
+    const variants: MediaVariant[] = ['original', 'thumbnail'];
+    await this.write([STORES.MEDIA], async tx => {
+      const store = tx.objectStore(STORES.MEDIA);
+      for (const key of keys) {
+        for (const variant of variants) {
+          const record = await promisifyRequest<MediaRecord | undefined>(store.get([key, variant]));
+          if (!record || record.user_id !== userId) continue;
+          store.delete([key, variant]);
+
+          const url = this.mediaUrls.get(`${key}:${variant}`);
+          if (url) URL.revokeObjectURL(url);
+          this.mediaUrls.delete(`${key}:${variant}`);
+        }
+      }
+    });
+  }
+
+  // --- Sync ---
+
+  async listDirtyRecords(table: SyncTable, userId: string, limit: number): Promise<any[]> {
+    const db = await this.db();
+    const stores: StoreName[] = table === STORES.ENTRIES ? [STORES.ENTRIES, STORES.IMAGES] : [table];
+    const tx = db.transaction(stores, 'readonly');
+    const records: any[] = await promisifyRequest(
+      tx.objectStore(table).index(INDEXES.BY_DIRTY_USER).getAll(IDBKeyRange.only([1, userId]), limit)
+    );
+    if (table !== STORES.ENTRIES) return records;
+
+    // Entries are pushed with their photo
+    const imageStore = tx.objectStore(STORES.IMAGES);
+    const images = await Promise.all(
+      records.map(r => promisifyRequest<ImageRecord | undefined>(imageStore.get(r.id)))
+    );
+    return records.map((r, i) => images[i] ? { ...r, imageUrl: images[i]!.data_url } : r);
+  }
+
+  async markRecordsSynced(table: SyncTable, records: any[]): Promise<void> {
+    await this.write([table], async tx => {
+      const store = tx.objectStore(table);
+      for (const record of records) {
+        const key = keyOf(store, record);
+        const current = await promisifyRequest(store.get(key));
+        // Edited again while the push was in flight - it goes out next round
+        if (!current || current.updated_at !== record.updated_at) continue;
+
+        // Trashed records stay until purged, plain tombstones have done their job
+        if (current.deleted && !current.trashed) store.delete(key);
+        else store.put({ ...current, dirty: 0 });
+      }
+    });
+  }
+
+  async applyRemoteRecords(table: SyncTable, records: any[]): Promise<void> {
+    await this.storeRemote(table, records, (local, record) =>
+      // Entries and plans carry revisions - the push merges them with the cloud copy
+      REVISIONED_STORES.includes(table) || (local.updated_at || '') > (record.updated_at || '')
+    );
+  }
+
+  async storeSyncedRecords(table: SyncTable, records: any[]): Promise<void> {
+    const updated_at = new Date().toISOString();
+    await this.storeRemote(table, records.map(r => ({ ...r, updated_at })), () => false);
+  }
+
+  /**
+   * Write cloud records into the device stores, skipping unpushed local
+   * records that keepLocal says should survive
+   */
+  private async storeRemote(table: SyncTable, records: any[], keepLocal: (local: any, record: any) => boolean): Promise<void> {
+    const stores: StoreName[] = table === STORES.ENTRIES ? [STORES.ENTRIES, STORES.IMAGES] : [table];
+    await this.write(stores, async tx => {
+      const store = tx.objectStore(table);
+      for (const record of records) {
+        const key = keyOf(store, record);
+        const local = await promisifyRequest(store.get(key));
+        if (local?.dirty === 1 && keepLocal(local, record)) continue;
+
+        if (record.deleted && record.deleted_at && record.date) {
+          // In the trash on another device - keep it restorable here too
+          const { imageUrl, ...trashedRecord } = record;
+          store.put({ ...trashed(trashedRecord, record.deleted_at), updated_at: record.updated_at, dirty: 0 });
+          if (table === STORES.ENTRIES) {
+            if (imageUrl) {
+              const image: ImageRecord = { entry_id: record.id, user_id: record.user_id, data_url: imageUrl };
+              tx.objectStore(STORES.IMAGES).put(image);
+            } else {
+              tx.objectStore(STORES.IMAGES).delete(key);
+            }
+          }
+        } else if (record.deleted) {
+          store.delete(key);
+          if (table === STORES.ENTRIES) tx.objectStore(STORES.IMAGES).delete(key);
+        } else if (table === STORES.ENTRIES) {
+          this.putEntry(tx, record.user_id, { ...record, dirty: 0 });
+        } else {
+          store.put({ ...record, dirty: 0 });
+        }
+      }
+    });
+  }
+
+  async getSyncState(userId: string): Promise<SyncState | null> {
+    const row = await this.read<any>(STORES.META, s => s.get(SYNC_STATE_PREFIX + userId));
+    return row ? row.value : null;
+  }
+
+  async saveSyncState(userId: string, state: SyncState): Promise<void> {
+    await this.write([STORES.META], tx => {
+      tx.objectStore(STORES.META).put({ key: SYNC_STATE_PREFIX + userId, value: state });
+    });
+  }
+
+  /**
+   * Owners of device records that have never synced with the cloud (device-only accounts)
+   */
+  private async unsyncedOwners(userId: string): Promise<Set<string>> {
+    const db = await this.db();
+    const tx = db.transaction([STORES.ENTRIES, STORES.META], 'readonly');
+    const rows: any[] = await promisifyRequest(tx.objectStore(STORES.ENTRIES).getAll());
+    const owners = new Set(rows.filter(r => !r.deleted && r.user_id && r.user_id !== userId).map(r => r.user_id as string));
+
+    const states = await Promise.all(
+      Array.from(owners).map(owner => promisifyRequest(tx.objectStore(STORES.META).get(SYNC_STATE_PREFIX + owner)))
+    );
+    Array.from(owners).forEach((owner, i) => {
+      if (states[i]) owners.delete(owner);
+    });
+    return owners;
+  }
+
+  async hasUnsyncedAccountData(userId: string): Promise<boolean> {
+    return (await this.unsyncedOwners(userId)).size > 0;
+  }
+
+  async adoptUnsyncedAccountData(userId: string): Promise<number> {
+    const owners = await this.unsyncedOwners(userId);
+    if (owners.size === 0) return 0;
+
+    let moved = 0;
+    await this.write([...SYNCED_STORES, STORES.IMAGES, STORES.MEDIA], async tx => {
+      for (const name of SYNCED_STORES) {
+        const store = tx.objectStore(name);
+        const rows: any[] = await promisifyRequest(store.getAll());
+
+        for (const row of rows.filter(r => owners.has(r.user_id))) {
+          const adopted = reassignOwner(name, row, userId);
+          // Never overwrite this account's own summary or settings - leave the old copy in place
+          if (name === STORES.SUMMARIES || name === STORES.USER_RECORDS) {
+            if (await promisifyRequest(store.get(keyOf(store, adopted)))) continue;
+          }
+
+          store.delete(keyOf(store, row));
+          // Tombstones of data that never left the device have nothing to delete remotely
+          if (row.deleted) continue;
+          store.put(tracked(adopted));
+          moved++;
+        }
+      }
+
+      await iterateCursor(tx.objectStore(STORES.IMAGES).openCursor(), cursor => {
+        if (owners.has(cursor.value.user_id)) cursor.update({ ...cursor.value, user_id: userId });
+      });
+      await iterateCursor(tx.objectStore(STORES.MEDIA).openCursor(), cursor => {
+        if (owners.has(cursor.value.user_id)) cursor.update({ ...cursor.value, user_id: userId });
+      });
+    });
+
+    return moved;
+  }
+}
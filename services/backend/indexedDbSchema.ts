@@ -0,0 +1,117 @@
+/**
+ * IndexedDB Schema
+ * Object stores and indexes used by the IndexedDB device backend
+ */
+
+import { UpgradeHandler } from '../../utils/indexedDb';
+import type { SyncFields, MediaVariant } from './types';
+
+export const DB_NAME = 'snapcal';
+export const DB_VERSION = 6;
+
+export const STORES = {
+  ENTRIES: 'entries',             // FoodEntry without imageUrl, keyed by id
+  IMAGES: 'images',               // Legacy inline photos { entry_id, user_id, data_url }
+  MEDIA: 'media',                 // Photo blobs keyed by [key, variant]
+  SUMMARIES: 'summaries',         // Compacted daily totals, keyed by `${user_id}_${date}`
+  COACH_MESSAGES: 'coach_messages',
+  WORKOUT_PLANS: 'workout_plans',
+  REPORTS: 'reports',
+  USER_RECORDS: 'user_records',   // One-per-user values (goal, profile, streak, ...)
+  META: 'meta',                   // Internal flags (migration state)
+  OUTBOX: 'outbox',               // Cloud writes waiting for connectivity, auto-increment seq
+  CONFLICTS: 'conflicts',         // Concurrent edits waiting for the user to pick a version, keyed by id
+  AI_USAGE: 'ai_usage',           // AI usage ledger, keyed by id. Not synced - cloud mode writes to Supabase.
+} as const;
+
+export const INDEXES = {
+  BY_USER: 'by_user',
+  BY_USER_DATE: 'by_user_date',
+  BY_USER_PERIOD: 'by_user_period',
+  BY_DIRTY_USER: 'by_dirty_user',
+} as const;
+
+/**
+ * Stores replicated by the sync engine, each indexed by [dirty, user_id]
+ */
+export const SYNCED_STORES = [
+  STORES.ENTRIES,
+  STORES.SUMMARIES,
+  STORES.COACH_MESSAGES,
+  STORES.WORKOUT_PLANS,
+  STORES.REPORTS,
+  STORES.USER_RECORDS,
+] as const;
+
+export type UserRecordKind = 'daily_goal' | 'profile' | 'onboarding' | 'streak' | 'weight_goal' | 'retention' | 'ai_caps';
+
+export interface UserRecord<T = unknown> extends SyncFields {
+  user_id: string;
+  kind: UserRecordKind;
+  value: T;
+}
+
+export interface ImageRecord {
+  entry_id: string;
+  user_id: string;
+  data_url: string;
+}
+
+export interface MediaRecord {
+  key: string;
+  variant: MediaVariant;
+  user_id: string;
+  blob: Blob;
+  created_at: string;
+}
+
+export const upgradeSchema: UpgradeHandler = (db, oldVersion, tx) => {
+  if (oldVersion < 1) {
+    const entries = db.createObjectStore(STORES.ENTRIES, { keyPath: 'id' });
+    entries.createIndex(INDEXES.BY_USER, 'user_id');
+    entries.createIndex(INDEXES.BY_USER_DATE, ['user_id', 'date']);
+
+    const images = db.createObjectStore(STORES.IMAGES, { keyPath: 'entry_id' });
+    images.createIndex(INDEXES.BY_USER, 'user_id');
+
+    const summaries = db.createObjectStore(STORES.SUMMARIES, { keyPath: 'id' });
+    summaries.createIndex(INDEXES.BY_USER_DATE, ['user_id', 'date']);
+
+    const messages = db.createObjectStore(STORES.COACH_MESSAGES, { keyPath: 'id' });
+    messages.createIndex(INDEXES.BY_USER_DATE, ['user_id', 'date']);
+
+    const plans = db.createObjectStore(STORES.WORKOUT_PLANS, { keyPath: 'id' });
+    plans.createIndex(INDEXES.BY_USER_DATE, ['user_id', 'date']);
+
+    const reports = db.createObjectStore(STORES.REPORTS, { keyPath: 'id' });
+    reports.createIndex(INDEXES.BY_USER_PERIOD, ['user_id', 'reportType', 'periodStart', 'periodEnd']);
+
+    db.createObjectStore(STORES.USER_RECORDS, { keyPath: ['user_id', 'kind'] });
+    db.createObjectStore(STORES.META, { keyPath: 'key' });
+  }
+
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.OUTBOX, { keyPath: 'seq', autoIncrement: true });
+  }
+
+  if (oldVersion < 3) {
+    // Records written before sync tracking have no `dirty` and stay out of the index
+    SYNCED_STORES.forEach(name => {
+      tx.objectStore(name).createIndex(INDEXES.BY_DIRTY_USER, ['dirty', 'user_id']);
+    });
+  }
+
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.CONFLICTS, { keyPath: 'id' });
+  }
+
+  if (oldVersion < 5) {
+    const media = db.createObjectStore(STORES.MEDIA, { keyPath: ['key', 'variant'] });
+    media.createIndex(INDEXES.BY_USER, 'user_id');
+  }
+
+  if (oldVersion < 6) {
+    const usage = db.createObjectStore(STORES.AI_USAGE, { keyPath: 'id' });
+    usage.createIndex(INDEXES.BY_USER_DATE, ['user_id', 'date']);
+  }
+};
@@ -0,0 +1,115 @@
+/**
+ * Legacy localStorage -> IndexedDB Migration
+ * Copies the `snapcal_*_v1` keys into IndexedDB once, on first launch,
+ * then removes them to free the localStorage quota.
+ */
+
+import { promisifyRequest, transactionDone } from '../../utils/indexedDb';
+import { LOCAL_STORAGE_KEYS } from './localStorageBackend';
+import { STORES, UserRecord, UserRecordKind, ImageRecord } from './indexedDbSchema';
+
+const MIGRATION_FLAG = 'legacy_local_storage_migrated';
+
+const readLegacy = <T>(key: string, fallback: T): T => {
+  try {
+    const data = localStorage.getItem(key);
+    return data ? JSON.parse(data) : fallback;
+  } catch (e) {
+    console.warn(`Skipping unreadable legacy key ${key}:`, e);
+    return fallback;
+  }
+};
+
+// `{ [userId]: value }` maps become one user record per user
+const USER_SCOPED_KEYS: Array<[string, UserRecordKind]> = [
+  [LOCAL_STORAGE_KEYS.settings, 'daily_goal'],
+  [LOCAL_STORAGE_KEYS.profiles, 'profile'],
+  [LOCAL_STORAGE_KEYS.onboarding, 'onboarding'],
+  [LOCAL_STORAGE_KEYS.streaks, 'streak'],
+  [LOCAL_STORAGE_KEYS.weightGoals, 'weight_goal'],
+];
+
+/**
+ * Run the one-time migration if it hasn't happened yet
+ * The whole copy happens in a single transaction so a crash leaves localStorage untouched
+ */
+export const migrateLegacyLocalStorage = async (db: IDBDatabase): Promise<void> => {
+  const flag = await promisifyRequest(
+    db.transaction(STORES.META, 'readonly').objectStore(STORES.META).get(MIGRATION_FLAG)
+  );
+  if (flag) return;
+
+  const tx = db.transaction(Object.values(STORES), 'readwrite');
+  let migratedCount = 0;
+
+  // Entries: images move to their own store so listing stays cheap
+  readLegacy<any[]>(LOCAL_STORAGE_KEYS.entries, []).forEach(entry => {
+    if (!entry?.id) return;
+    const { imageUrl, ...rest } = entry;
+    tx.objectStore(STORES.ENTRIES).put(rest);
+    if (imageUrl) {
+      const image: ImageRecord = { entry_id: entry.id, user_id: entry.user_id, data_url: imageUrl };
+      tx.objectStore(STORES.IMAGES).put(image);
+    }
+    migratedCount++;
+  });
+
+  readLegacy<any[]>(LOCAL_STORAGE_KEYS.summaries, []).forEach(s => {
+    if (!s?.user_id || !s?.date) return;
+    tx.objectStore(STORES.SUMMARIES).put({
+      id: `${s.user_id}_${s.date}`,
+      user_id: s.user_id,
+      date: s.date,
+      totalCalories: s.total_calories || s.totalCalories || 0,
+      totalProtein: s.total_protein || s.totalProtein || 0,
+      totalCarbs: s.total_carbs || s.totalCarbs || 0,
+      totalFat: s.total_fat || s.totalFat || 0,
+    });
+    migratedCount++;
+  });
+
+  readLegacy<any[]>(LOCAL_STORAGE_KEYS.coachMessages, []).forEach(m => {
+    if (!m?.id) return;
+    tx.objectStore(STORES.COACH_MESSAGES).put(m);
+    migratedCount++;
+  });
+
+  readLegacy<any[]>(LOCAL_STORAGE_KEYS.workoutPlans, []).forEach(p => {
+    if (!p?.id) return;
+    tx.objectStore(STORES.WORKOUT_PLANS).put({
+      id: p.id,
+      user_id: p.user_id,
+      date: p.date,
+      title: p.title,
+      workoutTypeId: p.workout_type_id,
+      exercises: p.exercises || []
+    });
+    migratedCount++;
+  });
+
+  readLegacy<any[]>(LOCAL_STORAGE_KEYS.reports, []).forEach(r => {
+    if (!r?.id) return;
+    tx.objectStore(STORES.REPORTS).put({ ...r, user_id: r.userId });
+    migratedCount++;
+  });
+
+  USER_SCOPED_KEYS.forEach(([key, kind]) => {
+    const map = readLegacy<Record<string, unknown>>(key, {});
+    Object.entries(map).forEach(([userId, value]) => {
+      if (value === null || value === undefined) return;
+      const record: UserRecord = { user_id: userId, kind, value };
+      tx.objectStore(STORES.USER_RECORDS).put(record);
+      migratedCount++;
+    });
+  });
+
+  tx.objectStore(STORES.META).put({ key: MIGRATION_FLAG, value: new Date().toISOString() });
+
+  await transactionDone(tx);
+
+  Object.values(LOCAL_STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+
+  if (migratedCount > 0) {
+    console.log(`📦 Migrated ${migratedCount} records from localStorage to IndexedDB`);
+  }
+};
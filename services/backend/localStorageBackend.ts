@@ -0,0 +1,695 @@
+/**
+ * Local Storage Backend
+ * Keeps all user data in the browser's localStorage (device-only mode)
+ * Deleted entries, workout plans and chat messages move to a trash key.
+ */
+
+import { FoodEntry, UserProfile, DailyWorkout, StreakData, WeightGoal, CoachReport, RetentionPolicy } from '../../types';
+import type { ChatMessage } from '../coach';
+import type { AIUsageRecord, AIUsageCaps } from '../ai/types';
+import {
+  DeviceStorageBackend,
+  DeviceSnapshot,
+  DeletedRecords,
+  noDeletedRecords,
+  KeyValueStorage,
+  DBCheckResult,
+  EntryQuery,
+  DateRangeQuery,
+  DailyTotals,
+  ReportType,
+  StoredChatMessage,
+  OutboxItem,
+  ConflictItem,
+  TrashItem,
+  TrashKind,
+  trashItemId,
+} from './types';
+import { matchesDateRange } from './dateRange';
+import { LocalSummary, LocalChatMessage, LocalWorkoutPlan } from '../../utils/localStorageSchemas';
+
+// --- Local Storage Keys ---
+const LS_KEY = 'snapcal_data_v1';
+const LS_SETTINGS_KEY = 'snapcal_settings_v1';
+const LS_PROFILE_KEY = 'snapcal_profile_v1';
+const LS_SUMMARIES_KEY = 'snapcal_summaries_v1';
+const LS_COACH_MESSAGES_KEY = 'snapcal_coach_messages_v1';
+const LS_WORKOUT_PLANS_KEY = 'snapcal_workout_plans_v1';
+const LS_ONBOARDING_KEY = 'snapcal_onboarding_v1';
+const LS_STREAK_KEY = 'snapcal_streak_v1';
+const LS_WEIGHT_GOAL_KEY = 'snapcal_weight_goal_v1';
+const LS_REPORTS_KEY = 'snapcal_coach_reports_v1';
+const LS_OUTBOX_KEY = 'snapcal_outbox_v1';
+const LS_CONFLICTS_KEY = 'snapcal_conflicts_v1';
+const LS_RETENTION_KEY = 'snapcal_retention_v1';
+const LS_TRASH_KEY = 'snapcal_trash_v1';
+const LS_AI_USAGE_KEY = 'snapcal_ai_usage_v1';
+const LS_AI_CAPS_KEY = 'snapcal_ai_caps_v1';
+
+// The ledger grows with every AI call - keep the newest records only
+const MAX_AI_USAGE_RECORDS = 2000;
+
+/**
+ * Keys owned by this backend (read by the schema and IndexedDB migrations)
+ */
+export const LOCAL_STORAGE_KEYS = {
+  entries: LS_KEY,
+  settings: LS_SETTINGS_KEY,
+  profiles: LS_PROFILE_KEY,
+  summaries: LS_SUMMARIES_KEY,
+  coachMessages: LS_COACH_MESSAGES_KEY,
+  workoutPlans: LS_WORKOUT_PLANS_KEY,
+  onboarding: LS_ONBOARDING_KEY,
+  streaks: LS_STREAK_KEY,
+  weightGoals: LS_WEIGHT_GOAL_KEY,
+  reports: LS_REPORTS_KEY,
+  retention: LS_RETENTION_KEY,
+  trash: LS_TRASH_KEY,
+  aiUsage: LS_AI_USAGE_KEY,
+  aiCaps: LS_AI_CAPS_KEY,
+} as const;
+
+// Keys holding a `{ [userId]: value }` map
+const USER_SCOPED_KEYS = [LS_SETTINGS_KEY, LS_PROFILE_KEY, LS_ONBOARDING_KEY, LS_STREAK_KEY, LS_WEIGHT_GOAL_KEY, LS_RETENTION_KEY, LS_AI_CAPS_KEY];
+
+const isQuotaError = (error: any): boolean =>
+  error?.name === 'QuotaExceededError' ||
+  error?.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+  String(error).toLowerCase().includes('quota');
+
+const trashBase = (kind: TrashKind, userId: string, recordId: string, deletedAt: string) => ({
+  id: trashItemId(kind, recordId),
+  userId,
+  recordId,
+  deletedAt,
+});
+
+const mapLocalPlan = (p: LocalWorkoutPlan): DailyWorkout => ({
+  id: p.id,
+  date: p.date,
+  title: p.title,
+  workoutTypeId: p.workout_type_id,
+  exercises: p.exercises || [],
+  revision: p.revision,
+  editedAt: p.edited_at
+});
+
+const mapLocalSummary = (s: LocalSummary): DailyTotals => ({
+  date: s.date,
+  totalCalories: s.total_calories,
+  totalProtein: s.total_protein,
+  totalCarbs: s.total_carbs,
+  totalFat: s.total_fat
+});
+
+export class LocalStorageBackend implements DeviceStorageBackend {
+  readonly kind = 'local' as const;
+
+  constructor(private area: KeyValueStorage = localStorage) {}
+
+  // --- Raw JSON Helpers ---
+
+  private readJson<T>(key: string, fallback: T): T {
+    try {
+      const data = this.area.getItem(key);
+      return data ? JSON.parse(data) : fallback;
+    } catch (e) {
+      return fallback;
+    }
+  }
+
+  private writeJson(key: string, value: unknown): void {
+    this.area.setItem(key, JSON.stringify(value));
+  }
+
+  // --- Typed Collection Helpers ---
+  // Shapes are guaranteed by the schema migrations that run at startup
+
+  private getLocalEntries(): FoodEntry[] {
+    return this.readJson<FoodEntry[]>(LS_KEY, []);
+  }
+
+  private saveLocalEntries(entries: FoodEntry[]): void {
+    try {
+      this.writeJson(LS_KEY, entries);
+    } catch (error: any) {
+      if (isQuotaError(error)) {
+        throw new Error("Browser Storage Full: Your local history (with photos) has reached the browser's 5MB limit. Please delete some old entries in the History tab or connect to Supabase for unlimited cloud storage.");
+      }
+      throw error;
+    }
+  }
+
+  private getLocalSummaries(): LocalSummary[] {
+    return this.readJson<LocalSummary[]>(LS_SUMMARIES_KEY, []);
+  }
+
+  private saveLocalSummaries(summaries: LocalSummary[]): void {
+    try {
+      this.writeJson(LS_SUMMARIES_KEY, summaries);
+    } catch (error: any) {
+      throw new Error("Browser Storage Full: Cannot even save simple summaries. Please clear your browser data.");
+    }
+  }
+
+  private getLocalChatMessages(): LocalChatMessage[] {
+    return this.readJson<LocalChatMessage[]>(LS_COACH_MESSAGES_KEY, []);
+  }
+
+  private saveLocalChatMessages(messages: LocalChatMessage[]): void {
+    try {
+      this.writeJson(LS_COACH_MESSAGES_KEY, messages);
+    } catch (error: any) {
+      console.error('Failed to save chat messages to local storage:', error);
+    }
+  }
+
+  private getLocalWorkoutPlans(): LocalWorkoutPlan[] {
+    return this.readJson<LocalWorkoutPlan[]>(LS_WORKOUT_PLANS_KEY, []);
+  }
+
+  private saveLocalWorkoutPlans(plans: LocalWorkoutPlan[]): void {
+    try {
+      this.writeJson(LS_WORKOUT_PLANS_KEY, plans);
+    } catch (error: any) {
+      console.error('Failed to save workout plans to local storage:', error);
+    }
+  }
+
+  private getLocalTrash(): TrashItem[] {
+    return this.readJson<TrashItem[]>(LS_TRASH_KEY, []);
+  }
+
+  /**
+   * Keep deleted records restorable. They were already removed from their own
+   * key, so running out of room only costs the undo.
+   */
+  private addToTrash(items: TrashItem[]): void {
+    if (items.length === 0) return;
+    try {
+      this.writeJson(LS_TRASH_KEY, [...this.getLocalTrash(), ...items]);
+    } catch (error: any) {
+      console.error('No room to keep deleted records in the trash:', error);
+    }
+  }
+
+  /**
+   * Read a value from a `{ [userId]: value }` map stored under a single key
+   */
+  private getUserScoped<T>(key: string, userId: string): T | null {
+    const map = this.readJson<Record<string, T>>(key, {});
+    return map[userId] ?? null;
+  }
+
+  private saveUserScoped<T>(key: string, userId: string, value: T): void {
+    const map = this.readJson<Record<string, T>>(key, {});
+    map[userId] = value;
+    this.writeJson(key, map);
+  }
+
+  async checkSchema(): Promise<DBCheckResult> {
+    return { ok: true };
+  }
+
+  // --- Food Entries ---
+
+  async saveEntry(userId: string, entry: FoodEntry): Promise<void> {
+    const entries = this.getLocalEntries();
+    const existingIndex = entries.findIndex(e => e.id === entry.id);
+    const entryWithUser = { ...entry, user_id: userId };
+
+    if (existingIndex >= 0) {
+      entries[existingIndex] = entryWithUser;
+    } else {
+      entries.push(entryWithUser);
+    }
+
+    this.saveLocalEntries(entries);
+  }
+
+  async saveEntries(userId: string, incoming: FoodEntry[]): Promise<void> {
+    const entries = this.getLocalEntries();
+    const indexById = new Map(entries.map((e, i) => [e.id, i]));
+
+    incoming.forEach(entry => {
+      const entryWithUser = { ...entry, user_id: userId };
+      const existingIndex = indexById.get(entry.id);
+      if (existingIndex !== undefined) {
+        entries[existingIndex] = entryWithUser;
+      } else {
+        indexById.set(entry.id, entries.push(entryWithUser) - 1);
+      }
+    });
+
+    this.saveLocalEntries(entries);
+  }
+
+  async listEntries(userId: string, query: EntryQuery = {}): Promise<FoodEntry[]> {
+    let entries = this.getLocalEntries()
+      .filter(e => e.user_id === userId && matchesDateRange(e.date, query))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    if (query.projection && query.projection !== 'full') {
+      entries = entries.map(e => ({ ...e, imageUrl: undefined, originalAiResponse: undefined, history: undefined }));
+    }
+
+    return query.limit ? entries.slice(0, query.limit) : entries;
+  }
+
+  async getEntry(userId: string, entryId: string): Promise<FoodEntry | null> {
+    return this.getLocalEntries().find(e => e.id === entryId && e.user_id === userId) || null;
+  }
+
+  async countEntries(userId: string, date: string): Promise<number> {
+    return this.getLocalEntries().filter(e => e.user_id === userId && e.date === date).length;
+  }
+
+  async getEntryImage(userId: string, entryId: string): Promise<string | null> {
+    const entry = this.getLocalEntries().find(e => e.id === entryId && e.user_id === userId);
+    return entry?.imageUrl || null;
+  }
+
+  async clearEntryImage(userId: string, entryId: string): Promise<void> {
+    const entries = this.getLocalEntries();
+    const entryIndex = entries.findIndex(e => e.id === entryId && e.user_id === userId);
+    if (entryIndex >= 0) {
+      entries[entryIndex].imageUrl = undefined;
+      entries[entryIndex].imageKey = undefined;
+      this.saveLocalEntries(entries);
+    }
+  }
+
+  async deleteEntry(userId: string, entryId: string): Promise<void> {
+    const entries = this.getLocalEntries();
+    const entry = entries.find(e => e.id === entryId && e.user_id === userId);
+    if (!entry) return;
+
+    this.saveLocalEntries(entries.filter(e => e !== entry));
+    this.addToTrash([{ ...trashBase('entry', userId, entryId, new Date().toISOString()), kind: 'entry', record: entry }]);
+  }
+
+  async deleteEntriesForDate(userId: string, date: string): Promise<void> {
+    this.saveLocalEntries(this.getLocalEntries().filter(e => !(e.user_id === userId && e.date === date)));
+  }
+
+  // --- Compacted Daily Summaries ---
+
+  async listSummaries(userId: string, query: DateRangeQuery = {}): Promise<DailyTotals[]> {
+    return this.getLocalSummaries()
+      .filter(s => s.user_id === userId && matchesDateRange(s.date, query))
+      .map(mapLocalSummary);
+  }
+
+  async saveSummary(userId: string, summary: DailyTotals): Promise<void> {
+    const row = {
+      id: `${userId}_${summary.date}`,
+      user_id: userId,
+      date: summary.date,
+      total_calories: summary.totalCalories,
+      total_protein: summary.totalProtein,
+      total_carbs: summary.totalCarbs,
+      total_fat: summary.totalFat,
+    };
+
+    const allSummaries = this.getLocalSummaries();
+    const existingIdx = allSummaries.findIndex(s => s.user_id === userId && s.date === summary.date);
+    if (existingIdx >= 0) allSummaries[existingIdx] = row;
+    else allSummaries.push(row);
+    this.saveLocalSummaries(allSummaries);
+  }
+
+  // --- Settings & Profile ---
+
+  async getDailyGoal(userId: string): Promise<number | null> {
+    return this.getUserScoped<number>(LS_SETTINGS_KEY, userId) || null;
+  }
+
+  async saveDailyGoal(userId: string, goal: number): Promise<void> {
+    this.saveUserScoped(LS_SETTINGS_KEY, userId, goal);
+  }
+
+  async getProfile(userId: string): Promise<UserProfile | null> {
+    return this.getUserScoped<UserProfile>(LS_PROFILE_KEY, userId);
+  }
+
+  async saveProfile(userId: string, profile: UserProfile): Promise<void> {
+    this.saveUserScoped(LS_PROFILE_KEY, userId, profile);
+  }
+
+  async getOnboardingComplete(userId: string): Promise<boolean> {
+    return this.getUserScoped<boolean>(LS_ONBOARDING_KEY, userId) === true;
+  }
+
+  async setOnboardingComplete(userId: string): Promise<void> {
+    this.saveUserScoped(LS_ONBOARDING_KEY, userId, true);
+  }
+
+  async getRetentionPolicy(userId: string): Promise<RetentionPolicy | null> {
+    return this.getUserScoped<RetentionPolicy>(LS_RETENTION_KEY, userId);
+  }
+
+  async saveRetentionPolicy(userId: string, policy: RetentionPolicy): Promise<void> {
+    this.saveUserScoped(LS_RETENTION_KEY, userId, policy);
+  }
+
+  // --- Coach Chat ---
+
+  async saveChatMessage(userId: string, message: StoredChatMessage): Promise<void> {
+    const messages = this.getLocalChatMessages();
+    messages.push({ ...message, user_id: userId });
+    this.saveLocalChatMessages(messages);
+  }
+
+  async listChatMessages(userId: string, date: string): Promise<ChatMessage[]> {
+    return this.getLocalChatMessages()
+      .filter(m => m.user_id === userId && m.date === date)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async listAllChatMessages(userId: string): Promise<StoredChatMessage[]> {
+    return this.getLocalChatMessages()
+      .filter(m => m.user_id === userId)
+      .map(({ id, role, content, timestamp, date }) => ({ id, role, content, timestamp, date }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async deleteChatMessage(userId: string, messageId: string): Promise<void> {
+    const messages = this.getLocalChatMessages();
+    const message = messages.find(m => m.id === messageId && m.user_id === userId);
+    if (!message) return;
+
+    this.saveLocalChatMessages(messages.filter(m => m !== message));
+    const { id, role, content, timestamp, date } = message;
+    this.addToTrash([{
+      ...trashBase('chatMessage', userId, messageId, new Date().toISOString()),
+      kind: 'chatMessage',
+      record: { id, role, content, timestamp, date },
+    }]);
+  }
+
+  async deleteChatMessagesBefore(userId: string, date: string): Promise<void> {
+    this.saveLocalChatMessages(this.getLocalChatMessages().filter(m => m.user_id !== userId || m.date >= date));
+  }
+
+  // --- Workout Plans ---
+
+  async saveWorkoutPlan(userId: string, plan: DailyWorkout & { id: string }): Promise<void> {
+    const planWithUser = {
+      id: plan.id,
+      user_id: userId,
+      date: plan.date,
+      title: plan.title,
+      workout_type_id: plan.workoutTypeId,
+      exercises: plan.exercises,
+      revision: plan.revision,
+      edited_at: plan.editedAt
+    };
+
+    const plans = this.getLocalWorkoutPlans();
+    const existingIndex = plans.findIndex(p => p.id === plan.id);
+    if (existingIndex >= 0) {
+      plans[existingIndex] = planWithUser;
+    } else {
+      plans.push(planWithUser);
+    }
+    this.saveLocalWorkoutPlans(plans);
+  }
+
+  async listWorkoutPlans(userId: string, query: DateRangeQuery = {}): Promise<DailyWorkout[]> {
+    return this.getLocalWorkoutPlans()
+      .filter(p => p.user_id === userId && matchesDateRange(p.date, query))
+      .map(mapLocalPlan);
+  }
+
+  async deleteWorkoutPlan(userId: string, planId: string): Promise<void> {
+    this.trashWorkoutPlans(userId, p => p.id === planId);
+  }
+
+  async deleteWorkoutPlansForDate(userId: string, date: string): Promise<void> {
+    this.trashWorkoutPlans(userId, p => p.date === date);
+  }
+
+  private trashWorkoutPlans(userId: string, matches: (plan: LocalWorkoutPlan) => boolean): void {
+    const plans = this.getLocalWorkoutPlans();
+    const removed = plans.filter(p => p.user_id === userId && matches(p));
+    if (removed.length === 0) return;
+
+    this.saveLocalWorkoutPlans(plans.filter(p => !removed.includes(p)));
+    const deletedAt = new Date().toISOString();
+    this.addToTrash(removed.map(p => ({
+      ...trashBase('workoutPlan', userId, p.id, deletedAt),
+      kind: 'workoutPlan' as const,
+      record: { ...mapLocalPlan(p), id: p.id },
+    })));
+  }
+
+  // --- Engagement ---
+
+  async getStreak(userId: string): Promise<StreakData | null> {
+    return this.getUserScoped<StreakData>(LS_STREAK_KEY, userId);
+  }
+
+  async saveStreak(userId: string, data: StreakData): Promise<void> {
+    try {
+      this.saveUserScoped(LS_STREAK_KEY, userId, data);
+    } catch (e) {
+      console.error('Failed to save streak data:', e);
+    }
+  }
+
+  async getWeightGoal(userId: string): Promise<WeightGoal | null> {
+    return this.getUserScoped<WeightGoal>(LS_WEIGHT_GOAL_KEY, userId);
+  }
+
+  async saveWeightGoal(userId: string, goal: WeightGoal): Promise<void> {
+    try {
+      this.saveUserScoped(LS_WEIGHT_GOAL_KEY, userId, goal);
+    } catch (e) {
+      console.error('Failed to save weight goal:', e);
+    }
+  }
+
+  // --- Coach Reports ---
+
+  async getReport(userId: string, reportType: ReportType, periodStart: string, periodEnd: string): Promise<CoachReport | null> {
+    return this.readJson<CoachReport[]>(LS_REPORTS_KEY, []).find(r =>
+      r.userId === userId &&
+      r.reportType === reportType &&
+      r.periodStart === periodStart &&
+      r.periodEnd === periodEnd
+    ) || null;
+  }
+
+  async saveReport(userId: string, report: CoachReport): Promise<void> {
+    // Replace any existing report for the same period
+    const reports = this.readJson<CoachReport[]>(LS_REPORTS_KEY, []).filter(r =>
+      !(r.userId === userId &&
+        r.reportType === report.reportType &&
+        r.periodStart === report.periodStart &&
+        r.periodEnd === report.periodEnd)
+    );
+    reports.push({ ...report, userId });
+    this.writeJson(LS_REPORTS_KEY, reports);
+  }
+
+  async listReports(userId: string): Promise<CoachReport[]> {
+    return this.readJson<CoachReport[]>(LS_REPORTS_KEY, [])
+      .filter(r => r.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // --- AI Usage ---
+
+  async saveAIUsage(userId: string, record: AIUsageRecord): Promise<void> {
+    const records = this.readJson<(AIUsageRecord & { user_id: string })[]>(LS_AI_USAGE_KEY, []);
+    records.push({ ...record, user_id: userId });
+    this.writeJson(LS_AI_USAGE_KEY, records.slice(-MAX_AI_USAGE_RECORDS));
+  }
+
+  async listAIUsage(userId: string, query?: DateRangeQuery): Promise<AIUsageRecord[]> {
+    return this.readJson<(AIUsageRecord & { user_id: string })[]>(LS_AI_USAGE_KEY, [])
+      .filter(r => r.user_id === userId && matchesDateRange(r.date, query))
+      .map(({ user_id, ...record }) => record)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getAIUsageCaps(userId: string): Promise<AIUsageCaps | null> {
+    return this.getUserScoped<AIUsageCaps>(LS_AI_CAPS_KEY, userId);
+  }
+
+  async saveAIUsageCaps(userId: string, caps: AIUsageCaps): Promise<void> {
+    this.saveUserScoped(LS_AI_CAPS_KEY, userId, caps);
+  }
+
+  // --- Trash ---
+
+  async listTrash(userId: string): Promise<TrashItem[]> {
+    return this.getLocalTrash()
+      .filter(i => i.userId === userId)
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  async restoreFromTrash(userId: string, itemId: string): Promise<void> {
+    const item = this.getLocalTrash().find(i => i.id === itemId && i.userId === userId);
+    if (!item) return;
+
+    switch (item.kind) {
+      case 'entry':
+        await this.saveEntry(userId, item.record);
+        break;
+      case 'workoutPlan':
+        await this.saveWorkoutPlan(userId, item.record);
+        break;
+      case 'chatMessage':
+        await this.saveChatMessage(userId, item.record);
+        break;
+    }
+    await this.purgeFromTrash(userId, itemId);
+  }
+
+  async purgeFromTrash(userId: string, itemId: string): Promise<void> {
+    this.writeJson(LS_TRASH_KEY, this.getLocalTrash().filter(i => !(i.id === itemId && i.userId === userId)));
+  }
+
+  // --- Account Deletion ---
+
+  async deleteUserData(userId: string): Promise<DeletedRecords> {
+    const removed = noDeletedRecords();
+    const split = <T extends { user_id?: string }>(records: T[]): { mine: T[]; others: T[] } => ({
+      mine: records.filter(r => r.user_id === userId),
+      others: records.filter(r => r.user_id !== userId),
+    });
+
+    const entries = split(this.getLocalEntries());
+    const summaries = split(this.getLocalSummaries());
+    const messages = split(this.getLocalChatMessages());
+    const plans = split(this.getLocalWorkoutPlans());
+    const trash = this.getLocalTrash();
+    const trashed = trash.filter(i => i.userId === userId);
+    const reports = this.readJson<CoachReport[]>(LS_REPORTS_KEY, []);
+    const usage = split(this.readJson<{ user_id: string }[]>(LS_AI_USAGE_KEY, []));
+
+    removed.entries = entries.mine.length + trashed.filter(i => i.kind === 'entry').length;
+    removed.summaries = summaries.mine.length;
+    removed.chatMessages = messages.mine.length + trashed.filter(i => i.kind === 'chatMessage').length;
+    removed.workoutPlans = plans.mine.length + trashed.filter(i => i.kind === 'workoutPlan').length;
+    removed.reports = reports.filter(r => r.userId === userId).length;
+    removed.aiUsage = usage.mine.length;
+    // Photos are stored inline on the entry here
+    removed.photos = [...entries.mine, ...trashed.map(i => i.kind === 'entry' ? i.record : {})]
+      .filter((e: Partial<FoodEntry>) => !!e.imageUrl).length;
+
+    this.saveLocalEntries(entries.others);
+    this.saveLocalSummaries(summaries.others);
+    this.saveLocalChatMessages(messages.others);
+    this.saveLocalWorkoutPlans(plans.others);
+    this.writeJson(LS_TRASH_KEY, trash.filter(i => i.userId !== userId));
+    this.writeJson(LS_REPORTS_KEY, reports.filter(r => r.userId !== userId));
+    this.writeJson(LS_AI_USAGE_KEY, usage.others);
+    [LS_OUTBOX_KEY, LS_CONFLICTS_KEY].forEach(key => {
+      this.writeJson(key, this.readJson<{ userId: string }[]>(key, []).filter(i => i.userId !== userId));
+    });
+
+    USER_SCOPED_KEYS.forEach(key => {
+      const map = this.readJson<Record<string, unknown>>(key, {});
+      if (!(userId in map)) return;
+      delete map[userId];
+      this.writeJson(key, map);
+      removed.settings++;
+    });
+
+    return removed;
+  }
+
+  // --- Migration Helpers ---
+
+  async readDeviceSnapshot(): Promise<DeviceSnapshot> {
+    const settings = this.readJson<Record<string, number>>(LS_SETTINGS_KEY, {});
+    const profiles = this.readJson<Record<string, UserProfile>>(LS_PROFILE_KEY, {});
+    const firstSettingsKey = Object.keys(settings)[0];
+    const firstProfileKey = Object.keys(profiles)[0];
+
+    return {
+      entries: this.getLocalEntries(),
+      dailyGoal: firstSettingsKey ? settings[firstSettingsKey] || null : null,
+      profile: firstProfileKey ? profiles[firstProfileKey] || null : null,
+    };
+  }
+
+  async clearDeviceSnapshot(): Promise<void> {
+    this.area.removeItem(LS_KEY);
+    this.area.removeItem(LS_SUMMARIES_KEY);
+    this.area.removeItem(LS_SETTINGS_KEY);
+    this.area.removeItem(LS_PROFILE_KEY);
+  }
+
+  async listDeviceUsers(): Promise<string[]> {
+    const users = new Set<string>();
+    const owned: { user_id?: string }[] = [
+      ...this.getLocalEntries(),
+      ...this.getLocalSummaries(),
+      ...this.getLocalChatMessages(),
+      ...this.getLocalWorkoutPlans(),
+    ];
+    owned.forEach(r => r.user_id && users.add(r.user_id));
+    this.readJson<CoachReport[]>(LS_REPORTS_KEY, []).forEach(r => users.add(r.userId));
+    this.getLocalTrash().forEach(i => users.add(i.userId));
+
+    USER_SCOPED_KEYS.forEach(key => Object.keys(this.readJson<Record<string, unknown>>(key, {})).forEach(id => users.add(id)));
+    return Array.from(users);
+  }
+
+  async clearDevice(): Promise<void> {
+    [...Object.values(LOCAL_STORAGE_KEYS), LS_OUTBOX_KEY, LS_CONFLICTS_KEY].forEach(key => this.area.removeItem(key));
+  }
+
+  // --- Offline Outbox ---
+
+  async listOutbox(): Promise<OutboxItem[]> {
+    return this.readJson<OutboxItem[]>(LS_OUTBOX_KEY, []);
+  }
+
+  async putOutboxItem(item: OutboxItem): Promise<OutboxItem> {
+    const items = this.readJson<OutboxItem[]>(LS_OUTBOX_KEY, []);
+    const existingIndex = items.findIndex(i => i.seq === item.seq);
+    let saved: OutboxItem;
+
+    if (item.seq !== undefined && existingIndex >= 0) {
+      saved = item;
+      items[existingIndex] = saved;
+    } else {
+      const lastSeq = items.length > 0 ? items[items.length - 1].seq || 0 : 0;
+      saved = { ...item, seq: lastSeq + 1 };
+      items.push(saved);
+    }
+
+    try {
+      this.writeJson(LS_OUTBOX_KEY, items);
+    } catch (error: any) {
+      if (isQuotaError(error)) {
+        throw new Error("Browser Storage Full: There's no room left to keep this change until you're back online. Please delete some old entries in the History tab.");
+      }
+      throw error;
+    }
+    return saved;
+  }
+
+  async deleteOutboxItem(seq: number): Promise<void> {
+    this.writeJson(LS_OUTBOX_KEY, this.readJson<OutboxItem[]>(LS_OUTBOX_KEY, []).filter(i => i.seq !== seq));
+  }
+
+  // --- Conflict Log ---
+
+  async listConflicts(): Promise<ConflictItem[]> {
+    return this.readJson<ConflictItem[]>(LS_CONFLICTS_KEY, []);
+  }
+
+  async putConflict(item: ConflictItem): Promise<void> {
+    const items = this.readJson<ConflictItem[]>(LS_CONFLICTS_KEY, []).filter(i => i.id !== item.id);
+    this.writeJson(LS_CONFLICTS_KEY, [...items, item]);
+  }
+
+  async deleteConflict(id: string): Promise<void> {
+    this.writeJson(LS_CONFLICTS_KEY, this.readJson<ConflictItem[]>(LS_CONFLICTS_KEY, []).filter(i => i.id !== id));
+  }
+}
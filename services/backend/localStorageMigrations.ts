@@ -0,0 +1,237 @@
+/**
+ * localStorage Schema Migrations
+ * The localStorage backend's keys carry a fixed `_v1` suffix, so record shape
+ * changes are tracked by a separate schema version instead. At startup every
+ * registered step newer than the stored version runs once, in order.
+ *
+ * Steps must be idempotent - a crash between a step and the version bump
+ * runs it again on the next launch. Records that fail validation are moved
+ * to a quarantine key rather than left to crash reads.
+ *
+ * Encrypted local data has the same layout inside the vault, so the same
+ * steps run there once it's unlocked, with its own version and quarantine.
+ */
+
+import { z } from 'zod';
+import { LOCAL_STORAGE_KEYS } from './localStorageBackend';
+import { KeyValueStorage } from './types';
+import {
+  LocalEntrySchema,
+  LocalSummarySchema,
+  LocalChatMessageSchema,
+  LocalWorkoutPlanSchema,
+  LocalReportSchema,
+  LocalDailyGoalSchema,
+  LocalProfileSchema,
+  LocalOnboardingSchema,
+  LocalStreakSchema,
+  LocalWeightGoalSchema,
+  LocalRetentionPolicySchema,
+} from '../../utils/localStorageSchemas';
+
+const SCHEMA_VERSION_KEY = 'snapcal_schema_version';
+const QUARANTINE_KEY = 'snapcal_quarantine_v1';
+
+export interface QuarantinedRecord {
+  key: string;            // localStorage key the record was removed from
+  userId?: string;        // Owner, for `{ [userId]: value }` keys
+  record: unknown;        // Raw record (or raw text when the key wasn't valid JSON)
+  reason: string;
+  quarantinedAt: string;
+}
+
+interface LocalMigration {
+  version: number;
+  description: string;
+  run: (store: KeyValueStorage) => void;
+}
+
+// --- Raw Access ---
+
+const UNREADABLE = Symbol('unreadable');
+
+/**
+ * Parsed value under `key`, undefined when absent.
+ * Text that isn't JSON is quarantined and the key removed.
+ */
+const readRaw = (store: KeyValueStorage, key: string): unknown => {
+  const text = store.getItem(key);
+  if (text === null) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    quarantine(store, key, text, 'Not valid JSON');
+    store.removeItem(key);
+    return UNREADABLE;
+  }
+};
+
+const quarantine = (store: KeyValueStorage, key: string, record: unknown, reason: string, userId?: string): void => {
+  console.warn(`Quarantined a record from ${key}: ${reason}`);
+  const item: QuarantinedRecord = { key, userId, record, reason, quarantinedAt: new Date().toISOString() };
+  try {
+    store.setItem(QUARANTINE_KEY, JSON.stringify([...listQuarantinedRecords(store), item]));
+  } catch (e) {
+    // No room to keep it - the console is the last copy
+    console.error('Failed to quarantine record, dropping it:', item, e);
+  }
+};
+
+const describeIssue = (error: z.ZodError): string => {
+  const issue = error.issues[0];
+  return `${issue.path.join('.') || 'record'}: ${issue.message}`;
+};
+
+// --- Validation ---
+
+/**
+ * Keep the records of an array key that match `schema` (with defaults applied)
+ */
+const validateCollection = (store: KeyValueStorage, key: string, schema: z.ZodType): void => {
+  const raw = readRaw(store, key);
+  if (raw === undefined || raw === UNREADABLE) return;
+  if (!Array.isArray(raw)) {
+    quarantine(store, key, raw, 'Expected a list of records');
+    store.removeItem(key);
+    return;
+  }
+
+  const valid = raw.flatMap(record => {
+    const result = schema.safeParse(record);
+    if (result.success) return [result.data];
+    quarantine(store, key, record, describeIssue(result.error));
+    return [];
+  });
+  store.setItem(key, JSON.stringify(valid));
+};
+
+/**
+ * Keep the values of a `{ [userId]: value }` key that match `schema`
+ */
+const validateUserScoped = (store: KeyValueStorage, key: string, schema: z.ZodType): void => {
+  const raw = readRaw(store, key);
+  if (raw === undefined || raw === UNREADABLE) return;
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    quarantine(store, key, raw, 'Expected a map of user IDs');
+    store.removeItem(key);
+    return;
+  }
+
+  const valid: Record<string, unknown> = {};
+  for (const [userId, value] of Object.entries(raw)) {
+    const result = schema.safeParse(value);
+    if (result.success) valid[userId] = result.data;
+    else quarantine(store, key, value, describeIssue(result.error), userId);
+  }
+  store.setItem(key, JSON.stringify(valid));
+};
+
+// --- Registry ---
+
+/**
+ * Ordered upgrade steps. Append new steps with the next version - never edit
+ * or reorder a released one.
+ */
+const LOCAL_MIGRATIONS: LocalMigration[] = [
+  {
+    version: 1,
+    description: 'Store daily summaries under the daily_summaries column names',
+    run: store => {
+      const raw = readRaw(store, LOCAL_STORAGE_KEYS.summaries);
+      if (!Array.isArray(raw)) return;
+
+      // Older builds wrote camelCase totals and no id
+      const summaries = raw.map(s => {
+        if (typeof s !== 'object' || s === null) return s;
+        const { totalCalories, totalProtein, totalCarbs, totalFat, ...rest } = s;
+        return {
+          ...rest,
+          id: s.id || `${s.user_id}_${s.date}`,
+          total_calories: s.total_calories ?? totalCalories ?? 0,
+          total_protein: s.total_protein ?? totalProtein ?? 0,
+          total_carbs: s.total_carbs ?? totalCarbs ?? 0,
+          total_fat: s.total_fat ?? totalFat ?? 0,
+        };
+      });
+      store.setItem(LOCAL_STORAGE_KEYS.summaries, JSON.stringify(summaries));
+    },
+  },
+  {
+    version: 2,
+    description: 'Validate stored records and quarantine corrupted ones',
+    run: store => {
+      validateCollection(store, LOCAL_STORAGE_KEYS.entries, LocalEntrySchema);
+      validateCollection(store, LOCAL_STORAGE_KEYS.summaries, LocalSummarySchema);
+      validateCollection(store, LOCAL_STORAGE_KEYS.coachMessages, LocalChatMessageSchema);
+      validateCollection(store, LOCAL_STORAGE_KEYS.workoutPlans, LocalWorkoutPlanSchema);
+      validateCollection(store, LOCAL_STORAGE_KEYS.reports, LocalReportSchema);
+      validateUserScoped(store, LOCAL_STORAGE_KEYS.settings, LocalDailyGoalSchema);
+      validateUserScoped(store, LOCAL_STORAGE_KEYS.profiles, LocalProfileSchema);
+      validateUserScoped(store, LOCAL_STORAGE_KEYS.onboarding, LocalOnboardingSchema);
+      validateUserScoped(store, LOCAL_STORAGE_KEYS.streaks, LocalStreakSchema);
+      validateUserScoped(store, LOCAL_STORAGE_KEYS.weightGoals, LocalWeightGoalSchema);
+      validateUserScoped(store, LOCAL_STORAGE_KEYS.retention, LocalRetentionPolicySchema);
+    },
+  },
+];
+
+export const LOCAL_SCHEMA_VERSION = LOCAL_MIGRATIONS[LOCAL_MIGRATIONS.length - 1].version;
+
+export const getLocalSchemaVersion = (store: KeyValueStorage = localStorage): number => {
+  const version = parseInt(store.getItem(SCHEMA_VERSION_KEY) || '0', 10);
+  return Number.isFinite(version) ? version : 0;
+};
+
+/**
+ * Bring localStorage (or an unlocked vault) up to LOCAL_SCHEMA_VERSION. Runs
+ * synchronously at startup, and on unlock, before any backend reads. A failing
+ * step stops the run and is retried next launch.
+ */
+export const runLocalStorageMigrations = (target?: KeyValueStorage): void => {
+  let store: KeyValueStorage;
+  let version: number;
+  try {
+    store = target ?? localStorage;
+    version = getLocalSchemaVersion(store);
+  } catch (e) {
+    return; // localStorage blocked (e.g. disabled cookies) - nothing to migrate
+  }
+
+  for (const migration of LOCAL_MIGRATIONS) {
+    if (migration.version <= version) continue;
+    try {
+      migration.run(store);
+      store.setItem(SCHEMA_VERSION_KEY, String(migration.version));
+      version = migration.version;
+      console.log(`🗂️ Local schema v${migration.version}: ${migration.description}`);
+    } catch (e) {
+      console.error(`Local schema migration v${migration.version} failed:`, e);
+      return;
+    }
+  }
+};
+
+/**
+ * Records removed by validation, oldest first
+ */
+export const listQuarantinedRecords = (store: KeyValueStorage = localStorage): QuarantinedRecord[] => {
+  try {
+    const items = JSON.parse(store.getItem(QUARANTINE_KEY) || '[]');
+    return Array.isArray(items) ? items : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+/**
+ * Remove quarantined records - all of them, or just one user's
+ */
+export const clearQuarantinedRecords = (userId?: string, store: KeyValueStorage = localStorage): void => {
+  const owner = (item: QuarantinedRecord) => item.userId ?? (item.record as { user_id?: string } | null)?.user_id;
+  const kept = userId ? listQuarantinedRecords(store).filter(item => owner(item) !== userId) : [];
+  if (kept.length > 0) {
+    store.setItem(QUARANTINE_KEY, JSON.stringify(kept));
+  } else {
+    store.removeItem(QUARANTINE_KEY);
+  }
+};
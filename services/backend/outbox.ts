@@ -0,0 +1,246 @@
+/**
+ * Offline Outbox
+ * Persistent queue of cloud writes made while Supabase was unreachable.
+ * Queued writes are overlaid on cloud reads and replayed in order once
+ * the browser is back online.
+ */
+
+import { FoodEntry, DailyWorkout } from '../../types';
+import { DeviceStorageBackend, EntryQuery, DateRangeQuery, OutboxItem, OutboxMutation } from './types';
+import { matchesDateRange } from './dateRange';
+
+export const OUTBOX_CHANGED_EVENT = 'outbox-changed';
+
+export interface OutboxSummary {
+  pending: number;
+  failed: number;
+}
+
+type MutationRunner = (userId: string, mutation: OutboxMutation) => Promise<void>;
+
+const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Whether a failed request never reached Supabase (offline, DNS, dropped connection)
+ * as opposed to being rejected by it
+ */
+export const isNetworkError = (error: any): boolean => {
+  if (isOffline()) return true;
+  const message = String(error?.message || error || '').toLowerCase();
+  return message.includes('failed to fetch') ||
+    message.includes('networkerror') ||
+    message.includes('network request failed') ||
+    message.includes('load failed') ||
+    message.includes('fetch failed');
+};
+
+/**
+ * Human readable label for the queue UI
+ */
+export const describeMutation = (mutation: OutboxMutation): string => {
+  switch (mutation.type) {
+    case 'saveEntry': return `Save "${mutation.entry.food_item}"`;
+    case 'deleteEntry': return 'Delete meal';
+    case 'clearEntryImage': return 'Remove meal photo';
+    case 'saveWorkoutPlan': return `Save workout "${mutation.plan.title}"`;
+    case 'deleteWorkoutPlan': return 'Delete workout';
+  }
+};
+
+const stripEntryForList = (entry: FoodEntry): FoodEntry => ({ ...entry, imageUrl: undefined, originalAiResponse: undefined, history: undefined });
+
+/**
+ * Apply queued entry writes on top of entries read from Supabase
+ */
+export const overlayEntries = (entries: FoodEntry[], items: OutboxItem[], query: EntryQuery = {}): FoodEntry[] => {
+  const byId = new Map(entries.map(e => [e.id, e]));
+  let touched = false;
+
+  items.forEach(({ mutation }) => {
+    switch (mutation.type) {
+      case 'saveEntry':
+        // An edit may move the entry out of the queried range
+        if (matchesDateRange(mutation.entry.date, query)) byId.set(mutation.entry.id, mutation.entry);
+        else byId.delete(mutation.entry.id);
+        touched = true;
+        break;
+      case 'deleteEntry':
+        byId.delete(mutation.entryId);
+        touched = true;
+        break;
+      case 'clearEntryImage': {
+        const existing = byId.get(mutation.entryId);
+        if (existing) byId.set(mutation.entryId, { ...existing, imageUrl: undefined, imageKey: undefined });
+        touched = true;
+        break;
+      }
+    }
+  });
+
+  if (!touched) return entries;
+
+  let result = Array.from(byId.values()).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  if (query.projection && query.projection !== 'full') result = result.map(stripEntryForList);
+  return query.limit ? result.slice(0, query.limit) : result;
+};
+
+/**
+ * Latest queued image for an entry: a data URL, null when removed,
+ * or undefined when nothing queued touches it
+ */
+export const overlayEntryImage = (entryId: string, items: OutboxItem[]): string | null | undefined => {
+  let image: string | null | undefined;
+  items.forEach(({ mutation }) => {
+    if (mutation.type === 'saveEntry' && mutation.entry.id === entryId) image = mutation.entry.imageUrl || null;
+    if ((mutation.type === 'deleteEntry' || mutation.type === 'clearEntryImage') && mutation.entryId === entryId) image = null;
+  });
+  return image;
+};
+
+/**
+ * Apply queued workout plan writes on top of merged device/cloud plans
+ */
+export const overlayWorkoutPlans = (plans: DailyWorkout[], items: OutboxItem[], query: DateRangeQuery = {}): DailyWorkout[] => {
+  const byId = new Map(plans.map(p => [p.id, p]));
+
+  items.forEach(({ mutation }) => {
+    if (mutation.type === 'saveWorkoutPlan') {
+      if (matchesDateRange(mutation.plan.date, query)) byId.set(mutation.plan.id, mutation.plan);
+      else byId.delete(mutation.plan.id);
+    } else if (mutation.type === 'deleteWorkoutPlan') {
+      byId.delete(mutation.planId);
+    }
+  });
+
+  return Array.from(byId.values());
+};
+
+export class Outbox {
+  private flushing: Promise<number> | null = null;
+  private flushAgain = false;
+
+  constructor(
+    private readonly device: DeviceStorageBackend,
+    private readonly run: MutationRunner
+  ) { }
+
+  /**
+   * Queued items in replay order, optionally for a single user
+   */
+  async list(userId?: string): Promise<OutboxItem[]> {
+    const items = await this.device.listOutbox();
+    return userId ? items.filter(i => i.userId === userId) : items;
+  }
+
+  async summary(): Promise<OutboxSummary> {
+    const items = await this.device.listOutbox();
+    return {
+      pending: items.filter(i => i.status === 'pending').length,
+      failed: items.filter(i => i.status === 'failed').length,
+    };
+  }
+
+  /**
+   * Run a write now, or queue it when Supabase can't be reached.
+   * Writes also queue behind pending items so replay order matches the user's order.
+   */
+  async submit(userId: string, mutation: OutboxMutation): Promise<void> {
+    const hasPending = (await this.list(userId)).some(i => i.status === 'pending');
+
+    if (!hasPending && !isOffline()) {
+      try {
+        await this.run(userId, mutation);
+        return;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    await this.device.putOutboxItem({
+      userId,
+      mutation,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      status: 'pending',
+    });
+    console.log(`📥 Queued offline change: ${describeMutation(mutation)}`);
+    await this.notify();
+
+    if (hasPending && !isOffline()) void this.flush();
+  }
+
+  /**
+   * Replay pending items in order. Resolves with how many reached Supabase.
+   * Calls made during a run share it, and trigger one more pass at the end.
+   */
+  flush(): Promise<number> {
+    if (this.flushing) {
+      this.flushAgain = true;
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      let replayed = 0;
+      do {
+        this.flushAgain = false;
+        replayed += await this.replay();
+      } while (this.flushAgain);
+      return replayed;
+    })().finally(() => { this.flushing = null; });
+
+    return this.flushing;
+  }
+
+  /**
+   * Put a failed item back in the queue and replay it
+   */
+  async retry(seq: number): Promise<number> {
+    const item = (await this.device.listOutbox()).find(i => i.seq === seq);
+    if (item) await this.device.putOutboxItem({ ...item, status: 'pending' });
+    return this.flush();
+  }
+
+  /**
+   * Drop an item without sending it
+   */
+  async discard(seq: number): Promise<void> {
+    await this.device.deleteOutboxItem(seq);
+    await this.notify();
+  }
+
+  private async replay(): Promise<number> {
+    if (isOffline()) return 0;
+
+    const items = (await this.device.listOutbox()).filter(i => i.status === 'pending');
+    if (items.length === 0) return 0;
+
+    let replayed = 0;
+    for (const item of items) {
+      try {
+        await this.run(item.userId, item.mutation);
+        await this.device.deleteOutboxItem(item.seq!);
+        replayed++;
+      } catch (error: any) {
+        const lastError = error?.message || String(error);
+        if (isNetworkError(error)) {
+          // Connection dropped again - keep the rest for the next 'online' event
+          await this.device.putOutboxItem({ ...item, attempts: item.attempts + 1, lastError });
+          break;
+        }
+        // Rejected by Supabase - park it so it doesn't block later writes
+        console.error(`Offline change failed: ${describeMutation(item.mutation)}`, error);
+        await this.device.putOutboxItem({ ...item, attempts: item.attempts + 1, status: 'failed', lastError });
+      }
+    }
+
+    if (replayed > 0) console.log(`☁️ Replayed ${replayed} offline change(s) to Supabase`);
+    await this.notify();
+    return replayed;
+  }
+
+  private async notify(): Promise<void> {
+    if (typeof window === 'undefined') return;
+    const detail = await this.summary();
+    window.dispatchEvent(new CustomEvent<OutboxSummary>(OUTBOX_CHANGED_EVENT, { detail }));
+  }
+}
@@ -0,0 +1,964 @@
+/**
+ * Supabase Backend
+ * Cloud persistence via PostgREST. Workout plans, streaks, weight goals and
+ * onboarding status are also mirrored to device storage so they stay usable
+ * when Supabase is unreachable. Entry and workout plan writes made while
+ * offline go through the outbox and replay when connectivity returns.
+ *
+ * Deletes, compaction and retention cleanup included, are soft (`deleted = true`)
+ * so other devices pick them up on sync.
+ * User deletions also stamp `deleted_at`, which keeps the row in the trash
+ * until it's restored or purged.
+ * When a read can't reach Supabase it falls back to the device replica the
+ * sync engine keeps up to date.
+ */
+
+import { supabase } from '../supabase';
+import { FoodEntry, UserProfile, DailyWorkout, StreakData, WeightGoal, CoachReport, RetentionPolicy } from '../../types';
+import type { ChatMessage } from '../coach';
+import type { AIUsageRecord, AIUsageCaps } from '../ai/types';
+import {
+  StorageBackend,
+  DeviceStorageBackend,
+  DBCheckResult,
+  EntryQuery,
+  EntryProjection,
+  DateRangeQuery,
+  DailyTotals,
+  ReportType,
+  StoredChatMessage,
+  OutboxMutation,
+  SyncTable,
+  TrashItem,
+  TrashKind,
+  DeletedRecords,
+  isSyncableDevice,
+  parseTrashItemId,
+  noDeletedRecords,
+} from './types';
+import { Outbox, isNetworkError, overlayEntries, overlayEntryImage, overlayWorkoutPlans } from './outbox';
+import { ConflictResolver } from './conflicts';
+import { SupabaseMediaStore } from './supabaseMedia';
+import {
+  mapRowToEntry,
+  mapEntryToRow,
+  mapRowToSummary,
+  mapSummaryToRow,
+  mapChatMessageToRow,
+  mapRowToPlan,
+  mapRowToProfile,
+  mapProfileToRow,
+  mapRowToStreak,
+  mapStreakToRow,
+  mapRowToWeightGoal,
+  mapWeightGoalToRow,
+  mapRowToReport,
+  mapReportToRow,
+  mapRowToTrashItem,
+  mapRowToAIUsage,
+  mapAIUsageToRow,
+} from './supabaseMappers';
+
+// Every table with rows owned by a user, and what they count as when an account is deleted.
+// Unsynced tables have no tombstones - every row counts.
+const USER_TABLES: { name: string; kind: keyof DeletedRecords; trash?: boolean; unsynced?: boolean }[] = [
+  { name: 'food_entries', kind: 'entries', trash: true },
+  { name: 'daily_summaries', kind: 'summaries' },
+  { name: 'workout_plans', kind: 'workoutPlans', trash: true },
+  { name: 'coach_messages', kind: 'chatMessages', trash: true },
+  { name: 'coach_reports', kind: 'reports' },
+  { name: 'user_profiles', kind: 'settings' },
+  { name: 'user_settings', kind: 'settings' },
+  { name: 'user_streaks', kind: 'settings' },
+  { name: 'user_weight_goals', kind: 'settings' },
+  { name: 'ai_usage', kind: 'aiUsage', unsynced: true },
+];
+
+// --- PostgREST Column Selection (Bandwidth Optimization) ---
+const ENTRY_COLUMNS: Record<EntryProjection, string> = {
+  // Full columns: for single entry detail views
+  full: 'id, user_id, timestamp, date, time, time_zone, food_item, calories, protein, carbs, fat, confidence, image_url, image_key, is_manual, ingredients, original_ai_response, edit_history, revision, edited_at',
+  // Lite columns: for list views (excludes heavy image_url, original_ai_response and edit_history)
+  lite: 'id, user_id, timestamp, date, time, time_zone, food_item, calories, protein, carbs, fat, confidence, image_key, is_manual, ingredients, revision, edited_at',
+  // Aggregate columns: for cleanup/summary calculations only
+  aggregate: 'id, date, timestamp, calories, protein, carbs, fat',
+};
+
+// PostgREST stops at its max_rows cap (1000 by default) without an error, so long reads go in pages
+const READ_PAGE_SIZE = 1000;
+
+// Entries may carry base64 images, so bulk upserts go in small batches
+const UPSERT_CHUNK_SIZE = 5;
+
+const SUMMARY_COLUMNS = 'date, total_calories, total_protein, total_carbs, total_fat';
+const PROFILE_COLUMNS = 'name, height, weight, age, gender, activity_level, goal, equipment_access, target_weight, day_starts_at';
+const STREAK_COLUMNS = 'current_streak, longest_streak, last_log_date, streak_freezes, last_freeze_used_date, qualifying_dates';
+const REPORT_COLUMNS = 'id, user_id, report_type, period_start, period_end, summary, tips, metrics, weight_at_report, created_at';
+const AI_USAGE_COLUMNS = 'id, task, provider, model, input_tokens, output_tokens, latency_ms, outcome, error, date, created_at';
+
+// Rows cleanup still has to remove: live ones and ones in the trash
+const LIVE_OR_TRASHED = 'deleted.eq.false,deleted_at.not.is.null';
+
+const TRASH_TABLES: Record<TrashKind, { name: string; store: SyncTable; columns: string }> = {
+  entry: { name: 'food_entries', store: 'entries', columns: `${ENTRY_COLUMNS.lite}, deleted_at` },
+  workoutPlan: { name: 'workout_plans', store: 'workout_plans', columns: 'id, user_id, date, title, workout_type_id, exercises, revision, edited_at, deleted_at' },
+  chatMessage: { name: 'coach_messages', store: 'coach_messages', columns: 'id, user_id, role, content, timestamp, date, deleted_at' },
+};
+
+/**
+ * The queued, not yet sent, delete of a trashed record
+ */
+const isQueuedDelete = (mutation: OutboxMutation, kind: TrashKind, recordId: string): boolean =>
+  (kind === 'entry' && mutation.type === 'deleteEntry' && mutation.entryId === recordId) ||
+  (kind === 'workoutPlan' && mutation.type === 'deleteWorkoutPlan' && mutation.planId === recordId);
+
+export const handleStorageError = (error: any, operation: string): never => {
+  console.error(`Supabase ${operation} Error:`, error);
+  const message = error?.message || String(error) || "";
+  const lowMsg = message.toLowerCase();
+
+  if (lowMsg.includes("quota") || lowMsg.includes("limit") || lowMsg.includes("tier")) {
+    throw new Error("Cloud Quota Reached: Your Supabase storage limit has been exceeded. Try deleting old entries.");
+  }
+
+  if (lowMsg.includes("relation") || lowMsg.includes("column") || lowMsg.includes("does not exist")) {
+    throw new Error(`Database Setup Required: It looks like the 'food_entries' table is missing in Supabase. Please check the Profile tab for the setup SQL script.`);
+  }
+
+  if (lowMsg.includes("policy") || lowMsg.includes("permission") || lowMsg.includes("row-level security")) {
+    throw new Error("Permission Denied: Supabase RLS policies are blocking this save. Ensure authenticated users have 'INSERT' and 'UPDATE' access.");
+  }
+
+  throw new Error(`Cloud Save Failed: ${message}`);
+};
+
+/**
+ * Apply a date range to a PostgREST filter builder
+ */
+const applyDateRange = <Q extends { eq: any; gte: any; lte: any; lt: any }>(builder: Q, query: DateRangeQuery = {}): Q => {
+  let q: any = builder;
+  if (query.date) q = q.eq('date', query.date);
+  if (query.startDate) q = q.gte('date', query.startDate);
+  if (query.endDate) q = q.lte('date', query.endDate);
+  if (query.beforeDate) q = q.lt('date', query.beforeDate);
+  return q;
+};
+
+/**
+ * Run a select page by page until a short page comes back, stopping at `limit`
+ * rows if given. `select` builds the query afresh for every page and must
+ * order it by a unique key so pages don't overlap.
+ */
+const selectAllPages = async (select: () => any, limit?: number): Promise<{ data: any[] | null; error: any }> => {
+  const rows: any[] = [];
+  for (let offset = 0; ; offset += READ_PAGE_SIZE) {
+    const pageSize = limit ? Math.min(READ_PAGE_SIZE, limit - offset) : READ_PAGE_SIZE;
+    const { data, error } = await select().range(offset, offset + pageSize - 1);
+    if (error) return { data: null, error };
+
+    rows.push(...(data || []));
+    if (!data || data.length < pageSize || (limit && rows.length >= limit)) return { data: rows, error: null };
+  }
+};
+
+export class SupabaseBackend implements StorageBackend {
+  readonly kind = 'cloud' as const;
+
+  readonly outbox: Outbox;
+
+  readonly conflicts: ConflictResolver;
+
+  constructor(private readonly mirror: DeviceStorageBackend) {
+    this.outbox = new Outbox(mirror, (userId, mutation) => this.push(userId, mutation));
+    this.conflicts = new ConflictResolver(mirror);
+  }
+
+  /**
+   * Copy a confirmed cloud write into the device replica so offline reads see it
+   */
+  private async replicate(table: SyncTable, records: any[]): Promise<void> {
+    if (!isSyncableDevice(this.mirror)) return;
+    try {
+      const updated_at = new Date().toISOString();
+      await this.mirror.applyRemoteRecords(table, records.map(r => ({ ...r, updated_at })));
+    } catch (e) {
+      console.warn('Failed to update device replica:', e);
+    }
+  }
+
+  /**
+   * Send a single write to Supabase, throwing on failure
+   * Used directly when online and by the outbox when replaying
+   */
+  private async push(userId: string, mutation: OutboxMutation): Promise<void> {
+    switch (mutation.type) {
+      case 'saveEntry': {
+        try {
+          await this.conflicts.saveEntry(userId, mutation.entry);
+        } catch (error) {
+          handleStorageError(error, "Save Entry");
+        }
+        return;
+      }
+      case 'deleteEntry': {
+        const { error } = await supabase
+          .from('food_entries')
+          .update({ deleted: true, deleted_at: mutation.deletedAt || new Date().toISOString() })
+          .eq('id', mutation.entryId)
+          .eq('user_id', userId);
+
+        if (error) handleStorageError(error, "Delete Entry");
+        await this.replicate('entries', [{ id: mutation.entryId, user_id: userId, deleted: true }]);
+        return;
+      }
+      case 'clearEntryImage': {
+        const { error } = await supabase
+          .from('food_entries')
+          .update({ image_url: null, image_key: null }) // Explicitly set to NULL
+          .eq('id', mutation.entryId)
+          .eq('user_id', userId);
+
+        if (error) handleStorageError(error, "Clear Image");
+        return;
+      }
+      case 'saveWorkoutPlan': {
+        try {
+          await this.conflicts.saveWorkoutPlan(userId, mutation.plan);
+        } catch (error) {
+          handleStorageError(error, "Save Workout Plan");
+        }
+        return;
+      }
+      case 'deleteWorkoutPlan': {
+        const { error } = await supabase
+          .from('workout_plans')
+          .update({ deleted: true, deleted_at: mutation.deletedAt || new Date().toISOString() })
+          .eq('id', mutation.planId)
+          .eq('user_id', userId);
+
+        if (error) handleStorageError(error, "Delete Workout Plan");
+        return;
+      }
+    }
+  }
+
+  async checkSchema(): Promise<DBCheckResult> {
+    // Try to select 1 row. If table doesn't exist, it throws error code 42P01 (relation does not exist)
+    const entries = await supabase.from('food_entries').select('id, updated_at, deleted, deleted_at, revision, edited_by, edit_history, image_key, time_zone').limit(1);
+    const error = entries.error || (await supabase.from('user_profiles').select('user_id, day_starts_at').limit(1)).error;
+
+    if (error) {
+      if (error.message.includes('relation') || error.code === '42P01') {
+        return { ok: false, missingTables: true, error: "Tables missing" };
+      }
+      // Older setups lack the sync, revision, trash, edit history, photo, time zone and day start columns - the same setup script adds them
+      if (error.message.includes('column') || error.code === '42703') {
+        return { ok: false, missingTables: true, error: "Sync columns missing" };
+      }
+      return { ok: false, error: error.message };
+    }
+    return { ok: true };
+  }
+
+  // --- Food Entries ---
+
+  async saveEntry(userId: string, entry: FoodEntry): Promise<void> {
+    await this.outbox.submit(userId, { type: 'saveEntry', entry });
+  }
+
+  async saveEntries(userId: string, entries: FoodEntry[]): Promise<void> {
+    const rows = entries.map(e => mapEntryToRow(userId, e));
+
+    // Chunk upload to prevent 413 Payload Too Large
+    for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+      const chunk = rows.slice(i, i + UPSERT_CHUNK_SIZE);
+      const { error } = await supabase.from('food_entries').upsert(chunk);
+      if (error) handleStorageError(error, `Save Entries (item ${i + 1})`);
+    }
+  }
+
+  async listEntries(userId: string, query: EntryQuery = {}): Promise<FoodEntry[]> {
+    const select = () => applyDateRange(
+      supabase
+        .from('food_entries')
+        .select(ENTRY_COLUMNS[query.projection || 'full'])
+        .eq('user_id', userId)
+        .eq('deleted', false),
+      query
+    ).order('timestamp', { ascending: false }).order('id');
+
+    const [{ data, error }, queued] = await Promise.all([selectAllPages(select, query.limit), this.outbox.list(userId)]);
+
+    let entries: FoodEntry[] = [];
+    if (error) {
+      console.error("Supabase Fetch Error:", error);
+      if (isNetworkError(error)) entries = await this.mirror.listEntries(userId, query);
+    } else if (data) {
+      entries = data.map(mapRowToEntry);
+    }
+
+    return overlayEntries(entries, queued, query);
+  }
+
+  async getEntry(userId: string, entryId: string): Promise<FoodEntry | null> {
+    const [{ data, error }, queued] = await Promise.all([
+      supabase
+        .from('food_entries')
+        .select(ENTRY_COLUMNS.full)
+        .eq('id', entryId)
+        .eq('user_id', userId)
+        .eq('deleted', false)
+        .maybeSingle(),
+      this.outbox.list(userId),
+    ]);
+
+    let entry: FoodEntry | null = null;
+    if (error) {
+      console.error("Supabase Fetch Error:", error);
+      if (isNetworkError(error)) entry = await this.mirror.getEntry(userId, entryId);
+    } else if (data) {
+      entry = mapRowToEntry(data);
+    }
+
+    return overlayEntries(entry ? [entry] : [], queued).find(e => e.id === entryId) || null;
+  }
+
+  async countEntries(userId: string, date: string): Promise<number> {
+    // Queued writes change the count - fall back to counting the overlaid list
+    const queued = await this.outbox.list(userId);
+    if (queued.some(i => i.mutation.type === 'saveEntry' || i.mutation.type === 'deleteEntry')) {
+      return (await this.listEntries(userId, { date, projection: 'aggregate' })).length;
+    }
+
+    // Use count query for maximum efficiency
+    const { count, error } = await supabase
+      .from('food_entries')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('date', date)
+      .eq('deleted', false);
+
+    if (error) {
+      console.error('Error counting entries:', error);
+      return isNetworkError(error) ? this.mirror.countEntries(userId, date) : 0;
+    }
+
+    return count || 0;
+  }
+
+  async getEntryImage(userId: string, entryId: string): Promise<string | null> {
+    const queuedImage = overlayEntryImage(entryId, await this.outbox.list(userId));
+    if (queuedImage !== undefined) return queuedImage;
+
+    const { data, error } = await supabase
+      .from('food_entries')
+      .select('image_url')
+      .eq('id', entryId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error && isNetworkError(error)) return this.mirror.getEntryImage(userId, entryId);
+    if (error || !data) return null;
+    return data.image_url;
+  }
+
+  async clearEntryImage(userId: string, entryId: string): Promise<void> {
+    await this.outbox.submit(userId, { type: 'clearEntryImage', entryId });
+  }
+
+  async deleteEntry(userId: string, entryId: string): Promise<void> {
+    await this.outbox.submit(userId, { type: 'deleteEntry', entryId, deletedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Compaction - the day's summary replaces the rows, so they skip the trash
+   * and lose their photos
+   */
+  async deleteEntriesForDate(userId: string, date: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('food_entries')
+      .update({ deleted: true, deleted_at: null, image_url: null, image_key: null })
+      .eq('user_id', userId)
+      .eq('date', date)
+      .or(LIVE_OR_TRASHED)
+      .select('id');
+
+    if (error) handleStorageError(error, "Delete Entries");
+    // Keep the device replica compacted too
+    await this.replicate('entries', (data || []).map(row => ({ id: row.id, user_id: userId, deleted: true })));
+  }
+
+  // --- Compacted Daily Summaries ---
+
+  async listSummaries(userId: string, query: DateRangeQuery = {}): Promise<DailyTotals[]> {
+    // daily_summaries is optional - a missing table simply yields no rows
+    try {
+      const { data, error } = await selectAllPages(() => applyDateRange(
+        supabase
+          .from('daily_summaries')
+          .select(SUMMARY_COLUMNS)
+          .eq('user_id', userId)
+          .eq('deleted', false),
+        query
+      ).order('date'));
+      if (error && isNetworkError(error)) return this.mirror.listSummaries(userId, query);
+      if (error || !data) return [];
+      return data.map(mapRowToSummary);
+    } catch (e) {
+      console.warn("Summary fetch failed, likely missing table");
+      return [];
+    }
+  }
+
+  async saveSummary(userId: string, summary: DailyTotals): Promise<void> {
+    const row = mapSummaryToRow(userId, summary);
+    const { error } = await supabase.from('daily_summaries').upsert(row);
+
+    if (error) handleStorageError(error, "Save Summary");
+    await this.replicate('summaries', [{ ...summary, id: row.id, user_id: userId }]);
+  }
+
+  // --- Settings & Profile ---
+
+  async getDailyGoal(userId: string): Promise<number | null> {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('daily_goal')
+      .eq('user_id', userId)
+      .single();
+
+    if (error && isNetworkError(error)) return this.mirror.getDailyGoal(userId);
+    return (error || !data) ? null : data.daily_goal;
+  }
+
+  async saveDailyGoal(userId: string, goal: number): Promise<void> {
+    const { error } = await supabase
+      .from('user_settings')
+      .upsert({ user_id: userId, daily_goal: goal }, { onConflict: 'user_id' });
+
+    if (error) handleStorageError(error, "Save Daily Goal");
+    await this.replicate('user_records', [{ user_id: userId, kind: 'daily_goal', value: goal }]);
+  }
+
+  async getProfile(userId: string): Promise<UserProfile | null> {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select(PROFILE_COLUMNS)
+      .eq('user_id', userId)
+      .single();
+
+    if (error && isNetworkError(error)) return this.mirror.getProfile(userId);
+    if (error || !data) return null;
+
+    return mapRowToProfile(data);
+  }
+
+  async saveProfile(userId: string, profile: UserProfile): Promise<void> {
+    const { error } = await supabase
+      .from('user_profiles')
+      .upsert(mapProfileToRow(userId, profile), { onConflict: 'user_id' });
+
+    if (error) handleStorageError(error, "Save Profile");
+    await this.replicate('user_records', [{ user_id: userId, kind: 'profile', value: profile }]);
+  }
+
+  async getOnboardingComplete(userId: string): Promise<boolean> {
+    // Device mirror acts as a cache so returning users skip the network
+    if (await this.mirror.getOnboardingComplete(userId)) return true;
+
+    try {
+      const { data } = await supabase
+        .from('user_settings')
+        .select('has_completed_onboarding')
+        .eq('user_id', userId)
+        .maybeSingle(); // maybeSingle is safer as it doesn't throw on 0 rows
+
+      const completed = data?.has_completed_onboarding || false;
+      if (completed) await this.mirror.setOnboardingComplete(userId);
+      return completed;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  async setOnboardingComplete(userId: string): Promise<void> {
+    await this.mirror.setOnboardingComplete(userId);
+
+    try {
+      const { error } = await supabase
+        .from('user_settings')
+        .upsert({
+          user_id: userId,
+          has_completed_onboarding: true
+        }, { onConflict: 'user_id' });
+
+      if (error) console.error("Cloud mark onboarding error:", error);
+    } catch (e) {
+      console.error("Cloud mark onboarding exception:", e);
+    }
+  }
+
+  async getRetentionPolicy(userId: string): Promise<RetentionPolicy | null> {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('retention_policy')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    // Offline, or an older setup without the column - the device copy still applies
+    if (error) return this.mirror.getRetentionPolicy(userId);
+    return data?.retention_policy || null;
+  }
+
+  async saveRetentionPolicy(userId: string, policy: RetentionPolicy): Promise<void> {
+    const { error } = await supabase
+      .from('user_settings')
+      .upsert({ user_id: userId, retention_policy: policy }, { onConflict: 'user_id' });
+
+    if (error) handleStorageError(error, "Save Retention Policy");
+    await this.replicate('user_records', [{ user_id: userId, kind: 'retention', value: policy }]);
+  }
+
+  // --- Coach Chat ---
+
+  async saveChatMessage(userId: string, message: StoredChatMessage): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('coach_messages')
+        .insert(mapChatMessageToRow(userId, message));
+
+      if (error) {
+        console.error('Failed to save chat message to Supabase:', error);
+        return;
+      }
+      await this.replicate('coach_messages', [{ ...message, user_id: userId }]);
+    } catch (error) {
+      console.error('Exception saving chat message:', error);
+    }
+  }
+
+  async listChatMessages(userId: string, date: string): Promise<ChatMessage[]> {
+    try {
+      const { data, error } = await supabase
+        .from('coach_messages')
+        .select('id, role, content, timestamp')
+        .eq('user_id', userId)
+        .eq('date', date)
+        .eq('deleted', false)
+        .order('timestamp', { ascending: true });
+
+      if (error) {
+        console.error('Failed to fetch chat messages:', error);
+        return isNetworkError(error) ? this.mirror.listChatMessages(userId, date) : [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Exception fetching chat messages:', error);
+      return [];
+    }
+  }
+
+  async listAllChatMessages(userId: string): Promise<StoredChatMessage[]> {
+    const { data, error } = await selectAllPages(() => supabase
+      .from('coach_messages')
+      .select('id, role, content, timestamp, date')
+      .eq('user_id', userId)
+      .eq('deleted', false)
+      .order('timestamp', { ascending: true })
+      .order('id'));
+
+    if (error) {
+      if (isNetworkError(error)) return this.mirror.listAllChatMessages(userId);
+      handleStorageError(error, "List Chat Messages");
+    }
+    return data || [];
+  }
+
+  async deleteChatMessage(userId: string, messageId: string): Promise<void> {
+    const { error } = await supabase
+      .from('coach_messages')
+      .update({ deleted: true, deleted_at: new Date().toISOString() })
+      .eq('id', messageId)
+      .eq('user_id', userId);
+
+    if (error) handleStorageError(error, "Delete Chat Message");
+    await this.replicate('coach_messages', [{ id: messageId, user_id: userId, deleted: true }]);
+  }
+
+  async deleteChatMessagesBefore(userId: string, date: string): Promise<void> {
+    try {
+      const { data, error } = await supabase
+        .from('coach_messages')
+        .update({ deleted: true, deleted_at: null })
+        .eq('user_id', userId)
+        .lt('date', date)
+        .or(LIVE_OR_TRASHED)
+        .select('id');
+
+      if (error) {
+        console.error('Failed to cleanup old chat messages:', error);
+        return;
+      }
+      await this.replicate('coach_messages', (data || []).map(row => ({ id: row.id, user_id: userId, deleted: true })));
+    } catch (error) {
+      console.error('Exception during chat cleanup:', error);
+    }
+  }
+
+  // --- Workout Plans (mirrored) ---
+
+  async saveWorkoutPlan(userId: string, plan: DailyWorkout & { id: string }): Promise<void> {
+    // Callers don't track revisions for plans - the device copy knows which cloud version it's based on
+    const revision = plan.revision ?? (await this.mirror.listWorkoutPlans(userId, { date: plan.date }))
+      .find(p => p.id === plan.id)?.revision;
+    const based = { ...plan, revision };
+
+    // Always save to device storage as backup
+    await this.mirror.saveWorkoutPlan(userId, based);
+
+    try {
+      await this.outbox.submit(userId, { type: 'saveWorkoutPlan', plan: based });
+    } catch (error) {
+      console.warn('Supabase save failed, using device storage fallback:', error);
+    }
+  }
+
+  async listWorkoutPlans(userId: string, query: DateRangeQuery = {}): Promise<DailyWorkout[]> {
+    const workouts = await this.mirror.listWorkoutPlans(userId, query);
+
+    try {
+      const { data, error } = await selectAllPages(() => applyDateRange(
+        supabase
+          .from('workout_plans')
+          .select('id, date, title, workout_type_id, exercises, revision, edited_at')
+          .eq('user_id', userId)
+          .eq('deleted', false),
+        query
+      ).order('id'));
+
+      if (!error && data) {
+        // Merge cloud data, avoiding duplicates by ID
+        const localIds = new Set(workouts.map(w => w.id));
+        data.forEach((row: any) => {
+          if (!localIds.has(row.id)) workouts.push(mapRowToPlan(row));
+        });
+      }
+    } catch (error) {
+      console.warn('Exception fetching workout plans from Supabase, using localStorage only:', error);
+    }
+
+    return overlayWorkoutPlans(workouts, await this.outbox.list(userId), query);
+  }
+
+  async deleteWorkoutPlan(userId: string, planId: string): Promise<void> {
+    await this.mirror.deleteWorkoutPlan(userId, planId);
+
+    try {
+      await this.outbox.submit(userId, { type: 'deleteWorkoutPlan', planId, deletedAt: new Date().toISOString() });
+    } catch (error) {
+      console.warn('Failed to delete workout plan from Supabase:', error);
+    }
+  }
+
+  async deleteWorkoutPlansForDate(userId: string, date: string): Promise<void> {
+    await this.mirror.deleteWorkoutPlansForDate(userId, date);
+
+    try {
+      const { error } = await supabase
+        .from('workout_plans')
+        .update({ deleted: true, deleted_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('date', date)
+        .eq('deleted', false);
+
+      if (error) {
+        console.error('Failed to delete workout plan:', error);
+      }
+    } catch (error) {
+      console.error('Exception deleting workout plan:', error);
+    }
+  }
+
+  // --- Engagement (mirrored) ---
+
+  async getStreak(userId: string): Promise<StreakData | null> {
+    const local = await this.mirror.getStreak(userId);
+    if (local) return local;
+
+    try {
+      const { data, error } = await supabase
+        .from('user_streaks')
+        .select(STREAK_COLUMNS)
+        .eq('user_id', userId)
+        .single();
+
+      if (error || !data) return null;
+
+      const streakData = mapRowToStreak(data);
+      // Cache locally
+      await this.mirror.saveStreak(userId, streakData);
+      return streakData;
+    } catch (e) {
+      console.warn('Failed to fetch streak from Supabase:', e);
+      return null;
+    }
+  }
+
+  async saveStreak(userId: string, data: StreakData): Promise<void> {
+    await this.mirror.saveStreak(userId, data);
+
+    try {
+      await supabase
+        .from('user_streaks')
+        .upsert(mapStreakToRow(userId, data), { onConflict: 'user_id' });
+    } catch (e) {
+      console.warn('Failed to sync streak to Supabase:', e);
+    }
+  }
+
+  async getWeightGoal(userId: string): Promise<WeightGoal | null> {
+    const local = await this.mirror.getWeightGoal(userId);
+    if (local) return local;
+
+    try {
+      const { data, error } = await supabase
+        .from('user_weight_goals')
+        .select('start_weight, target_weight, daily_calorie_limit')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error || !data) return null;
+
+      const goal = mapRowToWeightGoal(data);
+      await this.mirror.saveWeightGoal(userId, goal);
+      return goal;
+    } catch (e) {
+      console.warn('Failed to fetch weight goal from Supabase:', e);
+      return null;
+    }
+  }
+
+  async saveWeightGoal(userId: string, goal: WeightGoal): Promise<void> {
+    await this.mirror.saveWeightGoal(userId, goal);
+
+    try {
+      await supabase
+        .from('user_weight_goals')
+        .upsert(mapWeightGoalToRow(userId, goal), { onConflict: 'user_id' });
+    } catch (e) {
+      console.warn('Failed to sync weight goal to Supabase:', e);
+    }
+  }
+
+  // --- Coach Reports ---
+
+  async getReport(userId: string, reportType: ReportType, periodStart: string, periodEnd: string): Promise<CoachReport | null> {
+    // Two devices may have generated the same period before syncing - take the newest
+    const { data, error } = await supabase
+      .from('coach_reports')
+      .select(REPORT_COLUMNS)
+      .eq('user_id', userId)
+      .eq('report_type', reportType)
+      .eq('period_start', periodStart)
+      .eq('period_end', periodEnd)
+      .eq('deleted', false)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error && isNetworkError(error)) return this.mirror.getReport(userId, reportType, periodStart, periodEnd);
+    if (error || !data) return null;
+
+    return mapRowToReport(data);
+  }
+
+  async saveReport(userId: string, report: CoachReport): Promise<void> {
+    // Upsert: delete existing and insert new
+    await supabase
+      .from('coach_reports')
+      .delete()
+      .eq('user_id', userId)
+      .eq('report_type', report.reportType)
+      .eq('period_start', report.periodStart)
+      .eq('period_end', report.periodEnd);
+
+    const { error } = await supabase
+      .from('coach_reports')
+      .insert(mapReportToRow(userId, report));
+
+    if (error) {
+      console.error('Failed to save report:', error);
+      throw new Error('Failed to save report');
+    }
+  }
+
+  async listReports(userId: string): Promise<CoachReport[]> {
+    const { data, error } = await selectAllPages(() => supabase
+      .from('coach_reports')
+      .select(REPORT_COLUMNS)
+      .eq('user_id', userId)
+      .eq('deleted', false)
+      .order('created_at', { ascending: false })
+      .order('id'));
+
+    if (error) {
+      if (isNetworkError(error)) return this.mirror.listReports(userId);
+      // Reports are optional on older setups
+      console.error('Failed to list reports:', error);
+      return [];
+    }
+    return (data || []).map(mapRowToReport);
+  }
+
+  // --- AI Usage ---
+  // Straight to Supabase: a usage record is only written after a call that needed the network anyway
+
+  async saveAIUsage(userId: string, record: AIUsageRecord): Promise<void> {
+    const { error } = await supabase
+      .from('ai_usage')
+      .insert(mapAIUsageToRow(userId, record));
+
+    if (error) throw new Error(`Failed to save AI usage: ${error.message}`);
+  }
+
+  async listAIUsage(userId: string, query: DateRangeQuery = {}): Promise<AIUsageRecord[]> {
+    const { data, error } = await applyDateRange(
+      supabase
+        .from('ai_usage')
+        .select(AI_USAGE_COLUMNS)
+        .eq('user_id', userId),
+      query
+    ).order('created_at', { ascending: false });
+
+    if (error) {
+      // Older setups have no ledger yet
+      console.error('Failed to list AI usage:', error);
+      return [];
+    }
+    return (data || []).map(mapRowToAIUsage);
+  }
+
+  async getAIUsageCaps(userId: string): Promise<AIUsageCaps | null> {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('ai_usage_caps')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    // Offline, or an older setup without the column - the device copy still applies
+    if (error) return this.mirror.getAIUsageCaps(userId);
+    return data?.ai_usage_caps || null;
+  }
+
+  async saveAIUsageCaps(userId: string, caps: AIUsageCaps): Promise<void> {
+    const { error } = await supabase
+      .from('user_settings')
+      .upsert({ user_id: userId, ai_usage_caps: caps }, { onConflict: 'user_id' });
+
+    if (error) handleStorageError(error, "Save AI Usage Caps");
+    await this.replicate('user_records', [{ user_id: userId, kind: 'ai_caps', value: caps }]);
+  }
+
+  // --- Trash ---
+
+  async listTrash(userId: string): Promise<TrashItem[]> {
+    const kinds = Object.keys(TRASH_TABLES) as TrashKind[];
+    const results = await Promise.all(kinds.map(kind =>
+      supabase
+        .from(TRASH_TABLES[kind].name)
+        .select(TRASH_TABLES[kind].columns)
+        .eq('user_id', userId)
+        .eq('deleted', true)
+        .not('deleted_at', 'is', null)
+    ));
+
+    const failed = results.find(r => r.error);
+    if (failed) {
+      if (isNetworkError(failed.error)) return this.mirror.listTrash(userId);
+      handleStorageError(failed.error, "List Trash");
+    }
+
+    return kinds
+      .flatMap((kind, i) => (results[i].data || []).map((row: any) => mapRowToTrashItem(kind, row)))
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  async restoreFromTrash(userId: string, itemId: string): Promise<void> {
+    const { kind, recordId } = parseTrashItemId(itemId);
+    const table = TRASH_TABLES[kind];
+    // Workout plans are read from the mirror first
+    await this.mirror.restoreFromTrash(userId, itemId);
+
+    // Deleted while offline and not sent yet - dropping the queued delete is the restore
+    const queued = (await this.outbox.list(userId)).filter(i => isQueuedDelete(i.mutation, kind, recordId));
+    if (queued.length > 0) {
+      for (const item of queued) await this.outbox.discard(item.seq!);
+      return;
+    }
+
+    // Entries come back with their photo, so the replica gets the full row
+    const columns = kind === 'entry' ? `${ENTRY_COLUMNS.full}, deleted_at` : table.columns;
+    const { data, error } = await supabase
+      .from(table.name)
+      .update({ deleted: false, deleted_at: null })
+      .eq('id', recordId)
+      .eq('user_id', userId)
+      .eq('deleted', true)
+      .select(columns);
+
+    if (error) handleStorageError(error, "Restore From Trash");
+    const restored = (data || []).map((row: any) => ({ ...mapRowToTrashItem(kind, row).record, user_id: userId }));
+    await this.replicate(table.store, restored);
+  }
+
+  async purgeFromTrash(userId: string, itemId: string): Promise<void> {
+    const { kind, recordId } = parseTrashItemId(itemId);
+    await this.mirror.purgeFromTrash(userId, itemId);
+
+    // Other devices still need the tombstone - clearing deleted_at takes it out of the trash
+    const { error } = await supabase
+      .from(TRASH_TABLES[kind].name)
+      .update(kind === 'entry' ? { deleted_at: null, image_url: null, image_key: null } : { deleted_at: null })
+      .eq('id', recordId)
+      .eq('user_id', userId)
+      .eq('deleted', true);
+
+    if (error) handleStorageError(error, "Purge From Trash");
+  }
+
+  // --- Account Deletion ---
+
+  /**
+   * Hard-deletes every row (tombstones included - there's no account left to sync),
+   * the user's photos and the device replica
+   */
+  async deleteUserData(userId: string): Promise<DeletedRecords> {
+    // The replica goes first, so queued writes can't bring anything back
+    await this.mirror.deleteUserData(userId);
+
+    const removed = noDeletedRecords();
+    for (const table of USER_TABLES) {
+      const { data, error } = await supabase
+        .from(table.name)
+        .delete()
+        .eq('user_id', userId)
+        .select(table.unsynced ? 'id' : table.trash ? 'deleted, deleted_at' : 'deleted');
+
+      if (error) {
+        // Optional tables may not exist on older setups
+        if (error.code === '42P01' || error.code === 'PGRST205') continue;
+        handleStorageError(error, `Delete ${table.name}`);
+      }
+      // Rows deleted before (not in the trash) don't count as removed now
+      removed[table.kind] += (data || []).filter((row: any) => !row.deleted || row.deleted_at).length;
+    }
+
+    const media = new SupabaseMediaStore();
+    const photos = await media.listMedia(userId);
+    await media.deleteMedia(userId, photos.map(p => p.key));
+
+    removed.photos = photos.length;
+    return removed;
+  }
+}
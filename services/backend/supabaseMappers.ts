@@ -0,0 +1,234 @@
+/**
+ * Supabase Row Mappers
+ * Convert between Supabase snake_case rows and the app's TS types.
+ * Shared by the cloud backend and the sync engine.
+ */
+
+import { FoodEntry, UserProfile, DailyWorkout, StreakData, WeightGoal, CoachReport } from '../../types';
+import { DailyTotals, StoredChatMessage, TrashItem, TrashKind, trashItemId } from './types';
+import type { AIUsageRecord } from '../ai/types';
+
+// Map Supabase snake_case columns to CamelCase TS types
+export const mapRowToEntry = (row: any): FoodEntry => ({
+  id: row.id,
+  user_id: row.user_id,
+  timestamp: row.timestamp,
+  date: row.date,
+  time: row.time,
+  timeZone: row.time_zone || undefined,
+  food_item: row.food_item,
+  calories: row.calories,
+  protein: row.protein || 0,
+  carbs: row.carbs || 0,
+  fat: row.fat || 0,
+  confidence: row.confidence,
+  imageUrl: row.image_url,
+  imageKey: row.image_key || undefined,
+  isManual: row.is_manual,
+  ingredients: row.ingredients || [],
+  originalAiResponse: row.original_ai_response,
+  history: row.edit_history || undefined,
+  revision: row.revision ?? undefined,
+  editedAt: row.edited_at || undefined
+});
+
+export const mapEntryToRow = (userId: string, entry: FoodEntry) => ({
+  id: entry.id,
+  user_id: userId,
+  timestamp: entry.timestamp,
+  date: entry.date,
+  time: entry.time,
+  time_zone: entry.timeZone || null,
+  food_item: entry.food_item,
+  calories: entry.calories,
+  protein: entry.protein,
+  carbs: entry.carbs,
+  fat: entry.fat,
+  confidence: entry.confidence,
+  is_manual: entry.isManual,
+  image_url: entry.imageUrl === undefined ? null : entry.imageUrl, // Convert undefined to null for proper DB update
+  image_key: entry.imageKey || null,
+  ingredients: entry.ingredients,
+  original_ai_response: entry.originalAiResponse,
+  edit_history: entry.history || null,
+  edited_at: entry.editedAt || null,
+  deleted: false // Saving revives a soft-deleted row
+});
+
+export const mapRowToSummary = (row: any): DailyTotals => ({
+  date: row.date,
+  totalCalories: row.total_calories || 0,
+  totalProtein: row.total_protein || 0,
+  totalCarbs: row.total_carbs || 0,
+  totalFat: row.total_fat || 0
+});
+
+export const mapSummaryToRow = (userId: string, summary: DailyTotals) => ({
+  id: `${userId}_${summary.date}`,
+  user_id: userId,
+  date: summary.date,
+  total_calories: summary.totalCalories,
+  total_protein: summary.totalProtein,
+  total_carbs: summary.totalCarbs,
+  total_fat: summary.totalFat,
+});
+
+export const mapChatMessageToRow = (userId: string, message: StoredChatMessage) => ({
+  id: message.id,
+  user_id: userId,
+  role: message.role,
+  content: message.content,
+  timestamp: message.timestamp,
+  date: message.date,
+  deleted: false // Sync pushes a restored message as a save
+});
+
+export const mapRowToPlan = (row: any): DailyWorkout => ({
+  id: row.id,
+  date: row.date,
+  title: row.title,
+  workoutTypeId: row.workout_type_id || undefined,
+  exercises: row.exercises || [],
+  revision: row.revision ?? undefined,
+  editedAt: row.edited_at || undefined
+});
+
+export const mapPlanToRow = (userId: string, plan: DailyWorkout & { id: string }) => ({
+  id: plan.id,
+  user_id: userId,
+  date: plan.date,
+  title: plan.title,
+  workout_type_id: plan.workoutTypeId,
+  exercises: plan.exercises,
+  edited_at: plan.editedAt || null,
+  deleted: false
+});
+
+export const mapRowToProfile = (row: any): UserProfile => ({
+  name: row.name,
+  height: row.height,
+  weight: row.weight,
+  age: row.age,
+  gender: row.gender,
+  activityLevel: row.activity_level,
+  goal: row.goal,
+  equipmentAccess: row.equipment_access,
+  targetWeight: row.target_weight,
+  dayStartsAt: row.day_starts_at || undefined
+});
+
+export const mapProfileToRow = (userId: string, profile: UserProfile) => ({
+  user_id: userId,
+  name: profile.name,
+  height: profile.height,
+  weight: profile.weight,
+  age: profile.age,
+  gender: profile.gender,
+  activity_level: profile.activityLevel,
+  goal: profile.goal,
+  equipment_access: profile.equipmentAccess,
+  target_weight: profile.targetWeight,
+  day_starts_at: profile.dayStartsAt || null
+});
+
+export const mapRowToStreak = (row: any): StreakData => ({
+  currentStreak: row.current_streak,
+  longestStreak: row.longest_streak,
+  lastLogDate: row.last_log_date,
+  streakFreezes: row.streak_freezes,
+  lastFreezeUsedDate: row.last_freeze_used_date,
+  qualifyingDates: row.qualifying_dates || [],
+});
+
+export const mapStreakToRow = (userId: string, data: StreakData) => ({
+  user_id: userId,
+  current_streak: data.currentStreak,
+  longest_streak: data.longestStreak,
+  last_log_date: data.lastLogDate,
+  streak_freezes: data.streakFreezes,
+  last_freeze_used_date: data.lastFreezeUsedDate,
+  qualifying_dates: data.qualifyingDates,
+});
+
+export const mapRowToWeightGoal = (row: any): WeightGoal => ({
+  startWeight: row.start_weight,
+  targetWeight: row.target_weight,
+  dailyCalorieLimit: row.daily_calorie_limit,
+});
+
+export const mapWeightGoalToRow = (userId: string, goal: WeightGoal) => ({
+  user_id: userId,
+  start_weight: goal.startWeight,
+  target_weight: goal.targetWeight,
+  daily_calorie_limit: goal.dailyCalorieLimit,
+});
+
+export const mapRowToReport = (row: any): CoachReport => ({
+  id: row.id,
+  userId: row.user_id,
+  reportType: row.report_type,
+  periodStart: row.period_start,
+  periodEnd: row.period_end,
+  summary: row.summary,
+  tips: row.tips,
+  metrics: row.metrics,
+  weightAtReport: row.weight_at_report,
+  createdAt: row.created_at
+});
+
+export const mapReportToRow = (userId: string, report: CoachReport) => ({
+  id: report.id,
+  user_id: userId,
+  report_type: report.reportType,
+  period_start: report.periodStart,
+  period_end: report.periodEnd,
+  summary: report.summary,
+  tips: report.tips,
+  metrics: report.metrics,
+  weight_at_report: report.weightAtReport
+});
+
+export const mapRowToAIUsage = (row: any): AIUsageRecord => ({
+  id: row.id,
+  task: row.task,
+  provider: row.provider,
+  model: row.model,
+  inputTokens: row.input_tokens,
+  outputTokens: row.output_tokens,
+  latencyMs: row.latency_ms,
+  outcome: row.outcome,
+  error: row.error || undefined,
+  date: row.date,
+  createdAt: row.created_at
+});
+
+export const mapAIUsageToRow = (userId: string, record: AIUsageRecord) => ({
+  id: record.id,
+  user_id: userId,
+  task: record.task,
+  provider: record.provider,
+  model: record.model,
+  input_tokens: record.inputTokens,
+  output_tokens: record.outputTokens,
+  latency_ms: record.latencyMs,
+  outcome: record.outcome,
+  error: record.error ?? null,
+  date: record.date,
+  created_at: record.createdAt
+});
+
+/**
+ * A soft-deleted row that still has its deleted_at (not purged)
+ */
+export const mapRowToTrashItem = (kind: TrashKind, row: any): TrashItem => {
+  const base = { id: trashItemId(kind, row.id), userId: row.user_id, recordId: row.id, deletedAt: row.deleted_at };
+  switch (kind) {
+    case 'entry': return { ...base, kind, record: mapRowToEntry(row) };
+    case 'workoutPlan': return { ...base, kind, record: { ...mapRowToPlan(row), id: row.id } };
+    case 'chatMessage': return {
+      ...base,
+      kind,
+      record: { id: row.id, role: row.role, content: row.content, timestamp: row.timestamp, date: row.date },
+    };
+  }
+};
@@ -0,0 +1,77 @@
+/**
+ * Supabase Media Store
+ * Meal photos as objects in a Supabase Storage bucket, one folder per user:
+ * `${userId}/${key}-${variant}.jpg`. Reads hand out short-lived signed URLs.
+ */
+
+import { supabase } from '../supabase';
+import { MediaStore, MediaVariant, StoredMedia } from './types';
+
+export const MEDIA_BUCKET = 'meal-photos';
+
+// Signed URLs outlive the 30 minute image cache
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const LIST_PAGE_SIZE = 1000;
+
+const VARIANTS: MediaVariant[] = ['original', 'thumbnail'];
+
+const objectPath = (userId: string, key: string, variant: MediaVariant): string => `${userId}/${key}-${variant}.jpg`;
+
+const OBJECT_NAME = /^(.+)-(original|thumbnail)\.jpg$/;
+
+export class SupabaseMediaStore implements MediaStore {
+  private bucket() {
+    return supabase.storage.from(MEDIA_BUCKET);
+  }
+
+  async putMedia(userId: string, key: string, variant: MediaVariant, blob: Blob): Promise<void> {
+    const { error } = await this.bucket().upload(objectPath(userId, key, variant), blob, {
+      contentType: blob.type || 'image/jpeg',
+      upsert: true,
+    });
+    if (error) throw new Error(`Photo upload failed: ${error.message}`);
+  }
+
+  async readMedia(userId: string, key: string, variant: MediaVariant): Promise<Blob | null> {
+    const { data, error } = await this.bucket().download(objectPath(userId, key, variant));
+    if (error) {
+      console.warn(`Failed to download photo ${key} (${variant}):`, error.message);
+      return null;
+    }
+    return data;
+  }
+
+  async getMediaUrl(userId: string, key: string, variant: MediaVariant): Promise<string | null> {
+    const { data, error } = await this.bucket().createSignedUrl(objectPath(userId, key, variant), SIGNED_URL_TTL_SECONDS);
+    if (error || !data) {
+      console.warn(`Failed to sign photo URL ${key} (${variant}):`, error?.message);
+      return null;
+    }
+    return data.signedUrl;
+  }
+
+  async listMedia(userId: string): Promise<StoredMedia[]> {
+    const byKey = new Map<string, StoredMedia>();
+
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await this.bucket().list(userId, { limit: LIST_PAGE_SIZE, offset });
+      if (error) throw new Error(`Failed to list photos: ${error.message}`);
+
+      data.forEach(object => {
+        const match = object.name.match(OBJECT_NAME);
+        if (match && !byKey.has(match[1])) byKey.set(match[1], { key: match[1], createdAt: object.created_at });
+      });
+      if (data.length < LIST_PAGE_SIZE) break;
+    }
+
+    return Array.from(byKey.values());
+  }
+
+  async deleteMedia(userId: string, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const paths = keys.flatMap(key => VARIANTS.map(variant => objectPath(userId, key, variant)));
+    const { error } = await this.bucket().remove(paths);
+    if (error) throw new Error(`Failed to delete photos: ${error.message}`);
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * Sync Engine
+ * Two-way replication between device storage (IndexedDB) and Supabase.
+ *
+ * - Pull: rows changed since the last cursor, per table, in pages. The cursor
+ *   is saved after every page so an interrupted sync picks up where it stopped.
+ * - Push: device records flagged dirty, in batches. A record is only marked
+ *   clean once Supabase accepted it, so nothing is lost if the tab closes mid-push.
+ *   Entries and workout plans go through the conflict resolver so edits made
+ *   on another device in the meantime are merged rather than overwritten.
+ *
+ * Supabase stamps `updated_at` itself (see the setup SQL), deletions are
+ * `deleted = true` rows rather than removed ones. Rows the user can still
+ * restore from the trash also carry `deleted_at`.
+ */
+
+import { supabase } from '../supabase';
+import { DeviceStorageBackend, SyncableDevice, SyncResult, SyncState, SyncTable } from './types';
+import { handleStorageError } from './supabaseBackend';
+import { ConflictResolver } from './conflicts';
+import {
+  mapRowToEntry,
+  mapRowToSummary,
+  mapSummaryToRow,
+  mapChatMessageToRow,
+  mapRowToPlan,
+  mapRowToProfile,
+  mapProfileToRow,
+  mapRowToStreak,
+  mapStreakToRow,
+  mapRowToWeightGoal,
+  mapWeightGoalToRow,
+  mapRowToReport,
+  mapReportToRow,
+} from './supabaseMappers';
+
+const PULL_PAGE_SIZE = 100;
+
+// Entries carry base64 images, so they go up in small batches
+const PUSH_BATCH_SIZE: Record<SyncTable, number> = {
+  entries: 5,
+  summaries: 50,
+  coach_messages: 50,
+  workout_plans: 50,
+  reports: 20,
+  user_records: 20,
+};
+
+// Transactions can commit slightly out of updated_at order - re-read a short window
+const CURSOR_OVERLAP_MS = 60 * 1000;
+
+interface RemoteTable {
+  name: string;                    // Supabase table
+  store: SyncTable;                // Device store it replicates into
+  key: string;                     // Unique column, keeps paging stable
+  columns: string;
+  toRecords: (row: any) => any[];  // Device records (a settings row feeds two)
+}
+
+const syncFields = (row: any) => ({ updated_at: row.updated_at, deleted: row.deleted === true, deleted_at: row.deleted_at || null });
+
+const userRecord = (row: any, kind: string, value: unknown) => ({ user_id: row.user_id, kind, value, ...syncFields(row) });
+
+const REMOTE_TABLES: RemoteTable[] = [
+  {
+    name: 'food_entries',
+    store: 'entries',
+    key: 'id',
+    columns: 'id, user_id, timestamp, date, time, time_zone, food_item, calories, protein, carbs, fat, confidence, image_url, image_key, is_manual, ingredients, original_ai_response, edit_history, revision, edited_at, updated_at, deleted, deleted_at',
+    toRecords: row => [{ ...mapRowToEntry(row), ...syncFields(row) }],
+  },
+  {
+    name: 'daily_summaries',
+    store: 'summaries',
+    key: 'id',
+    columns: 'id, user_id, date, total_calories, total_protein, total_carbs, total_fat, updated_at, deleted',
+    toRecords: row => [{ id: row.id, user_id: row.user_id, ...mapRowToSummary(row), ...syncFields(row) }],
+  },
+  {
+    name: 'coach_messages',
+    store: 'coach_messages',
+    key: 'id',
+    columns: 'id, user_id, role, content, timestamp, date, updated_at, deleted, deleted_at',
+    toRecords: row => [{
+      id: row.id,
+      user_id: row.user_id,
+      role: row.role,
+      content: row.content,
+      timestamp: row.timestamp,
+      date: row.date,
+      ...syncFields(row)
+    }],
+  },
+  {
+    name: 'workout_plans',
+    store: 'workout_plans',
+    key: 'id',
+    columns: 'id, user_id, date, title, workout_type_id, exercises, revision, edited_at, updated_at, deleted, deleted_at',
+    toRecords: row => [{ ...mapRowToPlan(row), user_id: row.user_id, ...syncFields(row) }],
+  },
+  {
+    name: 'coach_reports',
+    store: 'reports',
+    key: 'id',
+    columns: 'id, user_id, report_type, period_start, period_end, summary, tips, metrics, weight_at_report, created_at, updated_at, deleted',
+    toRecords: row => [{ ...mapRowToReport(row), user_id: row.user_id, ...syncFields(row) }],
+  },
+  {
+    name: 'user_settings',
+    store: 'user_records',
+    key: 'user_id',
+    columns: 'user_id, daily_goal, has_completed_onboarding, updated_at, deleted',
+    toRecords: row => [
+      ...(row.daily_goal ? [userRecord(row, 'daily_goal', row.daily_goal)] : []),
+      ...(row.has_completed_onboarding ? [userRecord(row, 'onboarding', true)] : []),
+    ],
+  },
+  {
+    name: 'user_profiles',
+    store: 'user_records',
+    key: 'user_id',
+    columns: 'user_id, name, height, weight, age, gender, activity_level, goal, equipment_access, target_weight, day_starts_at, updated_at, deleted',
+    toRecords: row => [userRecord(row, 'profile', mapRowToProfile(row))],
+  },
+  {
+    name: 'user_streaks',
+    store: 'user_records',
+    key: 'user_id',
+    columns: 'user_id, current_streak, longest_streak, last_log_date, streak_freezes, last_freeze_used_date, qualifying_dates, updated_at, deleted',
+    toRecords: row => [userRecord(row, 'streak', mapRowToStreak(row))],
+  },
+  {
+    name: 'user_weight_goals',
+    store: 'user_records',
+    key: 'user_id',
+    columns: 'user_id, start_weight, target_weight, daily_calorie_limit, updated_at, deleted',
+    toRecords: row => [userRecord(row, 'weight_goal', mapRowToWeightGoal(row))],
+  },
+];
+
+// Summaries go up before entries so a compacted day is never missing from the cloud
+const PUSH_ORDER: SyncTable[] = ['user_records', 'summaries', 'entries', 'workout_plans', 'coach_messages', 'reports'];
+
+const isMissingTable = (error: any): boolean =>
+  error?.code === '42P01' || String(error?.message || '').includes('relation');
+
+const isMissingSyncColumns = (error: any): boolean =>
+  error?.code === '42703' || String(error?.message || '').includes('column');
+
+const throwSyncError = (error: any, operation: string): never => {
+  if (isMissingSyncColumns(error)) {
+    throw new Error("Database Setup Required: Sync needs the updated_at, deleted and deleted_at columns. Please run the setup SQL script from the Profile tab.");
+  }
+  return handleStorageError(error, operation);
+};
+
+/**
+ * Upsert into a per-user table (one row per user)
+ */
+const upsertUserRow = async (table: string, row: Record<string, unknown>): Promise<void> => {
+  const { error } = await supabase.from(table).upsert(row, { onConflict: 'user_id' });
+  if (error) throw error;
+};
+
+/**
+ * Mark rows deleted remotely. Rows that never reached the cloud simply don't match.
+ */
+const pushTombstones = async (table: string, userId: string, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const { error } = await supabase.from(table).update({ deleted: true }).eq('user_id', userId).in('id', ids);
+  if (error) throw error;
+};
+
+/**
+ * Tombstones of a table with a trash: trashed records keep their deleted_at,
+ * purged ones clear it along with `purgedFields`
+ */
+const pushTrashTombstones = async (table: string, userId: string, records: any[], purgedFields: Record<string, null> = {}): Promise<void> => {
+  const byDeletedAt = new Map<string | null, string[]>();
+  records.forEach(r => {
+    const key = r.trashed ? r.deleted_at : null;
+    byDeletedAt.set(key, [...(byDeletedAt.get(key) || []), r.id]);
+  });
+
+  for (const [deleted_at, ids] of byDeletedAt) {
+    const changes = deleted_at ? { deleted: true, deleted_at } : { deleted: true, deleted_at: null, ...purgedFields };
+    const { error } = await supabase.from(table).update(changes).eq('user_id', userId).in('id', ids);
+    if (error) throw error;
+  }
+};
+
+const upsertRows = async (table: string, rows: any[]): Promise<void> => {
+  if (rows.length === 0) return;
+  const { error } = await supabase.from(table).upsert(rows);
+  if (error) throw error;
+};
+
+/**
+ * Send one batch of dirty device records to Supabase
+ */
+const pushRecords = async (userId: string, store: SyncTable, records: any[], conflicts: ConflictResolver): Promise<void> => {
+  const live = records.filter(r => !r.deleted);
+  const deleted = records.filter(r => r.deleted);
+
+  switch (store) {
+    case 'entries':
+      for (const record of live) await conflicts.saveEntry(userId, record);
+      await pushTrashTombstones('food_entries', userId, deleted, { image_url: null, image_key: null });
+      return;
+    case 'summaries':
+      await upsertRows('daily_summaries', live.map(r => mapSummaryToRow(userId, r)));
+      return;
+    case 'coach_messages':
+      await upsertRows('coach_messages', live.map(r => mapChatMessageToRow(userId, r)));
+      await pushTrashTombstones('coach_messages', userId, deleted);
+      return;
+    case 'workout_plans':
+      for (const record of live) await conflicts.saveWorkoutPlan(userId, record);
+      await pushTrashTombstones('workout_plans', userId, deleted);
+      return;
+    case 'reports':
+      await upsertRows('coach_reports', live.map(r => mapReportToRow(userId, r)));
+      await pushTombstones('coach_reports', userId, deleted.map(r => r.id));
+      return;
+    case 'user_records':
+      for (const record of live) {
+        switch (record.kind) {
+          case 'daily_goal':
+            await upsertUserRow('user_settings', { user_id: userId, daily_goal: record.value });
+            break;
+          case 'onboarding':
+            await upsertUserRow('user_settings', { user_id: userId, has_completed_onboarding: true });
+            break;
+          case 'profile':
+            await upsertUserRow('user_profiles', mapProfileToRow(userId, record.value));
+            break;
+          case 'streak':
+            await upsertUserRow('user_streaks', mapStreakToRow(userId, record.value));
+            break;
+          case 'weight_goal':
+            await upsertUserRow('user_weight_goals', mapWeightGoalToRow(userId, record.value));
+            break;
+        }
+      }
+      return;
+  }
+};
+
+export class SyncEngine {
+  private running: Promise<SyncResult> | null = null;
+
+  private readonly conflicts: ConflictResolver;
+
+  constructor(private readonly device: SyncableDevice & DeviceStorageBackend) {
+    this.conflicts = new ConflictResolver(device);
+  }
+
+  getState(userId: string): Promise<SyncState | null> {
+    return this.device.getSyncState(userId);
+  }
+
+  hasUnsyncedAccountData(userId: string): Promise<boolean> {
+    return this.device.hasUnsyncedAccountData(userId);
+  }
+
+  /**
+   * Bring device-only data into this account, then sync it up
+   */
+  async adoptDeviceData(userId: string): Promise<SyncResult> {
+    const moved = await this.device.adoptUnsyncedAccountData(userId);
+    if (moved > 0) console.log(`📦 Moved ${moved} device-only records into the cloud account`);
+    return this.sync(userId);
+  }
+
+  /**
+   * Pull then push everything for one user. Concurrent calls share a run.
+   */
+  sync(userId: string): Promise<SyncResult> {
+    if (!this.running) {
+      this.running = this.run(userId).finally(() => { this.running = null; });
+    }
+    return this.running;
+  }
+
+  private async run(userId: string): Promise<SyncResult> {
+    const state: SyncState = (await this.device.getSyncState(userId)) || { cursors: {}, lastSyncedAt: null };
+    // Saving state up front marks this as a cloud account on this device
+    await this.device.saveSyncState(userId, state);
+
+    let pulled = 0;
+    for (const table of REMOTE_TABLES) {
+      pulled += await this.pullTable(userId, table, state);
+    }
+
+    let pushed = 0;
+    for (const store of PUSH_ORDER) {
+      pushed += await this.pushStore(userId, store);
+    }
+
+    state.lastSyncedAt = new Date().toISOString();
+    await this.device.saveSyncState(userId, state);
+
+    if (pulled > 0 || pushed > 0) {
+      console.log(`🔄 Sync complete: ${pulled} pulled, ${pushed} pushed`);
+    }
+    return { pulled, pushed };
+  }
+
+  private async pullTable(userId: string, table: RemoteTable, state: SyncState): Promise<number> {
+    const cursor = state.cursors[table.name];
+    const since = cursor ? new Date(new Date(cursor).getTime() - CURSOR_OVERLAP_MS).toISOString() : null;
+    let pulled = 0;
+
+    for (let offset = 0; ; offset += PULL_PAGE_SIZE) {
+      let query: any = supabase.from(table.name).select(table.columns).eq('user_id', userId);
+      if (since) query = query.gte('updated_at', since);
+
+      const { data, error } = await query
+        .order('updated_at', { ascending: true })
+        .order(table.key, { ascending: true })
+        .range(offset, offset + PULL_PAGE_SIZE - 1);
+
+      if (error) {
+        // Optional tables (reports, streaks, ...) may not exist on older setups
+        if (isMissingTable(error)) {
+          console.warn(`Skipping sync for missing table ${table.name}`);
+          return pulled;
+        }
+        throwSyncError(error, `Sync Pull (${table.name})`);
+      }
+
+      const rows: any[] = data || [];
+      if (rows.length > 0) {
+        await this.device.applyRemoteRecords(table.store, rows.flatMap(table.toRecords));
+        // Rows are ordered by updated_at, so the last one is the new high-water mark
+        state.cursors[table.name] = rows[rows.length - 1].updated_at;
+        await this.device.saveSyncState(userId, state);
+        // The overlap window re-reads rows we already have - only count new ones
+        pulled += rows.filter(r => !cursor || r.updated_at > cursor).length;
+      }
+
+      if (rows.length < PULL_PAGE_SIZE) return pulled;
+    }
+  }
+
+  private async pushStore(userId: string, store: SyncTable): Promise<number> {
+    let pushed = 0;
+
+    while (true) {
+      const batch = await this.device.listDirtyRecords(store, userId, PUSH_BATCH_SIZE[store]);
+      if (batch.length === 0) return pushed;
+
+      try {
+        await pushRecords(userId, store, batch, this.conflicts);
+      } catch (error) {
+        if (isMissingTable(error)) {
+          // Stays dirty until the table exists
+          console.warn(`Skipping push for ${store}: table missing in Supabase`);
+          return pushed;
+        }
+        throwSyncError(error, `Sync Push (${store})`);
+      }
+
+      await this.device.markRecordsSynced(store, batch);
+      pushed += batch.length;
+    }
+  }
+}
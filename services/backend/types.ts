@@ -0,0 +1,358 @@
+/**
+ * Storage Backend Contract
+ * Every persistence target (device storage, Supabase, ...) implements this
+ * interface so services never have to branch on the active mode.
+ */
+
+import { FoodEntry, DailySummary, UserProfile, DailyWorkout, StreakData, WeightGoal, CoachReport, RetentionPolicy } from '../../types';
+import type { ChatMessage } from '../coach';
+import type { AIUsageRecord, AIUsageCaps } from '../ai/types';
+
+export type BackendKind = 'local' | 'cloud';
+
+/**
+ * Column projection for entry reads
+ * - full: everything, including image, original AI response and edit history
+ * - lite: list views (no image_url / original_ai_response / edit_history)
+ * - aggregate: totals only (id, date, timestamp and macros)
+ */
+export type EntryProjection = 'full' | 'lite' | 'aggregate';
+
+export interface DateRangeQuery {
+  date?: string;       // Exact YYYY-MM-DD match
+  startDate?: string;  // Inclusive lower bound
+  endDate?: string;    // Inclusive upper bound
+  beforeDate?: string; // Exclusive upper bound
+}
+
+export interface EntryQuery extends DateRangeQuery {
+  projection?: EntryProjection;
+  limit?: number;
+}
+
+export type DailyTotals = Omit<DailySummary, 'entries'>;
+
+export type ReportType = CoachReport['reportType'];
+
+export interface StoredChatMessage extends ChatMessage {
+  date: string;
+}
+
+export interface DBCheckResult {
+  ok: boolean;
+  error?: string;
+  missingTables?: boolean;
+}
+
+export interface StorageBackend {
+  readonly kind: BackendKind;
+
+  /** Verify the backing store is reachable and set up */
+  checkSchema(): Promise<DBCheckResult>;
+
+  // --- Food Entries ---
+  saveEntry(userId: string, entry: FoodEntry): Promise<void>;
+  /** Bulk upsert (migrations/imports) */
+  saveEntries(userId: string, entries: FoodEntry[]): Promise<void>;
+  /** Entries ordered newest first */
+  listEntries(userId: string, query?: EntryQuery): Promise<FoodEntry[]>;
+  /** One entry with every field, null when missing or in the trash */
+  getEntry(userId: string, entryId: string): Promise<FoodEntry | null>;
+  countEntries(userId: string, date: string): Promise<number>;
+  getEntryImage(userId: string, entryId: string): Promise<string | null>;
+  clearEntryImage(userId: string, entryId: string): Promise<void>;
+  /** Move an entry to the trash, photo included */
+  deleteEntry(userId: string, entryId: string): Promise<void>;
+  deleteEntriesForDate(userId: string, date: string): Promise<void>;
+
+  // --- Compacted Daily Summaries ---
+  listSummaries(userId: string, query?: DateRangeQuery): Promise<DailyTotals[]>;
+  saveSummary(userId: string, summary: DailyTotals): Promise<void>;
+
+  // --- Settings & Profile ---
+  getDailyGoal(userId: string): Promise<number | null>;
+  saveDailyGoal(userId: string, goal: number): Promise<void>;
+  getProfile(userId: string): Promise<UserProfile | null>;
+  saveProfile(userId: string, profile: UserProfile): Promise<void>;
+  getOnboardingComplete(userId: string): Promise<boolean>;
+  setOnboardingComplete(userId: string): Promise<void>;
+  /** null when the user never changed the default */
+  getRetentionPolicy(userId: string): Promise<RetentionPolicy | null>;
+  saveRetentionPolicy(userId: string, policy: RetentionPolicy): Promise<void>;
+
+  // --- Coach Chat ---
+  saveChatMessage(userId: string, message: StoredChatMessage): Promise<void>;
+  /** Messages ordered oldest first */
+  listChatMessages(userId: string, date: string): Promise<ChatMessage[]>;
+  /** Every message for the user, oldest first (account export) */
+  listAllChatMessages(userId: string): Promise<StoredChatMessage[]>;
+  /** Move one message to the trash */
+  deleteChatMessage(userId: string, messageId: string): Promise<void>;
+  deleteChatMessagesBefore(userId: string, date: string): Promise<void>;
+
+  // --- Workout Plans ---
+  saveWorkoutPlan(userId: string, plan: DailyWorkout & { id: string }): Promise<void>;
+  listWorkoutPlans(userId: string, query?: DateRangeQuery): Promise<DailyWorkout[]>;
+  /** Move one plan to the trash */
+  deleteWorkoutPlan(userId: string, planId: string): Promise<void>;
+  deleteWorkoutPlansForDate(userId: string, date: string): Promise<void>;
+
+  // --- Engagement ---
+  getStreak(userId: string): Promise<StreakData | null>;
+  saveStreak(userId: string, data: StreakData): Promise<void>;
+  getWeightGoal(userId: string): Promise<WeightGoal | null>;
+  saveWeightGoal(userId: string, goal: WeightGoal): Promise<void>;
+
+  // --- Coach Reports ---
+  getReport(userId: string, reportType: ReportType, periodStart: string, periodEnd: string): Promise<CoachReport | null>;
+  saveReport(userId: string, report: CoachReport): Promise<void>;
+  /** Every saved report, newest first (account export) */
+  listReports(userId: string): Promise<CoachReport[]>;
+
+  // --- AI Usage ---
+  saveAIUsage(userId: string, record: AIUsageRecord): Promise<void>;
+  /** Ledger records in a date range, newest first */
+  listAIUsage(userId: string, query?: DateRangeQuery): Promise<AIUsageRecord[]>;
+  getAIUsageCaps(userId: string): Promise<AIUsageCaps | null>;
+  saveAIUsageCaps(userId: string, caps: AIUsageCaps): Promise<void>;
+
+  // --- Trash ---
+  /** Deleted entries, workout plans and chat messages, most recently deleted first */
+  listTrash(userId: string): Promise<TrashItem[]>;
+  /** Put a trashed record back. No-op when it's no longer in the trash. */
+  restoreFromTrash(userId: string, itemId: string): Promise<void>;
+  /** Delete a trashed record for good */
+  purgeFromTrash(userId: string, itemId: string): Promise<void>;
+
+  // --- Account Deletion ---
+  /** Delete every record of the user for good (trash and photos included) */
+  deleteUserData(userId: string): Promise<DeletedRecords>;
+}
+
+// --- Account Deletion ---
+
+/**
+ * How many records of each kind an account deletion removed
+ */
+export interface DeletedRecords {
+  entries: number;
+  summaries: number;
+  workoutPlans: number;
+  chatMessages: number;
+  reports: number;
+  settings: number;   // Profile, goals, streak and other one-per-user values
+  photos: number;
+  aiUsage: number;    // Usage ledger records
+}
+
+export const noDeletedRecords = (): DeletedRecords => ({
+  entries: 0,
+  summaries: 0,
+  workoutPlans: 0,
+  chatMessages: 0,
+  reports: 0,
+  settings: 0,
+  photos: 0,
+  aiUsage: 0,
+});
+
+// --- Offline Outbox ---
+
+/**
+ * A cloud write recorded while Supabase was unreachable
+ */
+export type OutboxMutation =
+  | { type: 'saveEntry'; entry: FoodEntry }
+  | { type: 'deleteEntry'; entryId: string; deletedAt?: string }  // deletedAt is missing on items queued by older builds
+  | { type: 'clearEntryImage'; entryId: string }
+  | { type: 'saveWorkoutPlan'; plan: DailyWorkout & { id: string } }
+  | { type: 'deleteWorkoutPlan'; planId: string; deletedAt?: string };
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxItem {
+  seq?: number;          // Assigned by device storage, defines replay order
+  userId: string;
+  mutation: OutboxMutation;
+  createdAt: string;
+  attempts: number;
+  status: OutboxStatus;  // failed = rejected by Supabase, waits for retry or discard
+  lastError?: string;
+}
+
+// --- Conflicts ---
+
+export type ConflictKind = 'entry' | 'workoutPlan';
+
+/** Which version of a conflicting record the user keeps */
+export type ConflictChoice = 'local' | 'remote';
+
+interface ConflictBase {
+  id: string;          // `${kind}:${recordId}` - a newer conflict on the same record replaces the old one
+  userId: string;
+  recordId: string;
+  fields: string[];    // Fields changed differently on the two devices
+  detectedAt: string;
+}
+
+/**
+ * A concurrent edit the automatic merge couldn't settle. The cloud keeps
+ * the remote version until the user picks one.
+ */
+export type ConflictItem = ConflictBase & (
+  | { kind: 'entry'; local: FoodEntry; remote: FoodEntry }
+  | { kind: 'workoutPlan'; local: DailyWorkout & { id: string }; remote: DailyWorkout & { id: string } }
+);
+
+// --- Trash ---
+
+export type TrashKind = 'entry' | 'workoutPlan' | 'chatMessage';
+
+interface TrashBase {
+  id: string;          // `${kind}:${recordId}`
+  userId: string;
+  recordId: string;
+  deletedAt: string;
+}
+
+/**
+ * A record the user deleted. It can be restored until it's purged.
+ * Trashed entries are listed without their photo.
+ */
+export type TrashItem = TrashBase & (
+  | { kind: 'entry'; record: FoodEntry }
+  | { kind: 'workoutPlan'; record: DailyWorkout & { id: string } }
+  | { kind: 'chatMessage'; record: StoredChatMessage }
+);
+
+export const trashItemId = (kind: TrashKind, recordId: string): string => `${kind}:${recordId}`;
+
+export const parseTrashItemId = (itemId: string): { kind: TrashKind; recordId: string } => {
+  const separator = itemId.indexOf(':');
+  return { kind: itemId.slice(0, separator) as TrashKind, recordId: itemId.slice(separator + 1) };
+};
+
+// --- Media ---
+
+export type MediaVariant = 'original' | 'thumbnail';
+
+export interface StoredMedia {
+  key: string;
+  createdAt: string;
+}
+
+/**
+ * Binary storage for meal photos. An entry references its photo by
+ * `imageKey`; every key holds an original and a thumbnail.
+ */
+export interface MediaStore {
+  putMedia(userId: string, key: string, variant: MediaVariant, blob: Blob): Promise<void>;
+  readMedia(userId: string, key: string, variant: MediaVariant): Promise<Blob | null>;
+  /** URL an <img> can load - a signed URL in the cloud, an object URL on the device. null when missing. */
+  getMediaUrl(userId: string, key: string, variant: MediaVariant): Promise<string | null>;
+  /** Every photo key stored for the user */
+  listMedia(userId: string): Promise<StoredMedia[]>;
+  /** Remove both variants of each key */
+  deleteMedia(userId: string, keys: string[]): Promise<void>;
+}
+
+export const isMediaStore = (store: object): store is MediaStore => 'putMedia' in store;
+
+// --- Sync ---
+
+/**
+ * Device stores replicated to Supabase by the sync engine
+ */
+export type SyncTable = 'entries' | 'summaries' | 'coach_messages' | 'workout_plans' | 'reports' | 'user_records';
+
+/**
+ * Change tracking carried by every synced device record
+ */
+export interface SyncFields {
+  updated_at?: string;  // Last change, local or pulled (ISO)
+  deleted?: boolean;    // Tombstone, removed once the deletion is pushed unless it's in the trash
+  deleted_at?: string | null;  // When a trashed record was deleted (null once purged)
+  dirty?: 0 | 1;        // Changed on this device and not pushed yet (a number so it can be indexed)
+}
+
+/**
+ * Per-account progress, saved after every page so an interrupted sync resumes
+ */
+export interface SyncState {
+  /** Highest updated_at pulled, per Supabase table */
+  cursors: Record<string, string>;
+  lastSyncedAt: string | null;
+}
+
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+}
+
+/**
+ * Record-level access the sync engine needs from device storage
+ * Records are raw device rows including their SyncFields.
+ */
+export interface SyncableDevice {
+  /** Dirty records for one user, entries include their photo as imageUrl */
+  listDirtyRecords(table: SyncTable, userId: string, limit: number): Promise<any[]>;
+  /** Clear the dirty flag (or drop the tombstone) unless the record changed again since it was read */
+  markRecordsSynced(table: SyncTable, records: any[]): Promise<void>;
+  /**
+   * Store pulled records. Unpushed entries and workout plans are kept for the
+   * push to reconcile; for other records a newer unpushed edit wins.
+   */
+  applyRemoteRecords(table: SyncTable, records: any[]): Promise<void>;
+  /** Store records just confirmed by Supabase, replacing the local copy even if it has unpushed edits */
+  storeSyncedRecords(table: SyncTable, records: any[]): Promise<void>;
+  getSyncState(userId: string): Promise<SyncState | null>;
+  saveSyncState(userId: string, state: SyncState): Promise<void>;
+  /** Whether accounts that never synced (device-only mode) left entries behind */
+  hasUnsyncedAccountData(userId: string): Promise<boolean>;
+  /** Re-own those records to this user and mark them for upload. Returns how many moved. */
+  adoptUnsyncedAccountData(userId: string): Promise<number>;
+}
+
+export const isSyncableDevice = (backend: StorageBackend): backend is DeviceStorageBackend & SyncableDevice =>
+  'applyRemoteRecords' in backend;
+
+/**
+ * Snapshot of device data as it existed before cloud mode was enabled
+ */
+export interface DeviceSnapshot {
+  entries: FoodEntry[];
+  dailyGoal: number | null;
+  profile: UserProfile | null;
+}
+
+/**
+ * Synchronous key/value storage with the localStorage API
+ */
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/**
+ * Backend that lives on this device. Besides serving local mode it backs
+ * the cloud mirror and holds data waiting to be migrated to the cloud.
+ */
+export interface DeviceStorageBackend extends StorageBackend {
+  /** Everything stored on this device regardless of owner (mock user IDs differ from cloud IDs) */
+  readDeviceSnapshot(): Promise<DeviceSnapshot>;
+  clearDeviceSnapshot(): Promise<void>;
+  /** IDs of every account with records on this device */
+  listDeviceUsers(): Promise<string[]>;
+  /** Delete everything this backend keeps on the device, for every account */
+  clearDevice(): Promise<void>;
+
+  // --- Offline Outbox ---
+  /** Queued cloud writes ordered by seq */
+  listOutbox(): Promise<OutboxItem[]>;
+  /** Insert or update an item; new items get the next seq */
+  putOutboxItem(item: OutboxItem): Promise<OutboxItem>;
+  deleteOutboxItem(seq: number): Promise<void>;
+
+  // --- Conflict Log ---
+  listConflicts(): Promise<ConflictItem[]>;
+  /** Insert or replace by id */
+  putConflict(item: ConflictItem): Promise<void>;
+  deleteConflict(id: string): Promise<void>;
+}
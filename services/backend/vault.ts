@@ -0,0 +1,341 @@
+/**
+ * Encrypted Device Vault
+ * Passphrase-protected storage for local mode. Once unlocked it behaves like
+ * localStorage - reads are served from memory - so the LocalStorageBackend runs
+ * on top of it unchanged. Writes are encrypted with AES-GCM and persisted to
+ * IndexedDB in the background, one ciphertext per record: arrays of records
+ * (entries, chat, plans, ...) are split by id, so saving a meal re-encrypts
+ * only that meal.
+ */
+
+import { openDatabase, deleteDatabase, promisifyRequest, transactionDone } from '../../utils/indexedDb';
+import { PBKDF2_ITERATIONS, SealedRecord, generateSalt, deriveKey, seal, unseal } from '../../utils/crypto';
+import { KeyValueStorage } from './types';
+
+const DB_NAME = 'snapcal-vault';
+const DB_VERSION = 1;
+
+const STORES = {
+  RECORDS: 'records', // SealedRecord keyed by storage key (`${key}#${id}` for array items)
+  META: 'meta',       // Key derivation parameters
+} as const;
+
+const KEY_RECORD = 'key';
+
+// Encrypted into the meta record - decrypting it proves the passphrase is right
+const VERIFIER = 'snapcal-vault-v1';
+
+// Set while the vault holds this device's data, so startup can tell without opening IndexedDB
+const VAULT_ENABLED_KEY = 'snapcal_vault_v1';
+
+interface KeyRecord {
+  key: typeof KEY_RECORD;
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  verifier: SealedRecord;
+}
+
+interface VaultRecord extends SealedRecord {
+  key: string;
+}
+
+/**
+ * Whether local data on this device is encrypted
+ */
+export const isVaultEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(VAULT_ENABLED_KEY) !== null;
+  } catch (e) {
+    return false;
+  }
+};
+
+// --- Record Splitting ---
+
+const MANIFEST = '#';
+
+const ownerOf = (recordKey: string): string => {
+  const separator = recordKey.indexOf(MANIFEST);
+  return separator < 0 ? recordKey : recordKey.slice(0, separator);
+};
+
+/**
+ * Records a stored value is persisted as: one per item for arrays of uniquely
+ * identified items (plus a manifest with their order), otherwise the value itself
+ */
+const splitValue = (key: string, value: string): Map<string, string> => {
+  const records = new Map<string, string>();
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed) && parsed.every(item => typeof item?.id === 'string')) {
+      const ids: string[] = parsed.map(item => item.id);
+      if (new Set(ids).size === ids.length) {
+        parsed.forEach(item => records.set(`${key}${MANIFEST}${item.id}`, JSON.stringify(item)));
+        records.set(`${key}${MANIFEST}`, JSON.stringify(ids));
+        return records;
+      }
+    }
+  } catch (e) {
+    // Not JSON - stored whole
+  }
+  records.set(key, value);
+  return records;
+};
+
+/**
+ * Reassemble stored values from their records (the inverse of splitValue)
+ */
+const joinRecords = (records: Map<string, string>): Map<string, string> => {
+  const values = new Map<string, string>();
+  records.forEach((plaintext, recordKey) => {
+    if (recordKey === ownerOf(recordKey)) {
+      values.set(recordKey, plaintext);
+      return;
+    }
+    if (!recordKey.endsWith(MANIFEST)) return;
+
+    const key = ownerOf(recordKey);
+    const ids: string[] = JSON.parse(plaintext);
+    const items = ids
+      .map(id => records.get(`${key}${MANIFEST}${id}`))
+      .filter((item): item is string => item !== undefined);
+    if (items.length < ids.length) console.warn(`${ids.length - items.length} encrypted records of ${key} are missing`);
+    values.set(key, `[${items.join(',')}]`);
+  });
+  return values;
+};
+
+// --- Vault ---
+
+export class Vault implements KeyValueStorage {
+  private key: CryptoKey | null = null;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // Stored values by storage key, as the backend wrote them
+  private values = new Map<string, string>();
+  // Plaintext of every persisted record, to find what changed on a write
+  private records = new Map<string, string>();
+
+  // Persistence runs in order; the first failed write is reported by flush()
+  private queue: Promise<void> = Promise.resolve();
+  private failure: unknown = null;
+
+  get isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(STORES.RECORDS)) db.createObjectStore(STORES.RECORDS, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(STORES.META)) db.createObjectStore(STORES.META, { keyPath: 'key' });
+      });
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  private async readKeyRecord(): Promise<KeyRecord | null> {
+    const db = await this.db();
+    const record = await promisifyRequest(db.transaction(STORES.META, 'readonly').objectStore(STORES.META).get(KEY_RECORD));
+    return (record as KeyRecord) || null;
+  }
+
+  /**
+   * The key for a passphrase, or an error when it's the wrong one
+   */
+  private async keyFor(passphrase: string): Promise<CryptoKey> {
+    const meta = await this.readKeyRecord();
+    if (!meta) throw new Error("There is no encrypted data on this device.");
+
+    const key = await deriveKey(passphrase, meta.salt, meta.iterations);
+    try {
+      await unseal(key, meta.verifier, KEY_RECORD);
+    } catch (e) {
+      throw new Error("Wrong passphrase.");
+    }
+    return key;
+  }
+
+  private async newKeyRecord(passphrase: string): Promise<{ key: CryptoKey; meta: KeyRecord }> {
+    const salt = generateSalt();
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const verifier = await seal(key, VERIFIER, KEY_RECORD);
+    return { key, meta: { key: KEY_RECORD, salt, iterations: PBKDF2_ITERATIONS, verifier } };
+  }
+
+  /**
+   * Replace every record (and optionally the key record) in one transaction
+   */
+  private async replaceAll(records: VaultRecord[], meta?: KeyRecord): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction([STORES.RECORDS, STORES.META], 'readwrite');
+    const store = tx.objectStore(STORES.RECORDS);
+    store.clear();
+    records.forEach(record => store.put(record));
+    if (meta) tx.objectStore(STORES.META).put(meta);
+    await transactionDone(tx);
+  }
+
+  private sealAll(key: CryptoKey, records: [string, string][]): Promise<VaultRecord[]> {
+    return Promise.all(records.map(async ([recordKey, plaintext]) => ({ key: recordKey, ...(await seal(key, plaintext, recordKey)) })));
+  }
+
+  /**
+   * Run a persistence step after the ones already queued
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private requireKey(): CryptoKey {
+    if (!this.key) throw new Error("Encrypted storage is locked.");
+    return this.key;
+  }
+
+  // --- Lifecycle ---
+
+  /**
+   * Start an empty vault protected by `passphrase`, replacing any previous one.
+   * It isn't used at startup until activate() is called.
+   */
+  async create(passphrase: string): Promise<void> {
+    const { key, meta } = await this.newKeyRecord(passphrase);
+    await this.enqueue(() => this.replaceAll([], meta));
+    this.key = key;
+    this.values.clear();
+    this.records.clear();
+  }
+
+  /**
+   * Wait for pending writes, then use the vault from the next startup on
+   */
+  async activate(): Promise<void> {
+    await this.flush();
+    localStorage.setItem(VAULT_ENABLED_KEY, new Date().toISOString());
+  }
+
+  /**
+   * Decrypt everything into memory. Rejects on a wrong passphrase.
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const key = await this.keyFor(passphrase);
+    const db = await this.db();
+    const stored = await promisifyRequest<VaultRecord[]>(db.transaction(STORES.RECORDS, 'readonly').objectStore(STORES.RECORDS).getAll());
+
+    const plaintexts = await Promise.all(stored.map(record => unseal(key, record, record.key)));
+    this.records = new Map(stored.map((record, i) => [record.key, plaintexts[i]]));
+    this.values = joinRecords(this.records);
+    this.key = key;
+  }
+
+  /**
+   * Check a passphrase without changing anything
+   */
+  async verify(passphrase: string): Promise<void> {
+    await this.keyFor(passphrase);
+  }
+
+  /**
+   * Re-encrypt everything under a new passphrase (and a new salt)
+   */
+  async changePassphrase(current: string, next: string): Promise<void> {
+    this.requireKey();
+    await this.keyFor(current);
+    const { key, meta } = await this.newKeyRecord(next);
+
+    await this.enqueue(async () => {
+      // Queued after every earlier write, so the records are complete
+      const records = await this.sealAll(key, Array.from(this.records));
+      await this.replaceAll(records, meta);
+      this.key = key;
+    });
+    await this.flush();
+  }
+
+  /**
+   * Delete the vault and everything in it
+   */
+  async destroy(): Promise<void> {
+    await this.queue;
+    this.key = null;
+    this.values.clear();
+    this.records.clear();
+    this.failure = null;
+    if (this.dbPromise) (await this.dbPromise.catch(() => null))?.close();
+    this.dbPromise = null;
+    localStorage.removeItem(VAULT_ENABLED_KEY);
+    await deleteDatabase(DB_NAME);
+  }
+
+  /**
+   * Resolve once every write so far is persisted; rejects if one of them failed
+   */
+  async flush(): Promise<void> {
+    await this.queue;
+    if (this.failure) {
+      const failure = this.failure;
+      this.failure = null;
+      throw failure;
+    }
+  }
+
+  // --- Storage API ---
+
+  getItem(key: string): string | null {
+    this.requireKey();
+    return this.values.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.requireKey();
+    this.values.set(key, value);
+    this.persist(key, splitValue(key, value));
+  }
+
+  removeItem(key: string): void {
+    this.requireKey();
+    this.values.delete(key);
+    this.persist(key, new Map());
+  }
+
+  /**
+   * Encrypt and store the records of `key` that changed, delete the ones that are gone
+   */
+  private persist(key: string, next: Map<string, string>): void {
+    const changed: [string, string][] = [];
+    const removed: string[] = [];
+
+    next.forEach((plaintext, recordKey) => {
+      if (this.records.get(recordKey) !== plaintext) changed.push([recordKey, plaintext]);
+    });
+    this.records.forEach((_, recordKey) => {
+      if (ownerOf(recordKey) === key && !next.has(recordKey)) removed.push(recordKey);
+    });
+    if (changed.length === 0 && removed.length === 0) return;
+
+    changed.forEach(([recordKey, plaintext]) => this.records.set(recordKey, plaintext));
+    removed.forEach(recordKey => this.records.delete(recordKey));
+
+    this.enqueue(async () => {
+      // The key is read when the write runs - a passphrase change queued earlier may have replaced it
+      const sealed = await this.sealAll(this.requireKey(), changed);
+      const db = await this.db();
+      const tx = db.transaction(STORES.RECORDS, 'readwrite');
+      const store = tx.objectStore(STORES.RECORDS);
+      sealed.forEach(record => store.put(record));
+      removed.forEach(recordKey => store.delete(recordKey));
+      await transactionDone(tx);
+    }).catch(error => {
+      this.failure = this.failure ?? error;
+      console.error('Failed to save encrypted data:', error);
+    });
+  }
+}
+
+/**
+ * The device's vault (local mode with encryption turned on)
+ */
+export const vault = new Vault();
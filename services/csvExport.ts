@@ -0,0 +1,156 @@
+/**
+ * Spreadsheet Export Service
+ * Turns the food diary into CSV files: one row per meal, or one row per day.
+ *
+ * Days older than the cleanup window only survive as compacted daily
+ * summaries, so both exports fall back to those rows where no meals remain.
+ */
+
+import { getCurrentUser } from './auth';
+import { getBackend, DailyTotals } from './backend';
+import { FoodEntry } from '../types';
+
+export interface CsvDateRange {
+    startDate?: string; // Inclusive YYYY-MM-DD, open-ended when omitted
+    endDate?: string;   // Inclusive YYYY-MM-DD, open-ended when omitted
+}
+
+type CsvCell = string | number | boolean | null | undefined;
+
+/** Row came from a logged meal, or from a day compacted by cleanup */
+type RowSource = 'entry' | 'daily_summary';
+
+const ENTRY_HEADERS = ['date', 'time', 'food_item', 'calories', 'protein', 'carbs', 'fat', 'confidence', 'manual', 'ingredients', 'source'];
+const SUMMARY_HEADERS = ['date', 'calories', 'protein', 'carbs', 'fat', 'meals', 'source'];
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const escapeCell = (value: CsvCell): string => {
+    if (value === null || value === undefined) return '';
+    let text = String(value);
+    if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (headers: string[], rows: CsvCell[][]): string =>
+    [headers, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * "Rice (150g, 195 kcal); Chicken (120g, 198 kcal)"
+ */
+const flattenIngredients = (entry: FoodEntry): string =>
+    (entry.ingredients || []).map(i => `${i.name} (${round(i.grams)}g, ${Math.round(i.calories)} kcal)`).join('; ');
+
+const loadRange = async (range: CsvDateRange): Promise<{ entries: FoodEntry[]; summaries: DailyTotals[] }> => {
+    const user = await getCurrentUser();
+    if (!user) throw new Error("User must be logged in to export.");
+
+    const backend = getBackend();
+    const { startDate, endDate } = range;
+    const [entries, summaries] = await Promise.all([
+        backend.listEntries(user.id, { projection: 'lite', startDate, endDate }),
+        backend.listSummaries(user.id, { startDate, endDate }),
+    ]);
+    return { entries, summaries };
+};
+
+/**
+ * Compacted days that have no meals left - live meals win where both exist
+ */
+const compactedOnly = (entries: FoodEntry[], summaries: DailyTotals[]): DailyTotals[] => {
+    const liveDates = new Set(entries.map(e => e.date));
+    return summaries.filter(s => !liveDates.has(s.date));
+};
+
+// --- Exports ---
+
+/**
+ * One row per meal, oldest first. Compacted days appear as a single daily-total row.
+ */
+export const buildEntriesCsv = async (range: CsvDateRange = {}): Promise<string> => {
+    const { entries, summaries } = await loadRange(range);
+
+    const rows: { sortKey: string; cells: CsvCell[] }[] = [
+        ...entries.map(e => ({
+            sortKey: `${e.date} ${e.time} ${e.timestamp}`,
+            cells: [
+                e.date, e.time, e.food_item,
+                Math.round(e.calories || 0), round(e.protein || 0), round(e.carbs || 0), round(e.fat || 0),
+                e.confidence, e.isManual === true, flattenIngredients(e), 'entry' as RowSource,
+            ],
+        })),
+        ...compactedOnly(entries, summaries).map(s => ({
+            sortKey: s.date,
+            cells: [
+                s.date, '', 'Daily total',
+                Math.round(s.totalCalories), round(s.totalProtein), round(s.totalCarbs), round(s.totalFat),
+                '', '', '', 'daily_summary' as RowSource,
+            ],
+        })),
+    ];
+
+    rows.sort((a, b) => a.sortKey.localeCompare(b.sortKey));
+    return toCsv(ENTRY_HEADERS, rows.map(r => r.cells));
+};
+
+/**
+ * One row per day with totals and meal count, oldest first
+ */
+export const buildDailySummariesCsv = async (range: CsvDateRange = {}): Promise<string> => {
+    const { entries, summaries } = await loadRange(range);
+
+    const days: Record<string, { totals: DailyTotals; meals: number | null; source: RowSource }> = {};
+    for (const s of compactedOnly(entries, summaries)) {
+        days[s.date] = { totals: s, meals: null, source: 'daily_summary' };
+    }
+    for (const e of entries) {
+        if (!days[e.date]) {
+            days[e.date] = {
+                totals: { date: e.date, totalCalories: 0, totalProtein: 0, totalCarbs: 0, totalFat: 0 },
+                meals: 0,
+                source: 'entry',
+            };
+        }
+        const day = days[e.date];
+        day.totals.totalCalories += e.calories || 0;
+        day.totals.totalProtein += e.protein || 0;
+        day.totals.totalCarbs += e.carbs || 0;
+        day.totals.totalFat += e.fat || 0;
+        day.meals = (day.meals || 0) + 1;
+    }
+
+    const rows = Object.values(days)
+        .sort((a, b) => a.totals.date.localeCompare(b.totals.date))
+        .map(({ totals, meals, source }) => [
+            totals.date,
+            Math.round(totals.totalCalories), round(totals.totalProtein), round(totals.totalCarbs), round(totals.totalFat),
+            meals, source,
+        ]);
+
+    return toCsv(SUMMARY_HEADERS, rows);
+};
+
+/**
+ * Save CSV text through the browser's download prompt
+ */
+export const downloadCsv = (csv: string, filename: string): void => {
+    // BOM so Excel reads food names as UTF-8
+    const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * snapcal-meals_2024-01-01_2024-01-31.csv
+ */
+export const csvFilename = (kind: 'meals' | 'daily-totals', range: CsvDateRange): string => {
+    const parts = [`snapcal-${kind}`, range.startDate || 'start', range.endDate || 'latest'];
+    return `${parts.join('_')}.csv`;
+};
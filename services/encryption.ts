@@ -0,0 +1,212 @@
+/**
+ * Local Data Encryption
+ * Optional passphrase protection for Device Only mode. Turning it on moves
+ * every account on this device into the encrypted vault and deletes the
+ * plaintext copy; turning it off moves everything back. Pages never see the
+ * difference - the vault serves the same backend API once unlocked.
+ */
+
+import { shouldUseCloud } from './supabase';
+import {
+  localBackend,
+  setDeviceBackend,
+  vault,
+  isVaultEnabled,
+  isMediaStore,
+  runLocalStorageMigrations,
+  DeviceStorageBackend,
+  LocalStorageBackend,
+  IndexedDbBackend,
+} from './backend';
+import { migrateEntryPhotos } from './media';
+import { signOut } from './auth';
+import { forgetAllLocalAccounts } from './localAccounts';
+import { cache } from '../utils/cache';
+import { isCryptoAvailable } from '../utils/crypto';
+import { isIndexedDbAvailable } from '../utils/indexedDb';
+import { blobToDataURL } from '../utils/imageOptimization';
+import { FoodEntry } from '../types';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Whether this browser can encrypt local data (WebCrypto and IndexedDB)
+ */
+export const isEncryptionAvailable = (): boolean => isCryptoAvailable() && isIndexedDbAvailable();
+
+export const isEncryptionEnabled = (): boolean => isVaultEnabled();
+
+/**
+ * Whether the passphrase must be entered before the app can read anything
+ */
+export const needsUnlock = (): boolean => !shouldUseCloud && isVaultEnabled() && !vault.isUnlocked;
+
+const checkPassphrase = (passphrase: string): void => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+};
+
+// --- Copying Between Backends ---
+
+/**
+ * Copy one account's records from one device backend to another.
+ * Photos go across inline; trashed records land in the target's trash.
+ */
+const copyAccount = async (from: DeviceStorageBackend, to: DeviceStorageBackend, userId: string): Promise<void> => {
+  const media = isMediaStore(from) ? from : null;
+  const inlinePhoto = async (entry: FoodEntry): Promise<FoodEntry> => {
+    if (!entry.imageKey || !media) return entry;
+    const blob = await media.readMedia(userId, entry.imageKey, 'original');
+    return { ...entry, imageKey: undefined, imageUrl: blob ? await blobToDataURL(blob) : undefined };
+  };
+
+  const entries = await from.listEntries(userId, { projection: 'full' });
+  if (entries.length > 0) await to.saveEntries(userId, await Promise.all(entries.map(inlinePhoto)));
+
+  for (const summary of await from.listSummaries(userId)) {
+    await to.saveSummary(userId, summary);
+  }
+  for (const plan of await from.listWorkoutPlans(userId)) {
+    if (plan.id) await to.saveWorkoutPlan(userId, { ...plan, id: plan.id });
+  }
+  for (const message of await from.listAllChatMessages(userId)) {
+    await to.saveChatMessage(userId, message);
+  }
+  for (const report of await from.listReports(userId)) {
+    await to.saveReport(userId, report);
+  }
+  // Oldest first, so a capped target keeps the newest
+  for (const record of (await from.listAIUsage(userId)).reverse()) {
+    await to.saveAIUsage(userId, record);
+  }
+
+  const [profile, dailyGoal, onboarded, streak, weightGoal, retention, aiCaps] = await Promise.all([
+    from.getProfile(userId),
+    from.getDailyGoal(userId),
+    from.getOnboardingComplete(userId),
+    from.getStreak(userId),
+    from.getWeightGoal(userId),
+    from.getRetentionPolicy(userId),
+    from.getAIUsageCaps(userId),
+  ]);
+  if (profile) await to.saveProfile(userId, profile);
+  if (dailyGoal !== null) await to.saveDailyGoal(userId, dailyGoal);
+  if (onboarded) await to.setOnboardingComplete(userId);
+  if (streak) await to.saveStreak(userId, streak);
+  if (weightGoal) await to.saveWeightGoal(userId, weightGoal);
+  if (retention) await to.saveRetentionPolicy(userId, retention);
+  if (aiCaps) await to.saveAIUsageCaps(userId, aiCaps);
+
+  // Saving then deleting puts a record in the target's trash (restorable for the usual period again)
+  for (const item of await from.listTrash(userId)) {
+    if (item.kind === 'entry') {
+      await to.saveEntry(userId, await inlinePhoto(item.record));
+      await to.deleteEntry(userId, item.recordId);
+    } else if (item.kind === 'workoutPlan') {
+      await to.saveWorkoutPlan(userId, item.record);
+      await to.deleteWorkoutPlan(userId, item.recordId);
+    } else {
+      await to.saveChatMessage(userId, item.record);
+      await to.deleteChatMessage(userId, item.recordId);
+    }
+  }
+};
+
+const copyDevice = async (from: DeviceStorageBackend, to: DeviceStorageBackend): Promise<string[]> => {
+  const users = await from.listDeviceUsers();
+  for (const userId of users) {
+    await copyAccount(from, to, userId);
+  }
+  return users;
+};
+
+const refreshScreens = (): void => {
+  cache.clear();
+  window.dispatchEvent(new CustomEvent('food-entry-updated'));
+  window.dispatchEvent(new CustomEvent('streak-updated'));
+};
+
+// --- Public API ---
+
+/**
+ * Decrypt this device's data. Rejects with "Wrong passphrase." on a mismatch.
+ * The vault's records get the same schema migrations as plain localStorage.
+ */
+export const unlockDevice = async (passphrase: string): Promise<void> => {
+  await vault.unlock(passphrase);
+  runLocalStorageMigrations(vault);
+};
+
+/**
+ * Encrypt everything stored on this device under `passphrase`
+ */
+export const enableEncryption = async (passphrase: string): Promise<void> => {
+  if (shouldUseCloud) throw new Error("Encryption is only available in Local Mode.");
+  if (!isEncryptionAvailable()) throw new Error("This browser can't encrypt local data.");
+  if (isVaultEnabled()) throw new Error("Local data is already encrypted.");
+  checkPassphrase(passphrase);
+
+  const plaintext = localBackend;
+  const encrypted = new LocalStorageBackend(vault);
+  await vault.create(passphrase);
+  try {
+    const users = await copyDevice(plaintext, encrypted);
+    await vault.activate();
+    console.log(`🔒 Encrypted local data of ${users.length} accounts`);
+  } catch (error) {
+    // Nothing was switched over yet - the plaintext data is untouched
+    await vault.destroy();
+    throw error;
+  }
+
+  setDeviceBackend(encrypted);
+  cache.setPersistent(false);
+  await plaintext.clearDevice();
+  refreshScreens();
+};
+
+/**
+ * Decrypt everything back into regular device storage
+ */
+export const disableEncryption = async (passphrase: string): Promise<void> => {
+  if (!isVaultEnabled() || !vault.isUnlocked) throw new Error("Local data isn't encrypted.");
+  await vault.verify(passphrase);
+  await vault.flush();
+
+  const encrypted = localBackend;
+  const plaintext = isIndexedDbAvailable() ? new IndexedDbBackend() : new LocalStorageBackend();
+  const users = await copyDevice(encrypted, plaintext);
+
+  setDeviceBackend(plaintext);
+  cache.setPersistent(true);
+  await vault.destroy();
+  refreshScreens();
+  console.log(`🔓 Decrypted local data of ${users.length} accounts`);
+
+  // Photos came back inline - move them into the media store
+  for (const userId of users) {
+    migrateEntryPhotos(userId, { force: true }).catch(err => console.error("Photo migration failed:", err));
+  }
+};
+
+/**
+ * Re-encrypt everything under a new passphrase
+ */
+export const changePassphrase = async (current: string, next: string): Promise<void> => {
+  checkPassphrase(next);
+  await vault.changePassphrase(current, next);
+};
+
+/**
+ * Delete the encrypted data for good (forgotten passphrase). The device starts
+ * empty: every account on it had its data in the vault, so they're forgotten too.
+ */
+export const eraseEncryptedData = async (): Promise<void> => {
+  await vault.destroy();
+  forgetAllLocalAccounts();
+  await signOut();
+  setDeviceBackend(isIndexedDbAvailable() ? new IndexedDbBackend() : new LocalStorageBackend());
+  cache.setPersistent(true);
+  refreshScreens();
+};
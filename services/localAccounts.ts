@@ -0,0 +1,339 @@
+/**
+ * Local Accounts
+ * Accounts for Device Only mode. Each keeps a salted PBKDF2 hash of its
+ * password on this device, so signing in as someone else takes their password.
+ *
+ * The user id is still derived from the email, as in earlier builds, so
+ * profiles created before passwords existed keep their data. Such a profile
+ * is claimed by signing up with its email. The id stays put when the email
+ * changes.
+ *
+ * There's no email offline to prove who owns an address, so a link that
+ * would have been emailed is handed back for the user to open instead. An
+ * email change link is issued from a signed-in session and only works in it.
+ * Password reset and sign-in links would let anyone at the device into any
+ * profile, so they are only emulated in dev builds that opt in with
+ * VITE_LOCAL_AUTH_LINKS=true; otherwise a forgotten local password can't be
+ * recovered.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { localBackend } from './backend';
+import { cache } from '../utils/cache';
+import { isCryptoAvailable, generateSalt, hashPassword, bytesEqual, toBase64, fromBase64, PBKDF2_ITERATIONS } from '../utils/crypto';
+
+const LOCAL_ACCOUNTS_KEY = 'snapcal_local_accounts_v1';
+const LOCAL_LINKS_KEY = 'snapcal_local_auth_links_v1';
+
+// Emailed links from Supabase are valid for an hour by default
+const LINK_TTL_MS = 60 * 60 * 1000;
+
+/** URL hash parameter carrying a local link's token */
+export const LOCAL_LINK_PARAM = 'snapcal_auth';
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+interface StoredAccount {
+  id: string;
+  email: string;
+  salt: string;       // base64
+  hash: string;       // base64
+  iterations: number;
+  createdAt: string;
+  lastSignInAt?: string;
+}
+
+interface StoredLink {
+  token: string;
+  type: LocalLinkType;
+  accountId: string;
+  newEmail?: string;  // email_change only
+  expiresAt: string;
+}
+
+export type LocalLinkType = 'recovery' | 'magiclink' | 'email_change';
+
+/** Whether password reset and sign-in links are emulated (dev builds only) */
+export const LOCAL_SIGN_IN_LINKS = import.meta.env.DEV && import.meta.env.VITE_LOCAL_AUTH_LINKS === 'true';
+
+/**
+ * A profile on this device, as listed on the sign-in screen
+ */
+export interface LocalProfile {
+  id: string;
+  email: string;
+  /** False for profiles from before local passwords - sign up to claim them */
+  hasPassword: boolean;
+  lastSignInAt?: string;
+}
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * User id of a local account (base64 of the email, as it has always been)
+ */
+export const localUserId = (email: string): string => {
+  // btoa only takes Latin-1, so encode the email as UTF-8 bytes first
+  return btoa(String.fromCharCode(...new TextEncoder().encode(normalizeEmail(email))));
+};
+
+const emailOfUserId = (id: string): string | null => {
+  try {
+    const email = new TextDecoder().decode(Uint8Array.from(atob(id), char => char.charCodeAt(0)));
+    return email.includes('@') ? email : null;
+  } catch (e) {
+    // Not a local id (e.g. a cloud account mirrored on this device)
+    return null;
+  }
+};
+
+// --- Registry ---
+
+const readAccounts = (): StoredAccount[] => {
+  try {
+    const accounts = JSON.parse(localStorage.getItem(LOCAL_ACCOUNTS_KEY) || '[]');
+    return Array.isArray(accounts) ? accounts : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const writeAccounts = (accounts: StoredAccount[]): void => {
+  localStorage.setItem(LOCAL_ACCOUNTS_KEY, JSON.stringify(accounts));
+};
+
+const findAccount = (email: string): StoredAccount | undefined =>
+  readAccounts().find(a => normalizeEmail(a.email) === normalizeEmail(email));
+
+const updateAccount = (id: string, changes: Partial<StoredAccount>): void => {
+  writeAccounts(readAccounts().map(a => a.id === id ? { ...a, ...changes } : a));
+};
+
+/**
+ * Whether a profile from before local passwords has data under this email
+ */
+const hasUnclaimedData = async (email: string): Promise<boolean> => {
+  const id = localUserId(email);
+  // The id may belong to an account that has since changed its email
+  return !readAccounts().some(a => a.id === id) && (await localBackend.listDeviceUsers()).includes(id);
+};
+
+const requireCrypto = (): void => {
+  if (!isCryptoAvailable()) {
+    throw new Error("Local accounts need a secure connection (https or localhost) to protect passwords.");
+  }
+};
+
+const checkPassword = async (account: StoredAccount, password: string): Promise<boolean> => {
+  const hash = await hashPassword(password, fromBase64(account.salt), account.iterations);
+  return bytesEqual(hash, fromBase64(account.hash));
+};
+
+const checkNewPassword = (password: string): void => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+};
+
+const passwordFields = async (password: string): Promise<Pick<StoredAccount, 'salt' | 'hash' | 'iterations'>> => {
+  const salt = generateSalt();
+  return {
+    salt: toBase64(salt),
+    hash: toBase64(await hashPassword(password, salt, PBKDF2_ITERATIONS)),
+    iterations: PBKDF2_ITERATIONS,
+  };
+};
+
+// --- Public API ---
+
+/**
+ * Every profile on this device, most recently used first
+ */
+export const listLocalProfiles = async (): Promise<LocalProfile[]> => {
+  const accounts = readAccounts();
+  const profiles: LocalProfile[] = accounts.map(a => ({ id: a.id, email: a.email, hasPassword: true, lastSignInAt: a.lastSignInAt }));
+
+  const known = new Set(accounts.map(a => a.id));
+  (await localBackend.listDeviceUsers()).forEach(id => {
+    const email = known.has(id) ? null : emailOfUserId(id);
+    if (email) profiles.push({ id, email, hasPassword: false });
+  });
+
+  return profiles.sort((a, b) => (b.lastSignInAt || '').localeCompare(a.lastSignInAt || ''));
+};
+
+/**
+ * Create an account (or claim a profile from before local passwords)
+ */
+export const createLocalAccount = async (email: string, password: string): Promise<{ id: string; email: string }> => {
+  requireCrypto();
+  checkNewPassword(password);
+  if (findAccount(email)) {
+    throw new Error("An account with this email already exists on this device. Sign in instead.");
+  }
+
+  // An account that moved to another email keeps the id of its old one
+  const derivedId = localUserId(email);
+  const now = new Date().toISOString();
+  const account: StoredAccount = {
+    id: readAccounts().some(a => a.id === derivedId) ? uuidv4() : derivedId,
+    email: email.trim(),
+    ...(await passwordFields(password)),
+    createdAt: now,
+    lastSignInAt: now,
+  };
+  writeAccounts([...readAccounts(), account]);
+  return { id: account.id, email: account.email };
+};
+
+/**
+ * Check an email and password. Rejects with a readable error.
+ */
+export const verifyLocalAccount = async (email: string, password: string): Promise<{ id: string; email: string }> => {
+  requireCrypto();
+  const account = findAccount(email);
+  if (!account) {
+    throw new Error(await hasUnclaimedData(email)
+      ? "This profile was created before local passwords. Choose Sign Up to set a password for it."
+      : "No account with this email on this device. Sign up first.");
+  }
+  if (!(await checkPassword(account, password))) {
+    throw new Error("Incorrect password.");
+  }
+
+  updateAccount(account.id, { lastSignInAt: new Date().toISOString() });
+  return { id: account.id, email: account.email };
+};
+
+/**
+ * Delete a local account and every record it has on this device.
+ * Profiles from before local passwords have no password to check.
+ */
+export const deleteLocalAccount = async (email: string, password?: string): Promise<void> => {
+  const account = findAccount(email);
+  if (account && !(await checkPassword(account, password || ''))) {
+    throw new Error("Incorrect password.");
+  }
+
+  const id = account ? account.id : localUserId(email);
+  await localBackend.deleteUserData(id);
+  forgetLocalAccount(id);
+  cache.clear();
+  console.log(`🗑️ Deleted local account ${normalizeEmail(email)}`);
+};
+
+/**
+ * Drop an account from this device's list once its data is gone
+ */
+export const forgetLocalAccount = (id: string): void => {
+  writeAccounts(readAccounts().filter(a => a.id !== id));
+};
+
+/**
+ * Drop every account, and its pending links, from this device's list (the device's data was erased)
+ */
+export const forgetAllLocalAccounts = (): void => {
+  localStorage.removeItem(LOCAL_ACCOUNTS_KEY);
+  localStorage.removeItem(LOCAL_LINKS_KEY);
+};
+
+/**
+ * Replace an account's password (after a reset, or from a signed-in session)
+ */
+export const setLocalPassword = async (id: string, password: string): Promise<void> => {
+  requireCrypto();
+  checkNewPassword(password);
+  if (!readAccounts().some(a => a.id === id)) throw new Error("No account for this session on this device.");
+  updateAccount(id, await passwordFields(password));
+};
+
+// --- Emailed Links (emulated) ---
+
+const readLinks = (): StoredLink[] => {
+  try {
+    const links = JSON.parse(localStorage.getItem(LOCAL_LINKS_KEY) || '[]');
+    return Array.isArray(links) ? links : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const writeLinks = (links: StoredLink[]): void => {
+  const now = new Date().toISOString();
+  const live = links.filter(link => link.expiresAt > now);
+  if (live.length > 0) {
+    localStorage.setItem(LOCAL_LINKS_KEY, JSON.stringify(live));
+  } else {
+    localStorage.removeItem(LOCAL_LINKS_KEY);
+  }
+};
+
+const issueLink = (type: LocalLinkType, accountId: string, newEmail?: string): string => {
+  const link: StoredLink = {
+    token: uuidv4(),
+    type,
+    accountId,
+    newEmail,
+    expiresAt: new Date(Date.now() + LINK_TTL_MS).toISOString(),
+  };
+  writeLinks([...readLinks(), link]);
+  return `${window.location.origin}${window.location.pathname}#${LOCAL_LINK_PARAM}=${link.token}`;
+};
+
+/**
+ * Issue the password reset or sign-in link an email would carry, for the
+ * account with `email`. Returns the URL to open.
+ */
+export const createSignInLink = async (type: 'recovery' | 'magiclink', email: string): Promise<string> => {
+  if (!LOCAL_SIGN_IN_LINKS) {
+    throw new Error("Local accounts can't be recovered. Without the password, the profile can only be deleted.");
+  }
+  const account = findAccount(email);
+  if (!account) {
+    throw new Error(await hasUnclaimedData(email)
+      ? "This profile was created before local passwords. Choose Sign Up to set a password for it."
+      : "No account with this email on this device. Sign up first.");
+  }
+  return issueLink(type, account.id);
+};
+
+/**
+ * Issue the link an email change would send, for the signed-in account `accountId`.
+ * Returns the URL to open.
+ */
+export const createEmailChangeLink = async (accountId: string, newEmail: string): Promise<string> => {
+  const account = readAccounts().find(a => a.id === accountId);
+  if (!account) throw new Error("No account for this session on this device.");
+  if (normalizeEmail(newEmail) === normalizeEmail(account.email)) throw new Error("Enter a different email.");
+  if (findAccount(newEmail) || await hasUnclaimedData(newEmail)) {
+    throw new Error("Another profile on this device already uses this email.");
+  }
+  return issueLink('email_change', account.id, newEmail.trim());
+};
+
+/**
+ * Use a link's token. Links work once; an email change is applied here, and
+ * only in the session of the account it was issued for.
+ */
+export const redeemLocalLink = async (token: string, signedInId: string | undefined): Promise<{ type: LocalLinkType; account: { id: string; email: string } }> => {
+  const links = readLinks();
+  const link = links.find(l => l.token === token);
+  writeLinks(links.filter(l => l.token !== token));
+  // Sign-in links from a build that emulated them stop working once it doesn't
+  if (!link || (link.type !== 'email_change' && !LOCAL_SIGN_IN_LINKS)) throw new Error("This link is invalid or has already been used.");
+  if (link.expiresAt <= new Date().toISOString()) throw new Error("This link has expired. Request a new one.");
+
+  const account = readAccounts().find(a => a.id === link.accountId);
+  if (!account) throw new Error("The account for this link no longer exists.");
+
+  if (link.type === 'email_change' && link.newEmail) {
+    if (account.id !== signedInId) throw new Error(`Sign in as ${account.email} to confirm this email change.`);
+    // The address may have been taken since the link was issued
+    if (findAccount(link.newEmail)) throw new Error("Another profile on this device already uses this email.");
+    updateAccount(account.id, { email: link.newEmail });
+    return { type: link.type, account: { id: account.id, email: link.newEmail } };
+  }
+
+  updateAccount(account.id, { lastSignInAt: new Date().toISOString() });
+  return { type: link.type, account: { id: account.id, email: account.email } };
+};
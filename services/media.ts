@@ -0,0 +1,186 @@
+/**
+ * Meal Photo Media
+ * Entry photos live in the media store (Supabase Storage in cloud mode,
+ * IndexedDB on the device) as an original plus a thumbnail, referenced by
+ * `imageKey` on the entry. Display URLs are resolved only when a photo is shown.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { FoodEntry } from '../types';
+import { getBackend, getMediaStore, getDeviceMediaStore, MediaStore, MediaVariant } from './backend';
+import { OPTIMIZATION_PRESETS, optimizeDataURL, dataURLToBlob, blobToDataURL } from '../utils/imageOptimization';
+
+// Accounts (per backend kind) whose inline photos were all moved to the media store
+const PHOTO_MIGRATION_KEY = 'snapcal_photo_migration_v1';
+
+// Unreferenced photos this recent may belong to a save that hasn't landed yet
+const PRUNE_GRACE_MS = 24 * 60 * 60 * 1000;
+
+type EntryPhoto = Pick<FoodEntry, 'imageUrl' | 'imageKey'>;
+
+const isDataURL = (url?: string): url is string => !!url && url.startsWith('data:');
+
+// --- Migration Bookkeeping ---
+
+const migrationId = (userId: string): string => `${getBackend().kind}:${userId}`;
+
+const getMigratedAccounts = (): string[] => {
+  try {
+    const ids = JSON.parse(localStorage.getItem(PHOTO_MIGRATION_KEY) || '[]');
+    return Array.isArray(ids) ? ids : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const setMigrated = (userId: string, migrated: boolean): void => {
+  const others = getMigratedAccounts().filter(id => id !== migrationId(userId));
+  localStorage.setItem(PHOTO_MIGRATION_KEY, JSON.stringify(migrated ? [...others, migrationId(userId)] : others));
+};
+
+/**
+ * Forget an account's migration state on every backend kind (the account was deleted)
+ */
+export const forgetPhotoMigration = (userId: string): void => {
+  localStorage.setItem(PHOTO_MIGRATION_KEY, JSON.stringify(getMigratedAccounts().filter(id => !id.endsWith(`:${userId}`))));
+};
+
+// --- Upload ---
+
+const uploadPhoto = async (store: MediaStore, userId: string, dataURL: string): Promise<string> => {
+  const key = uuidv4();
+  const thumbnail = await optimizeDataURL(dataURL, OPTIMIZATION_PRESETS.THUMBNAIL);
+  await store.putMedia(userId, key, 'original', await dataURLToBlob(dataURL));
+  await store.putMedia(userId, key, 'thumbnail', await dataURLToBlob(thumbnail.dataURL));
+  return key;
+};
+
+/**
+ * The entry as it should be stored: a new inline photo is uploaded and
+ * replaced by its key, and a display URL resolved from a key is dropped.
+ * A failed upload (e.g. offline) keeps the photo inline until the next migration.
+ */
+export const storeEntryPhoto = async (userId: string, entry: FoodEntry): Promise<FoodEntry> => {
+  if (entry.imageKey) return { ...entry, imageUrl: undefined };
+
+  const store = getMediaStore();
+  if (!store || !isDataURL(entry.imageUrl)) return entry;
+
+  try {
+    return { ...entry, imageKey: await uploadPhoto(store, userId, entry.imageUrl), imageUrl: undefined };
+  } catch (e) {
+    console.warn('Photo upload failed, keeping it inline for now:', e);
+    setMigrated(userId, false);
+    return entry;
+  }
+};
+
+// --- Reads ---
+
+/**
+ * Display URL for an entry's photo, null when it has none
+ */
+export const resolveEntryPhotoUrl = async (userId: string, entry: EntryPhoto, variant: MediaVariant): Promise<string | null> => {
+  if (!entry.imageKey) return entry.imageUrl || null;
+
+  // Photos taken in Device Only mode may not be uploaded yet
+  return (await getMediaStore()?.getMediaUrl(userId, entry.imageKey, variant))
+    || (await getDeviceMediaStore()?.getMediaUrl(userId, entry.imageKey, variant))
+    || null;
+};
+
+/**
+ * An entry's original photo as a data URL (account archives)
+ */
+export const readEntryPhotoData = async (userId: string, entry: EntryPhoto): Promise<string | undefined> => {
+  if (!entry.imageKey) return entry.imageUrl;
+
+  const blob = (await getMediaStore()?.readMedia(userId, entry.imageKey, 'original'))
+    || (await getDeviceMediaStore()?.readMedia(userId, entry.imageKey, 'original'));
+  return blob ? blobToDataURL(blob) : undefined;
+};
+
+// --- Maintenance ---
+
+/**
+ * Move photos into the active media store:
+ * - inline base64 photos (older builds, failed uploads) are uploaded and replaced by a key
+ * - in cloud mode, photos only this device holds (taken in Device Only mode) are copied up
+ *
+ * Runs once per account and mode unless `force` is set. Resolves with how many photos moved.
+ */
+export const migrateEntryPhotos = async (userId: string, options: { force?: boolean } = {}): Promise<number> => {
+  const store = getMediaStore();
+  if (!store) return 0;
+  if (!options.force && getMigratedAccounts().includes(migrationId(userId))) return 0;
+
+  const backend = getBackend();
+  let moved = 0;
+  let failed = 0;
+
+  const inline = (await backend.listEntries(userId, { projection: 'full' }))
+    .filter(e => !e.imageKey && isDataURL(e.imageUrl));
+  for (const entry of inline) {
+    try {
+      const imageKey = await uploadPhoto(store, userId, entry.imageUrl!);
+      await backend.saveEntry(userId, { ...entry, imageKey, imageUrl: undefined });
+      moved++;
+    } catch (e) {
+      console.warn(`Failed to move the photo of entry ${entry.id}:`, e);
+      failed++;
+    }
+  }
+
+  const device = getDeviceMediaStore();
+  if (device && device !== store) {
+    const uploaded = new Set((await store.listMedia(userId)).map(m => m.key));
+    const keys = (await backend.listEntries(userId, { projection: 'lite' }))
+      .map(e => e.imageKey)
+      .filter((key): key is string => !!key && !uploaded.has(key));
+
+    for (const key of keys) {
+      const [original, thumbnail] = await Promise.all([
+        device.readMedia(userId, key, 'original'),
+        device.readMedia(userId, key, 'thumbnail'),
+      ]);
+      if (!original || !thumbnail) continue;
+      try {
+        await store.putMedia(userId, key, 'original', original);
+        await store.putMedia(userId, key, 'thumbnail', thumbnail);
+        moved++;
+      } catch (e) {
+        console.warn(`Failed to upload device photo ${key}:`, e);
+        failed++;
+      }
+    }
+  }
+
+  if (failed === 0) setMigrated(userId, true);
+  if (moved > 0) console.log(`🖼️ Moved ${moved} meal photos to the media store`);
+  return moved;
+};
+
+/**
+ * Delete stored photos no live or trashed entry points to any more
+ * (cleared photos, purged or compacted entries). Resolves with how many were deleted.
+ */
+export const pruneUnusedPhotos = async (userId: string): Promise<number> => {
+  const store = getMediaStore();
+  if (!store) return 0;
+
+  const backend = getBackend();
+  const [entries, trash, stored] = await Promise.all([
+    backend.listEntries(userId, { projection: 'lite' }),
+    backend.listTrash(userId),
+    store.listMedia(userId),
+  ]);
+
+  const referenced = new Set<string>();
+  entries.forEach(e => e.imageKey && referenced.add(e.imageKey));
+  trash.forEach(item => item.kind === 'entry' && item.record.imageKey && referenced.add(item.record.imageKey));
+
+  const cutoff = new Date(Date.now() - PRUNE_GRACE_MS).toISOString();
+  const unused = stored.filter(m => !referenced.has(m.key) && m.createdAt < cutoff).map(m => m.key);
+  if (unused.length > 0) await store.deleteMedia(userId, unused);
+  return unused.length;
+};
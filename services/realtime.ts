@@ -0,0 +1,99 @@
+/**
+ * Live Updates
+ * Tells open pages when the user's data changed somewhere else:
+ * - Other tabs of this browser: a BroadcastChannel (local and cloud mode)
+ * - Other devices: Supabase Realtime changes on the user's rows (cloud mode)
+ *
+ * This module only carries the news - storage decides what to refetch.
+ */
+
+import { supabase, shouldUseCloud } from './supabase';
+import { getDeviceId } from './backend';
+
+export type LiveTable = 'food_entries' | 'workout_plans' | 'coach_messages';
+
+/**
+ * Window event fired when a table changed elsewhere
+ */
+export const LIVE_EVENTS: Record<LiveTable, string> = {
+  food_entries: 'food-entry-updated',
+  workout_plans: 'workout-plans-updated',
+  coach_messages: 'coach-messages-updated',
+};
+
+const LIVE_TABLES = Object.keys(LIVE_EVENTS) as LiveTable[];
+
+const TAB_CHANNEL_NAME = 'snapcal-changes';
+
+interface TabMessage {
+  userId: string;
+  table: LiveTable;
+}
+
+let tabChannel: BroadcastChannel | null = null;
+
+const getTabChannel = (): BroadcastChannel | null => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  if (!tabChannel) tabChannel = new BroadcastChannel(TAB_CHANNEL_NAME);
+  return tabChannel;
+};
+
+/**
+ * Let the user's other tabs know this tab just wrote to `table`
+ */
+export const broadcastTabChange = (userId: string, table: LiveTable): void => {
+  try {
+    getTabChannel()?.postMessage({ userId, table } satisfies TabMessage);
+  } catch (e) {
+    console.warn('Failed to notify other tabs:', e);
+  }
+};
+
+/**
+ * Changes written by the user's other tabs. Returns an unsubscribe function.
+ */
+export const subscribeToTabChanges = (userId: string, onChange: (table: LiveTable) => void): (() => void) => {
+  const channel = getTabChannel();
+  if (!channel) return () => { };
+
+  const handleMessage = (event: MessageEvent<TabMessage>) => {
+    if (event.data?.userId === userId && LIVE_TABLES.includes(event.data.table)) {
+      onChange(event.data.table);
+    }
+  };
+
+  channel.addEventListener('message', handleMessage);
+  return () => channel.removeEventListener('message', handleMessage);
+};
+
+/**
+ * Changes written by the user's other devices. Returns an unsubscribe function.
+ * No-op in local mode.
+ */
+export const subscribeToCloudChanges = (userId: string, onChange: (table: LiveTable) => void): (() => void) => {
+  if (!shouldUseCloud) return () => { };
+
+  const deviceId = getDeviceId();
+  let channel = supabase.channel(`snapcal-live-${userId}`);
+
+  for (const table of LIVE_TABLES) {
+    channel = channel.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table, filter: `user_id=eq.${userId}` },
+      payload => {
+        // This browser's own writes already refreshed its tabs
+        const row = payload.new as { edited_by?: string } | undefined;
+        if (row?.edited_by && row.edited_by === deviceId) return;
+        onChange(table);
+      }
+    );
+  }
+
+  channel.subscribe((status, error) => {
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      console.warn(`Live updates unavailable (${status}):`, error);
+    }
+  });
+
+  return () => { supabase.removeChannel(channel); };
+};
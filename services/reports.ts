@@ -3,87 +3,13 @@
  * Handles AI report generation and storage for Daily/Weekly/Monthly reviews
  */
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { supabase, shouldUseCloud } from './supabase';
 import { getCurrentUser } from './auth';
-import { getUserProfile, getDailySummariesForRange, getDailyGoal } from './storage';
-import { CoachReport, CoachReportTip, CoachReportMetrics, UserProfile, DailyWorkout } from '../types';
+import { getUserProfile, getDailySummariesForRange, getDailyGoal, getWorkoutPlansForRange } from './storage';
+import { getBackend } from './backend';
+import { CoachReport, CoachReportTip, CoachReportMetrics, UserProfile } from '../types';
 import { safeParseAIResponse, AIReportResponseSchema } from '../utils/schemas';
-
-// --- API Key Management ---
-
-const getApiKey = (): string => {
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY || "";
-    if (!apiKey) {
-        console.error("VITE_GEMINI_API_KEY is not set");
-    }
-    return apiKey;
-};
-
-const getAIClient = (): GoogleGenAI => {
-    return new GoogleGenAI({ apiKey: getApiKey() });
-};
-
-// --- Local Storage Keys ---
-
-const LS_REPORTS_KEY = 'snapcal_coach_reports_v1';
-
-// --- Report System Prompt ---
-
-const REPORT_SYSTEM_PROMPT = `You are **Cal Coach**, providing personalized health and fitness reviews.
-
-**Your Role:**
-Generate concise, motivating, and actionable reports based on the user's tracking data.
-
-**Report Guidelines:**
-1. **Summary**: 2-3 sentences highlighting key achievements and areas for improvement
-2. **Tips**: Exactly 3 specific, actionable tips 
-3. **Tone**: Encouraging but honest. Celebrate wins, gently address gaps
-
-**Tip Format:**
-Each tip should have:
-- emoji: A relevant emoji (🥗, 💪, 🎯, ⚡, 💧, 🔥, etc.)
-- title: Short action phrase (3-5 words)
-- description: One sentence explaining the tip
-
-**Never:**
-- Be negative or discouraging
-- Give generic advice that doesn't relate to the user's data
-- Use medical disclaimers or suggest consulting doctors
-- Repeat the same tip twice`;
-
-// --- Helper: Get Workout Plans for Date Range ---
-
-const getWorkoutPlansForRange = async (startDate: string, endDate: string): Promise<DailyWorkout[]> => {
-    if (!shouldUseCloud) {
-        const stored = localStorage.getItem('snapcal_workouts');
-        if (!stored) return [];
-        const workouts: DailyWorkout[] = JSON.parse(stored);
-        return workouts.filter(w => w.date >= startDate && w.date <= endDate);
-    }
-
-    const user = await getCurrentUser();
-    if (!user) return [];
-
-    const { data, error } = await supabase
-        .from('workout_plans')
-        .select('id, date, title, exercises')
-        .eq('user_id', user.id)
-        .gte('date', startDate)
-        .lte('date', endDate);
-
-    if (error) {
-        console.error('Failed to fetch workout plans:', error);
-        return [];
-    }
-
-    return data.map(row => ({
-        id: row.id,
-        date: row.date,
-        title: row.title,
-        exercises: row.exercises || []
-    }));
-};
+import { addDays, monthRange } from '../utils/localDate';
+import { getAIProvider, jsonRequest } from './ai';
 
 // --- Build Report Context ---
 
@@ -234,55 +160,11 @@ interface AIReportResponse {
 }
 
 const generateAIReport = async (context: ReportContext): Promise<AIReportResponse> => {
-    const ai = getAIClient();
-    const prompt = formatContextForAI(context);
-
-    const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: [{ parts: [{ text: prompt }] }],
-        config: {
-            systemInstruction: REPORT_SYSTEM_PROMPT,
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    summary: { type: Type.STRING },
-                    tips: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                emoji: { type: Type.STRING },
-                                title: { type: Type.STRING },
-                                description: { type: Type.STRING }
-                            },
-                            required: ["emoji", "title", "description"]
-                        }
-                    }
-                },
-                required: ["summary", "tips"]
-            }
-        }
-    });
+    const response = await getAIProvider().generateJson(jsonRequest('coachReport', formatContextForAI(context)));
 
     return safeParseAIResponse(AIReportResponseSchema, response.text || '{}', 'Coach Report');
 };
 
-// --- Local Storage Helpers ---
-
-const getLocalReports = (): CoachReport[] => {
-    try {
-        const stored = localStorage.getItem(LS_REPORTS_KEY);
-        return stored ? JSON.parse(stored) : [];
-    } catch {
-        return [];
-    }
-};
-
-const saveLocalReports = (reports: CoachReport[]): void => {
-    localStorage.setItem(LS_REPORTS_KEY, JSON.stringify(reports));
-};
-
 // --- Main Export Functions ---
 
 /**
@@ -293,90 +175,20 @@ export const getReport = async (
     periodStart: string,
     periodEnd: string
 ): Promise<CoachReport | null> => {
-    if (!shouldUseCloud) {
-        const reports = getLocalReports();
-        return reports.find(r =>
-            r.reportType === reportType &&
-            r.periodStart === periodStart &&
-            r.periodEnd === periodEnd
-        ) || null;
-    }
-
     const user = await getCurrentUser();
     if (!user) return null;
 
-    const { data, error } = await supabase
-        .from('coach_reports')
-        .select('id, user_id, report_type, period_start, period_end, summary, tips, metrics, weight_at_report, created_at')
-        .eq('user_id', user.id)
-        .eq('report_type', reportType)
-        .eq('period_start', periodStart)
-        .eq('period_end', periodEnd)
-        .single();
-
-    if (error || !data) return null;
-
-    return {
-        id: data.id,
-        userId: data.user_id,
-        reportType: data.report_type,
-        periodStart: data.period_start,
-        periodEnd: data.period_end,
-        summary: data.summary,
-        tips: data.tips,
-        metrics: data.metrics,
-        weightAtReport: data.weight_at_report,
-        createdAt: data.created_at
-    };
+    return getBackend().getReport(user.id, reportType, periodStart, periodEnd);
 };
 
 /**
  * Save report to storage
  */
 export const saveReport = async (report: CoachReport): Promise<void> => {
-    if (!shouldUseCloud) {
-        const reports = getLocalReports();
-        // Remove existing report for same period
-        const filtered = reports.filter(r =>
-            !(r.reportType === report.reportType &&
-                r.periodStart === report.periodStart &&
-                r.periodEnd === report.periodEnd)
-        );
-        filtered.push(report);
-        saveLocalReports(filtered);
-        return;
-    }
-
     const user = await getCurrentUser();
     if (!user) throw new Error('User not authenticated');
 
-    // Upsert: delete existing and insert new
-    await supabase
-        .from('coach_reports')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('report_type', report.reportType)
-        .eq('period_start', report.periodStart)
-        .eq('period_end', report.periodEnd);
-
-    const { error } = await supabase
-        .from('coach_reports')
-        .insert({
-            id: report.id,
-            user_id: user.id,
-            report_type: report.reportType,
-            period_start: report.periodStart,
-            period_end: report.periodEnd,
-            summary: report.summary,
-            tips: report.tips,
-            metrics: report.metrics,
-            weight_at_report: report.weightAtReport
-        });
-
-    if (error) {
-        console.error('Failed to save report:', error);
-        throw new Error('Failed to save report');
-    }
+    await getBackend().saveReport(user.id, report);
 };
 
 /**
@@ -447,21 +259,9 @@ export const calculatePeriodDates = (
 
     if (reportType === 'weekly') {
         // referenceDate is the Monday of the week
-        const start = new Date(referenceDate);
-        const end = new Date(start);
-        end.setDate(start.getDate() + 6);
-
-        const endStr = `${end.getFullYear()}-${String(end.getMonth() + 1).padStart(2, '0')}-${String(end.getDate()).padStart(2, '0')}`;
-        return { start: referenceDate, end: endStr };
+        return { start: referenceDate, end: addDays(referenceDate, 6) };
     }
 
     // Monthly: referenceDate is YYYY-MM
-    const [year, month] = referenceDate.split('-').map(Number);
-    const startDate = new Date(year, month - 1, 1);
-    const endDate = new Date(year, month, 0); // Last day of month
-
-    const startStr = `${year}-${String(month).padStart(2, '0')}-01`;
-    const endStr = `${year}-${String(month).padStart(2, '0')}-${String(endDate.getDate()).padStart(2, '0')}`;
-
-    return { start: startStr, end: endStr };
+    return monthRange(referenceDate.slice(0, 7));
 };
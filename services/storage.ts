@@ -1,146 +1,174 @@
-import { supabase, shouldUseCloud } from './supabase';
+import { shouldUseCloud } from './supabase';
 import { getCurrentUser } from './auth';
-import { FoodEntry, DailySummary, UserProfile, WorkoutExercise, DailyWorkout } from '../types';
+import { FoodEntry, DailySummary, UserProfile, WorkoutExercise, DailyWorkout, RetentionPolicy, EntryChangeSource, EntryRevision } from '../types';
 import { cache, CACHE_KEYS, withCache } from '../utils/cache';
 import type { ChatMessage } from './coach';
-import { getCurrentDateString } from '../utils/midnight';
-
-// --- Local Storage Fallback Keys ---
-const LS_KEY = 'snapcal_data_v1';
-const LS_SETTINGS_KEY = 'snapcal_settings_v1';
-const LS_PROFILE_KEY = 'snapcal_profile_v1';
-const LS_SUMMARIES_KEY = 'snapcal_summaries_v1';
-const LS_COACH_MESSAGES_KEY = 'snapcal_coach_messages_v1';
-const LS_WORKOUT_PLANS_KEY = 'snapcal_workout_plans_v1';
-
-// --- PostgREST Column Selection (Bandwidth Optimization) ---
-// Full columns: for single entry detail views
-const ENTRY_COLUMNS_FULL = 'id, user_id, timestamp, date, time, food_item, calories, protein, carbs, fat, confidence, image_url, is_manual, ingredients, original_ai_response';
-// Lite columns: for list views (excludes heavy image_url and original_ai_response)
-const ENTRY_COLUMNS_LITE = 'id, user_id, timestamp, date, time, food_item, calories, protein, carbs, fat, confidence, is_manual, ingredients';
-// Aggregate columns: for cleanup/summary calculations only
-const ENTRY_COLUMNS_AGGREGATE = 'id, date, calories, protein, carbs, fat';
-
-// --- Helpers for Local Storage ---
-const getLocalEntries = (): FoodEntry[] => {
-  try {
-    const data = localStorage.getItem(LS_KEY);
-    return data ? JSON.parse(data) : [];
-  } catch (e) { return []; }
-};
+import { getCurrentDateString, getTrackingDate, daysAgo, setDayStart } from '../utils/midnight';
+import { addDays, getTimeZone } from '../utils/localDate';
+import { withRevision, entryBeforeRevision } from '../utils/entryHistory';
+import { storeEntryPhoto, resolveEntryPhotoUrl, migrateEntryPhotos, pruneUnusedPhotos } from './media';
+import { exportAccount, downloadArchive } from './archive';
+import { LiveTable, LIVE_EVENTS, broadcastTabChange, subscribeToTabChanges, subscribeToCloudChanges } from './realtime';
+import { getBackend, getOutbox, getSyncEngine, getConflictResolver, localBackend, DailyTotals, DBCheckResult, OutboxItem, OutboxSummary, SyncResult, ConflictItem, ConflictChoice, TrashItem, TrashKind, trashItemId, parseTrashItemId, MediaVariant } from './backend';
 
-const saveLocalEntries = (entries: FoodEntry[]) => {
-  try {
-    localStorage.setItem(LS_KEY, JSON.stringify(entries));
-  } catch (error: any) {
-    if (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || String(error).toLowerCase().includes('quota')) {
-      throw new Error("Browser Storage Full: Your local history (with photos) has reached the browser's 5MB limit. Please delete some old entries in the History tab or connect to Supabase for unlimited cloud storage.");
+// --- Aggregation Helpers ---
+
+/**
+ * Combine live entries with compacted daily summaries.
+ * Live entries win for any date present in both.
+ */
+const mergeDailyTotals = (entries: FoodEntry[], storedSummaries: DailyTotals[]): DailyTotals[] => {
+  const grouped: Record<string, DailyTotals> = {};
+
+  storedSummaries.forEach(s => {
+    grouped[s.date] = { ...s };
+  });
+
+  const live: Record<string, DailyTotals> = {};
+  entries.forEach(entry => {
+    if (!live[entry.date]) {
+      live[entry.date] = { date: entry.date, totalCalories: 0, totalProtein: 0, totalCarbs: 0, totalFat: 0 };
     }
-    throw error;
-  }
-};
+    live[entry.date].totalCalories += entry.calories || 0;
+    live[entry.date].totalProtein += entry.protein || 0;
+    live[entry.date].totalCarbs += entry.carbs || 0;
+    live[entry.date].totalFat += entry.fat || 0;
+  });
 
-const getLocalSummaries = (): any[] => {
-  try {
-    const data = localStorage.getItem(LS_SUMMARIES_KEY);
-    return data ? JSON.parse(data) : [];
-  } catch (e) { return []; }
+  return Object.values({ ...grouped, ...live })
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 };
 
-const saveLocalSummaries = (summaries: any[]) => {
-  try {
-    localStorage.setItem(LS_SUMMARIES_KEY, JSON.stringify(summaries));
-  } catch (error: any) {
-    throw new Error("Browser Storage Full: Cannot even save simple summaries. Please clear your browser data.");
+// --- Optimistic Cache Updates ---
+
+const ENTRY_LIST_KEY = /^food:entries(:lite|:\d{4}-\d{2}-\d{2})?$/;
+const ENTRY_STATS_KEY = /^food:entries:stats:(.+)$/;
+const ENTRY_COUNT_KEY = /^food:entries:count:(.+)$/;
+const SUMMARY_RANGE_KEY = /^food:summaries:(\d{4}-\d{2}-\d{2}):(\d{4}-\d{2}-\d{2})$/;
+
+const stripForList = (entry: FoodEntry): FoodEntry => ({ ...entry, imageUrl: undefined, originalAiResponse: undefined, history: undefined });
+
+const byNewest = (a: FoodEntry, b: FoodEntry) => b.timestamp.localeCompare(a.timestamp);
+
+const findCachedEntry = (id: string): FoodEntry | undefined => {
+  for (const key of cache.getStats().keys) {
+    if (!ENTRY_LIST_KEY.test(key)) continue;
+    const found = cache.get<FoodEntry[]>(key)?.find(e => e.id === id);
+    if (found) return found;
   }
+  return undefined;
 };
 
-// Map Supabase snake_case columns to CamelCase TS types
-const mapRowToEntry = (row: any): FoodEntry => ({
-  id: row.id,
-  user_id: row.user_id,
-  timestamp: row.timestamp,
-  date: row.date,
-  time: row.time,
-  food_item: row.food_item,
-  calories: row.calories,
-  protein: row.protein || 0,
-  carbs: row.carbs || 0,
-  fat: row.fat || 0,
-  confidence: row.confidence,
-  imageUrl: row.image_url,
-  isManual: row.is_manual,
-  ingredients: row.ingredients || [],
-  originalAiResponse: row.original_ai_response
-});
-
-const handleStorageError = (error: any, operation: string): never => {
-  console.error(`Supabase ${operation} Error:`, error);
-  const message = error?.message || String(error) || "";
-  const lowMsg = message.toLowerCase();
-
-  if (lowMsg.includes("quota") || lowMsg.includes("limit") || lowMsg.includes("tier")) {
-    throw new Error("Cloud Quota Reached: Your Supabase storage limit has been exceeded. Try deleting old entries.");
+/**
+ * Add (sign 1) or remove (sign -1) an entry's macros from cached daily totals
+ */
+const adjustTotals = (summaries: DailyTotals[], entry: FoodEntry, sign: 1 | -1): DailyTotals[] => {
+  const result = summaries.map(s => ({ ...s }));
+  let day = result.find(s => s.date === entry.date);
+  if (!day) {
+    if (sign < 0) return result;
+    day = { date: entry.date, totalCalories: 0, totalProtein: 0, totalCarbs: 0, totalFat: 0 };
+    result.push(day);
   }
+  day.totalCalories += sign * (entry.calories || 0);
+  day.totalProtein += sign * (entry.protein || 0);
+  day.totalCarbs += sign * (entry.carbs || 0);
+  day.totalFat += sign * (entry.fat || 0);
+  return result.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
 
-  if (lowMsg.includes("relation") || lowMsg.includes("column") || lowMsg.includes("does not exist")) {
-    throw new Error(`Database Setup Required: It looks like the 'food_entries' table is missing in Supabase. Please check the Profile tab for the setup SQL script.`);
-  }
+/**
+ * Apply a queued entry write to cached reads instead of invalidating them.
+ * While offline a refetch would come back empty, so patch what's on screen.
+ * Pass null to remove the entry.
+ */
+const patchCachedEntry = (entryId: string, next: FoodEntry | null): void => {
+  const previous = findCachedEntry(entryId);
+
+  cache.getStats().keys.forEach(key => {
+    if (key === CACHE_KEYS.ENTRIES || key === CACHE_KEYS.ENTRIES_LITE) {
+      const isLite = key === CACHE_KEYS.ENTRIES_LITE;
+      cache.update<FoodEntry[]>(key, entries => {
+        const rest = entries.filter(e => e.id !== entryId);
+        return next ? [...rest, isLite ? stripForList(next) : next].sort(byNewest) : rest;
+      });
+    } else if (ENTRY_LIST_KEY.test(key)) {
+      const date = key.slice(key.lastIndexOf(':') + 1);
+      cache.update<FoodEntry[]>(key, entries => {
+        const rest = entries.filter(e => e.id !== entryId);
+        return next && next.date === date ? [...rest, stripForList(next)].sort(byNewest) : rest;
+      });
+    } else if (ENTRY_STATS_KEY.test(key)) {
+      const date = key.match(ENTRY_STATS_KEY)![1];
+      cache.update<TodayStats>(key, stats => {
+        const updated = { ...stats };
+        if (previous?.date === date) {
+          updated.count--;
+          updated.calories -= previous.calories || 0;
+        }
+        if (next?.date === date) {
+          updated.count++;
+          updated.calories += next.calories || 0;
+          if (!updated.latestTimestamp || next.timestamp > updated.latestTimestamp) updated.latestTimestamp = next.timestamp;
+        }
+        return updated;
+      });
+    } else if (ENTRY_COUNT_KEY.test(key)) {
+      const date = key.match(ENTRY_COUNT_KEY)![1];
+      cache.update<number>(key, count => count - (previous?.date === date ? 1 : 0) + (next?.date === date ? 1 : 0));
+    } else if (key === CACHE_KEYS.DAILY_SUMMARIES_LITE || SUMMARY_RANGE_KEY.test(key)) {
+      const range = key.match(SUMMARY_RANGE_KEY);
+      const inRange = (e: FoodEntry) => !range || (e.date >= range[1] && e.date <= range[2]);
+      cache.update<DailyTotals[]>(key, summaries => {
+        let updated = summaries;
+        if (previous && inRange(previous)) updated = adjustTotals(updated, previous, -1);
+        if (next && inRange(next)) updated = adjustTotals(updated, next, 1);
+        return updated;
+      });
+    }
+  });
 
-  if (lowMsg.includes("policy") || lowMsg.includes("permission") || lowMsg.includes("row-level security")) {
-    throw new Error("Permission Denied: Supabase RLS policies are blocking this save. Ensure authenticated users have 'INSERT' and 'UPDATE' access.");
-  }
+  (['original', 'thumbnail'] as MediaVariant[]).forEach(variant => {
+    // Keyed photos resolve to a URL on the next read
+    if (next?.imageKey) cache.invalidate(CACHE_KEYS.entryImage(entryId, variant));
+    else cache.set(CACHE_KEYS.entryImage(entryId, variant), next?.imageUrl || null, 30 * 60 * 1000);
+  });
+};
 
-  throw new Error(`Cloud Save Failed: ${message}`);
+/**
+ * True when cloud writes are waiting in the outbox - the last write was queued too
+ */
+const hasQueuedWrites = async (): Promise<boolean> => {
+  const outbox = getOutbox();
+  return outbox ? (await outbox.summary()).pending > 0 : false;
 };
 
 // --- Main Exported Functions ---
 
-export const saveEntry = async (entry: FoodEntry): Promise<void> => {
+/**
+ * Save a new or edited entry. Edits to an existing entry append a revision
+ * crediting `source` with whatever changed.
+ */
+export const saveEntry = async (entry: FoodEntry, source: EntryChangeSource = 'manual'): Promise<void> => {
   const user = await getCurrentUser();
   if (!user) throw new Error("User must be logged in to save.");
 
-  if (!shouldUseCloud) {
-    const entries = getLocalEntries();
-    const existingIndex = entries.findIndex(e => e.id === entry.id);
-    const entryWithUser = { ...entry, user_id: user.id };
+  const backend = getBackend();
+  const previous = await backend.getEntry(user.id, entry.id);
 
-    if (existingIndex >= 0) {
-      entries[existingIndex] = entryWithUser;
-    } else {
-      entries.push(entryWithUser);
-    }
+  // Edit time settles which device's macros win in a conflict
+  const editedAt = new Date().toISOString();
+  // The zone the meal was first logged in keeps its day fixed when the user travels
+  const timeZone = entry.timeZone ?? previous?.timeZone ?? getTimeZone();
+  const edited = await storeEntryPhoto(user.id, { ...withRevision(previous, entry, source, editedAt), editedAt, timeZone });
+  await backend.saveEntry(user.id, edited);
+  broadcastTabChange(user.id, 'food_entries');
 
-    saveLocalEntries(entries);
-    // Invalidate all entry-related caches
-    cache.invalidatePattern(/^food:/);
+  if (await hasQueuedWrites()) {
+    patchCachedEntry(edited.id, { ...edited, user_id: user.id });
     return;
   }
 
-  const { error } = await supabase
-    .from('food_entries')
-    .upsert({
-      id: entry.id,
-      user_id: user.id,
-      timestamp: entry.timestamp,
-      date: entry.date,
-      time: entry.time,
-      food_item: entry.food_item,
-      calories: entry.calories,
-      protein: entry.protein,
-      carbs: entry.carbs,
-      fat: entry.fat,
-      confidence: entry.confidence,
-      is_manual: entry.isManual,
-      image_url: entry.imageUrl === undefined ? null : entry.imageUrl, // Convert undefined to null for proper DB update
-      ingredients: entry.ingredients,
-      original_ai_response: entry.originalAiResponse
-    });
-
-  if (error) {
-    handleStorageError(error, "Save Entry");
-  }
-
   // Invalidate all entry-related caches
   cache.invalidatePattern(/^food:/);
 };
@@ -150,28 +178,15 @@ export const getEntries = async (): Promise<FoodEntry[]> => {
     const user = await getCurrentUser();
     if (!user) return [];
 
-    if (!shouldUseCloud) {
-      return getLocalEntries()
-        .filter(e => e.user_id === user.id)
-        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
-    }
-
-    const { data, error } = await supabase
-      .from('food_entries')
-      .select(ENTRY_COLUMNS_FULL)
-      .eq('user_id', user.id)
-      .order('timestamp', { ascending: false })
-      .limit(200); // Pagination: limit to 200 entries max
-
-    if (error) {
-      console.error("Supabase Fetch Error:", error);
-      if (error.message.includes("relation")) {
-        return [];
-      }
-      return [];
-    }
+    const entries = await getBackend().listEntries(user.id, {
+      projection: 'full',
+      limit: 200 // Pagination: limit to 200 entries max
+    });
 
-    return data ? data.map(mapRowToEntry) : [];
+    // Uploaded photos are shown as thumbnails here, MealDetailModal loads the original
+    return Promise.all(entries.map(async e =>
+      e.imageKey ? { ...e, imageUrl: (await resolveEntryPhotoUrl(user.id, e, 'thumbnail')) || undefined } : e
+    ));
   }, 3 * 60 * 1000); // Cache for 3 minutes
 };
 
@@ -183,27 +198,7 @@ export const getEntriesLite = async (): Promise<FoodEntry[]> => {
     const user = await getCurrentUser();
     if (!user) return [];
 
-    if (!shouldUseCloud) {
-      // For local storage, just omit imageUrl in the returned objects
-      return getLocalEntries()
-        .filter(e => e.user_id === user.id)
-        .map(e => ({ ...e, imageUrl: undefined, originalAiResponse: undefined }))
-        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
-    }
-
-    const { data, error } = await supabase
-      .from('food_entries')
-      .select(ENTRY_COLUMNS_LITE)
-      .eq('user_id', user.id)
-      .order('timestamp', { ascending: false })
-      .limit(200);
-
-    if (error) {
-      console.error("Supabase Fetch Lite Error:", error);
-      return [];
-    }
-
-    return data ? data.map(mapRowToEntry) : [];
+    return getBackend().listEntries(user.id, { projection: 'lite', limit: 200 });
   }, 3 * 60 * 1000); // Cache for 3 minutes
 };
 
@@ -216,96 +211,16 @@ export const getDailySummariesLite = async (): Promise<Omit<DailySummary, 'entri
     const user = await getCurrentUser();
     if (!user) return [];
 
-    if (!shouldUseCloud) {
-      // Calculate from local entries
-      const entries = getLocalEntries().filter(e => e.user_id === user.id);
-      const grouped: Record<string, FoodEntry[]> = {};
-      entries.forEach(entry => {
-        if (!grouped[entry.date]) grouped[entry.date] = [];
-        grouped[entry.date].push(entry);
-      });
-
-      // Also include stored summaries for older data
-      const storedSummaries = getLocalSummaries().filter(s => s.user_id === user.id);
-      const result: Record<string, Omit<DailySummary, 'entries'>> = {};
-
-      storedSummaries.forEach(s => {
-        result[s.date] = {
-          date: s.date,
-          totalCalories: s.total_calories || s.totalCalories,
-          totalProtein: s.total_protein || s.totalProtein || 0,
-          totalCarbs: s.total_carbs || s.totalCarbs || 0,
-          totalFat: s.total_fat || s.totalFat || 0
-        };
-      });
-
-      Object.keys(grouped).forEach(date => {
-        const dayEntries = grouped[date];
-        result[date] = {
-          date,
-          totalCalories: dayEntries.reduce((sum, e) => sum + e.calories, 0),
-          totalProtein: dayEntries.reduce((sum, e) => sum + (e.protein || 0), 0),
-          totalCarbs: dayEntries.reduce((sum, e) => sum + (e.carbs || 0), 0),
-          totalFat: dayEntries.reduce((sum, e) => sum + (e.fat || 0), 0)
-        };
-      });
-
-      return Object.values(result).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    }
-
-    // Cloud: Use SQL aggregation to avoid fetching all entries
-    const { data, error } = await supabase
-      .from('food_entries')
-      .select('date, calories, protein, carbs, fat')
-      .eq('user_id', user.id)
-      .order('date', { ascending: false });
-
-    if (error) {
-      console.error("Supabase summary fetch error:", error);
-      return [];
-    }
-
     // Group and aggregate client-side (PostgREST doesn't support GROUP BY directly)
-    const grouped: Record<string, { calories: number; protein: number; carbs: number; fat: number }> = {};
-    (data || []).forEach((row: any) => {
-      if (!grouped[row.date]) {
-        grouped[row.date] = { calories: 0, protein: 0, carbs: 0, fat: 0 };
-      }
-      grouped[row.date].calories += row.calories || 0;
-      grouped[row.date].protein += row.protein || 0;
-      grouped[row.date].carbs += row.carbs || 0;
-      grouped[row.date].fat += row.fat || 0;
-    });
-
-    // Also fetch stored summaries for archived days
-    try {
-      const { data: summaryData } = await supabase
-        .from('daily_summaries')
-        .select('date, total_calories, total_protein, total_carbs, total_fat')
-        .eq('user_id', user.id);
-
-      (summaryData || []).forEach((s: any) => {
-        if (!grouped[s.date]) {
-          grouped[s.date] = {
-            calories: s.total_calories,
-            protein: s.total_protein,
-            carbs: s.total_carbs,
-            fat: s.total_fat
-          };
-        }
-      });
-    } catch (e) { /* daily_summaries table may not exist */ }
-
-    return Object.entries(grouped)
-      .map(([date, totals]) => ({
-        date,
-        totalCalories: totals.calories,
-        totalProtein: totals.protein,
-        totalCarbs: totals.carbs,
-        totalFat: totals.fat
-      }))
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, 3 * 60 * 1000); // Cache for 3 minutes
+    // Stored summaries backfill archived days
+    const backend = getBackend();
+    const [entries, storedSummaries] = await Promise.all([
+      backend.listEntries(user.id, { projection: 'aggregate' }),
+      backend.listSummaries(user.id)
+    ]);
+
+    return mergeDailyTotals(entries, storedSummaries);
+  }, 3 * 60 * 1000, { persist: true }); // Cache for 3 minutes, kept across reloads for the charts
 };
 
 /**
@@ -320,106 +235,15 @@ export const getDailySummariesForRange = async (
     const user = await getCurrentUser();
     if (!user) return [];
 
-    if (!shouldUseCloud) {
-      // Local storage: filter by date range
-      const entries = getLocalEntries().filter(e =>
-        e.user_id === user.id && e.date >= startDate && e.date <= endDate
-      );
-
-      const grouped: Record<string, { calories: number; protein: number; carbs: number; fat: number }> = {};
-      entries.forEach(entry => {
-        if (!grouped[entry.date]) {
-          grouped[entry.date] = { calories: 0, protein: 0, carbs: 0, fat: 0 };
-        }
-        grouped[entry.date].calories += entry.calories || 0;
-        grouped[entry.date].protein += entry.protein || 0;
-        grouped[entry.date].carbs += entry.carbs || 0;
-        grouped[entry.date].fat += entry.fat || 0;
-      });
-
-      // Also check local summaries
-      const storedSummaries = getLocalSummaries().filter(s =>
-        s.user_id === user.id && s.date >= startDate && s.date <= endDate
-      );
-      storedSummaries.forEach(s => {
-        if (!grouped[s.date]) {
-          grouped[s.date] = {
-            calories: s.total_calories || s.totalCalories,
-            protein: s.total_protein || s.totalProtein || 0,
-            carbs: s.total_carbs || s.totalCarbs || 0,
-            fat: s.total_fat || s.totalFat || 0
-          };
-        }
-      });
-
-      return Object.entries(grouped)
-        .map(([date, totals]) => ({
-          date,
-          totalCalories: totals.calories,
-          totalProtein: totals.protein,
-          totalCarbs: totals.carbs,
-          totalFat: totals.fat
-        }))
-        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    }
-
-    // Cloud: Use date range filters to limit data transfer
-    const { data, error } = await supabase
-      .from('food_entries')
-      .select('date, calories, protein, carbs, fat')
-      .eq('user_id', user.id)
-      .gte('date', startDate)
-      .lte('date', endDate)
-      .order('date', { ascending: false });
-
-    if (error) {
-      console.error("Supabase range summary fetch error:", error);
-      return [];
-    }
+    // Use date range filters to limit data transfer
+    const backend = getBackend();
+    const [entries, storedSummaries] = await Promise.all([
+      backend.listEntries(user.id, { projection: 'aggregate', startDate, endDate }),
+      backend.listSummaries(user.id, { startDate, endDate })
+    ]);
 
-    // Group and aggregate client-side
-    const grouped: Record<string, { calories: number; protein: number; carbs: number; fat: number }> = {};
-    (data || []).forEach((row: any) => {
-      if (!grouped[row.date]) {
-        grouped[row.date] = { calories: 0, protein: 0, carbs: 0, fat: 0 };
-      }
-      grouped[row.date].calories += row.calories || 0;
-      grouped[row.date].protein += row.protein || 0;
-      grouped[row.date].carbs += row.carbs || 0;
-      grouped[row.date].fat += row.fat || 0;
-    });
-
-    // Also fetch stored summaries for archived days within range
-    try {
-      const { data: summaryData } = await supabase
-        .from('daily_summaries')
-        .select('date, total_calories, total_protein, total_carbs, total_fat')
-        .eq('user_id', user.id)
-        .gte('date', startDate)
-        .lte('date', endDate);
-
-      (summaryData || []).forEach((s: any) => {
-        if (!grouped[s.date]) {
-          grouped[s.date] = {
-            calories: s.total_calories,
-            protein: s.total_protein,
-            carbs: s.total_carbs,
-            fat: s.total_fat
-          };
-        }
-      });
-    } catch (e) { /* daily_summaries table may not exist */ }
-
-    return Object.entries(grouped)
-      .map(([date, totals]) => ({
-        date,
-        totalCalories: totals.calories,
-        totalProtein: totals.protein,
-        totalCarbs: totals.carbs,
-        totalFat: totals.fat
-      }))
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, 5 * 60 * 1000); // Cache for 5 minutes (reports are less frequently accessed)
+    return mergeDailyTotals(entries, storedSummaries);
+  }, 5 * 60 * 1000, { staleWhileRevalidate: true }); // Cache for 5 minutes (reports are less frequently accessed)
 };
 
 /**
@@ -431,52 +255,25 @@ export const getEntriesForDateLite = async (date: string): Promise<FoodEntry[]>
     const user = await getCurrentUser();
     if (!user) return [];
 
-    if (!shouldUseCloud) {
-      return getLocalEntries()
-        .filter(e => e.user_id === user.id && e.date === date)
-        .map(e => ({ ...e, imageUrl: undefined, originalAiResponse: undefined }))
-        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
-    }
-
-    const { data, error } = await supabase
-      .from('food_entries')
-      .select(ENTRY_COLUMNS_LITE)
-      .eq('user_id', user.id)
-      .eq('date', date)
-      .order('timestamp', { ascending: false });
-
-    if (error) {
-      console.error("Supabase date fetch error:", error);
-      return [];
-    }
-
-    return data ? data.map(mapRowToEntry) : [];
-  }, 5 * 60 * 1000); // Cache for 5 minutes
+    return getBackend().listEntries(user.id, { projection: 'lite', date });
+  }, 5 * 60 * 1000, { persist: true }); // Cache for 5 minutes, kept across reloads
 };
 
 /**
- * Get a single entry's image (for lazy image loading)
+ * Get a single entry's image (for lazy image loading).
+ * Pass the entry from a list read - its imageKey saves a lookup.
  */
-export const getEntryImage = async (entryId: string): Promise<string | null> => {
-  return withCache(CACHE_KEYS.entryImage(entryId), async () => {
+export const getEntryImage = async (
+  entry: Pick<FoodEntry, 'id' | 'imageKey'>,
+  variant: MediaVariant = 'original'
+): Promise<string | null> => {
+  return withCache(CACHE_KEYS.entryImage(entry.id, variant), async () => {
     const user = await getCurrentUser();
     if (!user) return null;
 
-    if (!shouldUseCloud) {
-      const entries = getLocalEntries();
-      const entry = entries.find(e => e.id === entryId && e.user_id === user.id);
-      return entry?.imageUrl || null;
-    }
-
-    const { data, error } = await supabase
-      .from('food_entries')
-      .select('image_url')
-      .eq('id', entryId)
-      .eq('user_id', user.id)
-      .single();
-
-    if (error || !data) return null;
-    return data.image_url;
+    if (entry.imageKey) return resolveEntryPhotoUrl(user.id, entry, variant);
+    // Older photos are stored inline on the entry
+    return getBackend().getEntryImage(user.id, entry.id);
   }, 30 * 60 * 1000); // Cache images for 30 minutes (they rarely change)
 };
 
@@ -497,32 +294,15 @@ export const getTodayStats = async (): Promise<TodayStats> => {
     const user = await getCurrentUser();
     if (!user) return { count: 0, calories: 0, latestTimestamp: null };
 
-    if (!shouldUseCloud) {
-      const entries = getLocalEntries().filter(e => e.user_id === user.id && e.date === today);
-      const sorted = entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
-      return {
-        count: entries.length,
-        calories: entries.reduce((sum, e) => sum + e.calories, 0),
-        latestTimestamp: sorted[0]?.timestamp || null
-      };
-    }
-
-    // Fetch only minimal columns for today's entries
-    const { data, error } = await supabase
-      .from('food_entries')
-      .select('id, calories, timestamp')
-      .eq('user_id', user.id)
-      .eq('date', today)
-      .order('timestamp', { ascending: false });
-
-    if (error || !data) return { count: 0, calories: 0, latestTimestamp: null };
+    // Fetch only minimal columns for today's entries (newest first)
+    const entries = await getBackend().listEntries(user.id, { projection: 'aggregate', date: today });
 
     return {
-      count: data.length,
-      calories: data.reduce((sum, e) => sum + (e.calories || 0), 0),
-      latestTimestamp: data[0]?.timestamp || null
+      count: entries.length,
+      calories: entries.reduce((sum, e) => sum + (e.calories || 0), 0),
+      latestTimestamp: entries[0]?.timestamp || null
     };
-  }, 2 * 60 * 1000); // Cache for 2 minutes (frequently accessed)
+  }, 2 * 60 * 1000, { persist: true }); // Cache for 2 minutes (frequently accessed)
 };
 
 /**
@@ -534,23 +314,7 @@ export const getEntriesCountForDate = async (date: string): Promise<number> => {
     const user = await getCurrentUser();
     if (!user) return 0;
 
-    if (!shouldUseCloud) {
-      return getLocalEntries().filter(e => e.user_id === user.id && e.date === date).length;
-    }
-
-    // Supabase: Use count query for maximum efficiency
-    const { count, error } = await supabase
-      .from('food_entries')
-      .select('id', { count: 'exact', head: true })
-      .eq('user_id', user.id)
-      .eq('date', date);
-
-    if (error) {
-      console.error('Error counting entries:', error);
-      return 0;
-    }
-
-    return count || 0;
+    return getBackend().countEntries(user.id, date);
   }, 5 * 60 * 1000); // Cache for 5 minutes
 };
 
@@ -571,161 +335,97 @@ export const getDailySummaries = async (): Promise<DailySummary[]> => {
   });
 
   // 2. Get stored summaries (if any) to backfill older data if we implement pagination
-  let storedSummaries: any[] = [];
-  if (!shouldUseCloud) {
-    storedSummaries = getLocalSummaries().filter(s => s.user_id === user.id);
-  } else {
-    // Try catch block for summaries fetch in case table doesn't exist yet
-    try {
-      const { data, error } = await supabase
-        .from('daily_summaries')
-        .select('date, total_calories, total_protein, total_carbs, total_fat')
-        .eq('user_id', user.id);
-      if (!error && data) storedSummaries = data;
-    } catch (e) { console.warn("Summary fetch failed, likely missing table"); }
-  }
-
-  const finalSummaries: Record<string, DailySummary> = {};
-
-  // Hydrate from storage first (snake_case from DB)
-  storedSummaries.forEach(s => {
-    finalSummaries[s.date] = {
-      date: s.date,
-      totalCalories: s.total_calories,
-      totalProtein: s.total_protein,
-      totalCarbs: s.total_carbs,
-      totalFat: s.total_fat,
-      entries: []
-    };
-  });
-
-  // Override with fresh calculations from active entries
-  Object.keys(grouped).forEach(date => {
-    const dayEntries = grouped[date];
-    finalSummaries[date] = {
-      date,
-      totalCalories: dayEntries.reduce((sum, e) => sum + e.calories, 0),
-      totalProtein: dayEntries.reduce((sum, e) => sum + (e.protein || 0), 0),
-      totalCarbs: dayEntries.reduce((sum, e) => sum + (e.carbs || 0), 0),
-      totalFat: dayEntries.reduce((sum, e) => sum + (e.fat || 0), 0),
-      entries: dayEntries
-    };
-  });
+  const storedSummaries = await getBackend().listSummaries(user.id);
 
-  return Object.values(finalSummaries).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  return mergeDailyTotals(entries, storedSummaries).map(totals => ({
+    ...totals,
+    entries: grouped[totals.date] || []
+  }));
 };
 
-export const performDataCleanup = async (): Promise<void> => {
+/**
+ * Move an entry to the trash - undoDelete('entry', id) brings it back
+ */
+export const deleteEntry = async (id: string): Promise<void> => {
   const user = await getCurrentUser();
-  if (!user) return;
+  if (!user) throw new Error("Not logged in");
 
-  const thirtyDaysAgo = new Date();
-  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-  const thresholdDateStr = thirtyDaysAgo.toISOString().split('T')[0];
+  await getBackend().deleteEntry(user.id, id);
+  broadcastTabChange(user.id, 'food_entries');
 
-  let oldEntries: FoodEntry[] = [];
-  if (!shouldUseCloud) {
-    oldEntries = getLocalEntries().filter(e => e.user_id === user.id && e.date < thresholdDateStr);
-  } else {
-    try {
-      const { data } = await supabase
-        .from('food_entries')
-        .select(ENTRY_COLUMNS_AGGREGATE)
-        .eq('user_id', user.id)
-        .lt('date', thresholdDateStr);
-      if (data) oldEntries = data.map(mapRowToEntry);
-    } catch (e) { return; }
+  if (await hasQueuedWrites()) {
+    patchCachedEntry(id, null);
+    return;
   }
 
-  if (oldEntries.length === 0) return;
-
-  const grouped: Record<string, FoodEntry[]> = {};
-  oldEntries.forEach(e => {
-    if (!grouped[e.date]) grouped[e.date] = [];
-    grouped[e.date].push(e);
-  });
-
-  for (const date of Object.keys(grouped)) {
-    const dayEntries = grouped[date];
-    const summary = {
-      id: `${user.id}_${date}`,
-      user_id: user.id,
-      date,
-      total_calories: dayEntries.reduce((sum, e) => sum + e.calories, 0),
-      total_protein: dayEntries.reduce((sum, e) => sum + (e.protein || 0), 0),
-      total_carbs: dayEntries.reduce((sum, e) => sum + (e.carbs || 0), 0),
-      total_fat: dayEntries.reduce((sum, e) => sum + (e.fat || 0), 0),
-    };
-
-    if (!shouldUseCloud) {
-      const allSummaries = getLocalSummaries();
-      const existingIdx = allSummaries.findIndex(s => s.user_id === user.id && s.date === date);
-      if (existingIdx >= 0) allSummaries[existingIdx] = summary;
-      else allSummaries.push(summary);
-      saveLocalSummaries(allSummaries);
-
-      const remainingEntries = getLocalEntries().filter(e => !(e.user_id === user.id && e.date === date));
-      saveLocalEntries(remainingEntries);
-    } else {
-      // We ignore errors here as cleanup is background task
-      await supabase.from('daily_summaries').upsert(summary);
-      await supabase.from('food_entries').delete().eq('user_id', user.id).eq('date', date);
-    }
-  }
+  // Invalidate all entry-related caches
+  cache.invalidatePattern(/^food:/);
 };
 
-export const deleteEntry = async (id: string): Promise<void> => {
+/**
+ * Clear the image from an entry while preserving nutritional data
+ */
+export const clearEntryImage = async (id: string): Promise<void> => {
   const user = await getCurrentUser();
   if (!user) throw new Error("Not logged in");
 
-  if (!shouldUseCloud) {
-    const entries = getLocalEntries().filter(e => !(e.id === id && e.user_id === user.id));
-    saveLocalEntries(entries);
-    // Invalidate all entry-related caches
-    cache.invalidatePattern(/^food:/);
+  await getBackend().clearEntryImage(user.id, id);
+  broadcastTabChange(user.id, 'food_entries');
+
+  if (await hasQueuedWrites()) {
+    const cached = findCachedEntry(id);
+    if (cached) patchCachedEntry(id, { ...cached, imageUrl: undefined, imageKey: undefined });
+    else (['original', 'thumbnail'] as MediaVariant[]).forEach(variant => cache.set(CACHE_KEYS.entryImage(id, variant), null, 30 * 60 * 1000));
     return;
   }
 
-  const { error } = await supabase
-    .from('food_entries')
-    .delete()
-    .eq('id', id)
-    .eq('user_id', user.id);
-
-  if (error) handleStorageError(error, "Delete Entry");
-
   // Invalidate all entry-related caches
   cache.invalidatePattern(/^food:/);
 };
 
 /**
- * Clear the image from an entry while preserving nutritional data
+ * Put back a photo removed with clearEntryImage (the undo toast).
+ * Photos don't go to the trash, so the caller passes the entry's photo fields
+ * from before the removal - an uploaded photo is kept in the media store for a day.
  */
-export const clearEntryImage = async (id: string): Promise<void> => {
+export const restoreEntryImage = async (entry: FoodEntry, photo: Pick<FoodEntry, 'imageUrl' | 'imageKey'>): Promise<void> => {
   const user = await getCurrentUser();
   if (!user) throw new Error("Not logged in");
 
-  if (!shouldUseCloud) {
-    const entries = getLocalEntries();
-    const entryIndex = entries.findIndex(e => e.id === id && e.user_id === user.id);
-    if (entryIndex >= 0) {
-      entries[entryIndex].imageUrl = undefined;
-      saveLocalEntries(entries);
-    }
-    cache.invalidatePattern(/^food:/);
-    return;
-  }
+  // Save on top of the stored entry so nothing the list view left out is lost
+  const current = await getBackend().getEntry(user.id, entry.id);
+  if (!current) return;
 
-  const { error } = await supabase
-    .from('food_entries')
-    .update({ image_url: null }) // Explicitly set to NULL
-    .eq('id', id)
-    .eq('user_id', user.id);
+  await saveEntry({ ...current, imageUrl: photo.imageUrl, imageKey: photo.imageKey });
+  window.dispatchEvent(new CustomEvent(LIVE_EVENTS.food_entries));
+};
 
-  if (error) handleStorageError(error, "Clear Image");
+/**
+ * Edits made to an entry, oldest first
+ */
+export const getEntryHistory = async (entryId: string): Promise<EntryRevision[]> => {
+  const user = await getCurrentUser();
+  if (!user) return [];
 
-  // Invalidate all entry-related caches
-  cache.invalidatePattern(/^food:/);
+  return (await getBackend().getEntry(user.id, entryId))?.history || [];
+};
+
+/**
+ * Roll an entry back to how it was before `revisionId`. The rollback is itself
+ * recorded as a revision, so it can be undone the same way.
+ * Resolves with the saved entry, or null when the entry or revision is gone.
+ */
+export const revertEntry = async (entryId: string, revisionId: string): Promise<FoodEntry | null> => {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("Not logged in");
+
+  const current = await getBackend().getEntry(user.id, entryId);
+  const reverted = current && entryBeforeRevision(current, revisionId);
+  if (!reverted) return null;
+
+  await saveEntry(reverted, 'revert');
+  window.dispatchEvent(new CustomEvent(LIVE_EVENTS.food_entries));
+  return getBackend().getEntry(user.id, entryId);
 };
 
 export const getDailyGoal = async (): Promise<number> => {
@@ -733,40 +433,15 @@ export const getDailyGoal = async (): Promise<number> => {
     const user = await getCurrentUser();
     if (!user) return 2000;
 
-    if (!shouldUseCloud) {
-      const settingsStr = localStorage.getItem(LS_SETTINGS_KEY);
-      const settings = settingsStr ? JSON.parse(settingsStr) : {};
-      return settings[user.id] || 2000;
-    }
-
-    const { data, error } = await supabase
-      .from('user_settings')
-      .select('daily_goal')
-      .eq('user_id', user.id)
-      .single();
-
-    return (error || !data) ? 2000 : data.daily_goal;
-  }, 30 * 60 * 1000); // Cache for 30 minutes (rarely changes)
+    return (await getBackend().getDailyGoal(user.id)) || 2000;
+  }, 30 * 60 * 1000, { persist: true }); // Cache for 30 minutes (rarely changes)
 };
 
 export const saveDailyGoal = async (goal: number): Promise<void> => {
   const user = await getCurrentUser();
   if (!user) throw new Error("Not logged in");
 
-  if (!shouldUseCloud) {
-    const settingsStr = localStorage.getItem(LS_SETTINGS_KEY);
-    const settings = settingsStr ? JSON.parse(settingsStr) : {};
-    settings[user.id] = goal;
-    localStorage.setItem(LS_SETTINGS_KEY, JSON.stringify(settings));
-    cache.invalidate(CACHE_KEYS.DAILY_GOAL);
-    return;
-  }
-
-  const { error } = await supabase
-    .from('user_settings')
-    .upsert({ user_id: user.id, daily_goal: goal }, { onConflict: 'user_id' });
-
-  if (error) handleStorageError(error, "Save Daily Goal");
+  await getBackend().saveDailyGoal(user.id, goal);
 
   cache.invalidate(CACHE_KEYS.DAILY_GOAL);
 };
@@ -776,227 +451,542 @@ export const getUserProfile = async (): Promise<UserProfile | null> => {
     const user = await getCurrentUser();
     if (!user) return null;
 
-    if (!shouldUseCloud) {
-      const profilesStr = localStorage.getItem(LS_PROFILE_KEY);
-      const profiles = profilesStr ? JSON.parse(profilesStr) : {};
-      return profiles[user.id] || null;
+    const profile = await getBackend().getProfile(user.id);
+    // Keep the device's day boundary in step with the profile (it may have changed on another device)
+    if (profile) setDayStart(profile.dayStartsAt);
+    return profile;
+  }, 30 * 60 * 1000, { persist: true }); // Cache for 30 minutes (rarely changes)
+};
+
+export const saveUserProfile = async (profile: UserProfile): Promise<void> => {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("Not logged in");
+
+  await getBackend().saveProfile(user.id, profile);
+  setDayStart(profile.dayStartsAt);
+
+  cache.invalidate(CACHE_KEYS.USER_PROFILE);
+};
+
+// --- Offline Outbox (cloud mode) ---
+
+/**
+ * Queued cloud writes for the current user, oldest first
+ */
+export const getOutboxItems = async (): Promise<OutboxItem[]> => {
+  const outbox = getOutbox();
+  const user = await getCurrentUser();
+  if (!outbox || !user) return [];
+
+  return outbox.list(user.id);
+};
+
+export const getOutboxSummary = async (): Promise<OutboxSummary> => {
+  const outbox = getOutbox();
+  return outbox ? outbox.summary() : { pending: 0, failed: 0 };
+};
+
+/**
+ * Refetch everything once queued writes have landed (or been dropped)
+ */
+const refreshAfterOutboxChange = (): void => {
+  cache.invalidatePattern(/^food:/);
+  window.dispatchEvent(new CustomEvent('food-entry-updated'));
+};
+
+/**
+ * Refetch everything after sync brought in changes from another device
+ */
+const refreshAfterSync = (): void => {
+  cache.invalidatePattern(/^(food|user):/);
+  window.dispatchEvent(new CustomEvent('food-entry-updated'));
+  window.dispatchEvent(new CustomEvent('streak-updated'));
+};
+
+/**
+ * Replay queued writes to Supabase
+ */
+export const flushOutbox = async (): Promise<number> => {
+  const outbox = getOutbox();
+  if (!outbox) return 0;
+
+  const replayed = await outbox.flush();
+  if (replayed > 0) refreshAfterOutboxChange();
+  return replayed;
+};
+
+export const retryOutboxItem = async (seq: number): Promise<void> => {
+  const outbox = getOutbox();
+  if (!outbox) return;
+
+  if (await outbox.retry(seq) > 0) refreshAfterOutboxChange();
+};
+
+/**
+ * Drop a queued write - the optimistic change disappears with it
+ */
+export const discardOutboxItem = async (seq: number): Promise<void> => {
+  const outbox = getOutbox();
+  if (!outbox) return;
+
+  await outbox.discard(seq);
+  refreshAfterOutboxChange();
+};
+
+// --- Cloud Sync ---
+
+/**
+ * Replay queued writes, then pull changes from other devices and push
+ * anything still dirty on this one
+ */
+export const syncNow = async (): Promise<SyncResult> => {
+  // Queued writes go first so the pull doesn't briefly bring back stale copies
+  await flushOutbox();
+
+  const engine = getSyncEngine();
+  const user = await getCurrentUser();
+  if (!engine || !user) return { pulled: 0, pushed: 0 };
+
+  const result = await engine.sync(user.id);
+  if (result.pulled > 0) refreshAfterSync();
+  return result;
+};
+
+export const getLastSyncedAt = async (): Promise<string | null> => {
+  const engine = getSyncEngine();
+  const user = await getCurrentUser();
+  if (!engine || !user) return null;
+
+  const state = await engine.getState(user.id);
+  return state?.lastSyncedAt ?? null;
+};
+
+/**
+ * Sync now, whenever the browser comes back online and whenever the app
+ * returns to the foreground. Returns a cleanup function.
+ */
+export const startCloudSync = (): (() => void) => {
+  if (!getOutbox()) return () => { };
+
+  const run = () => {
+    syncNow().catch(e => console.error('Cloud sync failed:', e));
+  };
+
+  const handleOnline = () => {
+    console.log('🌐 Back online, syncing...');
+    run();
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') run();
+  };
+
+  window.addEventListener('online', handleOnline);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  run();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+};
+
+// --- Live Updates ---
+
+// Changes often arrive in bursts (a multi-day plan, a sync) - refetch once
+const LIVE_REFRESH_DELAY_MS = 400;
+
+/**
+ * Refetch what other tabs and devices changed and tell the open pages.
+ * Returns a cleanup function.
+ */
+export const startLiveUpdates = (userId: string): (() => void) => {
+  const pendingTables = new Set<LiveTable>();
+  let pendingFromCloud = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = async () => {
+    timer = null;
+    const tables = Array.from(pendingTables);
+    const fromCloud = pendingFromCloud;
+    pendingTables.clear();
+    pendingFromCloud = false;
+
+    // Workout plans are read from the device mirror first, which only a sync updates
+    if (fromCloud && tables.includes('workout_plans') && getSyncEngine()) {
+      await syncNow().catch(e => console.warn('Live update sync failed:', e));
     }
 
-    const { data, error } = await supabase
-      .from('user_profiles')
-      .select('name, height, weight, age, gender, activity_level, goal, equipment_access, target_weight')
-      .eq('user_id', user.id)
-      .single();
+    if (tables.includes('food_entries')) cache.invalidatePattern(/^food:/);
+    tables.forEach(table => window.dispatchEvent(new CustomEvent(LIVE_EVENTS[table])));
+  };
 
-    if (error || !data) return null;
+  const schedule = (fromCloud: boolean) => (table: LiveTable) => {
+    pendingTables.add(table);
+    pendingFromCloud = pendingFromCloud || fromCloud;
+    if (!timer) timer = setTimeout(flush, LIVE_REFRESH_DELAY_MS);
+  };
 
-    return {
-      name: data.name,
-      height: data.height,
-      weight: data.weight,
-      age: data.age,
-      gender: data.gender,
-      activityLevel: data.activity_level,
-      goal: data.goal,
-      equipmentAccess: data.equipment_access,
-      targetWeight: data.target_weight
-    };
-  }, 30 * 60 * 1000); // Cache for 30 minutes (rarely changes)
+  const unsubscribeTabs = subscribeToTabChanges(userId, schedule(false));
+  const unsubscribeCloud = subscribeToCloudChanges(userId, schedule(true));
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    unsubscribeTabs();
+    unsubscribeCloud();
+  };
 };
 
-export const saveUserProfile = async (profile: UserProfile): Promise<void> => {
+// --- Edit Conflicts ---
+
+/**
+ * Concurrent edits from another device that need the user to pick a version
+ */
+export const getConflicts = async (): Promise<ConflictItem[]> => {
+  const resolver = getConflictResolver();
+  const user = await getCurrentUser();
+  if (!resolver || !user) return [];
+
+  return resolver.list(user.id);
+};
+
+export const resolveConflict = async (id: string, choice: ConflictChoice): Promise<void> => {
+  const resolver = getConflictResolver();
+  if (!resolver) return;
+
+  await resolver.resolve(id, choice);
+  refreshAfterSync();
+};
+
+// --- Trash & Undo ---
+
+export const UNDO_TOAST_EVENT = 'undo-toast';
+
+export interface UndoToastDetail {
+  message: string;
+  undo: () => Promise<void>;
+}
+
+const TRASH_LIVE_TABLES: Record<TrashKind, LiveTable> = {
+  entry: 'food_entries',
+  workoutPlan: 'workout_plans',
+  chatMessage: 'coach_messages',
+};
+
+/**
+ * Offer to reverse an action that just happened (shown by the app shell)
+ */
+export const offerUndo = (message: string, undo: () => Promise<void>): void => {
+  window.dispatchEvent(new CustomEvent<UndoToastDetail>(UNDO_TOAST_EVENT, { detail: { message, undo } }));
+};
+
+/**
+ * Deleted meals, workouts and coach messages, most recently deleted first
+ */
+export const getTrash = async (): Promise<TrashItem[]> => {
+  const user = await getCurrentUser();
+  if (!user) return [];
+
+  return getBackend().listTrash(user.id);
+};
+
+export const restoreFromTrash = async (itemId: string): Promise<void> => {
   const user = await getCurrentUser();
   if (!user) throw new Error("Not logged in");
 
-  if (!shouldUseCloud) {
-    const profilesStr = localStorage.getItem(LS_PROFILE_KEY);
-    const profiles = profilesStr ? JSON.parse(profilesStr) : {};
-    profiles[user.id] = profile;
-    localStorage.setItem(LS_PROFILE_KEY, JSON.stringify(profiles));
-    cache.invalidate(CACHE_KEYS.USER_PROFILE);
-    return;
+  await getBackend().restoreFromTrash(user.id, itemId);
+
+  // The record reappears wherever it was listed
+  const table = TRASH_LIVE_TABLES[parseTrashItemId(itemId).kind];
+  if (table === 'food_entries') cache.invalidatePattern(/^food:/);
+  broadcastTabChange(user.id, table);
+  window.dispatchEvent(new CustomEvent(LIVE_EVENTS[table]));
+};
+
+/**
+ * Restore a record deleted moments ago (the undo toast)
+ */
+export const undoDelete = (kind: TrashKind, recordId: string): Promise<void> =>
+  restoreFromTrash(trashItemId(kind, recordId));
+
+export const purgeFromTrash = async (itemId: string): Promise<void> => {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("Not logged in");
+
+  await getBackend().purgeFromTrash(user.id, itemId);
+};
+
+/**
+ * Purge everything in the trash. Resolves with how many records were removed.
+ */
+export const emptyTrash = async (): Promise<number> => {
+  const user = await getCurrentUser();
+  if (!user) return 0;
+
+  const backend = getBackend();
+  const items = await backend.listTrash(user.id);
+  for (const item of items) {
+    await backend.purgeFromTrash(user.id, item.id);
   }
+  return items.length;
+};
 
-  const { error } = await supabase
-    .from('user_profiles')
-    .upsert({
-      user_id: user.id,
-      name: profile.name,
-      height: profile.height,
-      weight: profile.weight,
-      age: profile.age,
-      gender: profile.gender,
-      activity_level: profile.activityLevel,
-      goal: profile.goal,
-      equipment_access: profile.equipmentAccess,
-      target_weight: profile.targetWeight
-    }, { onConflict: 'user_id' });
-
-  if (error) handleStorageError(error, "Save Profile");
+// --- Data Retention ---
 
-  cache.invalidate(CACHE_KEYS.USER_PROFILE);
+/**
+ * Matches the behaviour before retention became configurable
+ */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  entries: 'compact',
+  entryDays: 30,
+  chatDays: 30,
+  archiveBeforeDelete: false
+};
+
+/**
+ * What a cleanup run would remove under a policy
+ */
+export interface CleanupPreview {
+  policy: RetentionPolicy;
+  entriesBefore: string | null;   // Meals dated before this are affected (null = kept forever)
+  entriesToCompact: number;
+  daysToCompact: number;
+  imagesToDrop: number;
+  chatBefore: string | null;      // Chat dated before this is deleted (null = kept forever)
+  chatMessagesToDelete: number;
+}
+
+export const getRetentionPolicy = async (): Promise<RetentionPolicy> => {
+  return withCache(CACHE_KEYS.RETENTION_POLICY, async () => {
+    const user = await getCurrentUser();
+    if (!user) return DEFAULT_RETENTION_POLICY;
+
+    const saved = await getBackend().getRetentionPolicy(user.id);
+    return { ...DEFAULT_RETENTION_POLICY, ...saved };
+  }, 30 * 60 * 1000, { staleWhileRevalidate: true }); // Cache for 30 minutes (rarely changes)
+};
+
+export const saveRetentionPolicy = async (policy: RetentionPolicy): Promise<void> => {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("Not logged in");
+
+  await getBackend().saveRetentionPolicy(user.id, policy);
+
+  cache.invalidate(CACHE_KEYS.RETENTION_POLICY);
+};
+
+/**
+ * Work out what the policy would remove, without changing anything
+ */
+const planCleanup = async (userId: string, policy: RetentionPolicy) => {
+  const backend = getBackend();
+  const entriesBefore = policy.entries === 'forever' ? null : daysAgo(policy.entryDays);
+  const chatBefore = policy.chatDays === null ? null : daysAgo(policy.chatDays);
+
+  let compactEntries: FoodEntry[] = [];
+  let imageEntryIds: string[] = [];
+  if (entriesBefore && policy.entries === 'compact') {
+    compactEntries = await backend.listEntries(userId, { projection: 'aggregate', beforeDate: entriesBefore });
+  } else if (entriesBefore && policy.entries === 'drop_images') {
+    const withImages = await backend.listEntries(userId, { projection: 'full', beforeDate: entriesBefore });
+    imageEntryIds = withImages.filter(e => !!e.imageUrl || !!e.imageKey).map(e => e.id);
+  }
+
+  const chatMessagesToDelete = chatBefore
+    ? (await backend.listAllChatMessages(userId)).filter(m => m.date < chatBefore).length
+    : 0;
+
+  const preview: CleanupPreview = {
+    policy,
+    entriesBefore,
+    entriesToCompact: compactEntries.length,
+    daysToCompact: new Set(compactEntries.map(e => e.date)).size,
+    imagesToDrop: imageEntryIds.length,
+    chatBefore,
+    chatMessagesToDelete
+  };
+  return { preview, compactEntries, imageEntryIds };
+};
+
+const hasCleanupWork = (preview: CleanupPreview): boolean =>
+  preview.entriesToCompact + preview.imagesToDrop + preview.chatMessagesToDelete > 0;
+
+/**
+ * Dry run: what cleanup would remove under the saved (or a draft) policy
+ */
+export const previewDataCleanup = async (policy?: RetentionPolicy): Promise<CleanupPreview | null> => {
+  const user = await getCurrentUser();
+  if (!user) return null;
+
+  return (await planCleanup(user.id, policy || await getRetentionPolicy())).preview;
+};
+
+/**
+ * Apply the retention policy. Runs in the background on sign-in.
+ *
+ * When the policy asks for an archive first, background runs change nothing;
+ * pass `archive` (from a user action) to download an export and then clean up.
+ * Resolves with what was removed, or null when nothing was.
+ */
+export const performDataCleanup = async (options: { archive?: boolean } = {}): Promise<CleanupPreview | null> => {
+  const user = await getCurrentUser();
+  if (!user) return null;
+
+  const policy = await getRetentionPolicy();
+  let plan: Awaited<ReturnType<typeof planCleanup>>;
+  try {
+    plan = await planCleanup(user.id, policy);
+  } catch (e) { return null; }
+
+  const { preview, compactEntries, imageEntryIds } = plan;
+  if (!hasCleanupWork(preview)) return null;
+
+  if (policy.archiveBeforeDelete && !options.archive) {
+    console.log('🗄️ Cleanup waiting for an archive export:', preview);
+    return null;
+  }
+  if (options.archive) {
+    downloadArchive(await exportAccount({ includeImages: true }));
+  }
+
+  const backend = getBackend();
+  const background = (e: unknown) => {
+    // Cleanup is a background task - local quota errors still surface
+    if (backend.kind === 'local') throw e;
+  };
+
+  for (const summary of mergeDailyTotals(compactEntries, [])) {
+    try {
+      await backend.saveSummary(user.id, summary);
+      await backend.deleteEntriesForDate(user.id, summary.date);
+    } catch (e) { background(e); }
+  }
+
+  for (const id of imageEntryIds) {
+    try {
+      await backend.clearEntryImage(user.id, id);
+    } catch (e) { background(e); }
+  }
+
+  if (preview.chatBefore && preview.chatMessagesToDelete > 0) {
+    try {
+      await backend.deleteChatMessagesBefore(user.id, preview.chatBefore);
+    } catch (e) { background(e); }
+  }
+
+  cache.invalidatePattern(/^food:/);
+  return preview;
+};
+
+// --- Photo Storage ---
+
+/**
+ * Move inline photos into the media store and delete photos nothing refers
+ * to any more. Runs in the background on sign-in.
+ */
+export const maintainEntryPhotos = async (): Promise<void> => {
+  const user = await getCurrentUser();
+  if (!user) return;
+
+  if (await migrateEntryPhotos(user.id) > 0) cache.invalidatePattern(/^food:/);
+  await pruneUnusedPhotos(user.id);
 };
 
 // --- Migration Helpers ---
 
-export const hasLocalData = (): boolean => {
-  const entries = getLocalEntries();
-  return entries.length > 0;
+/**
+ * Whether this device holds data from Device Only mode that hasn't been
+ * moved into a cloud account yet
+ */
+export const hasLocalData = async (): Promise<boolean> => {
+  const engine = getSyncEngine();
+  const user = await getCurrentUser();
+  if (engine && user) return engine.hasUnsyncedAccountData(user.id);
+
+  const snapshot = await localBackend.readDeviceSnapshot();
+  return snapshot.entries.length > 0;
+};
+
+/**
+ * Device photos only exist on this device until they're uploaded - runs in the background
+ */
+const copyPhotosToCloud = (userId: string): void => {
+  migrateEntryPhotos(userId, { force: true })
+    .then(moved => { if (moved > 0) cache.invalidatePattern(/^food:/); })
+    .catch(err => console.error("Photo upload failed:", err));
 };
 
-export const syncLocalDataToSupabase = async (): Promise<void> => {
+/**
+ * Move Device Only data into the signed-in cloud account.
+ * With IndexedDB the records are re-owned and kept as the local mirror;
+ * the localStorage fallback still does a one-way upload and clears the device.
+ */
+export const syncDeviceDataToCloud = async (): Promise<void> => {
   if (!shouldUseCloud) throw new Error("Must be in Cloud Mode to sync");
   const user = await getCurrentUser();
   if (!user) throw new Error("Must be logged in to sync");
 
-  const allEntries = getLocalEntries();
-
-  if (allEntries.length > 0) {
-    // Map local entries to the current Cloud user ID
-    const entriesToUpload = allEntries.map(e => ({
-      id: e.id,
-      user_id: user.id,
-      timestamp: e.timestamp,
-      date: e.date,
-      time: e.time,
-      food_item: e.food_item,
-      calories: e.calories,
-      protein: e.protein,
-      carbs: e.carbs,
-      fat: e.fat,
-      confidence: e.confidence,
-      is_manual: e.isManual,
-      image_url: e.imageUrl,
-      ingredients: e.ingredients,
-      original_ai_response: e.originalAiResponse
-    }));
-
-    // Chunk upload to prevent 413 Payload Too Large
-    const CHUNK_SIZE = 5;
-    for (let i = 0; i < entriesToUpload.length; i += CHUNK_SIZE) {
-      const chunk = entriesToUpload.slice(i, i + CHUNK_SIZE);
-      const { error } = await supabase.from('food_entries').upsert(chunk);
-      if (error) {
-        console.error("Chunk upload failed", error);
-        throw new Error(`Sync failed at item ${i + 1}: ` + error.message);
-      }
+  const engine = getSyncEngine();
+  if (engine) {
+    await engine.adoptDeviceData(user.id);
+    copyPhotosToCloud(user.id);
+    refreshAfterSync();
+    return;
+  }
+
+  const snapshot = await localBackend.readDeviceSnapshot();
+  const backend = getBackend();
+
+  // Map local entries to the current Cloud user ID
+  if (snapshot.entries.length > 0) {
+    try {
+      await backend.saveEntries(user.id, snapshot.entries);
+    } catch (error: any) {
+      console.error("Chunk upload failed", error);
+      throw new Error(`Sync failed: ` + error.message);
     }
   }
 
   // Sync Settings if they don't exist in cloud
-  const settingsStr = localStorage.getItem(LS_SETTINGS_KEY);
-  if (settingsStr) {
-    const settings = JSON.parse(settingsStr);
-    const firstKey = Object.keys(settings)[0];
-    if (firstKey && settings[firstKey]) {
-      await saveDailyGoal(settings[firstKey]);
-    }
+  if (snapshot.dailyGoal) {
+    await saveDailyGoal(snapshot.dailyGoal);
   }
 
   // Sync Profile if it doesn't exist in cloud
-  const profilesStr = localStorage.getItem(LS_PROFILE_KEY);
-  if (profilesStr) {
-    const profiles = JSON.parse(profilesStr);
-    const firstKey = Object.keys(profiles)[0];
-    if (firstKey && profiles[firstKey]) {
-      await saveUserProfile(profiles[firstKey]);
-    }
+  if (snapshot.profile) {
+    await saveUserProfile(snapshot.profile);
   }
 
   // Clear local data to complete migration
-  localStorage.removeItem(LS_KEY);
-  localStorage.removeItem(LS_SUMMARIES_KEY);
-  localStorage.removeItem(LS_SETTINGS_KEY);
-  localStorage.removeItem(LS_PROFILE_KEY);
+  await localBackend.clearDeviceSnapshot();
+  copyPhotosToCloud(user.id);
+  refreshAfterSync();
 };
 
+
 // --- Diagnostics ---
 
-export interface DBCheckResult {
-  ok: boolean;
-  error?: string;
-  missingTables?: boolean;
-}
+export type { DBCheckResult };
 
 export const checkDatabaseSchema = async (): Promise<DBCheckResult> => {
-  if (!shouldUseCloud) return { ok: true };
   const user = await getCurrentUser();
   if (!user) return { ok: true };
 
-  // Try to select 1 row. If table doesn't exist, it throws error code 42P01 (relation does not exist)
-  const { error } = await supabase.from('food_entries').select('id').limit(1);
-
-  if (error) {
-    if (error.message.includes('relation') || error.code === '42P01') {
-      return { ok: false, missingTables: true, error: "Tables missing" };
-    }
-    return { ok: false, error: error.message };
-  }
-  return { ok: true };
+  return getBackend().checkSchema();
 };
 
 // --- Onboarding Status Management ---
 
-const LS_ONBOARDING_KEY = 'snapcal_onboarding_v1';
-
 export const hasCompletedOnboarding = async (user: any): Promise<boolean> => {
   if (!user || !user.id) return false;
 
-  // Always check local storage first as a cache/fallback
-  const onboardingStr = localStorage.getItem(LS_ONBOARDING_KEY);
-  const onboarding = onboardingStr ? JSON.parse(onboardingStr) : {};
-
-  if (onboarding[user.id] === true) return true;
-
-  if (!shouldUseCloud) {
-    return false;
-  }
-
-  try {
-    const { data, error } = await supabase
-      .from('user_settings')
-      .select('has_completed_onboarding')
-      .eq('user_id', user.id)
-      .maybeSingle(); // maybeSingle is safer as it doesn't throw on 0 rows
-
-    const completed = data?.has_completed_onboarding || false;
-
-    // If completed in cloud, cache it locally
-    if (completed) {
-      onboarding[user.id] = true;
-      localStorage.setItem(LS_ONBOARDING_KEY, JSON.stringify(onboarding));
-    }
-
-    return completed;
-  } catch (e) {
-    return false;
-  }
+  return getBackend().getOnboardingComplete(user.id);
 };
 
 export const markOnboardingComplete = async (user: any): Promise<void> => {
   if (!user || !user.id) return;
 
-  // 1. Save to Local Storage (Always do this as immediate cache)
-  const onboardingStr = localStorage.getItem(LS_ONBOARDING_KEY);
-  const onboarding = onboardingStr ? JSON.parse(onboardingStr) : {};
-  onboarding[user.id] = true;
-  localStorage.setItem(LS_ONBOARDING_KEY, JSON.stringify(onboarding));
-
-  // 2. Save to Cloud if enabled
-  if (shouldUseCloud) {
-    try {
-      const { error } = await supabase
-        .from('user_settings')
-        .upsert({
-          user_id: user.id,
-          has_completed_onboarding: true
-        }, { onConflict: 'user_id' });
-
-      if (error) console.error("Cloud mark onboarding error:", error);
-    } catch (e) {
-      console.error("Cloud mark onboarding exception:", e);
-    }
-  }
+  await getBackend().setOnboardingComplete(user.id);
 };
 
 export const skipOnboarding = async (user: any): Promise<void> => {
@@ -1014,29 +1004,6 @@ export const clearAllCaches = (): void => {
 
 // --- Chat History Management ---
 
-/**
- * Helper to get local chat messages from localStorage
- */
-const getLocalChatMessages = (): ChatMessage[] => {
-  try {
-    const data = localStorage.getItem(LS_COACH_MESSAGES_KEY);
-    return data ? JSON.parse(data) : [];
-  } catch (e) {
-    return [];
-  }
-};
-
-/**
- * Helper to save local chat messages to localStorage
- */
-const saveLocalChatMessages = (messages: ChatMessage[]) => {
-  try {
-    localStorage.setItem(LS_COACH_MESSAGES_KEY, JSON.stringify(messages));
-  } catch (error: any) {
-    console.error('Failed to save chat messages to local storage:', error);
-  }
-};
-
 /**
  * Save a single chat message to database
  */
@@ -1047,35 +1014,22 @@ export const saveChatMessage = async (message: ChatMessage): Promise<void> => {
     return;
   }
 
-  // Extract date from timestamp (YYYY-MM-DD format)
-  const date = new Date(message.timestamp).toISOString().split('T')[0];
+  // Tracking day of the timestamp (YYYY-MM-DD format)
+  const date = getTrackingDate(message.timestamp);
 
-  if (!shouldUseCloud) {
-    const messages = getLocalChatMessages();
-    const messageWithUser = { ...message, user_id: user.id, date };
-    messages.push(messageWithUser);
-    saveLocalChatMessages(messages);
-    return;
-  }
+  await getBackend().saveChatMessage(user.id, { ...message, date });
+  broadcastTabChange(user.id, 'coach_messages');
+};
 
-  try {
-    const { error } = await supabase
-      .from('coach_messages')
-      .insert({
-        id: message.id,
-        user_id: user.id,
-        role: message.role,
-        content: message.content,
-        timestamp: message.timestamp,
-        date: date
-      });
+/**
+ * Move a chat message to the trash
+ */
+export const deleteChatMessage = async (id: string): Promise<void> => {
+  const user = await getCurrentUser();
+  if (!user) throw new Error("Not logged in");
 
-    if (error) {
-      console.error('Failed to save chat message to Supabase:', error);
-    }
-  } catch (error) {
-    console.error('Exception saving chat message:', error);
-  }
+  await getBackend().deleteChatMessage(user.id, id);
+  broadcastTabChange(user.id, 'coach_messages');
 };
 
 /**
@@ -1086,31 +1040,7 @@ export const getChatMessagesForDate = async (date: string): Promise<ChatMessage[
   const user = await getCurrentUser();
   if (!user) return [];
 
-  if (!shouldUseCloud) {
-    const allMessages = getLocalChatMessages();
-    return allMessages
-      .filter((m: any) => m.user_id === user.id && m.date === date)
-      .sort((a, b) => a.timestamp - b.timestamp);
-  }
-
-  try {
-    const { data, error } = await supabase
-      .from('coach_messages')
-      .select('id, role, content, timestamp')
-      .eq('user_id', user.id)
-      .eq('date', date)
-      .order('timestamp', { ascending: true });
-
-    if (error) {
-      console.error('Failed to fetch chat messages:', error);
-      return [];
-    }
-
-    return data || [];
-  } catch (error) {
-    console.error('Exception fetching chat messages:', error);
-    return [];
-  }
+  return getBackend().listChatMessages(user.id, date);
 };
 
 /**
@@ -1118,71 +1048,26 @@ export const getChatMessagesForDate = async (date: string): Promise<ChatMessage[
  * Convenience function for loading same-day conversation
  */
 export const getTodayChatMessages = async (): Promise<ChatMessage[]> => {
-  const today = new Date().toISOString().split('T')[0];
-  return getChatMessagesForDate(today);
+  return getChatMessagesForDate(getCurrentDateString());
 };
 
 /**
- * Clean up chat messages older than 30 days (one month)
+ * Clean up chat messages older than the retention policy allows
  * Called automatically when loading chat history
  */
 export const cleanupOldChatMessages = async (): Promise<void> => {
   const user = await getCurrentUser();
   if (!user) return;
 
-  const thirtyDaysAgo = new Date();
-  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-  const thresholdDate = thirtyDaysAgo.toISOString().split('T')[0];
-
-  if (!shouldUseCloud) {
-    const messages = getLocalChatMessages();
-    const filtered = messages.filter((m: any) =>
-      m.user_id !== user.id || m.date >= thresholdDate
-    );
-    saveLocalChatMessages(filtered);
-    return;
-  }
+  const policy = await getRetentionPolicy();
+  // Kept forever, or waiting for the user to export an archive first
+  if (policy.chatDays === null || policy.archiveBeforeDelete) return;
 
-  try {
-    const { error } = await supabase
-      .from('coach_messages')
-      .delete()
-      .eq('user_id', user.id)
-      .lt('date', thresholdDate);
-
-    if (error) {
-      console.error('Failed to cleanup old chat messages:', error);
-    }
-  } catch (error) {
-    console.error('Exception during chat cleanup:', error);
-  }
+  await getBackend().deleteChatMessagesBefore(user.id, daysAgo(policy.chatDays));
 };
 
 // --- Workout Plan Management ---
 
-/**
- * Helper to get local workout plans from localStorage
- */
-const getLocalWorkoutPlans = (): any[] => {
-  try {
-    const data = localStorage.getItem(LS_WORKOUT_PLANS_KEY);
-    return data ? JSON.parse(data) : [];
-  } catch (e) {
-    return [];
-  }
-};
-
-/**
- * Helper to save local workout plans to localStorage
- */
-const saveLocalWorkoutPlans = (plans: any[]) => {
-  try {
-    localStorage.setItem(LS_WORKOUT_PLANS_KEY, JSON.stringify(plans));
-  } catch (error: any) {
-    console.error('Failed to save workout plans to local storage:', error);
-  }
-};
-
 /**
  * Save a workout plan for a specific date
  * Now supports multiple workouts per date by generating unique IDs
@@ -1203,49 +1088,15 @@ export const saveWorkoutPlan = async (
   // Generate unique ID if not provided (for new workouts)
   const id = workoutId || `${user.id}_${date}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-  const planWithUser = {
+  await getBackend().saveWorkoutPlan(user.id, {
     id,
-    user_id: user.id,
     date,
     title,
-    workout_type_id: workoutTypeId,
-    exercises
-  };
-
-  // Always save to localStorage as backup
-  const plans = getLocalWorkoutPlans();
-  const existingIndex = plans.findIndex(
-    (p: any) => p.id === id
-  );
-
-  if (existingIndex >= 0) {
-    plans[existingIndex] = planWithUser;
-  } else {
-    plans.push(planWithUser);
-  }
-  saveLocalWorkoutPlans(plans);
-
-  // Also try to save to Supabase if in cloud mode
-  if (shouldUseCloud) {
-    try {
-      const { error } = await supabase
-        .from('workout_plans')
-        .upsert({
-          id,
-          user_id: user.id,
-          date,
-          title,
-          workout_type_id: workoutTypeId,
-          exercises
-        });
-
-      if (error) {
-        console.warn('Supabase save failed, using localStorage fallback:', error.message);
-      }
-    } catch (error) {
-      console.warn('Exception saving workout plan to Supabase, using localStorage fallback:', error);
-    }
-  }
+    workoutTypeId,
+    exercises,
+    editedAt: new Date().toISOString()
+  });
+  broadcastTabChange(user.id, 'workout_plans');
 
   return id;
 };
@@ -1267,50 +1118,17 @@ export const getWorkoutPlansForDate = async (date: string): Promise<DailyWorkout
   const user = await getCurrentUser();
   if (!user) return [];
 
-  const workouts: DailyWorkout[] = [];
-
-  // Always check localStorage first
-  const plans = getLocalWorkoutPlans();
-  const localPlans = plans.filter((p: any) => p.user_id === user.id && p.date === date);
-
-  localPlans.forEach((p: any) => {
-    workouts.push({
-      id: p.id,
-      date: p.date,
-      title: p.title,
-      exercises: p.exercises
-    });
-  });
+  return getBackend().listWorkoutPlans(user.id, { date });
+};
 
-  // If cloud is enabled, also get from Supabase and merge
-  if (shouldUseCloud) {
-    try {
-      const { data, error } = await supabase
-        .from('workout_plans')
-        .select('id, date, title, exercises')
-        .eq('user_id', user.id)
-        .eq('date', date);
-
-      if (!error && data) {
-        // Merge cloud data, avoiding duplicates by ID
-        const localIds = new Set(workouts.map(w => w.id));
-        data.forEach((cloudPlan: any) => {
-          if (!localIds.has(cloudPlan.id)) {
-            workouts.push({
-              id: cloudPlan.id,
-              date: cloudPlan.date,
-              title: cloudPlan.title,
-              exercises: cloudPlan.exercises
-            });
-          }
-        });
-      }
-    } catch (error) {
-      console.warn('Exception fetching workout plans from Supabase, using localStorage only:', error);
-    }
-  }
+/**
+ * Get all workout plans within a date range (inclusive)
+ */
+export const getWorkoutPlansForRange = async (startDate: string, endDate: string): Promise<DailyWorkout[]> => {
+  const user = await getCurrentUser();
+  if (!user) return [];
 
-  return workouts;
+  return getBackend().listWorkoutPlans(user.id, { startDate, endDate });
 };
 
 /**
@@ -1321,44 +1139,14 @@ export const getWorkoutPlansForMonth = async (
   year: number,
   month: number
 ): Promise<string[]> => {
-  const user = await getCurrentUser();
-  if (!user) return [];
-
   // Create date range for the month (YYYY-MM format)
   const startDate = `${year}-${String(month).padStart(2, '0')}-01`;
   const endDate = `${year}-${String(month).padStart(2, '0')}-31`;
 
-  // Always check localStorage first
-  const plans = getLocalWorkoutPlans();
-  const localDates = plans
-    .filter((p: any) =>
-      p.user_id === user.id &&
-      p.date >= startDate &&
-      p.date <= endDate
-    )
-    .map((p: any) => p.date);
-
-  // If cloud is enabled, also get from Supabase and merge
-  if (shouldUseCloud) {
-    try {
-      const { data, error } = await supabase
-        .from('workout_plans')
-        .select('date')
-        .eq('user_id', user.id)
-        .gte('date', startDate)
-        .lte('date', endDate);
-
-      if (!error && data) {
-        const cloudDates = data.map((row: any) => row.date);
-        // Merge and deduplicate
-        return Array.from(new Set([...localDates, ...cloudDates]));
-      }
-    } catch (error) {
-      console.warn('Exception fetching workout plans from Supabase, using localStorage only:', error);
-    }
-  }
+  const plans = await getWorkoutPlansForRange(startDate, endDate);
 
-  return localDates;
+  // Deduplicate - multiple workouts can share a date
+  return Array.from(new Set(plans.map(p => p.date)));
 };
 
 /**
@@ -1379,9 +1167,6 @@ export const saveMultiDayWorkoutPlan = async (
     return;
   }
 
-  // Calculate dates for each day
-  const startDateObj = new Date(startDate);
-
   for (let i = 0; i < days.length; i++) {
     const day = days[i];
 
@@ -1391,9 +1176,7 @@ export const saveMultiDayWorkoutPlan = async (
     }
 
     // Calculate date for this day
-    const dayDate = new Date(startDateObj);
-    dayDate.setDate(dayDate.getDate() + i);
-    const dateStr = dayDate.toISOString().split('T')[0];
+    const dateStr = addDays(startDate, i);
 
     // Save this day's workout
     await saveWorkoutPlan(dateStr, day.title, day.exercises);
@@ -1411,32 +1194,12 @@ export const deleteWorkoutPlan = async (date: string): Promise<void> => {
     return;
   }
 
-  if (!shouldUseCloud) {
-    const plans = getLocalWorkoutPlans();
-    const filtered = plans.filter(
-      (p: any) => !(p.user_id === user.id && p.date === date)
-    );
-    saveLocalWorkoutPlans(filtered);
-    return;
-  }
-
-  try {
-    const { error } = await supabase
-      .from('workout_plans')
-      .delete()
-      .eq('user_id', user.id)
-      .eq('date', date);
-
-    if (error) {
-      console.error('Failed to delete workout plan:', error);
-    }
-  } catch (error) {
-    console.error('Exception deleting workout plan:', error);
-  }
+  await getBackend().deleteWorkoutPlansForDate(user.id, date);
+  broadcastTabChange(user.id, 'workout_plans');
 };
 
 /**
- * Delete a specific workout plan by ID
+ * Move a specific workout plan to the trash
  * Supports deleting individual workouts when multiple exist per day
  */
 export const deleteWorkoutPlanById = async (workoutId: string): Promise<void> => {
@@ -1446,27 +1209,6 @@ export const deleteWorkoutPlanById = async (workoutId: string): Promise<void> =>
     return;
   }
 
-  // Delete from localStorage
-  const plans = getLocalWorkoutPlans();
-  const filtered = plans.filter(
-    (p: any) => p.id !== workoutId
-  );
-  saveLocalWorkoutPlans(filtered);
-
-  // Also delete from Supabase if in cloud mode
-  if (shouldUseCloud) {
-    try {
-      const { error } = await supabase
-        .from('workout_plans')
-        .delete()
-        .eq('id', workoutId)
-        .eq('user_id', user.id);
-
-      if (error) {
-        console.warn('Failed to delete workout plan from Supabase:', error.message);
-      }
-    } catch (error) {
-      console.warn('Exception deleting workout plan from Supabase:', error);
-    }
-  }
-};
\ No newline at end of file
+  await getBackend().deleteWorkoutPlan(user.id, workoutId);
+  broadcastTabChange(user.id, 'workout_plans');
+};
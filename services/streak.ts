@@ -3,15 +3,11 @@
  * Handles daily logging streak tracking and weight goal prediction
  */
 
-import { supabase, shouldUseCloud } from './supabase';
 import { getCurrentUser } from './auth';
 import { getUserProfile, getDailyGoal, getEntriesCountForDate } from './storage';
+import { getBackend } from './backend';
 import { cache, CACHE_KEYS, withCache } from '../utils/cache';
-import { getCurrentDateString } from '../utils/midnight';
-
-// --- Local Storage Keys ---
-const LS_STREAK_KEY = 'snapcal_streak_v1';
-const LS_WEIGHT_GOAL_KEY = 'snapcal_weight_goal_v1';
+import { getCurrentDateString, daysAgo } from '../utils/midnight';
 
 // --- Types ---
 export interface StreakData {
@@ -53,51 +49,6 @@ const ACTIVITY_MULTIPLIERS: Record<string, number> = {
     extra: 1.9,
 };
 
-// --- Local Storage Helpers ---
-const getLocalStreakData = (userId: string): StreakData | null => {
-    try {
-        const data = localStorage.getItem(LS_STREAK_KEY);
-        if (!data) return null;
-        const parsed = JSON.parse(data);
-        return parsed[userId] || null;
-    } catch (e) {
-        return null;
-    }
-};
-
-const saveLocalStreakData = (userId: string, data: StreakData): void => {
-    try {
-        const existing = localStorage.getItem(LS_STREAK_KEY);
-        const parsed = existing ? JSON.parse(existing) : {};
-        parsed[userId] = data;
-        localStorage.setItem(LS_STREAK_KEY, JSON.stringify(parsed));
-    } catch (e) {
-        console.error('Failed to save streak data:', e);
-    }
-};
-
-const getLocalWeightGoal = (userId: string): WeightGoal | null => {
-    try {
-        const data = localStorage.getItem(LS_WEIGHT_GOAL_KEY);
-        if (!data) return null;
-        const parsed = JSON.parse(data);
-        return parsed[userId] || null;
-    } catch (e) {
-        return null;
-    }
-};
-
-const saveLocalWeightGoal = (userId: string, goal: WeightGoal): void => {
-    try {
-        const existing = localStorage.getItem(LS_WEIGHT_GOAL_KEY);
-        const parsed = existing ? JSON.parse(existing) : {};
-        parsed[userId] = goal;
-        localStorage.setItem(LS_WEIGHT_GOAL_KEY, JSON.stringify(parsed));
-    } catch (e) {
-        console.error('Failed to save weight goal:', e);
-    }
-};
-
 // --- Streak Manager ---
 
 /**
@@ -109,37 +60,10 @@ export const getStreakData = async (): Promise<StreakData> => {
         return createDefaultStreakData();
     }
 
-    // Try local storage first
-    const localData = getLocalStreakData(user.id);
-    if (localData) {
-        return localData;
-    }
-
-    // Try Supabase if enabled
-    if (shouldUseCloud) {
-        try {
-            const { data, error } = await supabase
-                .from('user_streaks')
-                .select('current_streak, longest_streak, last_log_date, streak_freezes, last_freeze_used_date, qualifying_dates')
-                .eq('user_id', user.id)
-                .single();
-
-            if (!error && data) {
-                const streakData: StreakData = {
-                    currentStreak: data.current_streak,
-                    longestStreak: data.longest_streak,
-                    lastLogDate: data.last_log_date,
-                    streakFreezes: data.streak_freezes,
-                    lastFreezeUsedDate: data.last_freeze_used_date,
-                    qualifyingDates: data.qualifying_dates || [],
-                };
-                // Cache locally
-                saveLocalStreakData(user.id, streakData);
-                return streakData;
-            }
-        } catch (e) {
-            console.warn('Failed to fetch streak from Supabase:', e);
-        }
+    // Device cache first, then the cloud (when enabled)
+    const storedData = await getBackend().getStreak(user.id);
+    if (storedData) {
+        return storedData;
     }
 
     return createDefaultStreakData();
@@ -234,11 +158,7 @@ export const updateStreak = async (): Promise<StreakData> => {
 /**
  * Get yesterday's date string in YYYY-MM-DD format
  */
-const getYesterdayDateString = (): string => {
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-    return yesterday.toISOString().split('T')[0];
-};
+const getYesterdayDateString = (): string => daysAgo(1);
 
 /**
  * Use a streak freeze to preserve the current streak
@@ -289,27 +209,7 @@ const saveStreakData = async (data: StreakData): Promise<void> => {
     const user = await getCurrentUser();
     if (!user) return;
 
-    // Always save locally
-    saveLocalStreakData(user.id, data);
-
-    // Sync to Supabase if enabled
-    if (shouldUseCloud) {
-        try {
-            await supabase
-                .from('user_streaks')
-                .upsert({
-                    user_id: user.id,
-                    current_streak: data.currentStreak,
-                    longest_streak: data.longestStreak,
-                    last_log_date: data.lastLogDate,
-                    streak_freezes: data.streakFreezes,
-                    last_freeze_used_date: data.lastFreezeUsedDate,
-                    qualifying_dates: data.qualifyingDates,
-                }, { onConflict: 'user_id' });
-        } catch (e) {
-            console.warn('Failed to sync streak to Supabase:', e);
-        }
-    }
+    await getBackend().saveStreak(user.id, data);
 
     // Invalidate cache
     cache.invalidate(CACHE_KEYS.STREAK_DATA);
@@ -340,18 +240,18 @@ export const getWeightGoal = async (): Promise<WeightGoal> => {
 
     if (!user) return defaultGoal;
 
-    const localGoal = getLocalWeightGoal(user.id);
-    if (localGoal) {
+    const storedGoal = await getBackend().getWeightGoal(user.id);
+    if (storedGoal) {
         // Update with current profile data (target weight and calorie limit)
         return {
-            ...localGoal,
+            ...storedGoal,
             targetWeight: targetWeight, // Always use profile's target weight
             dailyCalorieLimit: dailyGoal,
         };
     }
 
     // Save default goal
-    saveLocalWeightGoal(user.id, defaultGoal);
+    await getBackend().saveWeightGoal(user.id, defaultGoal);
     return defaultGoal;
 };
 
@@ -362,22 +262,7 @@ export const saveWeightGoal = async (goal: WeightGoal): Promise<void> => {
     const user = await getCurrentUser();
     if (!user) return;
 
-    saveLocalWeightGoal(user.id, goal);
-
-    if (shouldUseCloud) {
-        try {
-            await supabase
-                .from('user_weight_goals')
-                .upsert({
-                    user_id: user.id,
-                    start_weight: goal.startWeight,
-                    target_weight: goal.targetWeight,
-                    daily_calorie_limit: goal.dailyCalorieLimit,
-                }, { onConflict: 'user_id' });
-        } catch (e) {
-            console.warn('Failed to sync weight goal to Supabase:', e);
-        }
-    }
+    await getBackend().saveWeightGoal(user.id, goal);
 
     cache.invalidate(CACHE_KEYS.WEIGHT_GOAL);
 };
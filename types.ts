@@ -9,15 +9,17 @@ export interface FoodEntry {
   id: string;
   user_id?: string;
   timestamp: string;
-  date: string;
+  date: string; // Local calendar day (YYYY-MM-DD) in timeZone
   time: string;
+  timeZone?: string; // IANA zone the entry was logged in, e.g. "Europe/Berlin"
   food_item: string;
   calories: number;
   protein: number;
   carbs: number;
   fat: number;
   confidence: number;
-  imageUrl?: string;
+  imageUrl?: string; // Inline data URL (legacy / not uploaded yet), or a display URL resolved from imageKey
+  imageKey?: string; // Photo in the media store
   isManual?: boolean;
   ingredients?: Ingredient[];
   originalAiResponse?: {
@@ -28,6 +30,33 @@ export interface FoodEntry {
     fat: number;
     ingredients?: Ingredient[];
   };
+  revision?: number; // Cloud revision this copy is based on, bumped on every cloud write
+  editedAt?: string; // When this copy was last edited (device clock, ISO)
+  history?: EntryRevision[]; // Edits to this entry, oldest first
+}
+
+/**
+ * What made an edit to a saved entry
+ * - ai: values from an AI (re)calculation
+ * - manual: typed in by the user
+ * - import: replaced by an account archive import
+ * - revert: rolled back from the revision timeline
+ */
+export type EntryChangeSource = 'ai' | 'manual' | 'import' | 'revert';
+
+export type EntryTrackedField = 'food_item' | 'calories' | 'protein' | 'carbs' | 'fat' | 'ingredients' | 'date' | 'time';
+
+export interface EntryFieldChange {
+  field: EntryTrackedField;
+  before?: FoodEntry[EntryTrackedField]; // Left out when the field was unset
+  after?: FoodEntry[EntryTrackedField];
+}
+
+export interface EntryRevision {
+  id: string;
+  revisedAt: string; // ISO
+  source: EntryChangeSource;
+  changes: EntryFieldChange[];
 }
 
 export interface DailySummary {
@@ -49,6 +78,7 @@ export interface UserProfile {
   goal?: 'cut' | 'bulk' | 'maintain';
   equipmentAccess?: 'gym' | 'home' | 'bodyweight';
   targetWeight?: number;
+  dayStartsAt?: string; // HH:MM the tracking day rolls over at, midnight when unset
 }
 
 export enum AppView {
@@ -75,6 +105,8 @@ export interface DailyWorkout {
   title: string;
   workoutTypeId?: string; // Reference to workout type for icon/color
   exercises: WorkoutExercise[];
+  revision?: number; // Cloud revision this copy is based on, bumped on every cloud write
+  editedAt?: string; // When this copy was last edited (device clock, ISO)
 }
 
 export interface OnboardingState {
@@ -90,7 +122,7 @@ export interface OnboardingState {
 
 export interface DetectedDish {
   dish_name: string;
-  bounding_box: [number, number, number, number]; // [ymin, xmin, ymax, xmax] normalized 0-1000
+  bounding_box: number[]; // [ymin, xmin, ymax, xmax] normalized 0-1000
   estimated_total_calories: number;
   confidence_score: number;
 }
@@ -121,6 +153,23 @@ export interface WeightGoal {
   dailyCalorieLimit: number;
 }
 
+// --- Data Retention Types ---
+
+/**
+ * What happens to meals older than `entryDays`
+ * - forever: nothing, keep every meal as logged
+ * - compact: fold each day into a daily summary and delete the meals
+ * - drop_images: keep the meals but delete their photos
+ */
+export type EntryRetention = 'forever' | 'compact' | 'drop_images';
+
+export interface RetentionPolicy {
+  entries: EntryRetention;
+  entryDays: number;
+  chatDays: number | null; // null keeps coach chat forever
+  archiveBeforeDelete: boolean; // Cleanup waits until the user exports an archive
+}
+
 // --- Coach Reports Types ---
 
 export interface CoachReportTip {
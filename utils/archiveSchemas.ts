@@ -0,0 +1,181 @@
+/**
+ * Zod Validation Schemas for Account Archives
+ *
+ * An archive is a single JSON file holding everything that belongs to one
+ * user. Imports are validated against these schemas before anything is written.
+ * Bump ARCHIVE_VERSION whenever the shape changes.
+ */
+
+import { z } from 'zod';
+import { IngredientSchema, CoachReportTipSchema } from './schemas';
+
+export const ARCHIVE_FORMAT = 'snapcal-archive';
+export const ARCHIVE_VERSION = 1;
+
+// Cloud rows use null where device records leave a field out - accept both
+const optional = <T extends z.ZodType>(schema: T) =>
+    schema.nullish().transform(value => value ?? undefined);
+
+const DateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+// --- Records ---
+
+const EntryTrackedFieldSchema = z.enum(['food_item', 'calories', 'protein', 'carbs', 'fat', 'ingredients', 'date', 'time']);
+
+// Field values are whatever the entry held - a string, number or ingredient list
+const EntryFieldValueSchema = z.union([z.string(), z.number(), z.array(IngredientSchema)]).optional();
+
+export const ArchiveEntryRevisionSchema = z.object({
+    id: z.string().min(1),
+    revisedAt: z.string(),
+    source: z.enum(['ai', 'manual', 'import', 'revert']),
+    changes: z.array(z.object({
+        field: EntryTrackedFieldSchema,
+        before: EntryFieldValueSchema,
+        after: EntryFieldValueSchema,
+    })),
+});
+
+export const ArchiveEntrySchema = z.object({
+    id: z.string().min(1),
+    timestamp: z.string(),
+    date: DateStringSchema,
+    time: z.string(),
+    timeZone: optional(z.string()),
+    food_item: z.string(),
+    calories: z.number(),
+    protein: z.number().default(0),
+    carbs: z.number().default(0),
+    fat: z.number().default(0),
+    confidence: z.number().default(1),
+    imageUrl: optional(z.string()),
+    isManual: optional(z.boolean()),
+    ingredients: optional(z.array(IngredientSchema)),
+    originalAiResponse: optional(z.object({
+        item: z.string(),
+        calories: z.number(),
+        protein: z.number(),
+        carbs: z.number(),
+        fat: z.number(),
+        ingredients: optional(z.array(IngredientSchema)),
+    })),
+    editedAt: optional(z.string()),
+    history: optional(z.array(ArchiveEntryRevisionSchema)),
+});
+
+export const ArchiveSummarySchema = z.object({
+    date: DateStringSchema,
+    totalCalories: z.number().default(0),
+    totalProtein: z.number().default(0),
+    totalCarbs: z.number().default(0),
+    totalFat: z.number().default(0),
+});
+
+export const ArchiveWorkoutPlanSchema = z.object({
+    id: z.string().min(1),
+    date: DateStringSchema,
+    title: z.string(),
+    workoutTypeId: optional(z.string()),
+    exercises: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        sets: z.number(),
+        reps: z.string(),
+        rest: z.string(),
+        completed: z.boolean().default(false),
+    })),
+    editedAt: optional(z.string()),
+});
+
+export const ArchiveChatMessageSchema = z.object({
+    id: z.string().min(1),
+    role: z.enum(['user', 'assistant']),
+    content: z.string(),
+    timestamp: z.number(),
+    date: DateStringSchema,
+});
+
+export const ArchiveReportSchema = z.object({
+    id: z.string().min(1),
+    reportType: z.enum(['daily', 'weekly', 'monthly']),
+    periodStart: DateStringSchema,
+    periodEnd: DateStringSchema,
+    summary: z.string(),
+    tips: z.array(CoachReportTipSchema),
+    metrics: z.object({
+        avgCalories: z.number(),
+        avgProtein: z.number(),
+        avgCarbs: z.number(),
+        avgFat: z.number(),
+        totalMeals: z.number(),
+        workoutsCompleted: z.number(),
+        daysTracked: z.number(),
+        calorieGoalHitRate: z.number(),
+    }),
+    weightAtReport: optional(z.number()),
+    createdAt: z.string(),
+});
+
+export const ArchiveStreakSchema = z.object({
+    currentStreak: z.number(),
+    longestStreak: z.number(),
+    lastLogDate: z.string().nullable(),
+    streakFreezes: z.number(),
+    lastFreezeUsedDate: z.string().nullable(),
+    qualifyingDates: z.array(z.string()).default([]),
+});
+
+export const ArchiveWeightGoalSchema = z.object({
+    startWeight: z.number(),
+    targetWeight: z.number(),
+    dailyCalorieLimit: z.number(),
+});
+
+export const ArchiveProfileSchema = z.object({
+    name: z.string(),
+    height: z.number(),
+    weight: z.number(),
+    age: optional(z.number()),
+    gender: optional(z.enum(['male', 'female'])),
+    activityLevel: optional(z.enum(['sedentary', 'light', 'moderate', 'very', 'extra'])),
+    goal: optional(z.enum(['cut', 'bulk', 'maintain'])),
+    equipmentAccess: optional(z.enum(['gym', 'home', 'bodyweight'])),
+    targetWeight: optional(z.number()),
+    dayStartsAt: optional(z.string().regex(/^\d{2}:\d{2}$/, 'Expected an HH:MM time')),
+});
+
+// --- Archive ---
+
+/**
+ * Just enough to decide how to read the rest of the file
+ */
+export const ArchiveHeaderSchema = z.object({
+    format: z.literal(ARCHIVE_FORMAT),
+    version: z.number().int().positive(),
+});
+
+export const ArchiveSchema = ArchiveHeaderSchema.extend({
+    version: z.literal(ARCHIVE_VERSION),
+    exportedAt: z.string(),
+    userId: z.string(),
+    includesImages: z.boolean(),
+    data: z.object({
+        entries: z.array(ArchiveEntrySchema),
+        summaries: z.array(ArchiveSummarySchema),
+        workoutPlans: z.array(ArchiveWorkoutPlanSchema),
+        coachMessages: z.array(ArchiveChatMessageSchema),
+        coachReports: z.array(ArchiveReportSchema),
+        streak: ArchiveStreakSchema.nullable(),
+        weightGoal: ArchiveWeightGoalSchema.nullable(),
+        profile: ArchiveProfileSchema.nullable(),
+        settings: z.object({
+            dailyGoal: z.number().nullable(),
+            onboardingComplete: z.boolean().default(false),
+        }),
+    }),
+});
+
+// --- Type Exports (inferred from schemas) ---
+
+export type SnapCalArchive = z.infer<typeof ArchiveSchema>;
+export type ArchiveInput = z.input<typeof ArchiveSchema>;
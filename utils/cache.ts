@@ -1,47 +1,167 @@
 /**
  * In-Memory Cache Utility
  * Provides fast data caching with TTL (time-to-live) and manual invalidation
+ *
+ * - Concurrent reads of the same key share one fetch
+ * - Stale-while-revalidate keys keep answering with expired data while a background refresh runs
+ * - Persisted keys are also kept in IndexedDB (per user), so a cold start shows the last known data instantly
+ * - The least recently used entries are evicted past MAX_ENTRIES
  */
 
+import { PersistentCacheStore } from './cacheStore';
+
 interface CacheEntry<T> {
     data: T;
     timestamp: number;
     ttl: number; // Time to live in milliseconds
+    staleWhileRevalidate: boolean; // Serve after expiry while refetching
+    persist: boolean;
+}
+
+export interface CacheOptions {
+    /** Answer with expired data and refetch in the background */
+    staleWhileRevalidate?: boolean;
+    /** Keep a copy in IndexedDB for instant cold starts (implies staleWhileRevalidate) */
+    persist?: boolean;
 }
 
+export interface CacheStats {
+    size: number;
+    keys: string[];
+    hits: number;
+    staleHits: number; // Served expired data while revalidating
+    persistedHits: number; // Served from IndexedDB after a reload
+    misses: number;
+    deduplicated: number; // Reads that joined a fetch already in flight
+    revalidations: number;
+    evictions: number;
+    hitRate: number; // 0-1, stale and persisted hits included
+}
+
+const MAX_ENTRIES = 500;
+
+// Persisted and stale data older than this is refetched before it's shown
+const MAX_STALE_AGE = 7 * 24 * 60 * 60 * 1000;
+
 class DataCache {
     private cache: Map<string, CacheEntry<any>> = new Map();
     private defaultTTL = 5 * 60 * 1000; // 5 minutes default
+    private inflight: Map<string, Promise<any>> = new Map();
+    // Bumped on invalidation, so a fetch that started earlier doesn't store outdated data
+    private generations: Map<string, number> = new Map();
+    private epoch = 0;
+    private scope: string | null = null;
+    private persistent = true;
+    private store = new PersistentCacheStore();
+    private metrics = { hits: 0, staleHits: 0, persistedHits: 0, misses: 0, deduplicated: 0, revalidations: 0, evictions: 0 };
 
     /**
-     * Get cached data if it exists and hasn't expired
+     * Entry for a key, marking it most recently used. Entries past the stale window are dropped.
      */
-    get<T>(key: string): T | null {
+    private lookup<T>(key: string, allowStale: boolean): CacheEntry<T> | null {
         const entry = this.cache.get(key);
-
         if (!entry) return null;
 
-        const now = Date.now();
-        const age = now - entry.timestamp;
-
-        // Check if expired
-        if (age > entry.ttl) {
+        const age = Date.now() - entry.timestamp;
+        const staleLimit = entry.staleWhileRevalidate ? MAX_STALE_AGE : entry.ttl;
+        if (age > staleLimit) {
             this.cache.delete(key);
             return null;
         }
+        if (age > entry.ttl && !allowStale) return null;
 
-        return entry.data as T;
+        // Move to the back of the LRU order
+        this.cache.delete(key);
+        this.cache.set(key, entry);
+        return entry;
+    }
+
+    private isFresh(entry: CacheEntry<any>): boolean {
+        return Date.now() - entry.timestamp <= entry.ttl;
+    }
+
+    private generationOf(key: string): string {
+        return `${this.epoch}:${this.generations.get(key) || 0}`;
+    }
+
+    private bump(key: string): void {
+        this.generations.set(key, (this.generations.get(key) || 0) + 1);
+        this.inflight.delete(key);
+    }
+
+    private persistEntry(key: string, entry: CacheEntry<any>): void {
+        if (!entry.persist || !this.persistent || this.scope === null) return;
+        this.store.write({ scope: this.scope, key, data: entry.data, timestamp: entry.timestamp, ttl: entry.ttl });
+    }
+
+    /**
+     * Set the user whose data is cached. Switching users drops everything in memory;
+     * persisted entries are only read back for the same user.
+     */
+    setScope(scope: string | null): void {
+        if (scope === this.scope) return;
+        this.scope = scope;
+        this.cache.clear();
+        this.inflight.clear();
+        this.epoch++;
+
+        if (scope !== null) {
+            this.store.remove(scope, { olderThan: Date.now() - MAX_STALE_AGE });
+        }
+    }
+
+    /**
+     * Turn the IndexedDB copy on or off. Turning it off deletes every persisted
+     * entry (used while local data is encrypted - the copies would be plaintext).
+     */
+    setPersistent(enabled: boolean): void {
+        if (enabled === this.persistent) return;
+        this.persistent = enabled;
+        if (!enabled) this.store.clear();
+    }
+
+    /**
+     * Get cached data if it exists and hasn't expired
+     */
+    get<T>(key: string): T | null {
+        return this.lookup<T>(key, false)?.data ?? null;
     }
 
     /**
      * Set cache data with optional custom TTL
      */
-    set<T>(key: string, data: T, ttlMs?: number): void {
-        this.cache.set(key, {
+    set<T>(key: string, data: T, ttlMs?: number, options: CacheOptions = {}): void {
+        const entry: CacheEntry<T> = {
             data,
             timestamp: Date.now(),
-            ttl: ttlMs || this.defaultTTL
-        });
+            ttl: ttlMs || this.defaultTTL,
+            staleWhileRevalidate: !!(options.staleWhileRevalidate || options.persist),
+            persist: !!options.persist,
+        };
+
+        this.cache.delete(key);
+        this.cache.set(key, entry);
+        this.persistEntry(key, entry);
+
+        // Evict least recently used entries
+        while (this.cache.size > MAX_ENTRIES) {
+            const oldest = this.cache.keys().next().value as string;
+            this.cache.delete(oldest);
+            this.metrics.evictions++;
+        }
+    }
+
+    /**
+     * Rewrite cached data in place, keeping its original expiry
+     * No-op when the key isn't cached
+     */
+    update<T>(key: string, updater: (data: T) => T): void {
+        const entry = this.lookup<T>(key, true);
+        if (!entry || entry.data === null) return;
+
+        const next = { ...entry, data: updater(entry.data) };
+        this.cache.set(key, next);
+        this.persistEntry(key, next);
     }
 
     /**
@@ -51,11 +171,93 @@ class DataCache {
         return this.get(key) !== null;
     }
 
+    /**
+     * Cached data for a key, fetching it on a miss.
+     * Concurrent calls share one fetch; stale-while-revalidate keys answer with
+     * expired data and refresh in the background.
+     */
+    async load<T>(key: string, fetcher: () => Promise<T>, ttlMs?: number, options: CacheOptions = {}): Promise<T> {
+        const entry = this.lookup<T>(key, true);
+        if (entry && entry.data !== null) {
+            if (this.isFresh(entry)) {
+                this.metrics.hits++;
+                return entry.data;
+            }
+            this.metrics.staleHits++;
+            this.revalidate(key, fetcher, ttlMs, options);
+            return entry.data;
+        }
+
+        if (options.persist && this.persistent && this.scope !== null && !this.inflight.has(key)) {
+            const scope = this.scope;
+            const generation = this.generationOf(key);
+            const persisted = await this.store.read<T>(scope, key);
+
+            // Ignore it if the key was invalidated or the user changed while reading
+            if (
+                persisted && persisted.data !== null
+                && Date.now() - persisted.timestamp <= MAX_STALE_AGE
+                && this.scope === scope && this.generationOf(key) === generation
+            ) {
+                this.metrics.persistedHits++;
+                const restored: CacheEntry<T> = {
+                    data: persisted.data,
+                    timestamp: persisted.timestamp,
+                    ttl: persisted.ttl,
+                    staleWhileRevalidate: true,
+                    persist: true,
+                };
+                this.cache.set(key, restored);
+                if (!this.isFresh(restored)) this.revalidate(key, fetcher, ttlMs, options);
+                return persisted.data;
+            }
+        }
+
+        this.metrics.misses++;
+        return this.fetch(key, fetcher, ttlMs, options);
+    }
+
+    private fetch<T>(key: string, fetcher: () => Promise<T>, ttlMs?: number, options: CacheOptions = {}): Promise<T> {
+        const pending = this.inflight.get(key);
+        if (pending) {
+            this.metrics.deduplicated++;
+            return pending;
+        }
+
+        const generation = this.generationOf(key);
+        const request: Promise<T> = fetcher()
+            .then(data => {
+                if (this.generationOf(key) === generation) this.set(key, data, ttlMs, options);
+                return data;
+            })
+            .finally(() => {
+                if (this.inflight.get(key) === request) this.inflight.delete(key);
+            });
+
+        this.inflight.set(key, request);
+        return request;
+    }
+
+    private revalidate<T>(key: string, fetcher: () => Promise<T>, ttlMs?: number, options: CacheOptions = {}): void {
+        if (this.inflight.has(key)) return;
+        this.metrics.revalidations++;
+        this.fetch(key, fetcher, ttlMs, options).catch(error => {
+            // Keep serving the stale copy (e.g. offline)
+            console.warn(`Background refresh of ${key} failed:`, error);
+        });
+    }
+
     /**
      * Invalidate specific cache key
      */
     invalidate(key: string): void {
         this.cache.delete(key);
+        this.bump(key);
+
+        // The key may only be in IndexedDB (not read since the reload)
+        if (this.scope !== null) {
+            this.store.delete(this.scope, key);
+        }
     }
 
     /**
@@ -69,8 +271,20 @@ class DataCache {
                 keysToDelete.push(key);
             }
         });
+        this.inflight.forEach((_, key) => {
+            if (pattern.test(key) && !keysToDelete.includes(key)) {
+                keysToDelete.push(key);
+            }
+        });
 
-        keysToDelete.forEach(key => this.cache.delete(key));
+        keysToDelete.forEach(key => {
+            this.cache.delete(key);
+            this.bump(key);
+        });
+
+        if (this.scope !== null) {
+            this.store.remove(this.scope, { keys: pattern });
+        }
     }
 
     /**
@@ -78,6 +292,12 @@ class DataCache {
      */
     clear(): void {
         this.cache.clear();
+        this.inflight.clear();
+        this.epoch++;
+
+        if (this.scope !== null) {
+            this.store.remove(this.scope);
+        }
     }
 
     /**
@@ -94,10 +314,14 @@ class DataCache {
     /**
      * Get cache statistics
      */
-    getStats(): { size: number; keys: string[] } {
+    getStats(): CacheStats {
+        const { hits, staleHits, persistedHits, misses } = this.metrics;
+        const served = hits + staleHits + persistedHits;
         return {
             size: this.cache.size,
-            keys: Array.from(this.cache.keys())
+            keys: Array.from(this.cache.keys()),
+            ...this.metrics,
+            hitRate: served + misses > 0 ? served / (served + misses) : 0,
         };
     }
 }
@@ -117,9 +341,11 @@ export const CACHE_KEYS = {
     STREAK_DATA: 'user:streak',
     AVATAR_STATE: 'user:avatar',
     WEIGHT_GOAL: 'user:weight-goal',
+    RETENTION_POLICY: 'user:retention',
+    AI_USAGE_CAPS: 'user:ai-caps',
     // Dynamic keys
     entriesForDate: (date: string) => `food:entries:${date}`,
-    entryImage: (id: string) => `food:image:${id}`,
+    entryImage: (id: string, variant: string = 'original') => `food:image:${id}:${variant}`,
     summariesForRange: (start: string, end: string) => `food:summaries:${start}:${end}`,
 } as const;
 
@@ -129,19 +355,8 @@ export const CACHE_KEYS = {
 export async function withCache<T>(
     key: string,
     fetcher: () => Promise<T>,
-    ttlMs?: number
+    ttlMs?: number,
+    options?: CacheOptions
 ): Promise<T> {
-    // Try to get from cache first
-    const cached = cache.get<T>(key);
-    if (cached !== null) {
-        return cached;
-    }
-
-    // Cache miss - fetch data
-    const data = await fetcher();
-
-    // Store in cache
-    cache.set(key, data, ttlMs);
-
-    return data;
+    return cache.load(key, fetcher, ttlMs, options);
 }
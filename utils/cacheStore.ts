@@ -0,0 +1,112 @@
+/**
+ * Persistent Cache Store
+ * Keeps selected cache entries in IndexedDB so a cold start can show the
+ * last known data instantly while it is refetched. Records are scoped to the
+ * signed-in user. Every failure is swallowed - the cache must never break a read.
+ */
+
+import { isIndexedDbAvailable, openDatabase, promisifyRequest, transactionDone, iterateCursor } from './indexedDb';
+
+const DB_NAME = 'snapcal-cache';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+export interface PersistedCacheEntry<T = unknown> {
+    scope: string;
+    key: string;
+    data: T;
+    timestamp: number;
+    ttl: number;
+}
+
+export class PersistentCacheStore {
+    private db: Promise<IDBDatabase | null> | null = null;
+
+    private open(): Promise<IDBDatabase | null> {
+        if (!this.db) {
+            this.db = isIndexedDbAvailable()
+                ? openDatabase(DB_NAME, DB_VERSION, db => {
+                    if (!db.objectStoreNames.contains(STORE)) {
+                        db.createObjectStore(STORE, { keyPath: ['scope', 'key'] });
+                    }
+                }).catch(error => {
+                    console.warn('Persistent cache unavailable:', error);
+                    return null;
+                })
+                : Promise.resolve(null);
+        }
+        return this.db;
+    }
+
+    async read<T>(scope: string, key: string): Promise<PersistedCacheEntry<T> | null> {
+        try {
+            const db = await this.open();
+            if (!db) return null;
+            const record = await promisifyRequest(db.transaction(STORE, 'readonly').objectStore(STORE).get([scope, key]));
+            return (record as PersistedCacheEntry<T>) || null;
+        } catch (error) {
+            console.warn(`Failed to read cached ${key}:`, error);
+            return null;
+        }
+    }
+
+    async write(entry: PersistedCacheEntry): Promise<void> {
+        try {
+            const db = await this.open();
+            if (!db) return;
+            const tx = db.transaction(STORE, 'readwrite');
+            tx.objectStore(STORE).put(entry);
+            await transactionDone(tx);
+        } catch (error) {
+            console.warn(`Failed to persist cached ${entry.key}:`, error);
+        }
+    }
+
+    async delete(scope: string, key: string): Promise<void> {
+        try {
+            const db = await this.open();
+            if (!db) return;
+            const tx = db.transaction(STORE, 'readwrite');
+            tx.objectStore(STORE).delete([scope, key]);
+            await transactionDone(tx);
+        } catch (error) {
+            console.warn(`Failed to drop cached ${key}:`, error);
+        }
+    }
+
+    /**
+     * Delete every record of every scope
+     */
+    async clear(): Promise<void> {
+        try {
+            const db = await this.open();
+            if (!db) return;
+            const tx = db.transaction(STORE, 'readwrite');
+            tx.objectStore(STORE).clear();
+            await transactionDone(tx);
+        } catch (error) {
+            console.warn('Failed to clear the persistent cache:', error);
+        }
+    }
+
+    /**
+     * Delete a scope's records whose key matches, or that were written before `olderThan`
+     */
+    async remove(scope: string, match: { keys?: RegExp; olderThan?: number } = {}): Promise<void> {
+        try {
+            const db = await this.open();
+            if (!db) return;
+            const tx = db.transaction(STORE, 'readwrite');
+            await iterateCursor(tx.objectStore(STORE).openCursor(), cursor => {
+                const record = cursor.value as PersistedCacheEntry;
+                if (record.scope !== scope) return;
+                if (match.keys && !match.keys.test(record.key)) return;
+                if (match.olderThan !== undefined && record.timestamp >= match.olderThan) return;
+                cursor.delete();
+            });
+            await transactionDone(tx);
+        } catch (error) {
+            console.warn('Failed to prune the persistent cache:', error);
+        }
+    }
+}
@@ -0,0 +1,92 @@
+/**
+ * Passphrase Encryption
+ * WebCrypto helpers for encrypting records at rest: a PBKDF2-derived
+ * AES-GCM key, and per-record encryption bound to the record's key so a
+ * ciphertext can't be swapped in for another record.
+ */
+
+export const PBKDF2_ITERATIONS = 600_000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface SealedRecord {
+    iv: Uint8Array<ArrayBuffer>;
+    data: ArrayBuffer;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Whether this browser can encrypt (WebCrypto needs a secure context)
+ */
+export const isCryptoAvailable = (): boolean =>
+    typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const generateSalt = (): Uint8Array<ArrayBuffer> => crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+
+/**
+ * AES-GCM key for a passphrase. The key can't be exported - it only lives in memory.
+ */
+export const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+/**
+ * Encrypt a string with a fresh IV. `context` (e.g. the storage key) must match on decryption.
+ */
+export const seal = async (key: CryptoKey, plaintext: string, context: string): Promise<SealedRecord> => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const data = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: encoder.encode(context) },
+        key,
+        encoder.encode(plaintext)
+    );
+    return { iv, data };
+};
+
+/**
+ * Decrypt a sealed string. Rejects when the key is wrong or the record was tampered with.
+ */
+export const unseal = async (key: CryptoKey, sealed: SealedRecord, context: string): Promise<string> => {
+    const data = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: sealed.iv, additionalData: encoder.encode(context) },
+        key,
+        sealed.data
+    );
+    return decoder.decode(data);
+};
+
+/**
+ * Salted PBKDF2 hash of a password, for checking it later without storing it
+ */
+export const hashPassword = async (password: string, salt: Uint8Array<ArrayBuffer>, iterations: number = PBKDF2_ITERATIONS): Promise<Uint8Array<ArrayBuffer>> => {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+    return new Uint8Array(bits);
+};
+
+/**
+ * Compare two byte arrays in time independent of where they differ
+ */
+export const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+    if (a.length !== b.length) return false;
+    let difference = 0;
+    for (let i = 0; i < a.length; i++) difference |= a[i] ^ b[i];
+    return difference === 0;
+};
+
+// --- Encoding (for keeping bytes in localStorage) ---
+
+export const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+export const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+    Uint8Array.from(atob(value), char => char.charCodeAt(0));
@@ -0,0 +1,74 @@
+/**
+ * Entry Edit History
+ * Every save of an existing entry appends a revision listing the tracked
+ * fields that changed, so the meal detail view can show what was edited,
+ * when, and by what - and roll an edit back.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { FoodEntry, EntryChangeSource, EntryFieldChange, EntryRevision, EntryTrackedField } from '../types';
+
+export const TRACKED_ENTRY_FIELDS: EntryTrackedField[] = ['food_item', 'calories', 'protein', 'carbs', 'fat', 'ingredients', 'date', 'time'];
+
+// Oldest revisions are dropped past this, so a much-edited entry doesn't grow without bound
+const MAX_ENTRY_REVISIONS = 50;
+
+const sameValue = (a: FoodEntry[EntryTrackedField], b: FoodEntry[EntryTrackedField]): boolean =>
+    Array.isArray(a) || Array.isArray(b)
+        ? JSON.stringify(a || []) === JSON.stringify(b || [])
+        : a === b;
+
+/**
+ * Tracked fields that differ between two versions of an entry
+ */
+export const diffEntries = (before: FoodEntry, after: FoodEntry): EntryFieldChange[] =>
+    TRACKED_ENTRY_FIELDS
+        .filter(field => !sameValue(before[field], after[field]))
+        .map(field => ({ field, before: before[field], after: after[field] }));
+
+/**
+ * `next` carrying the stored entry's history plus a revision for what changed.
+ * New entries (no `previous`) and saves that change no tracked field add nothing.
+ */
+export const withRevision = (
+    previous: FoodEntry | null,
+    next: FoodEntry,
+    source: EntryChangeSource,
+    revisedAt: string = new Date().toISOString()
+): FoodEntry => {
+    // The stored copy's history wins - callers often hold a list copy without it
+    const history = previous?.history ?? next.history ?? [];
+    const changes = previous ? diffEntries(previous, next) : [];
+    if (changes.length === 0) return { ...next, history: history.length > 0 ? history : undefined };
+
+    const revision: EntryRevision = { id: uuidv4(), revisedAt, source, changes };
+    return { ...next, history: [...history, revision].slice(-MAX_ENTRY_REVISIONS) };
+};
+
+/**
+ * Revisions made on either of two devices, oldest first
+ */
+export const mergeHistories = (a: EntryRevision[] = [], b: EntryRevision[] = []): EntryRevision[] | undefined => {
+    const byId = new Map([...a, ...b].map(r => [r.id, r]));
+    const merged = Array.from(byId.values())
+        .sort((x, y) => x.revisedAt.localeCompare(y.revisedAt))
+        .slice(-MAX_ENTRY_REVISIONS);
+    return merged.length > 0 ? merged : undefined;
+};
+
+/**
+ * The entry as it was right before `revisionId` - that edit and every later one undone
+ */
+export const entryBeforeRevision = (entry: FoodEntry, revisionId: string): FoodEntry | null => {
+    const history = entry.history || [];
+    const index = history.findIndex(r => r.id === revisionId);
+    if (index === -1) return null;
+
+    const reverted: FoodEntry = { ...entry };
+    for (const revision of history.slice(index).reverse()) {
+        revision.changes.forEach(({ field, before }) => {
+            Object.assign(reverted, { [field]: before });
+        });
+    }
+    return reverted;
+};
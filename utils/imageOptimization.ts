@@ -78,6 +78,26 @@ export const loadImage = (dataURL: string): Promise<HTMLImageElement> => {
     });
 };
 
+/**
+ * Decodes a data URL into a Blob (for binary storage)
+ */
+export const dataURLToBlob = async (dataURL: string): Promise<Blob> => {
+    const response = await fetch(dataURL);
+    return response.blob();
+};
+
+/**
+ * Converts a Blob back to a data URL
+ */
+export const blobToDataURL = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
+
 /**
  * Advanced image optimization with progressive quality reduction
  * Automatically adjusts quality to meet target size
@@ -85,6 +105,17 @@ export const loadImage = (dataURL: string): Promise<HTMLImageElement> => {
 export const optimizeImage = async (
     file: File,
     config: ImageOptimizationConfig = OPTIMIZATION_PRESETS.STORAGE
+): Promise<{ dataURL: string; sizeKB: number; quality: number }> => {
+    return optimizeDataURL(await fileToDataURL(file), config);
+};
+
+/**
+ * Same as optimizeImage, for an image that is already a data URL
+ * (e.g. deriving a thumbnail from a stored photo)
+ */
+export const optimizeDataURL = async (
+    dataURL: string,
+    config: ImageOptimizationConfig = OPTIMIZATION_PRESETS.STORAGE
 ): Promise<{ dataURL: string; sizeKB: number; quality: number }> => {
     const {
         maxWidth = 600,
@@ -95,7 +126,6 @@ export const optimizeImage = async (
     } = config;
 
     // Load the image
-    const dataURL = await fileToDataURL(file);
     const img = await loadImage(dataURL);
 
     // Create canvas and resize
@@ -0,0 +1,91 @@
+/**
+ * IndexedDB Utilities
+ * Thin promise wrappers around the callback-based IndexedDB API
+ */
+
+export type UpgradeHandler = (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => void;
+
+/**
+ * Check whether IndexedDB can be used in this browser
+ */
+export const isIndexedDbAvailable = (): boolean => {
+    try {
+        return typeof indexedDB !== 'undefined' && indexedDB !== null;
+    } catch (e) {
+        // Some privacy modes throw on access
+        return false;
+    }
+};
+
+/**
+ * Resolve an IDBRequest as a promise
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Resolve when a transaction commits, reject if it fails or aborts
+ */
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+    });
+};
+
+/**
+ * Open (and upgrade if needed) a database
+ */
+export const openDatabase = (name: string, version: number, upgrade: UpgradeHandler): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+
+        request.onupgradeneeded = (event) => {
+            upgrade(request.result, event.oldVersion, request.transaction!);
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Let other tabs upgrade the schema instead of blocking them
+            db.onversionchange = () => db.close();
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => console.warn(`IndexedDB "${name}" upgrade blocked by another open tab`);
+    });
+};
+
+/**
+ * Visit every record matched by a cursor request
+ * Return false from the visitor to stop early
+ */
+export const iterateCursor = (
+    request: IDBRequest<IDBCursorWithValue | null>,
+    visit: (cursor: IDBCursorWithValue) => boolean | void
+): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve();
+            if (visit(cursor) === false) return resolve();
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Delete a database. Open connections close on the versionchange event (see openDatabase).
+ */
+export const deleteDatabase = (name: string): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.deleteDatabase(name);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => console.warn(`Deleting IndexedDB "${name}" is blocked by another open tab`);
+    });
+};
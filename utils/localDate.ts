@@ -0,0 +1,133 @@
+/**
+ * Local Calendar Dates
+ * Entries, plans and chat are filed under the user's local calendar day as a
+ * `YYYY-MM-DD` string. `toISOString()` gives the UTC day instead, which is a
+ * different day for part of every day anywhere off UTC - compute dates here.
+ *
+ * Arithmetic runs on the date parts in UTC, so daylight saving changes never
+ * skip or repeat a day. Today's tracking day lives in utils/midnight.
+ */
+
+export type LocalDateString = string; // YYYY-MM-DD
+export type YearMonthString = string; // YYYY-MM
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Whether `value` is a real YYYY-MM-DD calendar date
+ */
+export const isLocalDate = (value: string): boolean => {
+    const match = value.match(DATE_PATTERN);
+    if (!match) return false;
+    const [, year, month, day] = match.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const toUtcMidnight = (date: LocalDateString): number => {
+    const match = date.match(DATE_PATTERN);
+    if (!match) throw new Error(`Invalid date "${date}", expected YYYY-MM-DD`);
+    const [, year, month, day] = match.map(Number);
+    return Date.UTC(year, month - 1, day);
+};
+
+const fromUtcMidnight = (ms: number): LocalDateString => {
+    const date = new Date(ms);
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// --- Parse & Format ---
+
+/**
+ * The local calendar day of a moment, in the device's time zone or `timeZone` (IANA name)
+ */
+export const formatLocalDate = (moment: Date | string | number = new Date(), timeZone?: string): LocalDateString => {
+    const date = moment instanceof Date ? moment : new Date(moment);
+    if (timeZone) {
+        try {
+            // en-CA formats as YYYY-MM-DD
+            return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+        } catch (e) {
+            // Unknown zone - fall through to the device's zone
+        }
+    }
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Local midnight of a date, for Date-based UI (calendars, pickers)
+ */
+export const parseLocalDate = (date: LocalDateString): Date => {
+    const utc = new Date(toUtcMidnight(date));
+    return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+};
+
+/**
+ * IANA name of the device's time zone, e.g. "Europe/Berlin"
+ */
+export const getTimeZone = (): string | undefined => {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+    } catch (e) {
+        return undefined;
+    }
+};
+
+// --- Arithmetic ---
+
+export const addDays = (date: LocalDateString, days: number): LocalDateString =>
+    fromUtcMidnight(toUtcMidnight(date) + days * MS_PER_DAY);
+
+/**
+ * Whole days from `from` to `to` (negative when `to` is earlier)
+ */
+export const daysBetween = (from: LocalDateString, to: LocalDateString): number =>
+    Math.round((toUtcMidnight(to) - toUtcMidnight(from)) / MS_PER_DAY);
+
+/**
+ * 0 (Sunday) - 6 (Saturday)
+ */
+export const dayOfWeek = (date: LocalDateString): number => new Date(toUtcMidnight(date)).getUTCDay();
+
+/**
+ * First day of the week containing `date`. Weeks start on Monday unless `weekStartsOn` says otherwise.
+ */
+export const startOfWeek = (date: LocalDateString, weekStartsOn: number = 1): LocalDateString =>
+    addDays(date, -((dayOfWeek(date) - weekStartsOn + 7) % 7));
+
+export const weekRange = (date: LocalDateString, weekStartsOn: number = 1): { start: LocalDateString; end: LocalDateString } => {
+    const start = startOfWeek(date, weekStartsOn);
+    return { start, end: addDays(start, 6) };
+};
+
+// --- Months ---
+
+export const yearMonthOf = (date: LocalDateString): YearMonthString => date.slice(0, 7);
+
+/**
+ * First and last day of a YYYY-MM month
+ */
+export const monthRange = (yearMonth: YearMonthString): { start: LocalDateString; end: LocalDateString } => {
+    const [year, month] = yearMonth.split('-').map(Number);
+    const start = fromUtcMidnight(Date.UTC(year, month - 1, 1));
+    const end = fromUtcMidnight(Date.UTC(year, month, 0));
+    return { start, end };
+};
+
+export const addMonths = (yearMonth: YearMonthString, months: number): YearMonthString => {
+    const [year, month] = yearMonth.split('-').map(Number);
+    return fromUtcMidnight(Date.UTC(year, month - 1 + months, 1)).slice(0, 7);
+};
+
+/**
+ * Every date from `start` to `end`, inclusive
+ */
+export const eachDay = (start: LocalDateString, end: LocalDateString): LocalDateString[] => {
+    const days: LocalDateString[] = [];
+    for (let date = start; date <= end; date = addDays(date, 1)) days.push(date);
+    return days;
+};
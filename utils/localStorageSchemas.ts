@@ -0,0 +1,139 @@
+/**
+ * Zod Validation Schemas for localStorage Records
+ *
+ * Shapes of the records the localStorage backend keeps under its `snapcal_*`
+ * keys, as of the latest local schema migration. Unknown fields are kept so
+ * validation never strips data a newer build wrote.
+ */
+
+import { z } from 'zod';
+
+const DateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+// Own copies of the nested AI shapes - the schemas in ./schemas repair AI
+// output and change with it, which mustn't change a released migration
+const LocalIngredientSchema = z.object({
+    name: z.string().default('Unknown ingredient'),
+    grams: z.number().default(0),
+    calories: z.number().default(0),
+});
+
+const LocalReportTipSchema = z.object({
+    emoji: z.string().default('💡'),
+    title: z.string().default('Tip'),
+    description: z.string().default(''),
+});
+
+// --- Collections (arrays under one key) ---
+
+export const LocalEntrySchema = z.looseObject({
+    id: z.string().min(1),
+    user_id: z.string().min(1),
+    timestamp: z.string(),
+    date: DateStringSchema,
+    time: z.string().default(''),
+    timeZone: z.string().optional(),
+    food_item: z.string().default('Unknown food'),
+    calories: z.number(),
+    protein: z.number().default(0),
+    carbs: z.number().default(0),
+    fat: z.number().default(0),
+    confidence: z.number().default(1),
+    imageUrl: z.string().optional(),
+    imageKey: z.string().optional(),
+    isManual: z.boolean().optional(),
+    ingredients: z.array(LocalIngredientSchema).optional(),
+});
+
+/**
+ * Mirrors the daily_summaries columns
+ */
+export const LocalSummarySchema = z.looseObject({
+    id: z.string().min(1),
+    user_id: z.string().min(1),
+    date: DateStringSchema,
+    total_calories: z.number().default(0),
+    total_protein: z.number().default(0),
+    total_carbs: z.number().default(0),
+    total_fat: z.number().default(0),
+});
+
+export const LocalChatMessageSchema = z.looseObject({
+    id: z.string().min(1),
+    user_id: z.string().min(1),
+    role: z.enum(['user', 'assistant']),
+    content: z.string(),
+    timestamp: z.number(),
+    date: DateStringSchema,
+});
+
+export const LocalWorkoutPlanSchema = z.looseObject({
+    id: z.string().min(1),
+    user_id: z.string().min(1),
+    date: DateStringSchema,
+    title: z.string(),
+    workout_type_id: z.string().optional(),
+    exercises: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        sets: z.number(),
+        reps: z.string(),
+        rest: z.string(),
+        completed: z.boolean().default(false),
+    })).default([]),
+    revision: z.number().optional(),
+    edited_at: z.string().optional(),
+});
+
+export const LocalReportSchema = z.looseObject({
+    id: z.string().min(1),
+    userId: z.string().min(1),
+    reportType: z.enum(['daily', 'weekly', 'monthly']),
+    periodStart: DateStringSchema,
+    periodEnd: DateStringSchema,
+    summary: z.string(),
+    tips: z.array(LocalReportTipSchema).default([]),
+    metrics: z.looseObject({}),
+    createdAt: z.string(),
+});
+
+// --- User-scoped values (`{ [userId]: value }` under one key) ---
+
+export const LocalDailyGoalSchema = z.number().positive();
+
+export const LocalProfileSchema = z.looseObject({
+    name: z.string(),
+    height: z.number(),
+    weight: z.number(),
+});
+
+export const LocalOnboardingSchema = z.boolean();
+
+export const LocalStreakSchema = z.looseObject({
+    currentStreak: z.number(),
+    longestStreak: z.number(),
+    lastLogDate: z.string().nullable(),
+    streakFreezes: z.number(),
+    lastFreezeUsedDate: z.string().nullable(),
+    qualifyingDates: z.array(z.string()).default([]),
+});
+
+export const LocalWeightGoalSchema = z.looseObject({
+    startWeight: z.number(),
+    targetWeight: z.number(),
+    dailyCalorieLimit: z.number(),
+});
+
+export const LocalRetentionPolicySchema = z.looseObject({
+    entries: z.enum(['forever', 'compact', 'drop_images']),
+    entryDays: z.number().int().positive(),
+    chatDays: z.number().int().positive().nullable(),
+    archiveBeforeDelete: z.boolean(),
+});
+
+// --- Type Exports (inferred from schemas) ---
+
+export type LocalEntry = z.infer<typeof LocalEntrySchema>;
+export type LocalSummary = z.infer<typeof LocalSummarySchema>;
+export type LocalChatMessage = z.infer<typeof LocalChatMessageSchema>;
+export type LocalWorkoutPlan = z.infer<typeof LocalWorkoutPlanSchema>;
@@ -1,24 +1,114 @@
 /**
  * Midnight Detection Utility
- * Provides functionality to detect and schedule callbacks for midnight
+ * Provides functionality to detect and schedule callbacks for the start of a new day
+ *
+ * The tracking day rolls over at the user's "day starts at" time (local midnight
+ * by default), so a 1am snack can still count towards the evening before.
  */
 
+import { LocalDateString, formatLocalDate, parseLocalDate, addDays } from './localDate';
+
+const DAY_START_KEY = 'snapcal_day_start';
+
+export const DEFAULT_DAY_START = '00:00';
+
+/**
+ * Window event fired when the day start setting changes
+ */
+export const DAY_START_CHANGED_EVENT = 'day-start-changed';
+
+const DAY_START_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// --- Day Start Setting ---
+
+/**
+ * Whether `value` is a valid HH:MM day start
+ */
+export const isValidDayStart = (value: string): boolean => DAY_START_PATTERN.test(value);
+
+/**
+ * When the tracking day starts (HH:MM, local time). Mirrored on the device
+ * from the user's profile so date checks stay synchronous.
+ */
+export const getDayStart = (): string => {
+    try {
+        const value = localStorage.getItem(DAY_START_KEY);
+        return value && isValidDayStart(value) ? value : DEFAULT_DAY_START;
+    } catch (e) {
+        return DEFAULT_DAY_START;
+    }
+};
+
+/**
+ * Update the device's copy of the day start. Missing or invalid values mean midnight.
+ */
+export const setDayStart = (value?: string): void => {
+    const next = value && isValidDayStart(value) ? value : DEFAULT_DAY_START;
+    if (next === getDayStart()) return;
+
+    if (next === DEFAULT_DAY_START) {
+        localStorage.removeItem(DAY_START_KEY);
+    } else {
+        localStorage.setItem(DAY_START_KEY, next);
+    }
+    console.log(`🕓 Day now starts at ${next}`);
+    window.dispatchEvent(new CustomEvent(DAY_START_CHANGED_EVENT, { detail: next }));
+};
+
+const getDayStartMinutes = (): number => {
+    const [hours, minutes] = getDayStart().split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+// --- Tracking Days ---
+
+/**
+ * The tracking day a moment belongs to (YYYY-MM-DD)
+ */
+export const getTrackingDate = (moment: Date | string | number = new Date()): LocalDateString => {
+    const shifted = new Date(moment instanceof Date ? moment.getTime() : moment);
+    // Wall-clock shift, so daylight saving changes don't move the boundary
+    shifted.setMinutes(shifted.getMinutes() - getDayStartMinutes());
+    return formatLocalDate(shifted);
+};
+
 /**
- * Calculate milliseconds until next midnight (local time)
+ * The moment a tracking day starts
+ */
+export const getDayStartTime = (date: LocalDateString): Date => {
+    const start = parseLocalDate(date);
+    start.setMinutes(getDayStartMinutes());
+    return start;
+};
+
+/**
+ * The moment an HH:MM time on a tracking day happened. Times before the day
+ * start fall on the next calendar day.
+ */
+export const getTrackingDateTime = (date: LocalDateString, time: string): Date => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const calendarDate = hours * 60 + minutes < getDayStartMinutes() ? addDays(date, 1) : date;
+    const moment = parseLocalDate(calendarDate);
+    moment.setHours(hours, minutes, 0, 0);
+    return moment;
+};
+
+/**
+ * Calculate milliseconds until the next tracking day starts
  */
 export const getMillisecondsUntilMidnight = (): number => {
     const now = new Date();
-    const tomorrow = new Date(now);
-    tomorrow.setHours(24, 0, 0, 0); // Set to midnight of next day
-    return tomorrow.getTime() - now.getTime();
+    return getDayStartTime(addDays(getTrackingDate(now), 1)).getTime() - now.getTime();
 };
 
 /**
- * Schedule a callback to run at midnight, and then reschedule itself
+ * Schedule a callback to run when the next tracking day starts, and then reschedule itself.
+ * Changing the day start reschedules it (and runs the callback when that changed today's date).
  * Returns a cleanup function to cancel the timer
  */
 export const scheduleAtMidnight = (callback: () => void): (() => void) => {
     let timeoutId: NodeJS.Timeout;
+    let currentDate = getCurrentDateString();
 
     const scheduleNext = () => {
         const msUntilMidnight = getMillisecondsUntilMidnight();
@@ -27,17 +117,30 @@ export const scheduleAtMidnight = (callback: () => void): (() => void) => {
 
         timeoutId = setTimeout(() => {
             console.log('🌙 Midnight detected! Running callback...');
+            currentDate = getCurrentDateString();
             callback();
             // Reschedule for next midnight
             scheduleNext();
         }, msUntilMidnight);
     };
 
+    const handleDayStartChange = () => {
+        clearTimeout(timeoutId);
+        if (currentDate !== getCurrentDateString()) {
+            currentDate = getCurrentDateString();
+            updateLastActiveDate();
+            callback();
+        }
+        scheduleNext();
+    };
+
     // Initial schedule
     scheduleNext();
+    window.addEventListener(DAY_START_CHANGED_EVENT, handleDayStartChange);
 
     // Return cleanup function
     return () => {
+        window.removeEventListener(DAY_START_CHANGED_EVENT, handleDayStartChange);
         if (timeoutId) {
             clearTimeout(timeoutId);
             console.log('⏰ Midnight timer canceled');
@@ -46,15 +149,14 @@ export const scheduleAtMidnight = (callback: () => void): (() => void) => {
 };
 
 /**
- * Get current date string in YYYY-MM-DD format (local time)
+ * Get the current tracking day in YYYY-MM-DD format (local time)
  */
-export const getCurrentDateString = (): string => {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const day = String(now.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-};
+export const getCurrentDateString = (): string => getTrackingDate(new Date());
+
+/**
+ * The tracking day `days` days before today
+ */
+export const daysAgo = (days: number): string => addDays(getCurrentDateString(), -days);
 
 const LAST_ACTIVE_DATE_KEY = 'snapcal_last_active_date';
 
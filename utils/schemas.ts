@@ -3,36 +3,44 @@
  * 
  * These schemas provide runtime validation for JSON responses from AI services.
  * This prevents crashes when the AI returns unexpected or malformed data.
+ * The JSON schemas sent to the model for structured output are generated
+ * from these too (services/ai/tasks.ts).
  */
 
 import { z } from 'zod';
 
+// Numbers sent as strings ("500") are read as numbers rather than replaced by the default
+const numeric = () => z.coerce.number();
+
+// Asked for as integers; a fractional answer is rounded rather than rejected
+const wholeNumber = () => numeric().overwrite(Math.round).int();
+
 // --- Food Analysis Schemas ---
 
 export const IngredientSchema = z.object({
     name: z.string().default('Unknown ingredient'),
-    grams: z.number().default(0),
-    calories: z.number().default(0),
+    grams: wholeNumber().default(0),
+    calories: wholeNumber().default(0),
 });
 
 export const AnalysisResultSchema = z.object({
     item: z.string().default('Unknown food'),
-    calories: z.number().default(0),
-    protein: z.number().default(0),
-    carbs: z.number().default(0),
-    fat: z.number().default(0),
-    confidence: z.number().min(0).max(1).default(0.5),
+    calories: wholeNumber().default(0),
+    protein: wholeNumber().default(0),
+    carbs: wholeNumber().default(0),
+    fat: wholeNumber().default(0),
+    confidence: numeric().min(0).max(1).default(0.5),
     ingredients: z.array(IngredientSchema).default([]),
 });
 
 // --- Recipe Calculation Schema ---
 
 export const RecipeResultSchema = z.object({
-    totalCalories: z.number().default(0),
-    caloriesPerServing: z.number().default(0),
-    proteinPerServing: z.number().default(0),
-    carbsPerServing: z.number().default(0),
-    fatPerServing: z.number().default(0),
+    totalCalories: wholeNumber().default(0),
+    caloriesPerServing: wholeNumber().default(0),
+    proteinPerServing: wholeNumber().default(0),
+    carbsPerServing: wholeNumber().default(0),
+    fatPerServing: wholeNumber().default(0),
     ingredients: z.array(IngredientSchema).default([]),
 });
 
@@ -49,6 +57,30 @@ export const AIReportResponseSchema = z.object({
     tips: z.array(CoachReportTipSchema).default([]),
 });
 
+// --- Shared Meal Schemas ---
+
+// Normalized 0-1000 coordinates; slightly out-of-frame values are clamped
+const BoxCoordinateSchema = numeric()
+    .overwrite(coord => Math.max(0, Math.min(1000, Math.round(coord))))
+    .int().min(0).max(1000);
+
+/** [ymin, xmin, ymax, xmax] */
+export const BoundingBoxSchema = z.array(BoxCoordinateSchema)
+    .length(4)
+    .refine(([ymin, xmin, ymax, xmax]) => ymin < ymax && xmin < xmax, 'Bounding box has no area');
+
+// No default box: a dish that can't be placed on the photo is dropped
+export const DetectedDishSchema = z.object({
+    dish_name: z.string().default('Unknown dish'),
+    bounding_box: BoundingBoxSchema,
+    estimated_total_calories: wholeNumber().default(0),
+    confidence_score: numeric().min(0).max(1).default(0.5),
+});
+
+export const SharedMealAnalysisSchema = z.object({
+    dishes: z.array(DetectedDishSchema).default([]),
+});
+
 // --- Type Exports (inferred from schemas) ---
 
 export type Ingredient = z.infer<typeof IngredientSchema>;
@@ -59,29 +91,79 @@ export type AIReportResponse = z.infer<typeof AIReportResponseSchema>;
 
 // --- Validation Helper ---
 
+// Each pass removes the fields the previous one rejected
+const MAX_REPAIR_PASSES = 5;
+
+type JsonContainer = Record<string | number, unknown>;
+
+const valueAt = (root: unknown, path: PropertyKey[]): unknown =>
+    path.reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as JsonContainer)[key as string] : undefined), root);
+
+/**
+ * Remove the fields named by the issues so their defaults apply. A field that
+ * was already removed, or has no default, takes the list item it belongs to
+ * with it (an ingredient, a dish). Returns false when the root itself is invalid.
+ */
+function repairFields(data: unknown, issues: z.core.$ZodIssue[], removed: Set<string>): boolean {
+    const drops = new Map<unknown[], Set<number>>();
+
+    for (const issue of issues) {
+        const path = issue.path;
+        if (path.length === 0) return false;
+
+        const parent = valueAt(data, path.slice(0, -1));
+        const key = path[path.length - 1];
+        const pathKey = path.join('.');
+        if (!removed.has(pathKey) && parent && typeof parent === 'object' && !Array.isArray(parent) && (key as string) in parent) {
+            delete (parent as JsonContainer)[key as string];
+            removed.add(pathKey);
+            continue;
+        }
+
+        let itemIndex = path.length - 1;
+        while (itemIndex >= 0 && typeof path[itemIndex] !== 'number') itemIndex--;
+        if (itemIndex < 0) return false;
+        const list = valueAt(data, path.slice(0, itemIndex));
+        if (!Array.isArray(list)) return false;
+        if (!drops.has(list)) drops.set(list, new Set());
+        drops.get(list)!.add(path[itemIndex] as number);
+    }
+
+    drops.forEach((indexes, list) => {
+        [...indexes].sort((a, b) => b - a).forEach(index => list.splice(index, 1));
+    });
+    return true;
+}
+
 /**
  * Safely parse JSON with Zod validation.
- * Returns the default values if parsing fails.
+ * Invalid fields fall back to their defaults one at a time, so one bad
+ * ingredient doesn't wipe out the rest of the answer. Returns the schema
+ * defaults only if the JSON is unreadable or can't be repaired.
  */
-export function safeParseAIResponse<T>(
-    schema: z.ZodType<T>,
+export function safeParseAIResponse<S extends z.ZodType>(
+    schema: S,
     jsonString: string,
     context: string = 'AI Response'
-): T {
+): z.infer<S> {
+    let data: unknown;
     try {
-        const parsed = JSON.parse(jsonString || '{}');
-        const result = schema.safeParse(parsed);
-
-        if (!result.success) {
-            console.warn(`[Zod Validation] ${context} had invalid fields:`, result.error.issues);
-            // Return with defaults applied
-            return schema.parse({});
-        }
-
-        return result.data;
+        data = JSON.parse(jsonString || '{}');
     } catch (error) {
         console.warn(`[Zod Validation] ${context} failed to parse JSON:`, error);
         // Return schema defaults
         return schema.parse({});
     }
+
+    const removed = new Set<string>();
+    for (let pass = 0; pass <= MAX_REPAIR_PASSES; pass++) {
+        const result = schema.safeParse(data);
+        if (result.success) return result.data;
+
+        console.warn(`[Zod Validation] ${context} had invalid fields:`, result.error.issues);
+        if (pass === MAX_REPAIR_PASSES || !repairFields(data, result.error.issues, removed)) break;
+    }
+
+    // Return schema defaults
+    return schema.parse({});
 }